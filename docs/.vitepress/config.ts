@@ -0,0 +1,21 @@
+import { defineConfig } from 'vitepress';
+import { terminalContainer } from './terminal';
+
+export default defineConfig({
+  markdown: {
+    config: md => md.use(terminalContainer),
+  },
+  vue: {
+    template: {
+      compilerOptions: {
+        isCustomElement: tag => tag === 'cloud-terminal',
+      },
+    },
+  },
+  vite: {
+    // The terminal is written in React; the docs are built without the React plugin.
+    esbuild: {
+      jsx: 'automatic',
+    },
+  },
+});
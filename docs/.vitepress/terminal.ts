@@ -0,0 +1,49 @@
+import type { MarkdownRenderer } from 'vitepress';
+
+// A `::: terminal` container that embeds a live sandbox in a docs page. Its
+// lines are typed into the terminal when the page loads, and the options
+// after the name are passed on to the <cloud-terminal> element:
+//
+//   ::: terminal commands="create instances describe" label="Instances"
+//   create instance web-1 compute
+//   instances list
+//   :::
+
+const OPEN = /^:::\s*terminal\b(.*)$/;
+const CLOSE = /^:::\s*$/;
+const OPTION = /([\w-]+)=(?:"([^"]*)"|'([^']*)')/g;
+const OPTIONS = ['commands', 'label', 'locale', 'state'];
+
+export const terminalContainer = (md: MarkdownRenderer) => {
+  md.block.ruler.before('fence', 'terminal', (state, startLine, endLine, silent) => {
+    const text = (line: number) => state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]);
+    const open = OPEN.exec(text(startLine));
+    if (!open) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+    let line = startLine + 1;
+    while (line < endLine && !CLOSE.test(text(line))) {
+      line++;
+    }
+    const token = state.push('terminal', 'cloud-terminal', 0);
+    token.info = open[1].trim();
+    token.content = state.getLines(startLine + 1, line, state.tShift[startLine], false);
+    token.map = [startLine, line + 1];
+    state.line = Math.min(line + 1, endLine);
+    return true;
+  }, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+
+  md.renderer.rules.terminal = (tokens, index) => {
+    const { info, content } = tokens[index];
+    const attributes = [...info.matchAll(OPTION)]
+      .filter(([, name]) => OPTIONS.includes(name))
+      .map(([, name, double, single]) => ` ${name}="${md.utils.escapeHtml(double ?? single)}"`);
+    if (content.trim()) {
+      attributes.push(` script="${md.utils.escapeHtml(content.trimEnd()).replace(/\n/g, '&#10;')}"`);
+    }
+    return `<cloud-terminal${attributes.join('')}></cloud-terminal>\n`;
+  };
+};
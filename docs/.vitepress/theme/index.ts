@@ -0,0 +1,12 @@
+import type { Theme } from 'vitepress';
+import DefaultTheme from 'vitepress/theme';
+
+export default {
+  extends: DefaultTheme,
+  enhanceApp() {
+    // Custom elements only exist in the browser; pages are rendered without them at build time.
+    if (!import.meta.env.SSR) {
+      import('../../../src/embed').then(({ defineCloudTerminal }) => defineCloudTerminal());
+    }
+  },
+} satisfies Theme;
@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { renderScreen, type TextStyle } from '../terminal';
+
+interface AnsiTextProps {
+  text: string;
+  className?: string;
+}
+
+const toCss = ({ fg, bg, bold, dim, italic, underline, inverse }: TextStyle): React.CSSProperties => {
+  // Inverse video swaps the colours; the terminal's black and green stand in for unset ones.
+  const color = inverse ? bg ?? '#000000' : fg;
+  const background = inverse ? fg ?? '#4ade80' : bg;
+  return {
+    color,
+    backgroundColor: background,
+    fontWeight: bold ? 'bold' : undefined,
+    opacity: dim ? 0.6 : undefined,
+    fontStyle: italic ? 'italic' : undefined,
+    textDecoration: underline ? 'underline' : undefined,
+  };
+};
+
+// Command output as a terminal would show it: colours, and cursor movement
+// that redraws what was printed before.
+function AnsiText({ text, className }: AnsiTextProps) {
+  const screen = useMemo(() => renderScreen(text), [text]);
+  return (
+    <div className={className}>
+      {screen.map((line, row) => (
+        <React.Fragment key={row}>
+          {row > 0 && '\n'}
+          {line.map((span, index) => Object.keys(span.style).length === 0
+            ? span.text
+            : <span key={index} style={toCss(span.style)}>{span.text}</span>)}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+export default AnsiText;
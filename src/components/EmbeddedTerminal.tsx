@@ -0,0 +1,87 @@
+import { useMemo, useState } from 'react';
+import { Cloud } from 'lucide-react';
+import Terminal from './Terminal';
+import {
+  createDefaultRegistry,
+  createInitialState,
+  setLocale,
+  type Command,
+  type CommandRegistry,
+  type Locale,
+  type SessionEffect,
+  type SessionState,
+} from '../terminal';
+
+export interface EmbeddedTerminalProps {
+  // Merged over a fresh session.
+  initialState?: Partial<SessionState>;
+  // The commands the sandbox offers, besides `help` and `clear`; every command when left out.
+  commands?: string[];
+  // Lines typed into the terminal, one after another, when it first appears.
+  script?: string;
+  title?: string;
+  // Sets LANG, over whatever initialState holds.
+  locale?: Locale;
+  registry?: CommandRegistry;
+}
+
+// Always available, so a restricted sandbox can still explain itself.
+const ESSENTIAL_COMMANDS = ['help', 'clear'];
+
+// A self-contained terminal for embedding in other pages, such as the docs.
+// Each one keeps its own session in memory: nothing is shared with other
+// embeds or the full simulator, and nothing is saved.
+function EmbeddedTerminal({ initialState, commands: allowed, script, title = 'Cloud Terminal', locale, registry: customRegistry }: EmbeddedTerminalProps) {
+  // Callers often pass a new array each render; the list of names is what matters.
+  const allowedKey = allowed?.join(' ');
+  const registry = useMemo(() => {
+    const base = customRegistry ?? createDefaultRegistry();
+    return allowedKey === undefined ? base : base.only([...allowedKey.split(' ').filter(Boolean), ...ESSENTIAL_COMMANDS]);
+  }, [customRegistry, allowedKey]);
+  const startState = () => {
+    const state = { ...createInitialState(), ...initialState };
+    return locale ? setLocale(state, locale) : state;
+  };
+  const [session, setSession] = useState<SessionState>(startState);
+  const [transcript, setTranscript] = useState<Command[]>([]);
+
+  // Sessions here are not saved, so of the session effects only resets apply.
+  const handleEffect = (effect: SessionEffect) => {
+    if (effect.type === 'reset-session') {
+      setSession(startState());
+      setTranscript([]);
+    }
+  };
+
+  return (
+    <div className="bg-black text-green-400 rounded-lg shadow-xl overflow-hidden">
+      <div className="bg-gray-800 px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 rounded-full bg-red-500"></div>
+          <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
+          <div className="w-3 h-3 rounded-full bg-green-500"></div>
+        </div>
+        <div className="flex items-center text-sm text-gray-400">
+          <Cloud className="w-4 h-4 mr-2" />
+          <span>{title}</span>
+        </div>
+        <div className="w-12"></div>
+      </div>
+
+      <Terminal
+        registry={registry}
+        session={session}
+        onSessionChange={setSession}
+        transcript={transcript}
+        onTranscriptChange={setTranscript}
+        onEffect={handleEffect}
+        script={script}
+        height="h-[360px]"
+        className="text-sm"
+        autoFocus={false}
+      />
+    </div>
+  );
+}
+
+export default EmbeddedTerminal;
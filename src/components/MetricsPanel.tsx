@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { sampleSeries, type Instance, type MetricSample } from '../terminal';
+
+interface MetricsPanelProps {
+  instances: Instance[];
+}
+
+const WINDOW = 5 * 60 * 1000;
+const POINTS = 40;
+
+const STATUS_COLORS: Record<NonNullable<Instance['status']>, string> = {
+  provisioning: 'bg-yellow-500 animate-pulse',
+  staging: 'bg-yellow-500 animate-pulse',
+  running: 'bg-green-500',
+  stopping: 'bg-yellow-500 animate-pulse',
+  stopped: 'bg-gray-500',
+  terminated: 'bg-gray-700',
+  error: 'bg-red-500',
+};
+
+function Sparkline({ samples, value, className }: { samples: MetricSample[]; value: (sample: MetricSample) => number; className: string }) {
+  const width = 120;
+  const height = 20;
+  const points = samples
+    .map((sample, index) => `${(index / (samples.length - 1)) * width},${height - (value(sample) / 100) * height}`)
+    .join(' ');
+  return (
+    <svg width={width} height={height} className={className}>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" />
+    </svg>
+  );
+}
+
+function MetricsPanel({ instances }: MetricsPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 2000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Buckets hold objects; they have no CPU or memory to chart.
+  const machines = instances.filter(instance => instance.type !== 'storage');
+  if (machines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800/30 px-4 py-2 border-b border-gray-700 text-xs text-gray-400 space-y-1">
+      {machines.map(instance => {
+        const samples = sampleSeries(instance, now - WINDOW, now, POINTS);
+        const latest = samples[samples.length - 1];
+        return (
+          <div key={instance.id} className="flex items-center gap-3">
+            <span className={`w-2 h-2 rounded-full ${instance.status ? STATUS_COLORS[instance.status] : ''}`}></span>
+            <span className="w-24 truncate text-gray-300">{instance.name}</span>
+            <Activity className="w-3 h-3" />
+            <span className="w-20">CPU {latest.cpu.toFixed(0)}%</span>
+            <Sparkline samples={samples} value={sample => sample.cpu} className="text-green-400" />
+            <span className="w-20">MEM {latest.memory.toFixed(0)}%</span>
+            <Sparkline samples={samples} value={sample => sample.memory} className="text-blue-400" />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default MetricsPanel;
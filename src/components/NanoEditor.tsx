@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+
+interface NanoEditorProps {
+  path: string;
+  content: string;
+  onSave: (content: string) => string | null;
+  onExit: () => void;
+}
+
+function NanoEditor({ path, content: initialContent, onSave, onExit }: NanoEditorProps) {
+  const [content, setContent] = useState(initialContent);
+  const [status, setStatus] = useState('');
+  const modified = content !== initialContent;
+
+  const save = () => {
+    const error = onSave(content);
+    setStatus(error ?? `[ Wrote ${content.split('\n').length} lines ]`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!e.ctrlKey) {
+      return;
+    }
+    const key = e.key.toLowerCase();
+    if (key === 'o' || key === 's') {
+      e.preventDefault();
+      save();
+    } else if (key === 'x') {
+      e.preventDefault();
+      onExit();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full font-mono text-sm">
+      <div className="bg-gray-300 text-black px-2 flex justify-between">
+        <span>GNU nano 7.2</span>
+        <span>{path}{modified ? ' *' : ''}</span>
+        <span />
+      </div>
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 bg-black text-white outline-none resize-none p-2"
+        spellCheck={false}
+        autoFocus
+      />
+      <div className="text-center text-gray-300 h-5">{status}</div>
+      <div className="flex space-x-6 text-gray-300">
+        <span><span className="bg-gray-300 text-black">^O</span> Write Out</span>
+        <span><span className="bg-gray-300 text-black">^X</span> Exit</span>
+      </div>
+    </div>
+  );
+}
+
+export default NanoEditor;
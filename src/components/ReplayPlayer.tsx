@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import { CastError, parseCast, playbackTimes, renderOutput } from '../terminal';
+
+interface ReplayPlayerProps {
+  path: string;
+  content: string;
+  speed: number;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const TICK = 50;
+
+const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+function ReplayPlayer({ path, content, speed: initialSpeed, onExit }: ReplayPlayerProps) {
+  const { cast, error } = useMemo(() => {
+    try {
+      return { cast: parseCast(content), error: null };
+    } catch (e) {
+      if (e instanceof CastError) {
+        return { cast: null, error: e.message };
+      }
+      throw e;
+    }
+  }, [content]);
+  const times = useMemo(() => cast ? playbackTimes(cast) : [], [cast]);
+  const duration = times.length > 0 ? times[times.length - 1] : 0;
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(initialSpeed);
+  const screenRef = useRef<HTMLPreElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    rootRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    const interval = setInterval(() => {
+      setPosition(prev => Math.min(prev + (TICK / 1000) * speed, duration));
+    }, TICK);
+    return () => clearInterval(interval);
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (position >= duration) {
+      setPlaying(false);
+    }
+  }, [position, duration]);
+
+  const screen = useMemo(() => {
+    if (!cast) {
+      return '';
+    }
+    let data = '';
+    for (let i = 0; i < cast.events.length && times[i] <= position; i++) {
+      if (cast.events[i][1] === 'o') {
+        data += cast.events[i][2];
+      }
+    }
+    return renderOutput(data);
+  }, [cast, times, position]);
+
+  useEffect(() => {
+    if (screenRef.current) {
+      screenRef.current.scrollTop = screenRef.current.scrollHeight;
+    }
+  }, [screen]);
+
+  const togglePlaying = () => {
+    if (!playing && position >= duration) {
+      setPosition(0);
+    }
+    setPlaying(!playing);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === ' ') {
+      e.preventDefault();
+      togglePlaying();
+    } else if (e.key === 'q' || e.key === 'Escape') {
+      e.preventDefault();
+      onExit();
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      const step = e.key === 'ArrowRight' ? 5 : -5;
+      setPosition(prev => Math.max(0, Math.min(duration, prev + step)));
+    }
+  };
+
+  return (
+    <div ref={rootRef} tabIndex={0} onKeyDown={handleKeyDown} className="flex flex-col h-full font-mono text-sm outline-none">
+      <div className="bg-gray-800 text-gray-300 px-2 py-1 flex justify-between">
+        <span>Replay: {cast?.header.title ?? path}</span>
+        <button onClick={onExit} className="hover:text-white" title="Exit (q)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {error ? (
+        <div className="flex-1 p-2 text-red-400">{path}: {error}</div>
+      ) : (
+        <pre ref={screenRef} className="flex-1 overflow-y-auto p-2 text-green-400 whitespace-pre-wrap">{screen}</pre>
+      )}
+      <div className="flex items-center space-x-3 px-2 py-1 bg-gray-800 text-gray-300">
+        <button onClick={togglePlaying} className="hover:text-white" title={playing ? 'Pause (space)' : 'Play (space)'}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => setPosition(0)} className="hover:text-white" title="Restart">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={position}
+          onChange={e => setPosition(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-xs w-24 text-right">{formatClock(position)} / {formatClock(duration)}</span>
+        <div className="flex space-x-1 text-xs">
+          {SPEEDS.map(value => (
+            <button
+              key={value}
+              onClick={() => setSpeed(value)}
+              className={`px-1 rounded ${value === speed ? 'bg-gray-300 text-black' : 'hover:text-white'}`}
+            >
+              {value}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReplayPlayer;
@@ -0,0 +1,67 @@
+import { CheckCircle2, Circle, GraduationCap, Lightbulb } from 'lucide-react';
+import { t, type Locale, type ScenarioProgress } from '../terminal';
+
+interface ScenarioPanelProps {
+  progress: ScenarioProgress;
+  locale?: Locale;
+}
+
+function ScenarioPanel({ progress, locale = 'en' }: ScenarioPanelProps) {
+  const { scenario, completed, hints } = progress;
+  const total = scenario.objectives.length;
+  const current = scenario.objectives[completed];
+
+  return (
+    <aside className="w-80 shrink-0 bg-gray-800 rounded-lg p-4 text-gray-300 self-start">
+      <div className="flex items-center text-white mb-2">
+        <GraduationCap className="w-5 h-5 me-2" />
+        <h2 className="font-bold">{scenario.title}</h2>
+      </div>
+      {scenario.description && (
+        <p className="text-sm text-gray-400 mb-3 whitespace-pre-wrap">{scenario.description}</p>
+      )}
+
+      <div className="text-xs text-gray-400 mb-1">{t(locale, 'scenario.objectives', { completed, total })}</div>
+      <div className="h-2 bg-gray-700 rounded-full mb-4 overflow-hidden">
+        <div className="h-full bg-green-500 transition-all" style={{ width: `${(completed / total) * 100}%` }}></div>
+      </div>
+
+      <ol className="space-y-2 text-sm">
+        {scenario.objectives.map((objective, index) => (
+          <li key={index} className={index > completed ? 'text-gray-500' : undefined}>
+            <div className="flex items-start">
+              {index < completed ? (
+                <CheckCircle2 className="w-4 h-4 me-2 mt-0.5 shrink-0 text-green-400" />
+              ) : (
+                <Circle className={`w-4 h-4 me-2 mt-0.5 shrink-0 ${index === completed ? 'text-yellow-400' : ''}`} />
+              )}
+              <span className={index === completed ? 'text-white' : undefined}>{objective.title}</span>
+            </div>
+            {index === completed && objective.description && (
+              <p className="ms-6 mt-1 text-xs text-gray-400 whitespace-pre-wrap">{objective.description}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {current && hints > 0 && (
+        <div className="mt-4 space-y-1">
+          {current.hints.slice(0, hints).map((hint, index) => (
+            <div key={index} className="flex items-start text-xs text-yellow-200">
+              <Lightbulb className="w-3 h-3 me-2 mt-0.5 shrink-0" />
+              <span className="font-mono">{hint}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 text-xs text-gray-500">
+        {current
+          ? t(locale, 'scenario.footer')
+          : <span className="text-green-400">{t(locale, 'scenario.complete')}</span>}
+      </div>
+    </aside>
+  );
+}
+
+export default ScenarioPanel;
@@ -0,0 +1,383 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import AnsiText from './AnsiText';
+import NanoEditor from './NanoEditor';
+import ReplayPlayer from './ReplayPlayer';
+import TerminalInput from './TerminalInput';
+import {
+  activeConnection,
+  advanceSimulation,
+  appendEvent,
+  CLEAR_SCREEN,
+  completeLine,
+  displayPath,
+  echoEdit,
+  executeInteractive,
+  FsError,
+  getTimestamp,
+  needsContinuation,
+  promptText,
+  terminalText,
+  writeFileAt,
+  type Command,
+  type CommandRegistry,
+  type CommandResult,
+  type SessionEffect,
+  type SessionState,
+} from '../terminal';
+import { downloadFile } from '../utils/download';
+
+export interface TerminalProps {
+  registry: CommandRegistry;
+  session: SessionState;
+  onSessionChange: React.Dispatch<React.SetStateAction<SessionState>>;
+  transcript: Command[];
+  onTranscriptChange: React.Dispatch<React.SetStateAction<Command[]>>;
+  // Session effects other than downloads, which the terminal starts itself.
+  onEffect?: (effect: SessionEffect) => void;
+  // Lines typed into the terminal, one after another, when it first appears.
+  script?: string;
+  // Shown above the transcript.
+  banner?: React.ReactNode;
+  // Tailwind height of the terminal area, such as `h-[500px]`.
+  height: string;
+  className?: string;
+  // Off for terminals embedded in a page, which should not take focus until used.
+  autoFocus?: boolean;
+}
+
+const renderPrompt = (path: string, host?: string) => host ? (
+  <>
+    <span className="text-green-400">{host}</span>
+    <span className="text-gray-400">:</span>
+    <span className="text-blue-400">{path}</span>
+    <span className="mr-2 text-gray-400">$</span>
+  </>
+) : (
+  <>
+    <span className="text-blue-400">{path}</span>
+    <span className="mx-2 text-gray-400">$</span>
+  </>
+);
+
+const shellPrompt = (state: SessionState) => {
+  const open = activeConnection(state);
+  return promptText(displayPath(state.currentPath, state.env.HOME), open && `${open.user}@${open.host}`);
+};
+
+// The terminal itself: transcript, prompt and the line being run, with the
+// editor and replay player taking its place while open. The session and the
+// transcript belong to the caller, which decides how they are kept.
+function Terminal({
+  registry,
+  session,
+  onSessionChange: setSession,
+  transcript,
+  onTranscriptChange: setTranscript,
+  onEffect,
+  script,
+  banner,
+  height,
+  className = '',
+  autoFocus = true,
+}: TerminalProps) {
+  const [currentInput, setCurrentInput] = useState('');
+  const [pendingInput, setPendingInput] = useState<string | null>(null);
+  const [editor, setEditor] = useState<CommandResult['editor']>();
+  const [replay, setReplay] = useState<CommandResult['replay']>();
+  const [running, setRunning] = useState<{ input: string; path: string; host?: string; display?: string; prompt?: string } | null>(null);
+  const [answer, setAnswer] = useState('');
+  // Lines of a multi-line paste still to run, one after another, and the unfinished last one.
+  const [pasted, setPasted] = useState<{ lines: string[]; rest: string } | null>(() => {
+    const lines = script?.split('\n').filter(line => line.trim()) ?? [];
+    return lines.length > 0 ? { lines, rest: '' } : null;
+  });
+  const [focused, setFocused] = useState(autoFocus);
+  const currentPath = displayPath(session.currentPath, session.env.HOME);
+  const connection = activeConnection(session);
+  const currentHost = connection && `${connection.user}@${connection.host}`;
+  const rootRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const answerRef = useRef<((answer: string) => void) | null>(null);
+
+  // While `record start` is active, everything the terminal shows is appended to the recording.
+  const recordOutput = (data: string | ((state: SessionState) => string)) => {
+    setSession(prev => prev.recording
+      ? { ...prev, recording: appendEvent(prev.recording, Date.now(), typeof data === 'string' ? data : data(prev)) }
+      : prev);
+  };
+
+  const appendOutput = (input: string, output: string) => {
+    setTranscript(prev => [...prev, { input, output, timestamp: getTimestamp(), path: currentPath, host: currentHost }]);
+    recordOutput(s => `\r\n${terminalText(output)}\r\n${shellPrompt(s)}${input}`);
+  };
+
+  const handleCommand = async (input: string) => {
+    const path = currentPath;
+    const host = currentHost;
+    const wasRecording = session.recording !== undefined;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning({ input, path, host });
+    const result = await executeInteractive(registry, input, session, {
+      onUpdate: setSession,
+      onDisplay: display => setRunning(prev => prev && { ...prev, display }),
+      onPrompt: question => new Promise(resolve => {
+        answerRef.current = resolve;
+        setRunning(prev => prev && { ...prev, prompt: question });
+      }),
+      signal: controller.signal,
+    });
+    abortRef.current = null;
+    setRunning(null);
+
+    if (result.editor) {
+      setEditor(result.editor);
+    }
+
+    if (result.replay) {
+      setReplay(result.replay);
+    }
+
+    if (result.effect?.type === 'download-file') {
+      downloadFile(result.effect.filename, result.effect.content, result.effect.mimeType);
+    } else if (result.effect) {
+      onEffect?.(result.effect);
+      if (result.effect.type === 'reset-session') {
+        return;
+      }
+    }
+
+    if (result.clear) {
+      setTranscript([]);
+      recordOutput(s => CLEAR_SCREEN + shellPrompt(s));
+      return;
+    }
+
+    const command: Command = {
+      input,
+      output: controller.signal.aborted ? [result.output, '^C'].filter(Boolean).join('\n') : result.output,
+      timestamp: getTimestamp(),
+      path,
+      host,
+    };
+
+    setTranscript(prev => [...prev, command]);
+    // A recording begins at the prompt after `record start`, without its message.
+    recordOutput(s => (wasRecording && command.output ? `${terminalText(command.output)}\r\n` : '') + shellPrompt(s));
+  };
+
+  const handleInputChange = (value: string) => {
+    if (session.recording) {
+      recordOutput(echoEdit(currentInput, value));
+    }
+    setCurrentInput(value);
+  };
+
+  const handleSubmit = (line: string) => {
+    const input = pendingInput !== null ? `${pendingInput}\n${line}` : line;
+    recordOutput(`${echoEdit(currentInput, line)}\r\n`);
+    setCurrentInput('');
+
+    if (needsContinuation(input)) {
+      setPendingInput(input);
+      recordOutput('> ');
+      return;
+    }
+
+    setPendingInput(null);
+    if (input.trim()) {
+      handleCommand(input);
+    } else {
+      recordOutput(shellPrompt);
+    }
+  };
+
+  const handleCancel = (line: string) => {
+    const input = pendingInput !== null ? `${pendingInput}\n${line}` : line;
+    setTranscript(prev => [...prev, { input: `${input}^C`, output: '', timestamp: getTimestamp(), path: currentPath, host: currentHost }]);
+    recordOutput(s => `${echoEdit(currentInput, line)}^C\r\n${shellPrompt(s)}`);
+    setPendingInput(null);
+    setCurrentInput('');
+    setPasted(null);
+  };
+
+  const handleClear = () => {
+    setTranscript([]);
+    recordOutput(s => CLEAR_SCREEN + shellPrompt(s) + currentInput);
+  };
+
+  const handleAnswer = (line: string) => {
+    setAnswer('');
+    setRunning(prev => prev && { ...prev, prompt: undefined });
+    answerRef.current?.(line);
+    answerRef.current = null;
+  };
+
+  const handleEditorSave = (path: string, content: string) => {
+    try {
+      writeFileAt(session.fs, path, content);
+    } catch (error) {
+      if (error instanceof FsError) {
+        return `[ Error writing ${path}: ${error.message} ]`;
+      }
+      throw error;
+    }
+    setSession(prev => ({ ...prev, fs: writeFileAt(prev.fs, path, content) }));
+    return null;
+  };
+
+  // Ctrl+C interrupts the running line. Only this terminal's keys count, as a page can hold several.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (running && e.ctrlKey && e.key.toLowerCase() === 'c' && !window.getSelection()?.toString()) {
+      e.preventDefault();
+      abortRef.current?.abort();
+      setPasted(null);
+    }
+  };
+
+  // The handlers are new on every render; effects reach the latest ones here
+  // so that they run only when what they watch changes.
+  const handlersRef = useRef({ appendOutput, handleInputChange, handleSubmit });
+  useLayoutEffect(() => {
+    handlersRef.current = { appendOutput, handleInputChange, handleSubmit };
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setSession(prev => advanceSimulation(prev, Date.now()));
+    }, 500);
+    return () => clearInterval(interval);
+  }, [setSession]);
+
+  // Budget alerts and other notices raised by the simulation are printed as they arrive.
+  useEffect(() => {
+    if (session.notices.length === 0) {
+      return;
+    }
+    handlersRef.current.appendOutput('', session.notices.join('\n'));
+    setSession(prev => ({ ...prev, notices: prev.notices.slice(session.notices.length) }));
+  }, [session.notices, setSession]);
+
+  // Feeds a multi-line paste to the shell a line at a time, waiting for each command to finish.
+  useEffect(() => {
+    if (!pasted || running) {
+      return;
+    }
+    const [next, ...lines] = pasted.lines;
+    if (next === undefined) {
+      handlersRef.current.handleInputChange(pasted.rest);
+      setPasted(null);
+      return;
+    }
+    setPasted({ lines, rest: pasted.rest });
+    handlersRef.current.handleSubmit(next);
+  }, [pasted, running]);
+
+  // Keep Ctrl+C reaching the terminal while the input is replaced by the running command.
+  const isRunning = running !== null;
+  useEffect(() => {
+    if (isRunning && focused) {
+      rootRef.current?.focus();
+    }
+  }, [isRunning, focused]);
+
+  useEffect(() => {
+    if (terminalRef.current) {
+      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
+    }
+  }, [transcript, running]);
+
+  return (
+    // Commands are typed left to right whatever the language of the page around it.
+    <div ref={rootRef} dir="ltr" tabIndex={-1} onFocus={() => setFocused(true)} onKeyDown={handleKeyDown} className="outline-none text-left">
+      {editor ? (
+        <div className={`p-2 ${height}`}>
+          <NanoEditor
+            key={editor.path}
+            path={editor.path}
+            content={editor.content}
+            onSave={(content) => handleEditorSave(editor.path, content)}
+            onExit={() => setEditor(undefined)}
+          />
+        </div>
+      ) : replay ? (
+        <div className={height}>
+          <ReplayPlayer
+            key={replay.path}
+            path={replay.path}
+            content={replay.content}
+            speed={replay.speed}
+            onExit={() => setReplay(undefined)}
+          />
+        </div>
+      ) : (
+      <div ref={terminalRef} className={`p-4 ${height} overflow-y-auto font-mono ${className}`}>
+        {banner}
+
+        {transcript.map((cmd, index) => (
+          <div key={index} className="mb-2">
+            {cmd.input && (
+              <div className="flex items-start text-gray-400">
+                {renderPrompt(cmd.path, cmd.host)}
+                <span className="text-white whitespace-pre-wrap">{cmd.input}</span>
+              </div>
+            )}
+            {cmd.output && (
+              <AnsiText className="mt-1 whitespace-pre-wrap" text={cmd.output} />
+            )}
+          </div>
+        ))}
+
+        {pendingInput !== null && (
+          <div className="text-white whitespace-pre-wrap">
+            {renderPrompt(currentPath, currentHost)}
+            {pendingInput.split('\n').join('\n> ')}
+          </div>
+        )}
+
+        {running ? (
+          <div className="mt-2">
+            <div className="flex items-start text-gray-400">
+              {renderPrompt(running.path, running.host)}
+              <span className="text-white whitespace-pre-wrap">{running.input}</span>
+              {running.display === undefined && running.prompt === undefined && <span className="ml-1 w-2 h-5 bg-gray-400 animate-pulse"></span>}
+            </div>
+            {running.display !== undefined && (
+              <AnsiText className="mt-1 whitespace-pre-wrap" text={running.display} />
+            )}
+            {running.prompt !== undefined && (
+              <TerminalInput
+                value={answer}
+                onChange={setAnswer}
+                onSubmit={handleAnswer}
+                history={[]}
+                prompt={<span className="whitespace-pre text-white">{running.prompt}</span>}
+                autoFocus={focused}
+              />
+            )}
+          </div>
+        ) : (
+        <TerminalInput
+          value={currentInput}
+          onChange={handleInputChange}
+          onSubmit={handleSubmit}
+          history={session.history}
+          complete={(line) => completeLine(registry, line, session)}
+          onListCompletions={(line, candidates) => appendOutput(line, candidates.join('  '))}
+          onCancel={handleCancel}
+          onClear={handleClear}
+          onPasteLines={(lines, rest) => setPasted({ lines, rest })}
+          prompt={pendingInput !== null ? (
+            <span className="mr-2 text-gray-400">&gt;</span>
+          ) : renderPrompt(currentPath, currentHost)}
+          autoFocus={focused}
+        />
+        )}
+      </div>
+      )}
+    </div>
+  );
+}
+
+export default Terminal;
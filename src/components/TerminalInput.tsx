@@ -0,0 +1,263 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { searchHistory, type CompletionResult } from '../terminal';
+
+interface TerminalInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (value: string) => void;
+  history: string[];
+  prompt: React.ReactNode;
+  complete?: (line: string) => CompletionResult;
+  onListCompletions?: (line: string, candidates: string[]) => void;
+  // Ctrl+C: abandon the line.
+  onCancel?: (line: string) => void;
+  // Ctrl+L: clear the screen, keeping the line.
+  onClear?: () => void;
+  // Pasted text spanning lines: the complete lines to run, and what is left to edit.
+  onPasteLines?: (lines: string[], rest: string) => void;
+  // Off for terminals embedded in a page, which should not take focus until used.
+  autoFocus?: boolean;
+}
+
+interface SearchState {
+  query: string;
+  index: number;
+  original: string;
+}
+
+// The start of the word before `position`, as Ctrl+W deletes back to it.
+const wordStart = (line: string, position: number) => {
+  let start = position;
+  while (start > 0 && line[start - 1] === ' ') {
+    start--;
+  }
+  while (start > 0 && line[start - 1] !== ' ') {
+    start--;
+  }
+  return start;
+};
+
+function TerminalInput({
+  value,
+  onChange,
+  onSubmit,
+  history,
+  prompt,
+  complete,
+  onListCompletions,
+  onCancel,
+  onClear,
+  onPasteLines,
+  autoFocus = true,
+}: TerminalInputProps) {
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [search, setSearch] = useState<SearchState | null>(null);
+  const unchangedTabs = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Where to put the cursor once an edit has been rendered.
+  const pendingCursor = useRef<number | null>(null);
+
+  useLayoutEffect(() => {
+    if (pendingCursor.current !== null) {
+      inputRef.current?.setSelectionRange(pendingCursor.current, pendingCursor.current);
+      pendingCursor.current = null;
+    }
+  });
+
+  const match = search && search.index >= 0 ? history[search.index] : '';
+
+  const recall = (index: number | null) => {
+    setHistoryIndex(index);
+    onChange(index === null ? draft : history[index]);
+  };
+
+  const updateSearch = (query: string, before = history.length) => {
+    setSearch(prev => prev && { ...prev, query, index: searchHistory(history, query, before) });
+  };
+
+  const reset = () => {
+    setHistoryIndex(null);
+    setDraft('');
+    setSearch(null);
+  };
+
+  const submit = (line: string) => {
+    reset();
+    onSubmit(line);
+  };
+
+  const moveCursor = (position: number) => {
+    inputRef.current?.setSelectionRange(position, position);
+  };
+
+  const edit = (line: string, cursor: number) => {
+    pendingCursor.current = cursor;
+    onChange(line);
+  };
+
+  // Readline's Ctrl shortcuts; returns false for keys left to the browser.
+  const handleControlKey = (key: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    switch (key) {
+      case 'a':
+        moveCursor(0);
+        return true;
+      case 'e':
+        moveCursor(value.length);
+        return true;
+      case 'u':
+        edit(value.slice(end), 0);
+        return true;
+      case 'k':
+        edit(value.slice(0, start), start);
+        return true;
+      case 'w': {
+        const from = wordStart(value, start);
+        edit(value.slice(0, from) + value.slice(end), from);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const handleSearchKey = (e: React.KeyboardEvent<HTMLInputElement>, current: SearchState) => {
+    e.preventDefault();
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      updateSearch(current.query, current.index >= 0 ? current.index : history.length);
+    } else if (e.key === 'Escape' || (e.ctrlKey && e.key.toLowerCase() === 'g')) {
+      setSearch(null);
+      onChange(current.original);
+    } else if (e.key === 'Enter') {
+      submit(match || current.original);
+    } else if (e.key === 'Backspace') {
+      updateSearch(current.query.slice(0, -1));
+    } else if (e.key.startsWith('Arrow') || e.key === 'Tab') {
+      setSearch(null);
+      onChange(match || current.original);
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+      updateSearch(current.query + e.key, current.index >= 0 ? current.index + 1 : history.length);
+    }
+  };
+
+  // Like readline: a Tab that completes nothing does nothing the first time and
+  // lists the candidates on the second consecutive press.
+  const handleTab = () => {
+    if (!complete) {
+      return;
+    }
+    const result = complete(value);
+    if (result.line !== value) {
+      unchangedTabs.current = 0;
+      onChange(result.line);
+      return;
+    }
+    unchangedTabs.current++;
+    if (unchangedTabs.current >= 2 && result.candidates.length > 1) {
+      unchangedTabs.current = 0;
+      onListCompletions?.(value, result.candidates);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const control = e.ctrlKey && !e.altKey && !e.metaKey ? e.key.toLowerCase() : null;
+    // With text selected, Ctrl+C copies it instead.
+    const selecting = e.currentTarget.selectionStart !== e.currentTarget.selectionEnd || !!window.getSelection()?.toString();
+    if (control === 'c' && onCancel && !selecting) {
+      e.preventDefault();
+      const line = search ? match || search.original : value;
+      reset();
+      onCancel(line);
+      return;
+    }
+    if (control === 'l' && onClear) {
+      e.preventDefault();
+      onClear();
+      return;
+    }
+
+    if (search) {
+      handleSearchKey(e, search);
+      return;
+    }
+
+    if (control && handleControlKey(control)) {
+      e.preventDefault();
+      unchangedTabs.current = 0;
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      handleTab();
+      return;
+    }
+    unchangedTabs.current = 0;
+
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setSearch({ query: '', index: -1, original: value });
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (history.length === 0) {
+        return;
+      }
+      if (historyIndex === null) {
+        setDraft(value);
+        recall(history.length - 1);
+      } else {
+        recall(Math.max(historyIndex - 1, 0));
+      }
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (historyIndex === null) {
+        return;
+      }
+      recall(historyIndex + 1 >= history.length ? null : historyIndex + 1);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text').replace(/\r\n?/g, '\n');
+    if (!onPasteLines || search || !text.includes('\n')) {
+      return;
+    }
+    e.preventDefault();
+    const start = e.currentTarget.selectionStart ?? value.length;
+    const end = e.currentTarget.selectionEnd ?? value.length;
+    const lines = (value.slice(0, start) + text + value.slice(end)).split('\n');
+    const rest = lines.pop()!;
+    reset();
+    onPasteLines(lines, rest);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(value);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center mt-2">
+      {search ? (
+        <span className="mr-2 text-gray-400">
+          {search.query && search.index < 0 ? '(failed reverse-i-search)' : '(reverse-i-search)'}`{search.query}':
+        </span>
+      ) : prompt}
+      <input
+        ref={inputRef}
+        type="text"
+        value={search ? match : value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        readOnly={search !== null}
+        className="flex-1 bg-transparent outline-none text-white"
+        autoFocus={autoFocus}
+      />
+    </form>
+  );
+}
+
+export default TerminalInput;
@@ -0,0 +1,63 @@
+import { createRoot, type Root } from 'react-dom/client';
+import EmbeddedTerminal from './components/EmbeddedTerminal';
+import { isLocale, type SessionState } from './terminal';
+import styles from './index.css?inline';
+
+// `<cloud-terminal>`: the embeddable terminal as a custom element, for pages
+// that are not React apps, like the docs site.
+//
+//   <cloud-terminal commands="ls cat mkdir" label="Files" script="mkdir demo&#10;ls"></cloud-terminal>
+//
+// `commands` lists the commands on offer, `script` holds lines to run when it
+// appears, `label` goes in the title bar, `locale` picks the language of the
+// simulator's messages and `state` is a JSON object merged over a fresh
+// session, left out when it does not parse. Each element keeps its own
+// session, and its own styles in a shadow root so the page's styles and the
+// terminal's leave each other alone.
+class CloudTerminalElement extends HTMLElement {
+  private root?: Root;
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    if (!shadow.firstChild) {
+      const style = document.createElement('style');
+      style.textContent = styles;
+      shadow.append(style, document.createElement('div'));
+    }
+    const commands = this.getAttribute('commands')?.split(/[\s,]+/).filter(Boolean);
+    const locale = this.getAttribute('locale') ?? '';
+    this.root = createRoot(shadow.lastChild as HTMLDivElement);
+    this.root.render(
+      <EmbeddedTerminal
+        commands={commands}
+        script={this.getAttribute('script') ?? undefined}
+        title={this.getAttribute('label') ?? undefined}
+        locale={isLocale(locale) ? locale : undefined}
+        initialState={this.initialState()}
+      />
+    );
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = undefined;
+  }
+
+  private initialState() {
+    const state = this.getAttribute('state');
+    if (!state) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(state) as Partial<SessionState>;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const defineCloudTerminal = (name = 'cloud-terminal') => {
+  if (!customElements.get(name)) {
+    customElements.define(name, CloudTerminalElement);
+  }
+};
@@ -0,0 +1,9 @@
+import { parseScenario, type Scenario } from '../terminal';
+
+// Every .yaml, .yml and .json file in this directory is a scenario; drop a
+// file here to add one. See first-instance.yaml for the format.
+const sources = import.meta.glob<string>('./*.{json,yaml,yml}', { query: '?raw', import: 'default', eager: true });
+
+export const scenarios: Scenario[] = Object.entries(sources)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([path, source]) => parseScenario(source, path.slice(2)));
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { color256, renderScreen, screenText, stripAnsi, style, visibleLength } from './ansi';
+
+describe('style', () => {
+  it('wraps text in SGR codes and strips back to the text', () => {
+    const text = style('ok', 'bold', 'green');
+    expect(text).toBe('\x1b[1;32mok\x1b[0m');
+    expect(stripAnsi(`[${text}]`)).toBe('[ok]');
+    expect(visibleLength(text)).toBe(2);
+    expect(style('', 'red')).toBe('');
+  });
+});
+
+describe('color256', () => {
+  it('covers the base colours, the cube and the greys', () => {
+    expect(color256(1)).toBe('#cd3131');
+    expect(color256(196)).toBe('rgb(255, 0, 0)');
+    expect(color256(232)).toBe('rgb(8, 8, 8)');
+  });
+});
+
+describe('renderScreen', () => {
+  it('splits styled text into spans', () => {
+    expect(renderScreen('a\x1b[31mb\x1b[0mc')).toEqual([[
+      { text: 'a', style: {} },
+      { text: 'b', style: { fg: '#cd3131' } },
+      { text: 'c', style: {} },
+    ]]);
+    expect(renderScreen('\x1b[38;2;1;2;3mx')[0][0].style).toEqual({ fg: 'rgb(1, 2, 3)' });
+  });
+
+  it('redraws lines after moving the cursor home', () => {
+    expect(screenText(renderScreen('one\ntwo\n\x1b[HONE\x1b[K\n\x1b[2K'))).toBe('ONE\n\n');
+    expect(screenText(renderScreen('progress 10%\rprogress 99%'))).toBe('progress 99%');
+  });
+
+  it('moves the cursor within and between lines', () => {
+    expect(screenText(renderScreen('abc\x1b[2Dx\x1b[1Ey'))).toBe('axc\ny');
+    expect(screenText(renderScreen('old\x1b[2Jnew'))).toBe('new');
+  });
+});
@@ -0,0 +1,270 @@
+// ANSI escape sequences: helpers for commands that colour their output, and a
+// small screen model that turns what a command printed into styled lines.
+
+export type Color = 'black' | 'red' | 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'white' | 'gray';
+
+export type Attribute = Color | 'bold' | 'dim' | 'italic' | 'underline' | 'inverse';
+
+const SGR_CODES: Record<Attribute, number> = {
+  bold: 1,
+  dim: 2,
+  italic: 3,
+  underline: 4,
+  inverse: 7,
+  black: 30,
+  red: 31,
+  green: 32,
+  yellow: 33,
+  blue: 34,
+  magenta: 35,
+  cyan: 36,
+  white: 37,
+  gray: 90,
+};
+
+const ESC = '\u001b';
+
+const ESCAPE = new RegExp(`${ESC}\\[[0-9;?]*[A-Za-z]`, 'g');
+const SEQUENCE = new RegExp(`^${ESC}\\[([0-9;?]*)([A-Za-z])`);
+
+// Wraps `text` in SGR sequences for `attributes`, resetting afterwards.
+export const style = (text: string, ...attributes: Attribute[]) => {
+  if (!text || attributes.length === 0) {
+    return text;
+  }
+  return `${ESC}[${attributes.map(attribute => SGR_CODES[attribute]).join(';')}m${text}${ESC}[0m`;
+};
+
+export const stripAnsi = (text: string) => text.replace(ESCAPE, '');
+
+// Columns `text` takes up once its escape sequences are interpreted.
+export const visibleLength = (text: string) => stripAnsi(text).length;
+
+export interface TextStyle {
+  // CSS colours.
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+export interface Span {
+  text: string;
+  style: TextStyle;
+}
+
+// xterm's default palette: the 8 normal colours, then their bright variants.
+const PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+];
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+// Colour `index` of the 256-colour palette: the 16 above, a 6x6x6 cube, then 24 greys.
+export const color256 = (index: number) => {
+  if (index < 16) {
+    return PALETTE[index];
+  }
+  if (index < 232) {
+    const cube = index - 16;
+    return `rgb(${CUBE_LEVELS[Math.floor(cube / 36)]}, ${CUBE_LEVELS[Math.floor(cube / 6) % 6]}, ${CUBE_LEVELS[cube % 6]})`;
+  }
+  const level = 8 + (index - 232) * 10;
+  return `rgb(${level}, ${level}, ${level})`;
+};
+
+// Applies one SGR sequence (`ESC [ params m`) to `current`.
+const applySgr = (current: TextStyle, params: string): TextStyle => {
+  const codes = params === '' ? [0] : params.split(';').map(code => code === '' ? 0 : Number(code));
+  let next = { ...current };
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 38 || code === 48) {
+      // 38;5;n picks from the 256-colour palette, 38;2;r;g;b is truecolor.
+      let value: string | undefined;
+      if (codes[i + 1] === 5 && codes[i + 2] !== undefined) {
+        value = color256(codes[i + 2] & 255);
+        i += 2;
+      } else if (codes[i + 1] === 2 && codes[i + 4] !== undefined) {
+        value = `rgb(${codes[i + 2] & 255}, ${codes[i + 3] & 255}, ${codes[i + 4] & 255})`;
+        i += 4;
+      }
+      next = code === 38 ? { ...next, fg: value } : { ...next, bg: value };
+    } else if (code === 0) {
+      next = {};
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4) {
+      next.underline = true;
+    } else if (code === 7) {
+      next.inverse = true;
+    } else if (code === 22) {
+      next.bold = undefined;
+      next.dim = undefined;
+    } else if (code === 23) {
+      next.italic = undefined;
+    } else if (code === 24) {
+      next.underline = undefined;
+    } else if (code === 27) {
+      next.inverse = undefined;
+    } else if (code >= 30 && code <= 37) {
+      next.fg = PALETTE[code - 30];
+    } else if (code === 39) {
+      next.fg = undefined;
+    } else if (code >= 40 && code <= 47) {
+      next.bg = PALETTE[code - 40];
+    } else if (code === 49) {
+      next.bg = undefined;
+    } else if (code >= 90 && code <= 97) {
+      next.fg = PALETTE[code - 90 + 8];
+    } else if (code >= 100 && code <= 107) {
+      next.bg = PALETTE[code - 100 + 8];
+    }
+  }
+  return next;
+};
+
+interface Cell {
+  char: string;
+  style: TextStyle;
+}
+
+const BLANK: Cell = { char: ' ', style: {} };
+
+const sameStyle = (a: TextStyle, b: TextStyle) => {
+  return a.fg === b.fg && a.bg === b.bg && !a.bold === !b.bold && !a.dim === !b.dim
+    && !a.italic === !b.italic && !a.underline === !b.underline && !a.inverse === !b.inverse;
+};
+
+const toSpans = (cells: Cell[]): Span[] => {
+  const spans: Span[] = [];
+  for (const cell of cells) {
+    const last = spans[spans.length - 1];
+    if (last && sameStyle(last.style, cell.style)) {
+      last.text += cell.char;
+    } else {
+      spans.push({ text: cell.char, style: cell.style });
+    }
+  }
+  return spans;
+};
+
+// What a terminal shows after receiving `data`, as lines of styled spans. The
+// screen grows downwards without a height limit; cursor positions count from
+// its first line, so a command can redraw what it printed (`ESC [H`, then
+// each line followed by `ESC [K`). Handles CR, LF, backspace, SGR,
+// cursor movement, and erasing within a line or the screen.
+export const renderScreen = (data: string): Span[][] => {
+  let lines: Cell[][] = [[]];
+  let row = 0;
+  let column = 0;
+  let current: TextStyle = {};
+
+  const lineAt = (index: number) => {
+    while (lines.length <= index) {
+      lines.push([]);
+    }
+    return lines[index];
+  };
+
+  const write = (char: string) => {
+    const line = lineAt(row);
+    while (line.length < column) {
+      line.push(BLANK);
+    }
+    line[column] = { char, style: current };
+    column++;
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    const char = data[i];
+    if (char === ESC) {
+      const sequence = SEQUENCE.exec(data.slice(i, i + 32));
+      if (!sequence) {
+        continue;
+      }
+      i += sequence[0].length - 1;
+      const [, params, command] = sequence;
+      const numbers = params.replace('?', '').split(';').map(value => parseInt(value, 10));
+      const count = Math.max(1, numbers[0] || 1);
+      switch (command) {
+        case 'm':
+          current = applySgr(current, params);
+          break;
+        case 'H':
+        case 'f':
+          row = Math.max(0, (numbers[0] || 1) - 1);
+          column = Math.max(0, (numbers[1] || 1) - 1);
+          break;
+        case 'A':
+          row = Math.max(0, row - count);
+          break;
+        case 'B':
+          row += count;
+          break;
+        case 'C':
+          column += count;
+          break;
+        case 'D':
+          column = Math.max(0, column - count);
+          break;
+        case 'E':
+          row += count;
+          column = 0;
+          break;
+        case 'F':
+          row = Math.max(0, row - count);
+          column = 0;
+          break;
+        case 'G':
+          column = count - 1;
+          break;
+        case 'K': {
+          const line = lineAt(row);
+          if (params === '1') {
+            line.fill(BLANK, 0, Math.min(column + 1, line.length));
+          } else if (params === '2') {
+            line.length = 0;
+          } else {
+            line.length = Math.min(line.length, column);
+          }
+          break;
+        }
+        case 'J':
+          // Clearing the whole screen also returns the cursor to its top, as the screen holds only what came since.
+          if (params === '2' || params === '3') {
+            lines = [[]];
+            row = 0;
+            column = 0;
+          } else if (params === '' || params === '0') {
+            lineAt(row).length = Math.min(lineAt(row).length, column);
+            lines.length = row + 1;
+          }
+          break;
+      }
+    } else if (char === '\n') {
+      // Command output ends lines with a bare LF, which a terminal's line discipline turns into CR LF.
+      row++;
+      column = 0;
+      lineAt(row);
+    } else if (char === '\r') {
+      column = 0;
+    } else if (char === '\b') {
+      column = Math.max(0, column - 1);
+    } else if (char >= ' ' || char === '\t') {
+      write(char);
+    }
+  }
+  lineAt(row);
+  return lines.map(toSpans);
+};
+
+export const screenText = (screen: Span[][]) => screen.map(line => line.map(span => span.text).join('')).join('\n');
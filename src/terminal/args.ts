@@ -0,0 +1,44 @@
+export interface ParsedArgs {
+  flags: Record<string, string | true>;
+  operands: string[];
+}
+
+// Parses short (`-la`) and long (`--name`, `--name=value`) options; those
+// listed in `withValue` consume the next argument when no `=value` is given.
+export const parseArgs = (args: string[], withValue: string[] = []): ParsedArgs => {
+  const flags: Record<string, string | true> = {};
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+      continue;
+    }
+    if (arg.startsWith('--')) {
+      const [name, ...value] = arg.slice(2).split('=');
+      if (value.length > 0) {
+        flags[name] = value.join('=');
+      } else {
+        flags[name] = withValue.includes(name) ? args[++i] ?? '' : true;
+      }
+      continue;
+    }
+    if (/^-\d+$/.test(arg)) {
+      flags.n = arg.slice(1);
+      continue;
+    }
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (withValue.includes(flag)) {
+        flags[flag] = arg.slice(j + 1) || args[++i] || '';
+        break;
+      }
+      flags[flag] = true;
+    }
+  }
+  return { flags, operands };
+};
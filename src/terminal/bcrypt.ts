@@ -0,0 +1,147 @@
+// bcrypt_pbkdf as used by OpenSSH to derive the cipher key of
+// passphrase-protected `openssh-key-v1` private keys.
+
+const P_WORDS = 18;
+const S_WORDS = 1024;
+
+let initialState: Uint32Array | undefined;
+
+const arctanInverse = (x: bigint, scale: bigint) => {
+  let term = scale / x;
+  let sum = term;
+  const square = x * x;
+  for (let n = 3n, sign = -1n; term > 0n; n += 2n, sign = -sign) {
+    term /= square;
+    sum += sign * (term / n);
+  }
+  return sum;
+};
+
+// Blowfish's P-array and S-boxes are the fractional hex digits of pi, in order.
+const piWords = () => {
+  if (!initialState) {
+    const words = P_WORDS + S_WORDS;
+    const guard = 64n;
+    const bits = BigInt(words * 32) + guard;
+    const scale = 1n << bits;
+    const pi = 16n * arctanInverse(5n, scale) - 4n * arctanInverse(239n, scale);
+    const fraction = (pi - 3n * scale) >> guard;
+    initialState = new Uint32Array(words);
+    for (let i = 0; i < words; i++) {
+      initialState[i] = Number((fraction >> BigInt((words - 1 - i) * 32)) & 0xffffffffn);
+    }
+  }
+  return initialState;
+};
+
+interface BlowfishState {
+  p: Uint32Array;
+  s: Uint32Array;
+}
+
+const createState = (): BlowfishState => {
+  const words = piWords();
+  return { p: words.slice(0, P_WORDS), s: words.slice(P_WORDS) };
+};
+
+const encipher = ({ p, s }: BlowfishState, block: Uint32Array, offset = 0) => {
+  let left = block[offset];
+  let right = block[offset + 1];
+  left ^= p[0];
+  for (let i = 1; i <= 16; i += 2) {
+    right ^= (((s[left >>> 24] + s[0x100 | ((left >>> 16) & 0xff)]) ^ s[0x200 | ((left >>> 8) & 0xff)]) + s[0x300 | (left & 0xff)]) ^ p[i];
+    left ^= (((s[right >>> 24] + s[0x100 | ((right >>> 16) & 0xff)]) ^ s[0x200 | ((right >>> 8) & 0xff)]) + s[0x300 | (right & 0xff)]) ^ p[i + 1];
+  }
+  block[offset] = right ^ p[17];
+  block[offset + 1] = left;
+};
+
+// Reads the next big-endian word from `data`, wrapping around at the end.
+const streamWord = (data: Uint8Array, cursor: { index: number }) => {
+  let word = 0;
+  for (let i = 0; i < 4; i++) {
+    word = (word << 8) | data[cursor.index];
+    cursor.index = (cursor.index + 1) % data.length;
+  }
+  return word >>> 0;
+};
+
+const expandState = (state: BlowfishState, key: Uint8Array, data?: Uint8Array) => {
+  const keyCursor = { index: 0 };
+  for (let i = 0; i < P_WORDS; i++) {
+    state.p[i] ^= streamWord(key, keyCursor);
+  }
+  const dataCursor = { index: 0 };
+  const block = new Uint32Array(2);
+  const fill = (target: Uint32Array, length: number) => {
+    for (let i = 0; i < length; i += 2) {
+      if (data) {
+        block[0] ^= streamWord(data, dataCursor);
+        block[1] ^= streamWord(data, dataCursor);
+      }
+      encipher(state, block);
+      target[i] = block[0];
+      target[i + 1] = block[1];
+    }
+  };
+  fill(state.p, P_WORDS);
+  fill(state.s, S_WORDS);
+};
+
+const MAGIC = new TextEncoder().encode('OxychromaticBlowfishSwatDynamite');
+
+const bcryptHash = (passHash: Uint8Array, saltHash: Uint8Array) => {
+  const state = createState();
+  expandState(state, passHash, saltHash);
+  for (let i = 0; i < 64; i++) {
+    expandState(state, saltHash);
+    expandState(state, passHash);
+  }
+  const cursor = { index: 0 };
+  const data = Uint32Array.from({ length: 8 }, () => streamWord(MAGIC, cursor));
+  for (let i = 0; i < 64; i++) {
+    for (let block = 0; block < data.length; block += 2) {
+      encipher(state, data, block);
+    }
+  }
+  const out = new Uint8Array(32);
+  data.forEach((word, i) => {
+    out[4 * i] = word & 0xff;
+    out[4 * i + 1] = (word >>> 8) & 0xff;
+    out[4 * i + 2] = (word >>> 16) & 0xff;
+    out[4 * i + 3] = word >>> 24;
+  });
+  return out;
+};
+
+const sha512 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-512', data));
+
+export const bcryptPbkdf = async (passphrase: Uint8Array, salt: Uint8Array, length: number, rounds: number) => {
+  const key = new Uint8Array(length);
+  const stride = Math.ceil(length / 32);
+  const amount = Math.ceil(length / stride);
+  const passHash = await sha512(passphrase);
+
+  for (let count = 1; (count - 1) * amount < length; count++) {
+    const countSalt = new Uint8Array(salt.length + 4);
+    countSalt.set(salt);
+    new DataView(countSalt.buffer).setUint32(salt.length, count);
+
+    let block = bcryptHash(passHash, await sha512(countSalt));
+    const out = block.slice();
+    for (let round = 1; round < rounds; round++) {
+      block = bcryptHash(passHash, await sha512(block));
+      out.forEach((byte, i) => {
+        out[i] = byte ^ block[i];
+      });
+    }
+    for (let i = 0; i < amount; i++) {
+      const destination = i * stride + (count - 1);
+      if (destination >= length) {
+        break;
+      }
+      key[destination] = out[i];
+    }
+  }
+  return key;
+};
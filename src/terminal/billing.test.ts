@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { stripAnsi } from './ansi';
+import {
+  burnRate,
+  chargesBetween,
+  checkBudget,
+  createBudget,
+  diskRate,
+  formatCost,
+  machineRate,
+  recordUsage,
+} from './billing';
+import { createInitialState } from './state';
+import type { Instance, SessionState } from './types';
+
+const HOUR = 60 * 60 * 1000;
+
+const web: Instance = {
+  id: 'i-1',
+  name: 'web',
+  type: 'compute',
+  status: 'running',
+  machineType: 'e2-medium',
+  createdAt: 0,
+  runs: [{ start: 0, end: HOUR }, { start: 3 * HOUR }],
+};
+
+describe('chargesBetween', () => {
+  it('bills machines while they run and disks while they exist', () => {
+    const charges = chargesBetween(web, 0, 4 * HOUR);
+    expect(charges.uptime).toBe(2 * HOUR);
+    expect(charges.compute).toBeCloseTo(2 * 0.0335);
+    expect(charges.disk).toBeCloseTo(4 * diskRate('compute'));
+  });
+
+  it('stops billing deleted instances', () => {
+    const deleted = { ...web, runs: [{ start: 0, end: HOUR }], deletedAt: HOUR };
+    expect(chargesBetween(deleted, 0, 10 * HOUR).disk).toBeCloseTo(diskRate('compute'));
+  });
+
+  it('charges managed databases more than the bare machine', () => {
+    expect(machineRate({ type: 'database', machineType: 'e2-medium' })).toBeCloseTo(0.0335 * 1.7);
+  });
+});
+
+describe('usage', () => {
+  it('keeps deleted instances on the bill', () => {
+    const state: SessionState = { ...createInitialState(), instances: [web] };
+    expect(recordUsage(state, [], 5 * HOUR)).toEqual([
+      { id: 'i-1', name: 'web', type: 'compute', machineType: 'e2-medium', createdAt: 0, runs: web.runs, deletedAt: 5 * HOUR },
+    ]);
+    expect(recordUsage(state, [web], 5 * HOUR)).toBe(state.usage);
+  });
+
+  it('counts only running machines in the burn rate', () => {
+    const stopped = { ...web, id: 'i-2', status: 'stopped' as const };
+    const state: SessionState = { ...createInitialState(), instances: [web, stopped] };
+    expect(burnRate(state)).toBeCloseTo(machineRate(web) + 2 * diskRate('compute'));
+  });
+});
+
+describe('checkBudget', () => {
+  it('alerts once per threshold crossed', () => {
+    const now = new Date(2026, 0, 15).getTime();
+    const state: SessionState = { ...createInitialState(), instances: [web], budget: createBudget(0.01, [50, 100, 1000000], now) };
+    const alerted = checkBudget(state, now);
+    expect(alerted.notices).toHaveLength(1);
+    expect(stripAnsi(alerted.notices[0])).toMatch(/^Budget alert: forecast spend for January 2026 is \$\d+\.\d+, 100% or more of your \$0\.0100 budget\./);
+    expect(alerted.budget?.alerted).toEqual([50, 100]);
+    expect(checkBudget(alerted, now)).toBe(alerted);
+  });
+});
+
+describe('formatCost', () => {
+  it('keeps more digits for small amounts', () => {
+    expect(formatCost(0.00123)).toBe('$0.0012');
+    expect(formatCost(12.345)).toBe('$12.35');
+  });
+});
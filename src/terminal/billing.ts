@@ -0,0 +1,169 @@
+import { style } from './ansi';
+import { DEFAULT_MACHINE_TYPE } from './compute';
+import { objectSize } from './storage';
+import type { Budget, Instance, InstanceType, SessionState, UsageRecord } from './types';
+
+// What running instances cost. Machines are billed for the time they run;
+// every instance also pays for its disk from creation until it is deleted,
+// stopped or not. Buckets have neither, and pay for the bytes they store.
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_MONTH = 730;
+
+// On-demand USD per hour.
+export const MACHINE_PRICES: Record<string, number> = {
+  'e2-micro': 0.0084,
+  'e2-small': 0.0168,
+  'e2-medium': 0.0335,
+  'e2-standard-2': 0.067,
+  'e2-standard-4': 0.134,
+  'n2-standard-2': 0.0971,
+  'n2-standard-4': 0.1942,
+  'n2-highmem-4': 0.262,
+  'c2-standard-8': 0.4176,
+};
+
+// USD per GB per month of persistent disk.
+export const DISK_PRICE = 0.04;
+
+// USD per GiB per month of objects in Standard storage, noncurrent versions included.
+export const STORAGE_PRICE = 0.02;
+
+const GIB = 1024 ** 3;
+
+// Managed databases and firewall appliances cost more than the bare machine
+// they run on, and databases come with bigger disks. Buckets run on neither.
+export const TYPE_PRICING: Record<InstanceType, { multiplier: number; diskGb: number }> = {
+  compute: { multiplier: 1, diskGb: 10 },
+  database: { multiplier: 1.7, diskGb: 100 },
+  storage: { multiplier: 0, diskGb: 0 },
+  network: { multiplier: 1, diskGb: 10 },
+  security: { multiplier: 1.2, diskGb: 10 },
+};
+
+export const DEFAULT_THRESHOLDS = [50, 90, 100];
+
+type Billable = Pick<Instance, 'type' | 'machineType' | 'createdAt' | 'runs' | 'objects'> & { deletedAt?: number };
+
+export interface Charges {
+  uptime: number;
+  compute: number;
+  disk: number;
+  storage: number;
+}
+
+// Per hour while running.
+export const machineRate = (instance: Pick<Instance, 'type' | 'machineType'>) => {
+  return (MACHINE_PRICES[instance.machineType ?? DEFAULT_MACHINE_TYPE] ?? 0) * TYPE_PRICING[instance.type].multiplier;
+};
+
+// Per hour for as long as the instance exists.
+export const diskRate = (type: InstanceType) => TYPE_PRICING[type].diskGb * DISK_PRICE / HOURS_PER_MONTH;
+
+// Per hour for the objects a bucket holds right now.
+export const storageRate = (instance: Pick<Instance, 'objects'>) => {
+  const bytes = (instance.objects ?? []).reduce((total, object) => total + objectSize(object), 0);
+  return bytes / GIB * STORAGE_PRICE / HOURS_PER_MONTH;
+};
+
+const overlap = (start: number, end: number, from: number, to: number) => Math.max(0, Math.min(end, to) - Math.max(start, from));
+
+export const uptimeBetween = (instance: Pick<Instance, 'runs'>, from: number, to: number) => {
+  return (instance.runs ?? []).reduce((total, run) => total + overlap(run.start, run.end ?? to, from, to), 0);
+};
+
+// Each object is billed from when it was written; deleted objects leave the bill with them.
+export const chargesBetween = (instance: Billable, from: number, to: number): Charges => {
+  const uptime = uptimeBetween(instance, from, to);
+  const existed = overlap(instance.createdAt ?? to, instance.deletedAt ?? to, from, to);
+  const stored = (instance.objects ?? []).reduce((total, object) => {
+    return total + objectSize(object) * overlap(object.createdAt, instance.deletedAt ?? to, from, to);
+  }, 0);
+  return {
+    uptime,
+    compute: uptime / HOUR_MS * machineRate(instance),
+    disk: existed / HOUR_MS * diskRate(instance.type),
+    storage: stored / HOUR_MS / GIB * STORAGE_PRICE / HOURS_PER_MONTH,
+  };
+};
+
+export const totalCharges = (charges: Charges) => charges.compute + charges.disk + charges.storage;
+
+// Everything billed in the session, deleted instances included.
+export const billables = (state: SessionState): (Instance | UsageRecord)[] => [...state.instances, ...state.usage];
+
+// What the current instances cost per hour as they are right now.
+export const burnRate = (state: SessionState) => {
+  return state.instances.reduce((total, instance) => {
+    return total + (instance.status === 'running' ? machineRate(instance) : 0) + diskRate(instance.type) + storageRate(instance);
+  }, 0);
+};
+
+export const monthStart = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+const monthEnd = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime();
+};
+
+const monthKey = (now: number) => {
+  const date = new Date(now);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const monthName = (now: number) => new Date(now).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+
+// Spend so far this month plus the current rate for the rest of it.
+export const forecastSpend = (state: SessionState, now: number) => {
+  const spent = billables(state).reduce((total, item) => total + totalCharges(chargesBetween(item, monthStart(now), now)), 0);
+  return spent + burnRate(state) * (monthEnd(now) - now) / HOUR_MS;
+};
+
+// Small amounts keep enough digits to show that they grow.
+export const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+export const createBudget = (amount: number, thresholds: number[], now: number): Budget => {
+  return { amount, thresholds, alerted: [], month: monthKey(now) };
+};
+
+// Keeps instances that were just deleted on the bill.
+export const recordUsage = (state: SessionState, remaining: Instance[], now: number): UsageRecord[] => {
+  const ids = new Set(remaining.map(instance => instance.id));
+  const deleted = state.instances.filter(instance => !ids.has(instance.id));
+  if (deleted.length === 0) {
+    return state.usage;
+  }
+  return [
+    ...state.usage,
+    ...deleted.map(({ id, name, type, machineType, createdAt, runs, transition }) => {
+      return { id, name, type, machineType, createdAt, runs, deletedAt: transition?.at ?? now };
+    }),
+  ];
+};
+
+// Raises an alert notice the first time each month that forecast spend reaches
+// one of the budget's thresholds. Returns the same state when nothing changed.
+export const checkBudget = (state: SessionState, now: number): SessionState => {
+  const { budget } = state;
+  if (!budget) {
+    return state;
+  }
+  const month = monthKey(now);
+  const alerted = budget.month === month ? budget.alerted : [];
+  const forecast = forecastSpend(state, now);
+  const crossed = budget.thresholds.filter(threshold => !alerted.includes(threshold) && forecast >= budget.amount * threshold / 100);
+  if (crossed.length === 0) {
+    return budget.month === month ? state : { ...state, budget: { ...budget, alerted, month } };
+  }
+  const threshold = Math.max(...crossed);
+  const notice = `${style('Budget alert:', 'bold', 'yellow')} forecast spend for ${monthName(now)} is ${formatCost(forecast)}, `
+    + `${threshold}% or more of your ${formatCost(budget.amount)} budget. Run 'billing report' to see what is costing money.`;
+  return {
+    ...state,
+    budget: { ...budget, alerted: [...alerted, ...crossed], month },
+    notices: [...state.notices, notice],
+  };
+};
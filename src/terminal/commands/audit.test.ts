@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+const rows = (output: string) => output.split('\n').slice(1).map(line => line.split(/\s{2,}/).slice(1));
+
+describe('audit log', () => {
+  it('lists changes with the user and command that made them', async () => {
+    const { state } = await runLine('network create lab --range 10.5.0.0/16; sudo useradd bob');
+    expect(rows((await runLine('audit log', state)).output)).toEqual([
+      ['admin', 'network.create', 'lab', 'network create lab --range 10.5.0.0/16'],
+      ['root', 'user.create', 'bob', 'useradd bob'],
+    ]);
+    expect(rows((await runLine('audit log --type network', state)).output)).toHaveLength(1);
+    expect(rows((await runLine('audit log --user root --limit 1', state)).output)).toEqual([['root', 'user.create', 'bob', 'useradd bob']]);
+  });
+
+  it('rejects a bad limit', async () => {
+    const { output, exitCode } = await runLine('audit log --limit 0');
+    expect(exitCode).toBe(1);
+    expect(output).toBe("audit: invalid --limit '0'");
+  });
+});
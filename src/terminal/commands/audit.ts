@@ -0,0 +1,61 @@
+import { parseArgs } from '../args';
+import { eventTarget, SYSTEM_ACTOR } from '../events';
+import { formatTable } from '../format';
+import { formatUsage } from '../help';
+import { fail } from '../result';
+import { parseSince } from '../time';
+import type { CommandContext, CommandDefinition, CommandPlugin, CommandResult } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult;
+
+const formatTime = (time: number) => `${new Date(time).toISOString().slice(0, 19)}Z`;
+
+// Who changed what: every logged change made by a command, oldest first.
+const log: Subcommand = (args, { state }) => {
+  const { flags } = parseArgs(args, ['user', 'since', 'type', 'limit']);
+  const since = typeof flags.since === 'string' ? parseSince(flags.since, Date.now()) : 0;
+  if (since === null) {
+    return fail(`audit: invalid --since '${flags.since}' (expected a duration such as 2h or a date such as 2026-01-31)`);
+  }
+  const limit = flags.limit === undefined ? Infinity : Number(flags.limit);
+  if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+    return fail(`audit: invalid --limit '${flags.limit}'`);
+  }
+  // `--type instance` matches every instance event, `--type instance.create` just one.
+  const type = typeof flags.type === 'string' ? flags.type : undefined;
+  const events = state.events.filter(event => event.actor !== SYSTEM_ACTOR
+    && event.time >= since
+    && (typeof flags.user !== 'string' || event.actor === flags.user)
+    && (!type || event.type === type || event.type.startsWith(`${type}.`)));
+  if (events.length === 0) {
+    return { output: 'No audit entries found.' };
+  }
+  const rows = events.slice(Math.max(0, events.length - limit))
+    .map(event => [formatTime(event.time), event.actor, event.type, eventTarget(event), event.command ?? '']);
+  return { output: formatTable(rows, ['TIME', 'USER', 'ACTION', 'TARGET', 'COMMAND']) };
+};
+
+const subcommands: Record<string, Subcommand> = { log };
+
+const audit: CommandDefinition = {
+  name: 'audit',
+  category: 'cloud',
+  summary: 'Audit trail of changes',
+  usage: [
+    { usage: 'audit log', description: 'Show who changed what in the session, and with which command' },
+    { usage: 'audit log [--user NAME] [--type ACTION] [--since 2h|DATE] [--limit N]', description: 'Only the matching entries; --limit keeps the most recent' },
+  ],
+  complete: args => args.length === 1 ? Object.keys(subcommands) : ['--user', '--type', '--since', '--limit'],
+  permissions: () => ['logging.privateLogEntries.list'],
+  run: (args, ctx) => {
+    const handler = subcommands[args[0]];
+    if (!handler) {
+      return fail(`Usage:\n${formatUsage(audit)}`);
+    }
+    return handler(args.slice(1), ctx);
+  },
+};
+
+export const auditCommands: CommandPlugin = registry => {
+  registry.register(audit);
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+describe('billing budget', () => {
+  it('is set, shown and deleted', async () => {
+    const { state } = await runLine('billing budget set 10 --thresholds 50,150');
+    expect(state.budget).toMatchObject({ amount: 10, thresholds: [50, 150] });
+    const shown = await runLine('billing budget show', state);
+    expect(shown.output.split('\n').slice(0, 2)).toEqual(['Amount: $10.00 per month', 'Thresholds: 50%, 150%']);
+    const deleted = await runLine('billing budget delete', state);
+    expect(deleted.state.budget).toBeUndefined();
+    expect((await runLine('billing budget show', deleted.state)).output).toBe("No budget set. Set one with 'billing budget set AMOUNT'.");
+  });
+});
+
+describe('billing report', () => {
+  it('says when nothing has been used', async () => {
+    const { output } = await runLine('billing report');
+    expect(output.split('\n')[1]).toBe('No usage in this period.');
+  });
+});
@@ -0,0 +1,186 @@
+import { parseArgs } from '../args';
+import {
+  billables,
+  burnRate,
+  chargesBetween,
+  createBudget,
+  DEFAULT_THRESHOLDS,
+  forecastSpend,
+  formatCost,
+  monthName,
+  monthStart,
+  totalCharges,
+  type Charges,
+} from '../billing';
+import { DEFAULT_MACHINE_TYPE } from '../compute';
+import { formatTable } from '../format';
+import { formatUsage } from '../help';
+import { fail } from '../result';
+import { formatDuration, parseSince } from '../time';
+import type { CommandContext, CommandDefinition, CommandPlugin, CommandResult, Instance, SessionState, UsageRecord } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult;
+
+const sum = (charges: Charges[]): Charges => charges.reduce(
+  (total, c) => ({
+    uptime: total.uptime + c.uptime,
+    compute: total.compute + c.compute,
+    disk: total.disk + c.disk,
+    storage: total.storage + c.storage,
+  }),
+  { uptime: 0, compute: 0, disk: 0, storage: 0 }
+);
+
+const costColumns = (charges: Charges) => [
+  formatDuration(charges.uptime),
+  formatCost(charges.compute),
+  formatCost(charges.disk),
+  formatCost(charges.storage),
+  formatCost(totalCharges(charges)),
+];
+
+const isDeleted = (item: Instance | UsageRecord): item is UsageRecord => 'deletedAt' in item;
+
+const budgetSummary = (state: SessionState, now: number) => {
+  const forecast = forecastSpend(state, now);
+  const lines = [
+    `Current rate: ${formatCost(burnRate(state))}/hour`,
+    `Forecast for ${monthName(now)}: ${formatCost(forecast)}`,
+  ];
+  if (state.budget) {
+    lines.push(`Budget: ${formatCost(state.budget.amount)} (${Math.round(forecast / state.budget.amount * 100)}% forecast)`);
+  }
+  return lines;
+};
+
+const budgetCommands: Record<string, Subcommand> = {
+  set: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['thresholds']);
+    const amount = Number((operands[0] ?? '').replace(/^\$/, ''));
+    if (!operands[0] || !Number.isFinite(amount) || amount <= 0) {
+      return fail(`billing: invalid budget amount '${operands[0] ?? ''}' (expected USD per month, e.g. 50)`);
+    }
+    const thresholds = typeof flags.thresholds === 'string'
+      ? flags.thresholds.split(',').map(Number)
+      : DEFAULT_THRESHOLDS;
+    if (thresholds.length === 0 || thresholds.some(t => !Number.isFinite(t) || t <= 0)) {
+      return fail(`billing: invalid --thresholds '${flags.thresholds}' (expected percentages, e.g. 50,90,100)`);
+    }
+    const now = Date.now();
+    const budget = createBudget(amount, [...new Set(thresholds)].sort((a, b) => a - b), now);
+    return {
+      output: [
+        `Monthly budget set to ${formatCost(amount)}, alerting at ${budget.thresholds.map(t => `${t}%`).join(', ')} of forecast spend.`,
+        ...budgetSummary({ ...state, budget }, now),
+      ].join('\n'),
+      update: s => ({ ...s, budget }),
+    };
+  },
+
+  show: (_args, { state }) => {
+    if (!state.budget) {
+      return { output: `No budget set. Set one with 'billing budget set AMOUNT'.` };
+    }
+    const { budget } = state;
+    return {
+      output: [
+        `Amount: ${formatCost(budget.amount)} per month`,
+        `Thresholds: ${budget.thresholds.map(t => `${t}%${budget.alerted.includes(t) ? ' (alerted)' : ''}`).join(', ')}`,
+        ...budgetSummary(state, Date.now()),
+      ].join('\n'),
+    };
+  },
+
+  delete: (_args, { state }) => {
+    if (!state.budget) {
+      return fail('billing: no budget set');
+    }
+    return { output: 'Budget deleted.', update: s => ({ ...s, budget: undefined }) };
+  },
+};
+
+const report: Subcommand = (args, { state }) => {
+  const { flags } = parseArgs(args, ['by', 'since']);
+  const by = flags.by ?? 'type';
+  if (by !== 'type' && by !== 'instance') {
+    return fail(`billing: invalid --by '${by}' (expected type or instance)`);
+  }
+  const now = Date.now();
+  const since = typeof flags.since === 'string' ? parseSince(flags.since, now) : monthStart(now);
+  if (since === null) {
+    return fail(`billing: invalid --since '${flags.since}' (expected a duration such as 2h or a date such as 2026-01-31)`);
+  }
+
+  const items = billables(state)
+    .filter(item => (item.createdAt ?? now) < now && (!isDeleted(item) || item.deletedAt > since))
+    .map(item => ({ item, charges: chargesBetween(item, since, now) }));
+  const period = `${new Date(since).toISOString()} to now${flags.since === undefined ? ' (month to date)' : ''}`;
+  if (items.length === 0) {
+    return { output: [`Billing period: ${period}`, 'No usage in this period.', ...budgetSummary(state, now)].join('\n') };
+  }
+
+  const headers = by === 'type'
+    ? ['TYPE', 'INSTANCES', 'UPTIME', 'COMPUTE', 'DISK', 'STORAGE', 'COST']
+    : ['NAME', 'TYPE', 'MACHINE_TYPE', 'STATUS', 'UPTIME', 'COMPUTE', 'DISK', 'STORAGE', 'COST'];
+  const rows = by === 'type'
+    ? [...new Set(items.map(({ item }) => item.type))].map(type => {
+      const ofType = items.filter(({ item }) => item.type === type);
+      const charges = sum(ofType.map(i => i.charges));
+      return { cost: totalCharges(charges), row: [type, String(ofType.length), ...costColumns(charges)] };
+    })
+    : items.map(({ item, charges }) => ({
+      cost: totalCharges(charges),
+      row: [
+        item.name,
+        item.type,
+        item.type === 'storage' ? '-' : item.machineType ?? DEFAULT_MACHINE_TYPE,
+        isDeleted(item) ? 'deleted' : item.status ?? '-',
+        ...costColumns(charges),
+      ],
+    }));
+  const total = sum(items.map(i => i.charges));
+  return {
+    output: [
+      `Billing period: ${period}`,
+      formatTable(rows.sort((a, b) => b.cost - a.cost).map(r => r.row), headers),
+      '',
+      `Total: ${formatCost(totalCharges(total))} (compute ${formatCost(total.compute)}, disk ${formatCost(total.disk)}, storage ${formatCost(total.storage)})`,
+      ...budgetSummary(state, now),
+    ].join('\n'),
+  };
+};
+
+const billing: CommandDefinition = {
+  name: 'billing',
+  category: 'cloud',
+  summary: 'Costs and budgets',
+  usage: [
+    { usage: 'billing report [--by type|instance] [--since 2h|DATE]', description: 'What instances have cost, month to date by default' },
+    { usage: 'billing budget set AMOUNT [--thresholds 50,90,100]', description: 'Alert when forecast monthly spend reaches these percentages' },
+    { usage: 'billing budget show | delete', description: 'Show or remove the budget' },
+  ],
+  complete: args => {
+    if (args.length === 1) {
+      return ['report', 'budget'];
+    }
+    if (args[0] === 'budget' && args.length === 2) {
+      return Object.keys(budgetCommands);
+    }
+    return args[args.length - 2] === '--by' ? ['type', 'instance'] : [];
+  },
+  permissions: args => [args[0] === 'budget' && args[1] !== 'show' ? 'billing.budgets.update' : 'billing.accounts.getSpendingInformation'],
+  run: (args, ctx) => {
+    if (args[0] === 'report') {
+      return report(args.slice(1), ctx);
+    }
+    const handler = args[0] === 'budget' ? budgetCommands[args[1]] : undefined;
+    if (!handler) {
+      return fail(`Usage:\n${formatUsage(billing)}`);
+    }
+    return handler(args.slice(2), ctx);
+  },
+};
+
+export const billingCommands: CommandPlugin = registry => {
+  registry.register(billing);
+};
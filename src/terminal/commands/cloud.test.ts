@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from '../state';
+import { runLine } from '../test-utils';
+import type { Instance } from '../types';
+
+const lastLine = (output: string) => output.split('\n').pop();
+
+const stopped: Instance = { id: 'i-1', name: 'web', type: 'compute', status: 'stopped', createdAt: 0 };
+
+describe('instance lifecycle commands', () => {
+  it('return at once with --async and leave the instance provisioning', async () => {
+    const { output, state } = await runLine('create instance web compute --async');
+    expect(lastLine(output)).toBe("Run 'wait instance web --status running' to block until it completes.");
+    expect(state.instances[0]).toMatchObject({ name: 'web', status: 'provisioning' });
+  });
+
+  it('reject actions the current status does not allow', async () => {
+    const { output, exitCode } = await runLine('create instance web compute --async; delete instance web');
+    expect(lastLine(output)).toBe('Cannot delete instance "web" while it is provisioning.');
+    expect(exitCode).toBe(1);
+  });
+
+  it('time out waiting for a status that is not reached in time', async () => {
+    const { output, exitCode } = await runLine('create instance web compute --async; wait instance web --status running --timeout 0');
+    expect(lastLine(output)).toBe('Timed out after 0s waiting for instance "web" to reach status running (current: provisioning).');
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe('wait', () => {
+  it('fails at once when nothing pending leads to the status', async () => {
+    const started = Date.now();
+    const { output, exitCode } = await runLine('wait instance web --status running', { ...createInitialState(), instances: [stopped] });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(exitCode).toBe(1);
+    expect(output).toBe('Instance "web" is stopped and no pending operation will bring it to status running.');
+  });
+
+  it('returns at once for the current status', async () => {
+    const { output } = await runLine('wait instance web --status stopped', { ...createInitialState(), instances: [stopped] });
+    expect(output).toBe('Instance "web" is stopped.');
+  });
+});
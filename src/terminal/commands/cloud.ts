@@ -0,0 +1,622 @@
+import { style, type Color } from '../ansi';
+import { parseArgs } from '../args';
+import { burnRate, chargesBetween, diskRate, formatCost, machineRate, storageRate, totalCharges, uptimeBetween } from '../billing';
+import { DEFAULT_IMAGE, DEFAULT_MACHINE_TYPE, instanceZone, MACHINE_TYPES, regionOf, resolvePlacement } from '../compute';
+import { formatTable } from '../format';
+import {
+  attachInstance,
+  DEFAULT_NETWORK,
+  externalAddress,
+  formatPermissions,
+  instanceSubnet,
+  internalAddress,
+  internalHostname,
+  networkOptions,
+  NetworkError,
+} from '../hosts';
+import { localeOf, t, type Locale, type MessageKey } from '../i18n';
+import { beginTransition, checkTransition, generateInstanceId, isPending, provisionInstance, upcomingStatuses, type LifecycleAction } from '../lifecycle';
+import { atLeast, findLogSource, formatLogEntry, instanceLogs, isSeverity, SEVERITIES, type Severity } from '../logs';
+import { sampleMetrics, sampleSeries, sparkline, type MetricSample } from '../metrics';
+import { fail } from '../result';
+import { bucketUsage, formatObjectUrl, formatSize } from '../storage';
+import { formatDuration, parseDuration, parseSince } from '../time';
+import {
+  INSTANCE_STATUSES,
+  INSTANCE_TYPES,
+  type CommandCompleter,
+  type CommandContext,
+  type CommandPlugin,
+  type CommandResult,
+  type Instance,
+  type InstanceStatus,
+  type InstanceType,
+  type SessionState,
+} from '../types';
+
+const WATCH_INTERVAL = 2000;
+const WATCH_HISTORY = 5 * 60 * 1000;
+const HISTORY_POINTS = 31;
+const FOLLOW_INTERVAL = 1000;
+const LOG_LINES = 20;
+// How far back `logs` looks without --since.
+const LOG_FRESHNESS = 24 * 60 * 60 * 1000;
+
+const formatMetrics = (instance: Instance, now: number) => {
+  const sample = sampleMetrics(instance, now);
+  return `Metrics for instance "${instance.name}" (${instance.status}):
+CPU Usage: ${sample.cpu}%
+Memory Usage: ${sample.memory}% (${sample.memoryMb}MB)
+Disk Usage: ${sample.disk}% (${sample.diskGb}GB)
+Network In: ${sample.networkIn}MB/s
+Network Out: ${sample.networkOut}MB/s
+Response Time: ${sample.responseTime === null ? 'n/a' : `${sample.responseTime}ms`}`;
+};
+
+const HISTORY_ROWS: { label: string; unit: string; value: (sample: MetricSample) => number | null; max?: number }[] = [
+  { label: 'CPU Usage', unit: '%', value: sample => sample.cpu, max: 100 },
+  { label: 'Memory Usage', unit: '%', value: sample => sample.memory, max: 100 },
+  { label: 'Disk Usage', unit: '%', value: sample => sample.disk, max: 100 },
+  { label: 'Network In', unit: 'MB/s', value: sample => sample.networkIn },
+  { label: 'Network Out', unit: 'MB/s', value: sample => sample.networkOut },
+  { label: 'Response Time', unit: 'ms', value: sample => sample.responseTime },
+];
+
+const formatHistory = (instance: Instance, now: number, window: number) => {
+  const samples = sampleSeries(instance, now - window, now, HISTORY_POINTS);
+  const step = formatDuration(window / (HISTORY_POINTS - 1));
+  const cell = (value: number | undefined, unit: string) => (value === undefined ? 'n/a' : `${Math.round(value * 10) / 10}${unit}`).padEnd(11);
+  const rows = HISTORY_ROWS.map(({ label, unit, value, max }) => {
+    const values = samples.map(value);
+    const known = values.filter((v): v is number => v !== null);
+    const average = known.length ? known.reduce((a, b) => a + b, 0) / known.length : undefined;
+    const current = values[values.length - 1] ?? undefined;
+    return `${label.padEnd(15)}${cell(current, unit)}${cell(known.length ? Math.min(...known) : undefined, unit)}${cell(average, unit)}${cell(known.length ? Math.max(...known) : undefined, unit)}${sparkline(values.map(v => v ?? 0), max)}`;
+  });
+  return [
+    `Metrics for instance "${instance.name}" (${instance.status}) over the last ${formatDuration(window)}, every ${step}:`,
+    `${''.padEnd(15)}${'NOW'.padEnd(11)}${'MIN'.padEnd(11)}${'AVG'.padEnd(11)}${'MAX'.padEnd(11)}HISTORY`,
+    ...rows,
+  ].join('\n');
+};
+
+const TRANSITIONS: Record<LifecycleAction, { progress: MessageKey; done: MessageKey; target: InstanceStatus }> = {
+  start: { progress: 'instance.starting', done: 'instance.running', target: 'running' },
+  stop: { progress: 'instance.stopping', done: 'instance.stopped', target: 'stopped' },
+  delete: { progress: 'instance.deleting', done: 'instance.deleted', target: 'terminated' },
+};
+
+const findInstance = (state: SessionState, name: string) => state.instances.find(i => i.name === name);
+
+const STATUS_COLORS: Partial<Record<InstanceStatus, Color>> = {
+  running: 'green',
+  stopped: 'gray',
+  error: 'red',
+};
+
+const formatStatus = (instance: Instance) => {
+  if (!instance.status) {
+    return '-';
+  }
+  return style(instance.status, isPending(instance) ? 'yellow' : STATUS_COLORS[instance.status] ?? 'white');
+};
+
+const TOP_INTERVAL = 3000;
+
+const TOP_COLUMNS = ['NAME', 'TYPE', 'STATUS', '%CPU', '%MEM', 'MEM(MB)', 'NET IN', 'NET OUT', 'UPTIME'];
+
+// Running instances' vCPUs times how busy they are, as a load average counts runnable processes.
+const fleetLoad = (instances: Instance[], time: number) => {
+  return instances.reduce((total, instance) => {
+    const cpus = MACHINE_TYPES[instance.machineType ?? DEFAULT_MACHINE_TYPE]?.cpus ?? 1;
+    return total + sampleMetrics(instance, time).cpu / 100 * cpus;
+  }, 0);
+};
+
+// Buckets have no machine behind them, so they have nothing to show here.
+const formatTop = (state: SessionState, now: number) => {
+  const instances = state.instances.filter(instance => instance.type !== 'storage');
+  const load = [0, 5, 15].map(minutes => fleetLoad(instances, now - minutes * 60 * 1000).toFixed(2)).join(', ');
+  const count = (matches: (instance: Instance) => boolean) => instances.filter(matches).length;
+  const samples = instances.map(instance => ({ instance, sample: sampleMetrics(instance, now) }))
+    .sort((a, b) => b.sample.cpu - a.sample.cpu || a.instance.name.localeCompare(b.instance.name));
+  const running = samples.filter(({ instance }) => instance.status === 'running');
+  const cpu = running.length ? running.reduce((total, { sample }) => total + sample.cpu, 0) / running.length : 0;
+  const rows = samples.map(({ instance, sample }) => [
+    instance.name,
+    instance.type,
+    formatStatus(instance),
+    sample.cpu.toFixed(1),
+    sample.memory.toFixed(1),
+    String(sample.memoryMb),
+    `${sample.networkIn}MB/s`,
+    `${sample.networkOut}MB/s`,
+    formatDuration(uptimeBetween(instance, 0, now)),
+  ]);
+  const [header, ...lines] = formatTable(rows, TOP_COLUMNS).split('\n');
+  return [
+    `top - ${new Date(now).toTimeString().slice(0, 8)}, ${instances.length} instances, load average: ${load}`,
+    `Instances: ${style(String(instances.length), 'bold')} total, ${style(String(count(i => i.status === 'running')), 'bold')} running, `
+      + `${style(String(count(i => i.status === 'stopped')), 'bold')} stopped, ${style(String(count(isPending)), 'bold')} pending, `
+      + `${style(String(count(i => i.status === 'error')), 'bold')} error`,
+    `%Cpu(s): ${cpu.toFixed(1)} avg    Cost: ${formatCost(burnRate(state))}/hour`,
+    '',
+    style(header.padEnd(Math.max(header.length, 80)), 'inverse'),
+    ...lines,
+  ];
+};
+
+const backgroundNotice = (locale: Locale, name: string, status: InstanceStatus, target: InstanceStatus) => {
+  return t(locale, 'instance.background', { name, status, target });
+};
+
+// Blocks until the instance leaves its transitional status, then reports how it ended.
+const settle = async (ctx: CommandContext, name: string, progress: string, done: string): Promise<CommandResult> => {
+  await ctx.waitFor(s => {
+    const instance = findInstance(s, name);
+    return !instance || !isPending(instance);
+  });
+  const instance = findInstance(ctx.getState(), name);
+  const locale = localeOf(ctx.state);
+  if (ctx.signal.aborted && instance && isPending(instance)) {
+    return { output: `${progress}\n${t(locale, 'instance.interrupted', { status: instance.status })}` };
+  }
+  if (instance?.status === 'error') {
+    return { output: progress, error: t(locale, 'instance.failed', { name }), exitCode: 1 };
+  }
+  return { output: `${progress}\n${done}` };
+};
+
+const runTransition = async (action: LifecycleAction, args: string[], ctx: CommandContext): Promise<CommandResult> => {
+  const { flags, operands } = parseArgs(args);
+  if (operands[0] !== 'instance' || !operands[1]) {
+    return fail(`Usage: ${action} instance [name] [--async]`);
+  }
+  const name = operands[1];
+  const instance = findInstance(ctx.state, name);
+  const locale = localeOf(ctx.state);
+
+  if (!instance) {
+    return fail(t(locale, 'instance.notFound', { name }));
+  }
+
+  const rejection = checkTransition(instance, action, locale);
+  if (rejection) {
+    const alreadyThere = instance.type !== 'storage' && instance.status === TRANSITIONS[action].target;
+    return alreadyThere ? { output: rejection } : fail(rejection);
+  }
+
+  const startedAt = Date.now();
+  const simulateFailure = Boolean(flags['simulate-failure']);
+  ctx.update(s => ({
+    ...s,
+    instances: s.instances.map(i => i.name === name ? beginTransition(i, action, startedAt, simulateFailure) : i),
+  }));
+
+  const { progress, done, target } = TRANSITIONS[action];
+  const message = t(locale, progress, { name });
+  if (flags.async) {
+    const status = findInstance(ctx.getState(), name)?.status ?? target;
+    return { output: `${message}\n${backgroundNotice(locale, name, status, target)}` };
+  }
+  return settle(ctx, name, message, t(locale, done));
+};
+
+const completeInstance = (filter: (instance: Instance) => boolean = () => true): CommandCompleter => (args, { state }) => {
+  if (args.length === 1) {
+    return ['instance'];
+  }
+  return args.length === 2 ? state.instances.filter(filter).map(instance => instance.name) : [];
+};
+
+const completeInstanceName: CommandCompleter = (args, { state }) => {
+  return args.length === 1 ? state.instances.map(instance => instance.name) : [];
+};
+
+export const cloudCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'instances',
+    category: 'cloud',
+    summary: 'List instances',
+    usage: [{ usage: 'instances list', description: 'List all instances' }],
+    complete: args => args.length === 1 ? ['list'] : [],
+    permissions: () => ['compute.instances.list'],
+    run: (args, { state }) => {
+      if (args[0] !== 'list') {
+        return fail('Usage: instances list');
+      }
+      if (state.instances.length === 0) {
+        return { output: 'No instances found.' };
+      }
+      return {
+        output: 'NAME\t\tTYPE\t\tSTATUS\n' + state.instances.map(instance =>
+          `${instance.name}\t\t${instance.type}\t\t${formatStatus(instance)}`
+        ).join('\n'),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'create',
+    category: 'cloud',
+    summary: 'Create instance',
+    usage: [{
+      usage: 'create instance [name] [type] [--zone] [--machine-type] [--image] [--labels] [--network] [--subnet] [--tags] [--async]',
+      description: `Create new instance\n    Types: ${INSTANCE_TYPES.join(', ')}`,
+    }],
+    complete: args => args.length === 1 ? ['instance'] : args.length === 3 ? [...INSTANCE_TYPES] : [],
+    permissions: () => ['compute.instances.create'],
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['zone', 'machine-type', 'image', 'labels', 'network', 'subnet', 'tags']);
+      if (operands[0] !== 'instance' || !operands[1] || !operands[2]) {
+        return fail('Usage: create instance [name] [type] [--zone] [--machine-type] [--image] [--labels] [--network] [--subnet] [--tags] [--async]');
+      }
+      const name = operands[1];
+      const type = operands[2] as InstanceType;
+      const locale = localeOf(ctx.state);
+
+      if (!INSTANCE_TYPES.includes(type)) {
+        return fail(t(locale, 'instance.invalidType'));
+      }
+
+      if (ctx.state.instances.some(i => i.name === name)) {
+        return fail(t(locale, 'instance.exists', { name }));
+      }
+
+      let placement;
+      try {
+        placement = resolvePlacement(flags);
+      } catch (error) {
+        return fail((error as Error).message);
+      }
+
+      let newInstance;
+      try {
+        newInstance = provisionInstance(
+          // Buckets keep only their location; they have no machine to run on.
+          attachInstance(ctx.getState(), { id: generateInstanceId(), name, type, ...type === 'storage' ? { zone: placement.zone } : placement }, networkOptions(flags)),
+          Date.now(),
+          Boolean(flags['simulate-failure'])
+        );
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          return fail(t(locale, 'instance.cannotCreate', { name, reason: error.message }));
+        }
+        throw error;
+      }
+      ctx.update(s => ({ ...s, instances: [...s.instances, newInstance] }));
+
+      if (type === 'storage') {
+        return { output: t(locale, 'instance.bucketCreated', { name }) };
+      }
+      const progress = `${t(locale, 'instance.creating', { type, name })}\n${t(locale, 'instance.created')}`;
+      if (flags.async) {
+        return { output: `${progress}\n${backgroundNotice(locale, name, 'provisioning', 'running')}` };
+      }
+      return settle(ctx, name, progress, t(locale, 'instance.running'));
+    },
+  });
+
+  registry.register({
+    name: 'start',
+    category: 'cloud',
+    summary: 'Start instance',
+    usage: [{ usage: 'start instance [name] [--async]', description: 'Start an instance' }],
+    complete: completeInstance(instance => checkTransition(instance, 'start') === null),
+    permissions: () => ['compute.instances.start'],
+    run: (args, ctx) => runTransition('start', args, ctx),
+  });
+
+  registry.register({
+    name: 'stop',
+    category: 'cloud',
+    summary: 'Stop instance',
+    usage: [{ usage: 'stop instance [name] [--async]', description: 'Stop an instance' }],
+    complete: completeInstance(instance => checkTransition(instance, 'stop') === null),
+    permissions: () => ['compute.instances.stop'],
+    run: (args, ctx) => runTransition('stop', args, ctx),
+  });
+
+  registry.register({
+    name: 'delete',
+    category: 'cloud',
+    summary: 'Delete instance',
+    usage: [{ usage: 'delete instance [name] [--async]', description: 'Delete an instance' }],
+    complete: completeInstance(instance => checkTransition(instance, 'delete') === null),
+    permissions: () => ['compute.instances.delete'],
+    run: (args, ctx) => runTransition('delete', args, ctx),
+  });
+
+  registry.register({
+    name: 'wait',
+    category: 'cloud',
+    summary: 'Wait for status',
+    usage: [{
+      usage: 'wait instance [name] --status [status] [--timeout seconds]',
+      description: 'Block until an instance reaches a status',
+    }],
+    complete: (args, ctx) => {
+      if (args[args.length - 2] === '--status') {
+        return [...INSTANCE_STATUSES];
+      }
+      return args.length <= 2 ? completeInstance()(args, ctx) : ['--status', '--timeout'];
+    },
+    permissions: () => ['compute.instances.get'],
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['status', 'timeout']);
+      const target = flags.status as InstanceStatus;
+      if (operands[0] !== 'instance' || !operands[1] || typeof target !== 'string') {
+        return fail('Usage: wait instance [name] --status [status] [--timeout seconds]');
+      }
+      if (!INSTANCE_STATUSES.includes(target)) {
+        return fail(`Invalid status "${target}". Use: ${INSTANCE_STATUSES.join(', ')}`);
+      }
+      const timeout = flags.timeout === undefined ? 120 : Number(flags.timeout);
+      if (!Number.isFinite(timeout) || timeout < 0) {
+        return fail(`Invalid timeout "${flags.timeout}".`);
+      }
+      const name = operands[1];
+      const locale = localeOf(ctx.state);
+      const current = findInstance(ctx.state, name);
+      if (!current) {
+        return fail(t(locale, 'instance.notFound', { name }));
+      }
+      if (!current.status) {
+        return fail(t(locale, 'instance.noStatus', { name }));
+      }
+      if (!upcomingStatuses(current).includes(target)) {
+        return fail(t(locale, 'instance.unreachable', { name, status: target, current: current.status }));
+      }
+
+      const reached = await ctx.waitFor(s => {
+        const instance = findInstance(s, name);
+        return instance ? instance.status === target : true;
+      }, timeout * 1000);
+      const instance = findInstance(ctx.getState(), name);
+
+      if (!instance) {
+        return target === 'terminated'
+          ? { output: t(locale, 'instance.gone', { name }) }
+          : fail(t(locale, 'instance.deletedWhileWaiting', { name, status: target }));
+      }
+      if (!reached && ctx.signal.aborted) {
+        return { output: '', exitCode: 130 };
+      }
+      if (!reached) {
+        return fail(t(locale, 'instance.timedOut', { seconds: timeout, name, status: target, current: instance.status ?? '-' }));
+      }
+      return { output: t(locale, 'instance.reached', { name, status: target }) };
+    },
+  });
+
+  registry.register({
+    name: 'describe',
+    category: 'cloud',
+    summary: 'Instance details',
+    usage: [{ usage: 'describe instance [name]', description: 'Show instance details' }],
+    complete: completeInstance(),
+    permissions: () => ['compute.instances.get'],
+    run: (args, { state }) => {
+      if (args[0] !== 'instance' || !args[1]) {
+        return fail('Usage: describe instance [name]');
+      }
+      const name = args[1];
+      const instance = state.instances.find(i => i.name === name);
+
+      if (!instance) {
+        return fail(t(localeOf(state), 'instance.notFound', { name }));
+      }
+
+      const now = Date.now();
+      const subnet = instanceSubnet(state, instance);
+      const charges = formatCost(totalCharges(chargesBetween(instance, 0, now)));
+      const lines: string[] = [];
+      if (instance.type === 'security') {
+        // Security instances enforce their network's firewall.
+        const rules = state.firewallRules
+          .filter(rule => rule.network === (instance.network ?? DEFAULT_NETWORK))
+          .sort((a, b) => a.priority - b.priority);
+        lines.push(`Firewall Rules (${instance.network ?? DEFAULT_NETWORK}):`, ...rules.map(rule =>
+          `  ${rule.name}: ${rule.action} ${formatPermissions(rule.rules)} from ${rule.sourceRanges.join(',')}${rule.targetTags.length ? ` to tags ${rule.targetTags.join(',')}` : ''} (priority ${rule.priority})`
+        ));
+      }
+      // Buckets have no machine, so in place of its details they show what they hold and what that costs.
+      const placement = instance.type === 'storage' ? [
+        `Cost to date: ${charges} (${formatCost(storageRate(instance))}/hour for what it holds now)`,
+        `Location: ${regionOf(instanceZone(instance))}`,
+      ] : [
+        `Uptime: ${formatDuration(uptimeBetween(instance, 0, now))}${instance.status === 'running' ? ` (running since ${new Date(instance.runs?.[instance.runs.length - 1]?.start ?? now).toISOString()})` : ''}`,
+        `Cost to date: ${charges} (${formatCost(machineRate(instance))}/hour running, ${formatCost(diskRate(instance.type))}/hour disk)`,
+        `Zone: ${instanceZone(instance)}`,
+        `Machine Type: ${instance.machineType ?? DEFAULT_MACHINE_TYPE}`,
+        `Image: ${instance.image ?? DEFAULT_IMAGE}`,
+      ];
+      if (instance.type === 'storage') {
+        const usage = bucketUsage(instance);
+        lines.push(
+          `Bucket: ${formatObjectUrl(instance.name)}`,
+          `Versioning: ${instance.versioning ? 'Enabled' : 'Suspended'}`,
+          `Objects: ${usage.objects} (${formatSize(usage.bytes)})`,
+          `Noncurrent Versions: ${usage.noncurrentObjects} (${formatSize(usage.noncurrentBytes)})`,
+          `Total Size: ${formatSize(usage.bytes + usage.noncurrentBytes)}`,
+        );
+      }
+      const sample = instance.type === 'storage' ? undefined : sampleMetrics(instance, now);
+      return {
+        output: [
+          'Instance Details:',
+          `Name: ${instance.name}`,
+          `ID: ${instance.id}`,
+          `Type: ${instance.type}`,
+          ...instance.type === 'storage' ? [] : [`Status: ${formatStatus(instance)}`],
+          `Created: ${instance.createdAt ? new Date(instance.createdAt).toISOString() : 'unknown'}`,
+          ...placement,
+          `Labels: ${Object.entries(instance.labels ?? {}).map(([key, value]) => `${key}=${value}`).join(', ') || 'none'}`,
+          // Buckets are reached through their gs:// URL rather than over the network.
+          ...instance.type === 'storage' ? [] : [
+            `Network: ${instance.network ?? DEFAULT_NETWORK}`,
+            `Subnet: ${subnet ? `${subnet.name} (${subnet.cidr})` : 'none'}`,
+            `Internal IP: ${internalAddress(instance)}`,
+            `Internal DNS: ${internalHostname(instance)}`,
+            `External IP: ${externalAddress(instance) ?? 'none'}`,
+          ],
+          `Tags: ${instance.tags?.join(', ') || 'none'}`,
+          ...sample ? [`CPU Usage: ${sample.cpu}%`, `Memory: ${sample.memoryMb}MB`, `Disk: ${sample.diskGb}GB`] : [],
+          ...lines,
+        ].join('\n'),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'logs',
+    category: 'cloud',
+    summary: 'Instance logs',
+    usage: [
+      { usage: 'logs [name]', description: `Show the last ${LOG_LINES} lines of instance logs` },
+      { usage: 'logs [name] -n [lines]', description: 'Show the last N lines' },
+      { usage: 'logs [name] --since [1h|DATE]', description: 'Show everything logged since then' },
+      { usage: 'logs [name] --severity [level]', description: `Only show lines at this level or above (${SEVERITIES.join(', ')})` },
+      { usage: 'logs [name] -f', description: 'Keep printing new lines until Ctrl+C' },
+    ],
+    complete: (args, ctx) => args.length === 1 ? completeInstanceName(args, ctx) : ['-f', '-n', '--since', '--severity'],
+    permissions: () => ['logging.logEntries.list'],
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['n', 'since', 'severity']);
+      const name = operands[0];
+      if (!name) {
+        return fail('Usage: logs [name] [-f] [-n lines] [--since duration] [--severity level]');
+      }
+      const source = findLogSource(ctx.state, name);
+      if (!source) {
+        return fail(t(localeOf(ctx.state), 'instance.notFound', { name }));
+      }
+
+      const now = Date.now();
+      const since = typeof flags.since === 'string' ? parseSince(flags.since, now) : null;
+      if (flags.since !== undefined && since === null) {
+        return fail(`Invalid --since "${flags.since}". Use a duration such as 30m or a date such as 2026-01-31.`);
+      }
+      const level = typeof flags.severity === 'string' ? flags.severity.toUpperCase() : 'DEBUG';
+      if (!isSeverity(level)) {
+        return fail(`Invalid --severity "${flags.severity}". Use one of ${SEVERITIES.join(', ')}.`);
+      }
+      const severity: Severity = level;
+      const limit = flags.n === undefined ? (since === null ? LOG_LINES : Infinity) : Number(flags.n);
+      if ((!Number.isInteger(limit) && limit !== Infinity) || limit < 0) {
+        return fail(`Invalid line count "${flags.n}".`);
+      }
+
+      const read = (from: number, to: number) => instanceLogs(ctx.getState(), source, from, to)
+        .filter(entry => atLeast(entry.severity, severity))
+        .map(formatLogEntry);
+      const lines = read(since ?? now - LOG_FRESHNESS, now);
+      let output = lines.slice(Math.max(0, lines.length - limit)).join('\n');
+      if (!flags.f && !flags.follow) {
+        return { output };
+      }
+
+      let last = now;
+      for (;;) {
+        ctx.display(output);
+        if (!await ctx.sleep(FOLLOW_INTERVAL)) {
+          return { output };
+        }
+        const next = Date.now();
+        const fresh = read(last, next);
+        if (fresh.length > 0) {
+          output = [output, ...fresh].filter(Boolean).join('\n');
+        }
+        last = next;
+      }
+    },
+  });
+
+  registry.register({
+    name: 'metrics',
+    category: 'cloud',
+    summary: 'Instance metrics',
+    usage: [
+      { usage: 'metrics [name]', description: 'Show instance metrics' },
+      { usage: 'metrics [name] --since [10m]', description: 'Show metric history with sparklines' },
+      { usage: 'metrics [name] --watch', description: 'Refresh metrics every 2s until Ctrl+C' },
+    ],
+    complete: (args, ctx) => args.length === 1 ? completeInstanceName(args, ctx) : ['--since', '--watch'],
+    permissions: () => ['monitoring.timeSeries.list'],
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['since']);
+      const name = operands[0];
+      if (!name) {
+        return fail('Usage: metrics [name] [--since duration] [--watch]');
+      }
+      const instance = findInstance(ctx.state, name);
+      if (!instance) {
+        return fail(t(localeOf(ctx.state), 'instance.notFound', { name }));
+      }
+      if (instance.type === 'storage') {
+        return fail(t(localeOf(ctx.state), 'instance.noMetrics', { name }));
+      }
+
+      let window: number | null = null;
+      if (flags.since !== undefined) {
+        window = typeof flags.since === 'string' ? parseDuration(flags.since) : null;
+        if (!window) {
+          return fail(`Invalid duration "${flags.since}". Use e.g. 30s, 10m or 1h.`);
+        }
+      }
+
+      const render = (instance: Instance, now: number) => {
+        const history = window ?? (flags.watch ? WATCH_HISTORY : null);
+        return history ? formatHistory(instance, now, history) : formatMetrics(instance, now);
+      };
+
+      if (!flags.watch) {
+        return { output: render(instance, Date.now()) };
+      }
+
+      let frame = '';
+      for (;;) {
+        const instance = findInstance(ctx.getState(), name);
+        if (!instance) {
+          return { output: frame, error: `Instance "${name}" was deleted.`, exitCode: 1 };
+        }
+        frame = `Every ${WATCH_INTERVAL / 1000}s: metrics ${name} (Ctrl+C to stop)\n\n${render(instance, Date.now())}`;
+        ctx.display(frame);
+        if (!await ctx.sleep(WATCH_INTERVAL)) {
+          return { output: frame };
+        }
+      }
+    },
+  });
+
+  registry.register({
+    name: 'top',
+    category: 'cloud',
+    summary: 'Live view of instances',
+    usage: [
+      { usage: 'top [-d seconds] [-n iterations]', description: 'Redraw instance load, status and cost every 3s until Ctrl+C' },
+    ],
+    complete: () => ['-d', '-n'],
+    permissions: () => ['compute.instances.list', 'monitoring.timeSeries.list'],
+    run: async (args, ctx) => {
+      const { flags } = parseArgs(args, ['d', 'n']);
+      const delay = flags.d === undefined ? TOP_INTERVAL : Number(flags.d) * 1000;
+      const iterations = flags.n === undefined ? Infinity : Number(flags.n);
+      if (!Number.isFinite(delay) || delay <= 0) {
+        return fail(`top: bad delay interval '${flags.d}'`);
+      }
+      if (iterations !== Infinity && (!Number.isInteger(iterations) || iterations < 1)) {
+        return fail(`top: bad iterations argument '${flags.n}'`);
+      }
+      // Each frame goes home and rewrites every line, clearing what the previous frame left behind.
+      let frame = '';
+      for (let count = 1; ; count++) {
+        frame = `\x1b[H${formatTop(ctx.getState(), Date.now()).join('\x1b[K\n')}\x1b[K\x1b[J`;
+        ctx.display(frame);
+        if (count >= iterations || !await ctx.sleep(delay)) {
+          return { output: frame };
+        }
+      }
+    },
+  });
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+const output = async (input: string) => (await runLine(input)).output;
+
+describe('file commands', () => {
+  it('create directories and move between them', async () => {
+    expect(await output('mkdir -p a/b && cd a/b && pwd')).toBe('/home/admin/a/b');
+    expect(await output('cd /nowhere')).toBe('cd: /nowhere: No such file or directory');
+  });
+
+  it('write files through redirection and here-documents', async () => {
+    expect(await output('echo hi > f.txt; cat f.txt')).toBe('hi');
+    expect(await output('cat <<EOF > g.txt\nline one\nEOF\ncat g.txt')).toBe('line one');
+  });
+
+  it('copy, move and remove files', async () => {
+    expect(await output('echo x > a; cp a b; mv b c; rm a; cat c; cat a; cat b')).toBe([
+      'x',
+      'cat: a: No such file or directory',
+      'cat: b: No such file or directory',
+    ].join('\n'));
+    expect(await output('mkdir d; rm d')).toBe('rm: cannot remove \'d\': Is a directory');
+  });
+});
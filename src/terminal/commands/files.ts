@@ -0,0 +1,393 @@
+import { style } from '../ansi';
+import { parseArgs } from '../args';
+import {
+  basename,
+  chmodAt,
+  copyAt,
+  dirname,
+  formatFsError,
+  formatMode,
+  getNode,
+  makeDirectoryAt,
+  moveAt,
+  nodeSize,
+  readFile,
+  removeAt,
+  removeDirectoryAt,
+  resolve,
+  touchAt,
+  type DirectoryNode,
+  type FsNode,
+} from '../fs';
+import { completePaths } from '../completion';
+import { fail } from '../result';
+import type { CommandCompleter, CommandPlugin, CommandResult, SessionState } from '../types';
+
+const formatTime = (mtime: number) => {
+  const date = new Date(mtime);
+  const month = date.toLocaleString('en-US', { month: 'short' });
+  const time = date.toTimeString().slice(0, 5);
+  return `${month} ${String(date.getDate()).padStart(2)} ${time}`;
+};
+
+// As `ls --color` shows them: directories in blue, executables in green.
+const colorName = (name: string, node: FsNode) => {
+  if (node.type === 'dir') {
+    return style(name, 'bold', 'blue');
+  }
+  return node.mode & 0o111 ? style(name, 'bold', 'green') : name;
+};
+
+const longEntry = (name: string, node: FsNode) => {
+  const links = node.type === 'dir' ? Object.values(node.children).filter(c => c.type === 'dir').length + 2 : 1;
+  return `${formatMode(node)} ${String(links).padStart(2)} admin admin ${String(nodeSize(node)).padStart(5)} ${formatTime(node.mtime)} ${name}`;
+};
+
+const listDirectory = (directory: DirectoryNode, parent: DirectoryNode, all: boolean, long: boolean) => {
+  const entries: [string, FsNode][] = Object.keys(directory.children)
+    .sort((a, b) => a.localeCompare(b))
+    .filter(name => all || !name.startsWith('.'))
+    .map(name => [name, directory.children[name]]);
+  if (all) {
+    entries.unshift(['.', directory], ['..', parent]);
+  }
+  if (!long) {
+    return entries.map(([name, node]) => {
+      return node.type === 'dir' && name !== '.' && name !== '..' ? `${colorName(name, node)}/` : colorName(name, node);
+    }).join('\n');
+  }
+  const blocks = entries.reduce((total, [, node]) => total + Math.ceil(nodeSize(node) / 1024), 0);
+  return [`total ${blocks}`, ...entries.map(([name, node]) => longEntry(colorName(name, node), node))].join('\n');
+};
+
+const renderTree = (directory: DirectoryNode, prefix: string, counts: { dirs: number; files: number }): string[] => {
+  const names = Object.keys(directory.children).sort((a, b) => a.localeCompare(b)).filter(name => !name.startsWith('.'));
+  return names.flatMap((name, index) => {
+    const node = directory.children[name];
+    const last = index === names.length - 1;
+    const line = `${prefix}${last ? '└── ' : '├── '}${name}`;
+    if (node.type === 'file') {
+      counts.files++;
+      return [line];
+    }
+    counts.dirs++;
+    return [line, ...renderTree(node, `${prefix}${last ? '    ' : '│   '}`, counts)];
+  });
+};
+
+const parseMode = (spec: string, current: number) => {
+  if (/^[0-7]{3,4}$/.test(spec)) {
+    return parseInt(spec, 8);
+  }
+  const match = /^([ugoa]*)([+\-=])([rwx]+)$/.exec(spec);
+  if (!match) {
+    return null;
+  }
+  const [, who, op, perms] = match;
+  const classes = who === '' || who.includes('a') ? 'ugo' : who;
+  let bits = 0;
+  for (const cls of classes) {
+    const shift = { u: 6, g: 3, o: 0 }[cls as 'u' | 'g' | 'o'];
+    for (const perm of perms) {
+      bits |= { r: 4, w: 2, x: 1 }[perm as 'r' | 'w' | 'x'] << shift;
+    }
+  }
+  if (op === '+') {
+    return current | bits;
+  }
+  if (op === '-') {
+    return current & ~bits;
+  }
+  return bits;
+};
+
+// Runs `operation` against each operand, collecting errors the way coreutils does:
+// keep going, report each failure and exit non-zero if any failed.
+const eachPath = (
+  command: string,
+  state: SessionState,
+  operands: string[],
+  operation: (fs: DirectoryNode, path: string, operand: string) => DirectoryNode
+): CommandResult => {
+  let fs = state.fs;
+  const errors: string[] = [];
+  for (const operand of operands) {
+    try {
+      fs = operation(fs, resolve(state, operand), operand);
+    } catch (error) {
+      errors.push(formatFsError(command, error, operand));
+    }
+  }
+  const next = fs;
+  return {
+    output: '',
+    error: errors.length > 0 ? errors.join('\n') : undefined,
+    exitCode: errors.length > 0 ? 1 : 0,
+    update: s => ({ ...s, fs: next }),
+  };
+};
+
+const completeDirectories: CommandCompleter = (args, { state }) => completePaths(state, args[args.length - 1], true);
+
+export const fileCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'pwd',
+    category: 'files',
+    summary: 'Show current directory',
+    usage: [{ usage: 'pwd', description: 'Print working directory' }],
+    run: (_args, ctx) => ({ output: ctx.state.currentPath }),
+  });
+
+  registry.register({
+    name: 'cd',
+    category: 'files',
+    summary: 'Change directory',
+    usage: [{ usage: 'cd [path]', description: 'Change directory (defaults to home, "-" for previous)' }],
+    complete: completeDirectories,
+    run: (args, { state }) => {
+      const target = args[0] === '-' ? state.env.OLDPWD : args[0] ?? state.env.HOME;
+      if (!target) {
+        return fail('cd: OLDPWD not set');
+      }
+      const path = resolve(state, target);
+      const node = getNode(state.fs, path);
+      if (!node) {
+        return fail(`cd: ${target}: No such file or directory`);
+      }
+      if (node.type !== 'dir') {
+        return fail(`cd: ${target}: Not a directory`);
+      }
+      return {
+        output: args[0] === '-' ? path : '',
+        update: s => ({ ...s, currentPath: path, env: { ...s.env, OLDPWD: s.currentPath } }),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'ls',
+    category: 'files',
+    summary: 'List files',
+    usage: [{ usage: 'ls [-la] [path...]', description: 'List directory contents' }],
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args);
+      const targets = operands.length > 0 ? operands : ['.'];
+      const sections: string[] = [];
+      const errors: string[] = [];
+
+      for (const target of targets) {
+        const path = resolve(state, target);
+        const node = getNode(state.fs, path);
+        if (!node) {
+          errors.push(`ls: cannot access '${target}': No such file or directory`);
+          continue;
+        }
+        if (node.type === 'file') {
+          sections.push(flags.l ? longEntry(target, node) : target);
+          continue;
+        }
+        const parent = getNode(state.fs, dirname(path)) as DirectoryNode;
+        const listing = listDirectory(node, parent ?? node, Boolean(flags.a), Boolean(flags.l));
+        sections.push(targets.length > 1 ? `${target}:\n${listing}` : listing);
+      }
+
+      return {
+        output: sections.join('\n\n'),
+        error: errors.length > 0 ? errors.join('\n') : undefined,
+        exitCode: errors.length > 0 ? 2 : 0,
+      };
+    },
+  });
+
+  registry.register({
+    name: 'tree',
+    category: 'files',
+    summary: 'Show directory tree',
+    usage: [{ usage: 'tree [path]', description: 'Display directories as a tree' }],
+    run: (args, { state }) => {
+      const target = args[0] ?? '.';
+      const node = getNode(state.fs, resolve(state, target));
+      if (!node) {
+        return fail(`${target} [error opening dir]`);
+      }
+      if (node.type !== 'dir') {
+        return { output: `${target}\n\n0 directories, 1 file` };
+      }
+      const counts = { dirs: 0, files: 0 };
+      const lines = renderTree(node, '', counts);
+      const summary = `${counts.dirs} ${counts.dirs === 1 ? 'directory' : 'directories'}, ${counts.files} ${counts.files === 1 ? 'file' : 'files'}`;
+      return { output: [target, ...lines, '', summary].join('\n') };
+    },
+  });
+
+  registry.register({
+    name: 'mkdir',
+    category: 'files',
+    summary: 'Create directory',
+    usage: [{ usage: 'mkdir [-p] [name...]', description: 'Create directory' }],
+    complete: completeDirectories,
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args);
+      if (operands.length === 0) {
+        return fail('mkdir: missing operand');
+      }
+      const result = eachPath('mkdir', state, operands, (fs, path) => makeDirectoryAt(fs, path, Boolean(flags.p)));
+      return {
+        ...result,
+        error: result.error?.replace(/^mkdir: (.*): (.*)$/gm, "mkdir: cannot create directory '$1': $2"),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'rmdir',
+    category: 'files',
+    summary: 'Remove empty directory',
+    usage: [{ usage: 'rmdir [name...]', description: 'Remove empty directories' }],
+    complete: completeDirectories,
+    run: (args, { state }) => {
+      if (args.length === 0) {
+        return fail('rmdir: missing operand');
+      }
+      return eachPath('rmdir', state, args, removeDirectoryAt);
+    },
+  });
+
+  registry.register({
+    name: 'touch',
+    category: 'files',
+    summary: 'Create file',
+    usage: [{ usage: 'touch [name...]', description: 'Create file or update its timestamp' }],
+    run: (args, { state }) => {
+      if (args.length === 0) {
+        return fail('touch: missing file operand');
+      }
+      return eachPath('touch', state, args, touchAt);
+    },
+  });
+
+  registry.register({
+    name: 'rm',
+    category: 'files',
+    summary: 'Remove files',
+    usage: [{ usage: 'rm [-rf] [name...]', description: 'Remove file/directory' }],
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args);
+      const recursive = Boolean(flags.r || flags.R);
+      if (operands.length === 0) {
+        return flags.f ? { output: '' } : fail('rm: missing operand');
+      }
+      const result = eachPath('rm', state, operands, (fs, path) => {
+        if (flags.f && !getNode(fs, path)) {
+          return fs;
+        }
+        return removeAt(fs, path, recursive);
+      });
+      return {
+        ...result,
+        error: result.error?.replace(/^rm: (.*): (.*)$/gm, "rm: cannot remove '$1': $2"),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'cat',
+    category: 'files',
+    summary: 'Print files',
+    usage: [{ usage: 'cat [file...]', description: 'Print file contents (or standard input)' }],
+    run: (args, { state, stdin, blankStdin }) => {
+      if (args.length === 0) {
+        return { output: stdin, blankLine: blankStdin };
+      }
+      const contents: string[] = [];
+      const errors: string[] = [];
+      for (const path of args) {
+        try {
+          contents.push(readFile(state, path).replace(/\n$/, ''));
+        } catch (error) {
+          errors.push(formatFsError('cat', error, path));
+        }
+      }
+      return {
+        output: contents.join('\n'),
+        error: errors.length > 0 ? errors.join('\n') : undefined,
+        exitCode: errors.length > 0 ? 1 : 0,
+      };
+    },
+  });
+
+  registry.register({
+    name: 'cp',
+    category: 'files',
+    summary: 'Copy files',
+    usage: [{ usage: 'cp [-r] [source...] [destination]', description: 'Copy files and directories' }],
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args);
+      if (operands.length < 2) {
+        return fail('cp: missing destination file operand');
+      }
+      const destination = resolve(state, operands[operands.length - 1]);
+      const recursive = Boolean(flags.r || flags.R);
+      const result = eachPath('cp', state, operands.slice(0, -1), (fs, path) => copyAt(fs, path, destination, recursive));
+      return {
+        ...result,
+        error: result.error?.replace(/^cp: (.*): Is a directory$/gm, "cp: -r not specified; omitting directory '$1'"),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'mv',
+    category: 'files',
+    summary: 'Move files',
+    usage: [{ usage: 'mv [source...] [destination]', description: 'Move or rename files' }],
+    run: (args, { state }) => {
+      if (args.length < 2) {
+        return fail('mv: missing destination file operand');
+      }
+      const destination = resolve(state, args[args.length - 1]);
+      return eachPath('mv', state, args.slice(0, -1), (fs, path) => moveAt(fs, path, destination));
+    },
+  });
+
+  registry.register({
+    name: 'chmod',
+    category: 'files',
+    summary: 'Change permissions',
+    usage: [{ usage: 'chmod [mode] [file...]', description: 'Change file mode bits (e.g. 644, u+x)' }],
+    run: (args, { state }) => {
+      const [spec, ...operands] = args;
+      if (!spec || operands.length === 0) {
+        return fail('chmod: missing operand');
+      }
+      if (parseMode(spec, 0) === null) {
+        return fail(`chmod: invalid mode: '${spec}'`);
+      }
+      return eachPath('chmod', state, operands, (fs, path) => {
+        const node = getNode(fs, path);
+        return chmodAt(fs, path, node ? parseMode(spec, node.mode) ?? node.mode : 0);
+      });
+    },
+  });
+
+  registry.register({
+    name: 'nano',
+    category: 'files',
+    summary: 'Edit a file',
+    usage: [{ usage: 'nano [file]', description: 'Open a file in the editor' }],
+    run: (args, { state }) => {
+      if (!args[0]) {
+        return fail('Usage: nano [file]');
+      }
+      const path = resolve(state, args[0]);
+      const node = getNode(state.fs, path);
+      if (node?.type === 'dir') {
+        return fail(`nano: ${args[0]}: Is a directory`);
+      }
+      if (getNode(state.fs, dirname(path))?.type !== 'dir') {
+        return fail(`nano: ${basename(path)}: No such file or directory`);
+      }
+      return { output: '', editor: { path, content: node?.content ?? '' } };
+    },
+  });
+};
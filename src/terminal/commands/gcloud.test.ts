@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from '../state';
+import { runLine } from '../test-utils';
+import type { SessionState } from '../types';
+
+const initial = (): SessionState => ({
+  ...createInitialState(),
+  instances: [
+    { id: 'i-1', name: 'web', type: 'compute', status: 'running', createdAt: 0 },
+    { id: 'i-2', name: 'db', type: 'database', status: 'stopped', createdAt: 0 },
+  ],
+});
+
+describe('gcloud compute instances', () => {
+  it('lists instances with their gcloud status', async () => {
+    const { output } = await runLine('gcloud compute instances list --format="value(name,status)"', initial());
+    expect(output).toBe('web\tRUNNING\ndb\tTERMINATED');
+  });
+
+  it('applies --filter before --format', async () => {
+    const { output } = await runLine('gcloud compute instances list --filter="NOT name:web" --format="csv(name,status)"', initial());
+    expect(output).toBe('name,status\ndb,TERMINATED');
+  });
+
+  it('describes one instance as an object', async () => {
+    const { output } = await runLine('gcloud compute instances describe web --format=json', initial());
+    expect(JSON.parse(output)).toMatchObject({ name: 'web', status: 'RUNNING', labels: { 'instance-type': 'compute' } });
+  });
+
+  it('reports bad flags as gcloud errors', async () => {
+    const { output, exitCode } = await runLine('gcloud compute instances list --filter="status="', initial());
+    expect(exitCode).toBe(1);
+    expect(output).toBe('ERROR: (gcloud.compute.instances.list) Operand expected after [status=] in [status=].');
+  });
+});
@@ -0,0 +1,449 @@
+import { parseArgs } from '../args';
+import {
+  API_ROOT,
+  DEFAULT_ZONE,
+  IMAGES,
+  instancePath,
+  instanceZone,
+  MACHINE_TYPES,
+  PROJECT,
+  resolvePlacement,
+  selfLink,
+  toResource,
+  ZONES,
+} from '../compute';
+import { FormatError, formatResources, lookup, matchesFilter, parseFilter, parseFormat, type Projection, type Resource } from '../format';
+import { formatHelp } from '../help';
+import { attachInstance, externalAddress, internalAddress, networkOptions, NetworkError } from '../hosts';
+import { permissionVerb } from '../iam';
+import { beginTransition, checkTransition, generateInstanceId, isPending, provisionInstance, type LifecycleAction } from '../lifecycle';
+import { fail } from '../result';
+import {
+  INSTANCE_TYPES,
+  type CommandCompleter,
+  type CommandContext,
+  type CommandPlugin,
+  type CommandResult,
+  type Instance,
+  type InstanceType,
+} from '../types';
+
+type Verb = (operands: string[], flags: Record<string, string | true>, ctx: CommandContext) => CommandResult | Promise<CommandResult>;
+
+class GcloudError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GcloudError';
+  }
+}
+
+const VALUE_FLAGS = ['zone', 'zones', 'machine-type', 'image', 'labels', 'network', 'subnet', 'tags', 'filter', 'format', 'limit', 'sort-by', 'type'];
+
+const INSTANCE_NAME = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+
+const LIST_COLUMNS: Projection[] = [
+  { key: ['name'] },
+  { key: ['zone'], transform: 'basename', label: 'ZONE' },
+  { key: ['machineType'], transform: 'basename', label: 'MACHINE_TYPE' },
+  { key: ['networkInterfaces', 'networkIP'], label: 'INTERNAL_IP' },
+  { key: ['networkInterfaces', 'accessConfigs', 'natIP'], label: 'EXTERNAL_IP' },
+  { key: ['status'] },
+];
+
+const resourceError = (message: string) => new GcloudError(`Could not fetch resource:\n - ${message}`);
+
+const notFound = (name: string, zone?: string) => {
+  return resourceError(`The resource '${instancePath({ name, zone: zone ?? DEFAULT_ZONE })}' was not found`);
+};
+
+const formatOption = (flags: Record<string, string | true>, fallback: string) => {
+  return parseFormat(typeof flags.format === 'string' ? flags.format : fallback);
+};
+
+// Finds the named instances, honouring --zone; without it any zone matches.
+const findInstances = (instances: Instance[], names: string[], flags: Record<string, string | true>) => {
+  const zone = typeof flags.zone === 'string' ? flags.zone : undefined;
+  return names.map(name => {
+    const instance = instances.find(i => i.type !== 'storage' && i.name === name && (!zone || instanceZone(i) === zone));
+    if (!instance) {
+      throw notFound(name, zone);
+    }
+    return instance;
+  });
+};
+
+const requireNames = (operands: string[], verb: string) => {
+  if (operands.length === 0) {
+    throw new GcloudError(`argument INSTANCE_NAMES [INSTANCE_NAMES ...]: Must be specified.\nUsage: gcloud compute instances ${verb} INSTANCE_NAMES [INSTANCE_NAMES ...] [optional flags]`);
+  }
+};
+
+// Waits until none of the instances is in a transitional status any more.
+const waitForAll = async (ctx: CommandContext, ids: string[]) => {
+  await ctx.waitFor(s => ids.every(id => {
+    const instance = s.instances.find(i => i.id === id);
+    return !instance || !isPending(instance);
+  }));
+  return ids.map(id => ctx.getState().instances.find(i => i.id === id));
+};
+
+const interrupted = (lines: string[]) => ({
+  output: [...lines, 'Interrupted; the operation continues in the background.'].join('\n'),
+});
+
+const create: Verb = async (names, flags, ctx) => {
+  requireNames(names, 'create');
+  const type = (typeof flags.type === 'string' ? flags.type : 'compute') as InstanceType;
+  if (!INSTANCE_TYPES.includes(type)) {
+    throw new GcloudError(`argument --type: Invalid choice: '${type}'. Valid choices are [${INSTANCE_TYPES.join(', ')}].`);
+  }
+  let placement;
+  try {
+    placement = resolvePlacement(flags);
+  } catch (error) {
+    throw resourceError((error as Error).message);
+  }
+  for (const name of names) {
+    if (!INSTANCE_NAME.test(name)) {
+      throw resourceError(`Invalid value for field 'resource.name': '${name}'. Must be a match of regex '(?:[a-z](?:[-a-z0-9]{0,61}[a-z0-9])?)'`);
+    }
+    if (ctx.state.instances.some(i => i.name === name)) {
+      throw resourceError(`The resource '${instancePath({ name, zone: placement.zone })}' already exists`);
+    }
+  }
+
+  const now = Date.now();
+  const created: Instance[] = [];
+  for (const name of names) {
+    let attached;
+    try {
+      const state = ctx.getState();
+      attached = attachInstance({ ...state, instances: [...state.instances, ...created] }, { id: generateInstanceId(), name, type, ...placement }, networkOptions(flags));
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        throw resourceError(error.message);
+      }
+      throw error;
+    }
+    created.push(provisionInstance(attached, now, Boolean(flags['simulate-failure'])));
+  }
+  ctx.update(s => ({ ...s, instances: [...s.instances, ...created] }));
+  if (flags.async) {
+    return {
+      output: created.map(instance => `Create in progress for [${selfLink(instance)}].`).concat(
+        `Use [gcloud compute instances describe ${names.join(' ')} --zone=${placement.zone}] to check the status.`
+      ).join('\n'),
+    };
+  }
+
+  const settled = await waitForAll(ctx, created.map(instance => instance.id));
+  const lines = created.map(instance => `Created [${selfLink(instance)}].`);
+  if (ctx.signal.aborted && settled.some(instance => instance && isPending(instance))) {
+    return interrupted(lines);
+  }
+  const failed = settled.find(instance => instance?.status === 'error');
+  const present = settled.filter((instance): instance is Instance => Boolean(instance));
+  const table = formatResources(present.map(toResource), formatOption(flags, 'table'), LIST_COLUMNS);
+  if (failed) {
+    return {
+      output: [...lines, table].join('\n'),
+      error: `ERROR: (gcloud.compute.instances.create) Instance [${failed.name}] failed to start and is now ${toResource(failed).status}.`,
+      exitCode: 1,
+    };
+  }
+  return { output: [...lines, table].join('\n') };
+};
+
+const list: Verb = (operands, flags, { state }) => {
+  if (operands.length > 0) {
+    throw new GcloudError(`unrecognized arguments: ${operands.join(' ')}`);
+  }
+  const zones = typeof flags.zones === 'string' ? flags.zones.split(',') : undefined;
+  const filter = parseFilter(typeof flags.filter === 'string' ? flags.filter : '');
+  // Buckets are listed by gsutil, not as compute instances.
+  let resources = state.instances
+    .filter(instance => instance.type !== 'storage' && (!zones || zones.includes(instanceZone(instance))))
+    .map(toResource)
+    .filter(resource => matchesFilter(resource, filter));
+  if (typeof flags['sort-by'] === 'string') {
+    const descending = flags['sort-by'].startsWith('~');
+    const key = flags['sort-by'].replace(/^~/, '').split('.');
+    resources = [...resources].sort((a, b) => String(lookup(a, key) ?? '').localeCompare(String(lookup(b, key) ?? '')) * (descending ? -1 : 1));
+  }
+  if (typeof flags.limit === 'string') {
+    const limit = Number(flags.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new GcloudError(`argument --limit: Value must be greater than or equal to 1; received: ${flags.limit}`);
+    }
+    resources = resources.slice(0, limit);
+  }
+  const format = formatOption(flags, 'table');
+  if (resources.length === 0 && format.kind !== 'json') {
+    return { output: 'Listed 0 items.' };
+  }
+  return { output: formatResources(resources, format, LIST_COLUMNS) };
+};
+
+const describe: Verb = (operands, flags, { state }) => {
+  if (operands.length !== 1) {
+    throw new GcloudError('argument INSTANCE_NAME: Must be specified exactly once.\nUsage: gcloud compute instances describe INSTANCE_NAME [optional flags]');
+  }
+  const [instance] = findInstances(state.instances, operands, flags);
+  return { output: formatResources([toResource(instance)], formatOption(flags, 'yaml'), LIST_COLUMNS, true) };
+};
+
+const PROGRESS: Record<LifecycleAction, string> = {
+  start: 'Starting',
+  stop: 'Stopping',
+  delete: 'Deleting',
+};
+
+const CONFIRM = 'Do you want to continue (Y/n)?  ';
+
+const transition = (action: LifecycleAction): Verb => async (names, flags, ctx) => {
+  requireNames(names, action);
+  const instances = findInstances(ctx.state.instances, names, flags);
+  const lines: string[] = [];
+
+  if (action === 'delete' && !flags.quiet && !flags.q) {
+    lines.push(
+      'The following instances will be deleted. Any attached disks configured to be auto-deleted will be deleted',
+      'unless they are attached to any other instances. Deleting a disk is irreversible and any data on the disk will be lost.',
+      ...instances.map(instance => ` - [${instance.name}] in [${instanceZone(instance)}]`),
+      '',
+    );
+    ctx.display(lines.join('\n'));
+    const answer = await ctx.prompt(CONFIRM);
+    lines.push(`${CONFIRM}${answer ?? ''}`, '');
+    // Without a terminal to ask on, gcloud takes the default answer.
+    if (answer !== null && !/^(y|yes)?$/i.test(answer.trim())) {
+      return { output: lines.join('\n'), error: `ERROR: (gcloud.compute.instances.${action}) Aborted by user.`, exitCode: 1 };
+    }
+  }
+
+  const pending = instances.filter(instance => {
+    const rejection = checkTransition(instance, action);
+    if (rejection && !(action === 'start' && instance.status === 'running') && !(action === 'stop' && instance.status === 'stopped')) {
+      throw resourceError(rejection);
+    }
+    return !rejection;
+  });
+  const now = Date.now();
+  const simulateFailure = Boolean(flags['simulate-failure']);
+  const ids = pending.map(instance => instance.id);
+  ctx.update(s => ({
+    ...s,
+    instances: s.instances.map(i => ids.includes(i.id) ? beginTransition(i, action, now, simulateFailure) : i),
+  }));
+
+  if (flags.async) {
+    const verb = action === 'delete' ? 'Delete' : 'Update';
+    return { output: [...lines, ...instances.map(instance => `${verb} in progress for [${selfLink(instance)}].`)].join('\n') };
+  }
+
+  const settled = await waitForAll(ctx, ids);
+  lines.push(`${PROGRESS[action]} instance(s) ${names.join(' ')}...done.`);
+  if (ctx.signal.aborted && settled.some(instance => instance && isPending(instance))) {
+    return interrupted(lines);
+  }
+  if (action === 'delete') {
+    lines.push(...instances.map(instance => `Deleted [${selfLink(instance)}].`));
+    return { output: lines.join('\n') };
+  }
+  lines.push(...instances.map(instance => `Updated [${selfLink(instance)}].`));
+  const failed = settled.find(instance => instance?.status === 'error');
+  if (failed) {
+    return { output: lines.join('\n'), error: `ERROR: (gcloud.compute.instances.start) Instance [${failed.name}] failed to start and is now REPAIRING.`, exitCode: 1 };
+  }
+  if (action === 'start' && instances.length === 1) {
+    const instance = ctx.getState().instances.find(i => i.id === instances[0].id)!;
+    lines.push(`Instance internal IP is ${internalAddress(instance)}`, `Instance external IP is ${externalAddress(instance)}`);
+  }
+  return { output: lines.join('\n') };
+};
+
+const INSTANCE_VERBS: Record<string, Verb> = {
+  create,
+  list,
+  describe,
+  start: transition('start'),
+  stop: transition('stop'),
+  delete: transition('delete'),
+};
+
+const ZONE_COLUMNS: Projection[] = [{ key: ['name'] }, { key: ['region'], transform: 'basename', label: 'REGION' }, { key: ['status'] }];
+const MACHINE_TYPE_COLUMNS: Projection[] = [{ key: ['name'] }, { key: ['zone'] }, { key: ['guestCpus'], label: 'CPUS' }, { key: ['memoryGb'], label: 'MEMORY_GB' }];
+const IMAGE_COLUMNS: Projection[] = [{ key: ['name'] }, { key: ['project'] }, { key: ['family'] }, { key: ['status'] }];
+
+// Read-only catalogues: `gcloud compute zones|machine-types|images list`.
+const CATALOGUES: Record<string, { columns: Projection[]; resources: (flags: Record<string, string | true>) => Resource[] }> = {
+  zones: {
+    columns: ZONE_COLUMNS,
+    resources: () => ZONES.map(zone => ({
+      kind: 'compute#zone',
+      name: zone,
+      region: `${API_ROOT}/projects/${PROJECT}/regions/${zone.replace(/-[a-z]$/, '')}`,
+      status: 'UP',
+    })),
+  },
+  'machine-types': {
+    columns: MACHINE_TYPE_COLUMNS,
+    resources: flags => {
+      const zone = typeof flags.zones === 'string' ? flags.zones : DEFAULT_ZONE;
+      return Object.entries(MACHINE_TYPES).map(([name, { cpus, memoryGb }]) => ({
+        kind: 'compute#machineType',
+        name,
+        zone,
+        guestCpus: cpus,
+        memoryGb,
+      }));
+    },
+  },
+  images: {
+    columns: IMAGE_COLUMNS,
+    resources: () => Object.entries(IMAGES).map(([family, project]) => ({
+      kind: 'compute#image',
+      name: `${family}-v20240910`,
+      project,
+      family,
+      status: 'READY',
+    })),
+  },
+};
+
+const GROUP_HELP = `Usage: gcloud compute instances COMMAND [flags]
+
+Commands:
+  create NAME... [--zone=ZONE] [--machine-type=TYPE] [--image=IMAGE] [--labels=KEY=VALUE,...]
+      [--network=NETWORK] [--subnet=SUBNET] [--tags=TAG,...] [--async]
+  list [--filter=EXPR] [--zones=ZONE,...] [--format=FORMAT] [--limit=N] [--sort-by=FIELD]
+  describe NAME [--zone=ZONE] [--format=FORMAT]
+  start NAME... [--zone=ZONE] [--async]
+  stop NAME... [--zone=ZONE] [--async]
+  delete NAME... [--zone=ZONE] [--quiet] [--async]
+
+Formats: json, yaml, table(FIELD,...), value(FIELD,...), csv(FIELD,...)
+The simulator-only --type flag picks the instance type (default: compute).`;
+
+const runCompute = async (args: string[], ctx: CommandContext): Promise<CommandResult> => {
+  const [group, verb, ...rest] = args;
+  const { flags, operands } = parseArgs(rest, VALUE_FLAGS);
+  if (group === 'instances') {
+    if (!verb) {
+      return { output: GROUP_HELP };
+    }
+    const handler = INSTANCE_VERBS[verb];
+    if (!handler) {
+      return fail(`ERROR: (gcloud.compute.instances) Invalid choice: '${verb}'.\n${GROUP_HELP}`, 2);
+    }
+    try {
+      return await handler(operands, flags, ctx);
+    } catch (error) {
+      if (error instanceof GcloudError || error instanceof FormatError) {
+        return fail(`ERROR: (gcloud.compute.instances.${verb}) ${error.message}`);
+      }
+      throw error;
+    }
+  }
+  const catalogue = CATALOGUES[group];
+  const choices = ['instances', ...Object.keys(CATALOGUES)].join(', ');
+  if (!group) {
+    return { output: `Usage: gcloud compute GROUP COMMAND [flags]\n\nGroups: ${choices}` };
+  }
+  if (!catalogue || verb !== 'list') {
+    return fail(`ERROR: (gcloud.compute) Invalid choice: '${[group, verb].filter(Boolean).join(' ')}'.\nAvailable groups: ${choices}`, 2);
+  }
+  try {
+    const filter = parseFilter(typeof flags.filter === 'string' ? flags.filter : '');
+    const resources = catalogue.resources(flags).filter(resource => matchesFilter(resource, filter));
+    return { output: formatResources(resources, formatOption(flags, 'table'), catalogue.columns) };
+  } catch (error) {
+    if (error instanceof FormatError) {
+      return fail(`ERROR: (gcloud.compute.${group}.list) ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+const FLAG_VALUES: Record<string, string[]> = {
+  '--zone': ZONES,
+  '--zones': ZONES,
+  '--machine-type': Object.keys(MACHINE_TYPES),
+  '--image': Object.keys(IMAGES),
+  '--type': [...INSTANCE_TYPES],
+  '--format': ['json', 'yaml', 'table', 'value(name)', 'csv(name,status)'],
+};
+
+const VERB_FLAGS: Record<string, string[]> = {
+  create: ['--zone', '--machine-type', '--image', '--labels', '--network', '--subnet', '--tags', '--type', '--async', '--format'],
+  list: ['--filter', '--zones', '--format', '--limit', '--sort-by'],
+  describe: ['--zone', '--format'],
+  start: ['--zone', '--async'],
+  stop: ['--zone', '--async'],
+  delete: ['--zone', '--quiet', '--async'],
+};
+
+const completeGcloud: CommandCompleter = (args, { state }) => {
+  const partial = args[args.length - 1];
+  if (args.length === 1) {
+    return ['compute'];
+  }
+  if (args[0] !== 'compute') {
+    return [];
+  }
+  if (args.length === 2) {
+    return ['instances', ...Object.keys(CATALOGUES)];
+  }
+  if (args.length === 3) {
+    return args[1] === 'instances' ? Object.keys(INSTANCE_VERBS) : ['list'];
+  }
+  const previous = args[args.length - 2];
+  if (FLAG_VALUES[previous]) {
+    return FLAG_VALUES[previous];
+  }
+  if (partial.startsWith('-')) {
+    return VERB_FLAGS[args[2]] ?? [];
+  }
+  return args[1] === 'instances' && args[2] !== 'create' && args[2] !== 'list' ? state.instances.map(instance => instance.name) : [];
+};
+
+export const gcloudCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'gcloud',
+    category: 'cloud',
+    summary: 'Cloud management',
+    usage: [
+      { usage: 'gcloud', description: 'Show cloud management commands' },
+      { usage: 'gcloud compute instances create|list|describe|start|stop|delete', description: 'Manage instances with gcloud syntax' },
+      { usage: 'gcloud compute zones|machine-types|images list', description: 'List zones, machine types and images' },
+    ],
+    complete: completeGcloud,
+    permissions: args => {
+      const [service, group, verb] = args.filter(arg => !arg.startsWith('-'));
+      if (service !== 'compute' || !group || !verb) {
+        return [];
+      }
+      return [`compute.${group.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase())}.${permissionVerb(verb)}`];
+    },
+    run: (args, ctx) => {
+      if (args[0] === 'compute') {
+        return runCompute(args.slice(1), ctx);
+      }
+      if (args.length > 0) {
+        return fail(`ERROR: (gcloud) Invalid choice: '${args[0]}'.\nThis simulator supports: gcloud compute`, 2);
+      }
+      return {
+        output: `Google Cloud CLI Simulator
+
+${formatHelp(ctx.registry, ['cloud'])}
+
+Available instance types:
+  - compute: Virtual machine instances
+  - database: Database instances
+  - storage: Storage buckets
+  - network: Network resources
+  - security: Security services`,
+      };
+    },
+  });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+const repo = [
+  'git config --global user.name Ada',
+  'git config --global user.email ada@example.com',
+  'mkdir repo',
+  'cd repo',
+  'git init',
+  'echo one > a.txt',
+  'git add a.txt',
+  'git commit -m first',
+].join(' && ');
+
+describe('git', () => {
+  it('asks for an identity before the first commit', async () => {
+    const { output, exitCode } = await runLine('git init && echo x > f && git add f && git commit -m x');
+    expect(exitCode).toBe(128);
+    expect(output).toContain('Author identity unknown');
+  });
+
+  it('diffs the worktree against the index', async () => {
+    const { output, exitCode } = await runLine(`${repo} && echo two > a.txt && git status --short && git diff`);
+    expect(exitCode).toBe(0);
+    expect(output).toContain(' M a.txt\n');
+    expect(output.split('\n').slice(-3)).toEqual(['@@ -1 +1 @@', '-one', '+two']);
+  });
+
+  it('fast-forwards a merged branch', async () => {
+    const { output, exitCode } = await runLine(
+      `${repo} && git checkout -b feature && echo two >> a.txt && git commit -am second && git checkout main && git merge feature && cat a.txt`
+    );
+    expect(exitCode).toBe(0);
+    expect(output).toContain('Fast-forward');
+    expect(output.split('\n').slice(-2)).toEqual(['one', 'two']);
+  });
+
+  it('logs commits newest first with their refs', async () => {
+    const { output } = await runLine(`${repo} && git checkout -b feature && echo two >> a.txt && git commit -am second && git log --oneline`);
+    const log = output.split('\n').slice(-2).map(line => line.replace(/^[0-9a-f]{7} /, ''));
+    expect(log).toEqual(['(HEAD -> feature) second', '(main) first']);
+  });
+});
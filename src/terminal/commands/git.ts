@@ -0,0 +1,1193 @@
+import { parseArgs } from '../args';
+import { completePaths } from '../completion';
+import {
+  basename,
+  FsError,
+  formatFsError,
+  getNode,
+  HOME,
+  joinPath,
+  resolve,
+  splitPath,
+  writeFileAt,
+  type DirectoryNode,
+  type FsNode,
+} from '../fs';
+import { getConfigValue, isValidKey, parseConfig, setConfigValue } from '../git/config';
+import { countChanges, formatHunks, mergeLines } from '../git/diff';
+import { sampleRepository, SAMPLE_REPOSITORY } from '../git/fixtures';
+import {
+  GitError,
+  hashObject,
+  Repository,
+  shortId,
+  type Commit,
+  type FileChange,
+  type FileMap,
+  type ObjectId,
+  type Signature,
+} from '../git/repository';
+import { formatUsage } from '../help';
+import { fail } from '../result';
+import type { CommandCompleter, CommandDefinition, CommandPlugin, CommandResult, GitRepo, SessionState } from '../types';
+
+type Subcommand = (args: string[], state: SessionState) => CommandResult;
+
+interface Version {
+  id: ObjectId;
+  mode: string;
+  content?: string;
+}
+
+const NULL_ID = '0000000';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatDate = (time: number) => {
+  const date = new Date(time * 1000);
+  const clock = date.toISOString().slice(11, 19);
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()} ${clock} ${date.getUTCFullYear()} +0000`;
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const relativePath = (from: string, to: string) => {
+  const source = splitPath(from);
+  const target = splitPath(to);
+  let shared = 0;
+  while (shared < source.length && shared < target.length && source[shared] === target[shared]) {
+    shared++;
+  }
+  return [...source.slice(shared).map(() => '..'), ...target.slice(shared)].join('/') || '.';
+};
+
+const globalConfigPath = (state: SessionState) => joinPath(state.env.HOME || HOME, '.gitconfig');
+
+const readText = (fs: DirectoryNode, path: string) => {
+  const node = getNode(fs, path);
+  return node?.type === 'file' ? node.content : '';
+};
+
+const configValue = (state: SessionState, repository: Repository | null, key: string) => {
+  const local = repository ? getConfigValue(repository.readGitFile('config') ?? '', key) : undefined;
+  return local ?? getConfigValue(readText(state.fs, globalConfigPath(state)), key);
+};
+
+const identity = (state: SessionState, repository: Repository): Signature => {
+  const name = configValue(state, repository, 'user.name');
+  const email = configValue(state, repository, 'user.email');
+  if (!name || !email) {
+    throw new GitError([
+      'Author identity unknown',
+      '',
+      '*** Please tell me who you are.',
+      '',
+      'Run',
+      '',
+      '  git config --global user.email "you@example.com"',
+      '  git config --global user.name "Your Name"',
+      '',
+      "to set your account's default identity.",
+      'Omit --global to set the identity only in this repository.',
+      '',
+      `fatal: unable to auto-detect email address (got '${state.env.USER || 'admin'}@localhost.(none)')`,
+    ].join('\n'));
+  }
+  return { name, email, time: Math.floor(Date.now() / 1000) };
+};
+
+const saved = (repository: Repository, output: string, exitCode?: number): CommandResult => ({
+  output,
+  exitCode,
+  update: state => ({ ...state, fs: repository.fs }),
+});
+
+// Paths given on the command line, relative to the repository root.
+const pathspecs = (state: SessionState, repository: Repository, specs: string[]) => specs.map(spec => {
+  const path = relativePath(repository.root, resolve(state, spec));
+  if (path.startsWith('..')) {
+    throw new GitError(`fatal: ${spec}: '${spec}' is outside repository at '${repository.root}'`);
+  }
+  return path;
+});
+
+const matchesSpec = (path: string, spec: string) => spec === '.' || path === spec || path.startsWith(`${spec}/`);
+
+const commitSubject = (commit: Commit) => commit.message.split('\n')[0];
+
+// Local and remote-tracking branches pointing at each commit, for log decorations.
+const decorations = (repository: Repository) => {
+  const labels = new Map<ObjectId, string[]>();
+  const add = (id: ObjectId | undefined, label: string) => {
+    if (id) {
+      labels.set(id, [...labels.get(id) ?? [], label]);
+    }
+  };
+  const head = repository.head();
+  add(head.id, head.branch ? `HEAD -> ${head.branch}` : 'HEAD');
+  for (const branch of repository.branches().filter(branch => branch !== head.branch)) {
+    add(repository.readRef(`refs/heads/${branch}`), branch);
+  }
+  for (const branch of repository.listRefs('refs/remotes')) {
+    add(repository.readRef(`refs/remotes/${branch}`), branch);
+  }
+  return labels;
+};
+
+const upstreamOf = (repository: Repository, branch: string) => {
+  const config = repository.readGitFile('config') ?? '';
+  const remote = getConfigValue(config, `branch.${branch}.remote`);
+  const merge = getConfigValue(config, `branch.${branch}.merge`);
+  if (!remote || !merge) {
+    return undefined;
+  }
+  const name = `${remote}/${merge.replace(/^refs\/heads\//, '')}`;
+  return { name, id: repository.readRef(`refs/remotes/${name}`) };
+};
+
+const trackingInfo = (repository: Repository, branch: string, id: ObjectId | undefined) => {
+  const upstream = upstreamOf(repository, branch);
+  if (!upstream || !id) {
+    return [];
+  }
+  if (!upstream.id) {
+    return [
+      `Your branch is based on '${upstream.name}', but the upstream is gone.`,
+      '  (use "git branch --unset-upstream" to fixup)',
+    ];
+  }
+  const local = new Set(repository.log([id]).map(entry => entry.id));
+  const remote = new Set(repository.log([upstream.id]).map(entry => entry.id));
+  const ahead = [...local].filter(commit => !remote.has(commit)).length;
+  const behind = [...remote].filter(commit => !local.has(commit)).length;
+  if (ahead && behind) {
+    return [
+      `Your branch and '${upstream.name}' have diverged,`,
+      `and have ${ahead} and ${behind} different commits each, respectively.`,
+      '  (use "git pull" to merge the remote branch into yours)',
+    ];
+  }
+  if (ahead) {
+    return [`Your branch is ahead of '${upstream.name}' by ${plural(ahead, 'commit')}.`, '  (use "git push" to publish your local commits)'];
+  }
+  if (behind) {
+    return [
+      `Your branch is behind '${upstream.name}' by ${plural(behind, 'commit')}, and can be fast-forwarded.`,
+      '  (use "git pull" to update your local branch)',
+    ];
+  }
+  return [`Your branch is up to date with '${upstream.name}'.`];
+};
+
+const workTreeVersions = (repository: Repository, paths?: string[]) => {
+  const versions: Record<string, Version> = {};
+  for (const [path, { content, mode }] of Object.entries(repository.workTree())) {
+    if (!paths || paths.includes(path)) {
+      versions[path] = { id: hashObject({ type: 'blob', content }), mode, content };
+    }
+  }
+  return versions;
+};
+
+const contentOf = (repository: Repository, version: Version | undefined) => {
+  if (!version) {
+    return '';
+  }
+  return version.content ?? repository.readBlob(version.id);
+};
+
+const changedPaths = (from: Record<string, Version>, to: Record<string, Version>) => {
+  return [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(path => from[path]?.id !== to[path]?.id || from[path]?.mode !== to[path]?.mode)
+    .sort();
+};
+
+const formatDiff = (repository: Repository, from: Record<string, Version>, to: Record<string, Version>) => {
+  return changedPaths(from, to).map(path => {
+    const before = from[path];
+    const after = to[path];
+    const header = [`diff --git a/${path} b/${path}`];
+    if (!before) {
+      header.push(`new file mode ${after.mode}`, `index ${NULL_ID}..${shortId(after.id)}`, '--- /dev/null', `+++ b/${path}`);
+    } else if (!after) {
+      header.push(`deleted file mode ${before.mode}`, `index ${shortId(before.id)}..${NULL_ID}`, `--- a/${path}`, '+++ /dev/null');
+    } else {
+      if (before.mode !== after.mode) {
+        header.push(`old mode ${before.mode}`, `new mode ${after.mode}`);
+      }
+      if (before.id === after.id) {
+        return header.join('\n');
+      }
+      header.push(
+        `index ${shortId(before.id)}..${shortId(after.id)}${before.mode === after.mode ? ` ${after.mode}` : ''}`,
+        `--- a/${path}`,
+        `+++ b/${path}`,
+      );
+    }
+    return [...header, ...formatHunks(contentOf(repository, before), contentOf(repository, after))].join('\n');
+  }).join('\n');
+};
+
+const summaryLine = (files: number, insertions: number, deletions: number) => {
+  const parts = [` ${plural(files, 'file')} changed`];
+  if (insertions || !deletions) {
+    parts.push(`${plural(insertions, 'insertion')}(+)`);
+  }
+  if (deletions || !insertions) {
+    parts.push(`${plural(deletions, 'deletion')}(-)`);
+  }
+  return parts.join(', ');
+};
+
+const MAX_BAR = 50;
+
+// The diffstat printed by commit, merge and fast-forward.
+const formatStat = (repository: Repository, from: FileMap, to: FileMap, perFile: boolean) => {
+  const paths = changedPaths(from, to);
+  const stats = paths.map(path => ({ path, ...countChanges(contentOf(repository, from[path]), contentOf(repository, to[path])) }));
+  const insertions = stats.reduce((total, stat) => total + stat.insertions, 0);
+  const deletions = stats.reduce((total, stat) => total + stat.deletions, 0);
+  const lines: string[] = [];
+  if (perFile) {
+    const width = Math.max(...paths.map(path => path.length));
+    const largest = Math.max(...stats.map(stat => stat.insertions + stat.deletions));
+    const countWidth = String(largest).length;
+    const scale = largest > MAX_BAR ? MAX_BAR / largest : 1;
+    for (const stat of stats) {
+      const total = stat.insertions + stat.deletions;
+      const bar = '+'.repeat(Math.round(stat.insertions * scale)) + '-'.repeat(Math.round(stat.deletions * scale));
+      lines.push(` ${stat.path.padEnd(width)} | ${String(total).padStart(countWidth)}${bar ? ` ${bar}` : ''}`);
+    }
+  }
+  lines.push(summaryLine(paths.length, insertions, deletions));
+  for (const path of paths) {
+    if (!from[path]) {
+      lines.push(` create mode ${to[path].mode} ${path}`);
+    } else if (!to[path]) {
+      lines.push(` delete mode ${from[path].mode} ${path}`);
+    }
+  }
+  return lines.join('\n');
+};
+
+// Git's branch name rules, reduced to the cases people actually hit.
+const isValidBranchName = (name: string) => {
+  return !!name && !/[\s~^:?*[\\]|\.\.|@\{|\/\/|^[-/]|[/.]$|\.lock$/.test(name) && name !== 'HEAD';
+};
+
+const requireCommit = (repository: Repository, revision: string) => {
+  const id = repository.resolve(revision);
+  if (!id) {
+    throw new GitError(`fatal: not a valid object name: '${revision}'`);
+  }
+  repository.readCommit(id);
+  return id;
+};
+
+const createBranch = (repository: Repository, name: string, start = 'HEAD') => {
+  if (!isValidBranchName(name)) {
+    throw new GitError(`fatal: '${name}' is not a valid branch name`);
+  }
+  if (repository.readRef(`refs/heads/${name}`)) {
+    throw new GitError(`fatal: a branch named '${name}' already exists`);
+  }
+  const id = requireCommit(repository, start === 'HEAD' ? 'HEAD' : start);
+  repository.writeRef(`refs/heads/${name}`, id);
+  return id;
+};
+
+const setUpstream = (repository: Repository, branch: string, remoteBranch: string) => {
+  let config = repository.readGitFile('config') ?? '';
+  config = setConfigValue(config, `branch.${branch}.remote`, 'origin');
+  config = setConfigValue(config, `branch.${branch}.merge`, `refs/heads/${remoteBranch}`);
+  repository.writeGitFile('config', config);
+};
+
+const switchBranch = (repository: Repository, branch: string) => {
+  const current = repository.head();
+  if (current.branch === branch) {
+    return [`Already on '${branch}'`, ...trackingInfo(repository, branch, current.id)].join('\n');
+  }
+  const id = repository.readRef(`refs/heads/${branch}`);
+  repository.checkout(repository.commitFiles(id));
+  repository.setHead({ branch });
+  return [`Switched to branch '${branch}'`, ...trackingInfo(repository, branch, id)].join('\n');
+};
+
+// Checks out a branch, creating it from `origin/<branch>` when only the
+// remote-tracking branch exists, like `git checkout` and `git switch` do.
+const checkoutBranch = (repository: Repository, name: string) => {
+  if (repository.readRef(`refs/heads/${name}`)) {
+    return switchBranch(repository, name);
+  }
+  const remote = repository.readRef(`refs/remotes/origin/${name}`);
+  if (!remote) {
+    return undefined;
+  }
+  repository.checkout(repository.commitFiles(remote));
+  repository.writeRef(`refs/heads/${name}`, remote);
+  repository.setHead({ branch: name });
+  setUpstream(repository, name, name);
+  return `branch '${name}' set up to track 'origin/${name}'.\nSwitched to a new branch '${name}'`;
+};
+
+const detach = (repository: Repository, revision: string, id: ObjectId) => {
+  repository.checkout(repository.commitFiles(id));
+  repository.setHead({ id });
+  return [
+    `Note: switching to '${revision}'.`,
+    '',
+    "You are in 'detached HEAD' state. You can look around, make experimental",
+    'changes and commit them, and you can discard any commits you make in this',
+    'state without impacting any branches by switching back to a branch.',
+    '',
+    `HEAD is now at ${shortId(id)} ${commitSubject(repository.readCommit(id))}`,
+  ].join('\n');
+};
+
+const statusLines = (repository: Repository, state: SessionState) => {
+  const head = repository.head();
+  const status = repository.status();
+  const display = (path: string) => {
+    const relative = relativePath(state.currentPath, joinPath(repository.root, path));
+    return path.endsWith('/') ? `${relative}/` : relative;
+  };
+  const entries = (changes: FileChange[]) => changes.map(change => `\t${`${change.kind}:`.padEnd(12)}${display(change.path)}`);
+  const merging = repository.readGitFile('MERGE_HEAD') !== undefined;
+
+  const lines = [head.branch ? `On branch ${head.branch}` : `HEAD detached at ${shortId(head.id ?? '')}`];
+  if (head.branch) {
+    lines.push(...trackingInfo(repository, head.branch, head.id));
+  }
+  if (!head.id) {
+    lines.push('', 'No commits yet');
+  }
+  if (status.conflicts.length > 0) {
+    lines.push('You have unmerged paths.', '  (fix conflicts and run "git commit")', '  (use "git merge --abort" to abort the merge)');
+  } else if (merging) {
+    lines.push('All conflicts fixed but you are still merging.', '  (use "git commit" to conclude merge)');
+  }
+  if (status.staged.length > 0) {
+    lines.push(
+      '',
+      'Changes to be committed:',
+      head.id ? '  (use "git restore --staged <file>..." to unstage)' : '  (use "git rm --cached <file>..." to unstage)',
+      ...entries(status.staged),
+    );
+  }
+  if (status.conflicts.length > 0) {
+    lines.push(
+      '',
+      'Unmerged paths:',
+      '  (use "git add <file>..." to mark resolution)',
+      ...status.conflicts.map(path => `\t${'both modified:'.padEnd(17)}${display(path)}`),
+    );
+  }
+  if (status.unstaged.length > 0) {
+    lines.push(
+      '',
+      'Changes not staged for commit:',
+      '  (use "git add <file>..." to update what will be committed)',
+      '  (use "git restore <file>..." to discard changes in working directory)',
+      ...entries(status.unstaged),
+    );
+  }
+  if (status.untracked.length > 0) {
+    lines.push(
+      '',
+      'Untracked files:',
+      '  (use "git add <file>..." to include in what will be committed)',
+      ...status.untracked.map(path => `\t${display(path)}`),
+    );
+  }
+
+  lines.push('');
+  if (status.staged.length > 0 && status.conflicts.length === 0 && status.unstaged.length === 0) {
+    lines.pop();
+  } else if (status.unstaged.length > 0 || status.conflicts.length > 0) {
+    lines.push('no changes added to commit (use "git add" and/or "git commit -a")');
+  } else if (status.untracked.length > 0) {
+    lines.push('nothing added to commit but untracked files present (use "git add" to track)');
+  } else if (status.staged.length === 0) {
+    lines.push(head.id
+      ? 'nothing to commit, working tree clean'
+      : 'nothing to commit (create/copy files and use "git add" to track)');
+  }
+  return lines;
+};
+
+const shortStatus = (repository: Repository, state: SessionState) => {
+  const status = repository.status();
+  const codes = new Map<string, [string, string]>();
+  const letter = (change: FileChange) => change.kind === 'new file' ? 'A' : change.kind === 'modified' ? 'M' : 'D';
+  for (const change of status.staged) {
+    codes.set(change.path, [letter(change), ' ']);
+  }
+  for (const change of status.unstaged) {
+    codes.set(change.path, [codes.get(change.path)?.[0] ?? ' ', letter(change)]);
+  }
+  for (const path of status.conflicts) {
+    codes.set(path, ['U', 'U']);
+  }
+  const display = (path: string) => {
+    const relative = relativePath(state.currentPath, joinPath(repository.root, path));
+    return path.endsWith('/') ? `${relative}/` : relative;
+  };
+  return [
+    ...[...codes.entries()].sort(([a], [b]) => a < b ? -1 : 1).map(([path, [x, y]]) => `${x}${y} ${display(path)}`),
+    ...status.untracked.map(path => `?? ${display(path)}`),
+  ];
+};
+
+// Draws the `--graph` lanes. Each lane holds the commit expected next in
+// that column; lanes converging on the same commit are joined with `/`
+// before it is drawn, and merges open a new lane with `\`.
+const graphRows = (entries: { id: ObjectId; commit: Commit }[]) => {
+  let lanes: ObjectId[] = [];
+  return entries.map(({ id, commit }) => {
+    const before: string[] = [];
+    let column = lanes.indexOf(id);
+    if (column === -1) {
+      lanes.push(id);
+      column = lanes.length - 1;
+    }
+    for (let duplicate = lanes.lastIndexOf(id); duplicate > column; duplicate = lanes.lastIndexOf(id)) {
+      const chars = Array.from({ length: lanes.length * 2 - 1 }, (_, index): string => index % 2 === 0 && index / 2 < duplicate ? '|' : ' ');
+      for (let lane = duplicate; lane < lanes.length; lane++) {
+        chars[lane * 2 - 1] = '/';
+      }
+      before.push(chars.join('').trimEnd());
+      lanes.splice(duplicate, 1);
+    }
+
+    const marker = lanes.map((_, lane) => lane === column ? '*' : '|').join(' ');
+    const [first, ...others] = commit.parents;
+    const next = [...lanes];
+    if (first) {
+      next[column] = first;
+    } else {
+      next.splice(column, 1);
+    }
+    const added = others.filter(parent => !next.includes(parent));
+    next.splice(column + 1, 0, ...added);
+
+    const after: string[] = [];
+    if (added.length > 0) {
+      const chars = Array.from({ length: next.length * 2 }, (_, index): string => index % 2 === 0 && index / 2 <= column ? '|' : ' ');
+      for (let lane = column + 1; lane < next.length; lane++) {
+        chars[lane * 2 - 1] = '\\';
+      }
+      after.push(chars.join('').trimEnd());
+    }
+    lanes = next;
+    const width = Math.max(marker.length, lanes.length * 2 - 1);
+    return {
+      before,
+      marker: marker.padEnd(width),
+      after,
+      continuation: (lanes.length > 0 ? lanes.map(() => '|').join(' ') : '').padEnd(width),
+    };
+  });
+};
+
+const formatLog = (repository: Repository, entries: { id: ObjectId; commit: Commit }[], oneline: boolean, graph: boolean) => {
+  const labels = decorations(repository);
+  const rows = graph ? graphRows(entries) : undefined;
+  const lines: string[] = [];
+  entries.forEach(({ id, commit }, index) => {
+    const decoration = labels.has(id) ? ` (${labels.get(id)!.join(', ')})` : '';
+    const row = rows?.[index];
+    lines.push(...row?.before ?? []);
+    if (oneline) {
+      lines.push(`${row ? `${row.marker} ` : ''}${shortId(id)}${decoration} ${commitSubject(commit)}`);
+    } else {
+      const body = [
+        ...commit.parents.length > 1 ? [`Merge: ${commit.parents.map(shortId).join(' ')}`] : [],
+        `Author: ${commit.author.name} <${commit.author.email}>`,
+        `Date:   ${formatDate(commit.author.time)}`,
+        '',
+        ...commit.message.replace(/\n$/, '').split('\n').map(line => `    ${line}`),
+      ];
+      const prefix = row ? `${row.continuation} ` : '';
+      if (index > 0 && !row) {
+        lines.push('');
+      }
+      lines.push(`${row ? `${row.marker} ` : ''}commit ${id}${decoration}`);
+      lines.push(...row?.after ?? []);
+      lines.push(...body.map(line => `${prefix}${line}`.trimEnd()));
+      if (row && index < entries.length - 1) {
+        lines.push(row.continuation.trimEnd());
+      }
+      return;
+    }
+    lines.push(...row?.after ?? []);
+  });
+  return lines.join('\n');
+};
+
+const resetTo = (repository: Repository, files: FileMap) => {
+  const index = repository.readIndex();
+  const work = workTreeVersions(repository);
+  for (const path of new Set([...Object.keys(index.entries), ...index.conflicts, ...Object.keys(files)])) {
+    if (files[path]) {
+      if (work[path]?.id !== files[path].id || work[path]?.mode !== files[path].mode) {
+        repository.writeWorkTreeFile(path, repository.readBlob(files[path].id), files[path].mode);
+      }
+    } else {
+      repository.removeWorkTreeFile(path);
+    }
+  }
+  repository.writeIndex({ entries: { ...files }, conflicts: [] });
+};
+
+const mergeLabel = (repository: Repository, revision: string) => {
+  if (repository.readRef(`refs/heads/${revision}`)) {
+    return `branch '${revision}'`;
+  }
+  if (repository.readRef(`refs/remotes/${revision}`)) {
+    return `remote-tracking branch '${revision}'`;
+  }
+  return `commit '${revision}'`;
+};
+
+const finishCommit = (state: SessionState, repository: Repository, message: string, tree: FileMap, parents: ObjectId[]) => {
+  const author = identity(state, repository);
+  const id = repository.writeObject({
+    type: 'commit',
+    tree: repository.writeTree(tree),
+    parents,
+    author,
+    committer: author,
+    message: message.endsWith('\n') ? message : `${message}\n`,
+  });
+  repository.advanceHead(id);
+  return id;
+};
+
+// Lists every file under a directory node as [relative path, content] pairs.
+const walkFiles = (node: FsNode, prefix = ''): [string, string][] => {
+  if (node.type === 'file') {
+    return [[prefix, node.content]];
+  }
+  return Object.entries(node.children).flatMap(([name, child]) => walkFiles(child, prefix ? `${prefix}/${name}` : name));
+};
+
+const cloneSource = (state: SessionState, url: string): DirectoryNode | undefined => {
+  const local = Repository.find(state.fs, resolve(state, url));
+  if (local && !url.includes('://') && resolve(state, url) === local.root) {
+    return getNode(local.fs, local.gitDir) as DirectoryNode;
+  }
+  if (basename(url).replace(/\.git$/, '') === SAMPLE_REPOSITORY) {
+    return sampleRepository();
+  }
+  return undefined;
+};
+
+const subcommands: Record<string, Subcommand> = {
+  init: (args, state) => {
+    const { flags, operands } = parseArgs(args, ['b', 'initial-branch']);
+    const root = resolve(state, operands[0] ?? '.');
+    if (getNode(state.fs, joinPath(root, '.git', 'HEAD'))) {
+      return { output: `Reinitialized existing Git repository in ${root === '/' ? '' : root}/.git/` };
+    }
+    const branch = flags.b ?? flags['initial-branch'];
+    const repository = Repository.init(state.fs, root, typeof branch === 'string' ? branch : 'main');
+    const repo: GitRepo = { name: basename(root), url: root, status: 'initialized', path: root };
+    return {
+      output: `Initialized empty Git repository in ${root === '/' ? '' : root}/.git/`,
+      update: s => ({ ...s, fs: repository.fs, gitRepos: [...s.gitRepos.filter(r => r.path !== root), repo] }),
+    };
+  },
+
+  config: (args, state) => {
+    const { flags, operands } = parseArgs(args);
+    const repository = Repository.find(state.fs, state.currentPath);
+    if (flags.list || flags.l) {
+      const entries = [
+        ...parseConfig(readText(state.fs, globalConfigPath(state))),
+        ...flags.global || !repository ? [] : parseConfig(repository.readGitFile('config') ?? ''),
+      ];
+      return { output: entries.map(([key, value]) => `${key}=${value}`).join('\n') };
+    }
+    const [key, ...value] = operands;
+    if (!key) {
+      return fail('usage: git config [--global] <name> [<value>]\n   or: git config [--global] --list', 129);
+    }
+    if (!isValidKey(key)) {
+      return fail(`error: key does not contain a section: ${key}`, 2);
+    }
+    if (value.length === 0) {
+      const result = flags.global
+        ? getConfigValue(readText(state.fs, globalConfigPath(state)), key)
+        : configValue(state, repository, key);
+      return result === undefined ? { output: '', exitCode: 1 } : { output: result };
+    }
+    if (flags.global) {
+      const path = globalConfigPath(state);
+      const next = setConfigValue(readText(state.fs, path), key, value.join(' '));
+      return { output: '', update: s => ({ ...s, fs: writeFileAt(s.fs, path, next) }) };
+    }
+    if (!repository) {
+      return fail('fatal: not in a git directory', 128);
+    }
+    repository.writeGitFile('config', setConfigValue(repository.readGitFile('config') ?? '', key, value.join(' ')));
+    return saved(repository, '');
+  },
+
+  add: (args, state) => {
+    const { flags, operands } = parseArgs(args);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const specs = flags.A || flags.all ? ['.'] : pathspecs(state, repository, operands);
+    if (specs.length === 0) {
+      return { output: 'Nothing specified, nothing added.\nhint: Maybe you wanted to say \'git add .\'?' };
+    }
+    const index = repository.readIndex();
+    const work = repository.workTree();
+    const entries = { ...index.entries };
+    const resolved = new Set<string>();
+    const ignored: string[] = [];
+
+    specs.forEach((spec, position) => {
+      const files = Object.keys(work).filter(path => matchesSpec(path, spec));
+      const removed = Object.keys(entries).filter(path => matchesSpec(path, spec) && !work[path]);
+      if (files.length === 0 && removed.length === 0 && spec !== '.') {
+        throw new GitError(`fatal: pathspec '${operands[position] ?? spec}' did not match any files`);
+      }
+      for (const path of files) {
+        if (!entries[path] && repository.isIgnored(path)) {
+          if (path === spec) {
+            ignored.push(operands[position]);
+          }
+          continue;
+        }
+        entries[path] = { id: repository.writeObject({ type: 'blob', content: work[path].content }), mode: work[path].mode };
+        resolved.add(path);
+      }
+      for (const path of removed) {
+        delete entries[path];
+        resolved.add(path);
+      }
+    });
+    repository.writeIndex({ entries, conflicts: index.conflicts.filter(path => !resolved.has(path)) });
+    if (ignored.length > 0) {
+      return {
+        ...saved(repository, ''),
+        error: [
+          'The following paths are ignored by one of your .gitignore files:',
+          ...ignored,
+          'hint: Use -f if you really want to add them.',
+        ].join('\n'),
+        exitCode: 1,
+      };
+    }
+    return saved(repository, '');
+  },
+
+  commit: (args, state) => {
+    const { flags } = parseArgs(args, ['m', 'message']);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const index = repository.readIndex();
+    if (index.conflicts.length > 0) {
+      throw new GitError([
+        'error: Committing is not possible because you have unmerged files.',
+        "hint: Fix them up in the work tree, and then use 'git add/rm <file>'",
+        'hint: as appropriate to mark resolution and make a commit.',
+        'fatal: Exiting because of an unresolved conflict.',
+      ].join('\n'));
+    }
+
+    let entries = index.entries;
+    if (flags.a || flags.all) {
+      const work = repository.workTree();
+      entries = {};
+      for (const path of Object.keys(index.entries).filter(path => work[path])) {
+        entries[path] = { id: repository.writeObject({ type: 'blob', content: work[path].content }), mode: work[path].mode };
+      }
+      repository.writeIndex({ entries, conflicts: [] });
+    }
+
+    const head = repository.head();
+    const mergeHead = repository.readGitFile('MERGE_HEAD')?.trim();
+    const previous = repository.commitFiles(head.id);
+    if (!mergeHead && !flags['allow-empty'] && changedPaths(previous, entries).length === 0) {
+      return { ...saved(repository, statusLines(repository, state).join('\n')), exitCode: 1 };
+    }
+    const message = flags.m ?? flags.message ?? (mergeHead ? repository.readGitFile('MERGE_MSG') : undefined);
+    if (typeof message !== 'string' || !message.trim()) {
+      return fail('Aborting commit due to empty commit message.');
+    }
+
+    const id = finishCommit(state, repository, message, entries, [head.id, mergeHead].filter((id): id is string => !!id));
+    repository.removeGitFile('MERGE_HEAD');
+    repository.removeGitFile('MERGE_MSG');
+    const label = head.branch ? `${head.branch}${head.id ? '' : ' (root-commit)'}` : 'detached HEAD';
+    return saved(repository, [
+      `[${label} ${shortId(id)}] ${message.trim().split('\n')[0]}`,
+      formatStat(repository, previous, entries, false),
+    ].join('\n'));
+  },
+
+  status: (args, state) => {
+    const { flags } = parseArgs(args);
+    const repository = Repository.open(state.fs, state.currentPath);
+    if (flags.s || flags.short) {
+      return { output: shortStatus(repository, state).join('\n') };
+    }
+    return { output: statusLines(repository, state).join('\n') };
+  },
+
+  log: (args, state) => {
+    const { flags, operands } = parseArgs(args, ['n', 'max-count']);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const head = repository.head();
+    let starts: ObjectId[];
+    if (flags.all) {
+      starts = [
+        ...repository.branches().map(branch => repository.readRef(`refs/heads/${branch}`)!),
+        ...repository.listRefs('refs/remotes').map(branch => repository.readRef(`refs/remotes/${branch}`)!),
+        ...head.id ? [head.id] : [],
+      ];
+    } else if (operands[0]) {
+      const id = repository.resolve(operands[0]);
+      if (!id) {
+        throw new GitError([
+          `fatal: ambiguous argument '${operands[0]}': unknown revision or path not in the working tree.`,
+          "Use '--' to separate paths from revisions, like this:",
+          "'git <command> [<revision>...] -- [<file>...]'",
+        ].join('\n'));
+      }
+      starts = [id];
+    } else if (head.id) {
+      starts = [head.id];
+    } else {
+      throw new GitError(`fatal: your current branch '${head.branch}' does not have any commits yet`);
+    }
+    const limit = Number(flags.n ?? flags['max-count'] ?? Infinity);
+    const entries = repository.log([...new Set(starts)]).slice(0, limit);
+    return { output: formatLog(repository, entries, !!flags.oneline, !!flags.graph) };
+  },
+
+  diff: (args, state) => {
+    const { flags, operands } = parseArgs(args);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const revisions: ObjectId[] = [];
+    const paths: string[] = [];
+    for (const operand of operands.flatMap(operand => operand.includes('..') ? operand.split('..') : [operand])) {
+      const id = paths.length === 0 ? repository.resolve(operand || 'HEAD') : undefined;
+      if (id) {
+        revisions.push(id);
+      } else {
+        paths.push(operand);
+      }
+    }
+    const specs = pathspecs(state, repository, paths);
+    const filter = (versions: Record<string, Version>) => specs.length === 0
+      ? versions
+      : Object.fromEntries(Object.entries(versions).filter(([path]) => specs.some(spec => matchesSpec(path, spec))));
+
+    const index = repository.readIndex();
+    let from: Record<string, Version>;
+    let to: Record<string, Version>;
+    if (revisions.length >= 2) {
+      from = repository.commitFiles(revisions[0]);
+      to = repository.commitFiles(revisions[1]);
+    } else if (flags.staged || flags.cached) {
+      from = repository.commitFiles(revisions[0] ?? repository.head().id);
+      to = index.entries;
+    } else if (revisions.length === 1) {
+      from = repository.commitFiles(revisions[0]);
+      const tracked = new Set([...Object.keys(index.entries), ...Object.keys(from)]);
+      to = workTreeVersions(repository, [...tracked]);
+    } else {
+      from = index.entries;
+      to = workTreeVersions(repository, Object.keys(index.entries));
+    }
+    return { output: formatDiff(repository, filter(from), filter(to)) };
+  },
+
+  branch: (args, state) => {
+    const { flags, operands } = parseArgs(args);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const head = repository.head();
+
+    if (flags.d || flags.D || flags.delete) {
+      if (operands.length === 0) {
+        return fail('fatal: branch name required', 128);
+      }
+      const lines: string[] = [];
+      for (const name of operands) {
+        const id = repository.readRef(`refs/heads/${name}`);
+        if (!id) {
+          return { ...saved(repository, lines.join('\n')), error: `error: branch '${name}' not found.`, exitCode: 1 };
+        }
+        if (name === head.branch) {
+          return fail(`error: Cannot delete branch '${name}' checked out at '${repository.root}'`);
+        }
+        if (!flags.D && head.id && !repository.isAncestor(id, head.id)) {
+          return fail([
+            `error: The branch '${name}' is not fully merged.`,
+            `If you are sure you want to delete it, run 'git branch -D ${name}'.`,
+          ].join('\n'));
+        }
+        repository.deleteRef(`refs/heads/${name}`);
+        lines.push(`Deleted branch ${name} (was ${shortId(id)}).`);
+      }
+      return saved(repository, lines.join('\n'));
+    }
+
+    if (operands.length > 0) {
+      createBranch(repository, operands[0], operands[1]);
+      return saved(repository, '');
+    }
+
+    const lines = flags.r ? [] : [
+      ...head.branch ? [] : [`* (HEAD detached at ${shortId(head.id ?? '')})`],
+      ...repository.branches().map(branch => `${branch === head.branch ? '*' : ' '} ${branch}`),
+    ];
+    if (flags.a || flags.r) {
+      const prefix = flags.a ? 'remotes/' : '';
+      lines.push(...repository.listRefs('refs/remotes').map(branch => `  ${prefix}${branch}`));
+    }
+    return { output: lines.join('\n') };
+  },
+
+  checkout: (args, state) => {
+    const { flags, operands } = parseArgs(args, ['b', 'B']);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const separator = args.indexOf('--');
+
+    if (typeof flags.b === 'string') {
+      if (repository.head().id) {
+        const id = createBranch(repository, flags.b, operands[0]);
+        repository.checkout(repository.commitFiles(id));
+      } else if (!isValidBranchName(flags.b)) {
+        throw new GitError(`fatal: '${flags.b}' is not a valid branch name`);
+      }
+      repository.setHead({ branch: flags.b });
+      return saved(repository, `Switched to a new branch '${flags.b}'`);
+    }
+
+    const target = operands[0];
+    if (!target) {
+      return fail('error: you must specify path(s) to restore', 1);
+    }
+    if (separator === -1 && operands.length === 1) {
+      const switched = checkoutBranch(repository, target);
+      if (switched !== undefined) {
+        return saved(repository, switched);
+      }
+      const id = repository.resolve(target);
+      if (id && repository.readObject(id).type === 'commit') {
+        return saved(repository, detach(repository, target, id));
+      }
+    }
+
+    // Anything else names paths to restore from the index.
+    const index = repository.readIndex();
+    const specs = pathspecs(state, repository, separator === -1 ? operands : args.slice(separator + 1));
+    let restored = 0;
+    specs.forEach((spec, position) => {
+      const paths = Object.keys(index.entries).filter(path => matchesSpec(path, spec));
+      if (paths.length === 0) {
+        throw new GitError(`error: pathspec '${operands[position]}' did not match any file(s) known to git`, 1);
+      }
+      for (const path of paths) {
+        repository.writeWorkTreeFile(path, repository.readBlob(index.entries[path].id), index.entries[path].mode);
+        restored++;
+      }
+    });
+    return saved(repository, `Updated ${plural(restored, 'path')} from the index`);
+  },
+
+  switch: (args, state) => {
+    const { flags, operands } = parseArgs(args, ['c', 'C', 'create']);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const created = flags.c ?? flags.create;
+    if (typeof created === 'string') {
+      return subcommands.checkout(['-b', created, ...operands], state);
+    }
+    if (!operands[0]) {
+      return fail('fatal: missing branch or commit argument', 128);
+    }
+    const switched = checkoutBranch(repository, operands[0]);
+    if (switched === undefined) {
+      return fail(`fatal: invalid reference: ${operands[0]}`, 128);
+    }
+    return saved(repository, switched);
+  },
+
+  merge: (args, state) => {
+    const { flags, operands } = parseArgs(args, ['m']);
+    const repository = Repository.open(state.fs, state.currentPath);
+    const head = repository.head();
+    const mergeHead = repository.readGitFile('MERGE_HEAD');
+
+    if (flags.abort) {
+      if (!mergeHead) {
+        return fail('fatal: There is no merge to abort (MERGE_HEAD missing).', 128);
+      }
+      resetTo(repository, repository.commitFiles(head.id));
+      repository.removeGitFile('MERGE_HEAD');
+      repository.removeGitFile('MERGE_MSG');
+      return saved(repository, '');
+    }
+    if (mergeHead) {
+      const index = repository.readIndex();
+      if (index.conflicts.length > 0) {
+        throw new GitError([
+          'error: Merging is not possible because you have unmerged files.',
+          "hint: Fix them up in the work tree, and then use 'git add/rm <file>'",
+          'hint: as appropriate to mark resolution and make a commit.',
+          'fatal: Exiting because of an unresolved conflict.',
+        ].join('\n'));
+      }
+      throw new GitError('fatal: You have not concluded your merge (MERGE_HEAD exists).\nPlease, commit your changes before you merge.');
+    }
+
+    const revision = operands[0];
+    if (!revision) {
+      return fail('fatal: No remote for the current branch.', 128);
+    }
+    const theirs = repository.resolve(revision);
+    if (!theirs || repository.readObject(theirs).type !== 'commit') {
+      return fail(`merge: ${revision} - not something we can merge`);
+    }
+    if (!head.id) {
+      repository.checkout(repository.commitFiles(theirs), 'merge');
+      repository.advanceHead(theirs);
+      return saved(repository, '');
+    }
+    if (repository.isAncestor(theirs, head.id)) {
+      return { output: 'Already up to date.' };
+    }
+
+    const ours = repository.commitFiles(head.id);
+    const target = repository.commitFiles(theirs);
+    if (repository.isAncestor(head.id, theirs)) {
+      repository.checkout(target, 'merge');
+      repository.advanceHead(theirs);
+      return saved(repository, [
+        `Updating ${shortId(head.id)}..${shortId(theirs)}`,
+        'Fast-forward',
+        formatStat(repository, ours, target, true),
+      ].join('\n'));
+    }
+
+    const baseId = repository.mergeBase(head.id, theirs);
+    const base = repository.commitFiles(baseId);
+    const status = repository.status();
+    const incoming = changedPaths(base, target);
+    const dirty = [...status.staged, ...status.unstaged].map(change => change.path).filter(path => incoming.includes(path));
+    if (dirty.length > 0) {
+      return fail([
+        'error: Your local changes to the following files would be overwritten by merge:',
+        ...dirty.map(path => `\t${path}`),
+        'Please commit your changes or stash them before you merge.',
+        'Aborting',
+      ].join('\n'));
+    }
+
+    const label = mergeLabel(repository, revision);
+    const message = typeof flags.m === 'string' ? flags.m : `Merge ${label}${head.branch && head.branch !== 'main' && head.branch !== 'master' ? ` into ${head.branch}` : ''}`;
+    const merged: FileMap = { ...ours };
+    const conflicts: string[] = [];
+    const lines: string[] = [];
+    for (const path of incoming) {
+      const before = base[path]?.id;
+      const mine = ours[path]?.id;
+      const other = target[path]?.id;
+      if (mine === before || mine === other) {
+        if (target[path]) {
+          merged[path] = target[path];
+          repository.writeWorkTreeFile(path, repository.readBlob(target[path].id), target[path].mode);
+        } else {
+          delete merged[path];
+          repository.removeWorkTreeFile(path);
+        }
+        continue;
+      }
+      if (!mine || !other) {
+        const deletedIn = mine ? revision : 'HEAD';
+        const keptIn = mine ? 'HEAD' : revision;
+        lines.push(`CONFLICT (modify/delete): ${path} deleted in ${deletedIn} and modified in ${keptIn}. Version ${keptIn} of ${path} left in tree.`);
+        if (other) {
+          repository.writeWorkTreeFile(path, repository.readBlob(other), target[path].mode);
+        }
+        conflicts.push(path);
+        continue;
+      }
+      lines.push(`Auto-merging ${path}`);
+      const result = mergeLines(contentOf(repository, base[path]), repository.readBlob(mine), repository.readBlob(other), revision);
+      repository.writeWorkTreeFile(path, result.content, ours[path].mode);
+      if (result.conflict) {
+        lines.push(`CONFLICT (content): Merge conflict in ${path}`);
+        conflicts.push(path);
+      } else {
+        merged[path] = { id: repository.writeObject({ type: 'blob', content: result.content }), mode: ours[path].mode };
+      }
+    }
+
+    if (conflicts.length > 0) {
+      repository.writeIndex({ entries: merged, conflicts });
+      repository.writeGitFile('MERGE_HEAD', `${theirs}\n`);
+      repository.writeGitFile('MERGE_MSG', `${message}\n`);
+      lines.push('Automatic merge failed; fix conflicts and then commit the result.');
+      return saved(repository, lines.join('\n'), 1);
+    }
+
+    repository.writeIndex({ entries: merged, conflicts: [] });
+    finishCommit(state, repository, message, merged, [head.id, theirs]);
+    return saved(repository, [
+      ...lines,
+      "Merge made by the 'ort' strategy.",
+      formatStat(repository, ours, merged, true),
+    ].join('\n'));
+  },
+
+  clone: (args, state) => {
+    const { operands } = parseArgs(args);
+    const [url, directoryName] = operands;
+    if (!url) {
+      return fail('fatal: You must specify a repository to clone.\n\nusage: git clone [<options>] [--] <repo> [<dir>]', 129);
+    }
+    const source = cloneSource(state, url);
+    if (!source) {
+      return fail(url.includes('://') || url.includes('@')
+        ? `remote: Repository not found.\nfatal: repository '${url}' not found`
+        : `fatal: repository '${url}' does not exist`, 128);
+    }
+
+    const name = directoryName ?? basename(url).replace(/\.git$/, '');
+    const root = resolve(state, name);
+    const existing = getNode(state.fs, root);
+    if (existing && (existing.type !== 'dir' || Object.keys(existing.children).length > 0)) {
+      return fail(`fatal: destination path '${name}' already exists and is not an empty directory.`, 128);
+    }
+
+    const remoteHead = readText(source, 'HEAD').trim();
+    const branch = remoteHead.startsWith('ref: refs/heads/') ? remoteHead.slice('ref: refs/heads/'.length) : 'main';
+    const repository = Repository.init(state.fs, root, branch);
+    const objects = walkFiles(source.children.objects ?? { type: 'dir', children: {}, mode: 0o755, mtime: 0 });
+    for (const [path, content] of objects) {
+      repository.writeGitFile(`objects/${path}`, content);
+    }
+    const heads = source.children.refs?.type === 'dir' ? source.children.refs.children.heads : undefined;
+    for (const [ref, content] of heads ? walkFiles(heads) : []) {
+      repository.writeGitFile(`refs/remotes/origin/${ref}`, content);
+    }
+    let config = repository.readGitFile('config') ?? '';
+    config = setConfigValue(config, 'remote.origin.url', url);
+    config = setConfigValue(config, 'remote.origin.fetch', '+refs/heads/*:refs/remotes/origin/*');
+    repository.writeGitFile('config', config);
+
+    const id = repository.readRef(`refs/remotes/origin/${branch}`);
+    if (id) {
+      repository.checkout(repository.commitFiles(id));
+      repository.writeRef(`refs/heads/${branch}`, id);
+      setUpstream(repository, branch, branch);
+    }
+
+    const total = objects.length;
+    const bytes = objects.reduce((sum, [, content]) => sum + content.length, 0);
+    const progress = url.includes('://') || url.includes('@') || source === sampleRepository()
+      ? [
+        `remote: Enumerating objects: ${total}, done.`,
+        `remote: Counting objects: 100% (${total}/${total}), done.`,
+        `remote: Compressing objects: 100% (${total}/${total}), done.`,
+        `remote: Total ${total} (delta 0), reused ${total} (delta 0), pack-reused 0`,
+        `Receiving objects: 100% (${total}/${total}), ${(bytes / 1024).toFixed(2)} KiB | 1.21 MiB/s, done.`,
+      ]
+      : ['done.'];
+    const repo: GitRepo = { name: basename(root), url, status: 'cloned', path: root };
+    return {
+      output: [`Cloning into '${name}'...`, ...progress].join('\n'),
+      update: s => ({ ...s, fs: repository.fs, gitRepos: [...s.gitRepos.filter(r => r.path !== root), repo] }),
+    };
+  },
+
+  list: (_args, state) => {
+    if (state.gitRepos.length === 0) {
+      return { output: 'No repositories found.' };
+    }
+    return {
+      output: 'Repositories:\n\n' + state.gitRepos.map(repo =>
+        `${repo.name} (${repo.status})\n  ${repo.url}`
+      ).join('\n\n'),
+    };
+  },
+};
+
+const completeGit: CommandCompleter = (args, { state }) => {
+  const partial = args[args.length - 1];
+  if (args.length === 1) {
+    return Object.keys(subcommands);
+  }
+  const repository = Repository.find(state.fs, state.currentPath);
+  const branches = repository?.branches() ?? [];
+  switch (args[0]) {
+    case 'checkout':
+    case 'switch':
+    case 'merge':
+    case 'branch': {
+      const remotes = repository?.listRefs('refs/remotes') ?? [];
+      const local = args[0] === 'branch' ? branches : [...branches, ...remotes.map(ref => ref.replace(/^origin\//, ''))];
+      return args[0] === 'checkout' ? [...local, ...completePaths(state, partial)] : args[0] === 'merge' ? [...branches, ...remotes] : local;
+    }
+    case 'config':
+      return ['--global', '--list', 'user.name', 'user.email'];
+    case 'log':
+      return ['--oneline', '--graph', '--all', ...branches];
+    case 'diff':
+      return ['--staged', ...branches, ...completePaths(state, partial)];
+    default:
+      return completePaths(state, partial);
+  }
+};
+
+const git: CommandDefinition = {
+  name: 'git',
+  category: 'git',
+  summary: 'Version control',
+  usage: [
+    { usage: 'git init [directory]', description: 'Create an empty repository' },
+    { usage: 'git clone <url> [directory]', description: 'Clone a repository (try sample-repo)' },
+    { usage: 'git config [--global] <key> [value]', description: 'Get or set user.name, user.email, ...' },
+    { usage: 'git add <path>... | -A', description: 'Stage changes' },
+    { usage: 'git commit [-a] -m <message>', description: 'Record staged changes' },
+    { usage: 'git status [-s]', description: 'Show staged, unstaged and untracked files' },
+    { usage: 'git log [--oneline] [--graph] [--all] [-n N]', description: 'Show commit history' },
+    { usage: 'git diff [--staged] [commit [commit]]', description: 'Show changes' },
+    { usage: 'git branch [-a] [-d] [name]', description: 'List, create or delete branches' },
+    { usage: 'git checkout [-b] <branch|commit> | -- <path>', description: 'Switch branches or restore files' },
+    { usage: 'git switch [-c] <branch>', description: 'Switch branches' },
+    { usage: 'git merge <branch> | --abort', description: 'Join histories together' },
+    { usage: 'git list', description: 'List repositories created in this session' },
+  ],
+  complete: completeGit,
+  run: (args, { state }) => {
+    const [subcommand, ...rest] = args;
+    const handler = subcommands[subcommand];
+    if (!subcommand) {
+      return { output: `Available git commands:\n${formatUsage(git)}` };
+    }
+    if (!handler) {
+      return fail(`git: '${subcommand}' is not a git command. See 'git --help'.`, 1);
+    }
+    try {
+      return handler(rest, state);
+    } catch (error) {
+      if (error instanceof GitError) {
+        return fail(error.message, error.exitCode);
+      }
+      if (error instanceof FsError) {
+        return fail(formatFsError('git', error), 128);
+      }
+      throw error;
+    }
+  },
+};
+
+export const gitCommands: CommandPlugin = registry => {
+  registry.register(git);
+};
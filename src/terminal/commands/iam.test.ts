@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+const setup = 'sudo useradd bob && sudo iam policy add-binding bob --role viewer';
+
+describe('users', () => {
+  it('are only created by root', async () => {
+    expect((await runLine('useradd bob')).exitCode).toBe(1);
+    const { output } = await runLine('sudo useradd bob && id bob');
+    expect(output).toBe('uid=1001(bob) gid=1001(bob) groups=1001(bob)');
+  });
+
+  it('need a password for su unless root switches', async () => {
+    const { state } = await runLine(setup);
+    expect((await runLine('su bob', state)).output).toBe('su: Authentication failure');
+    const { output } = await runLine('sudo su bob; whoami; exit; whoami', state);
+    expect(output.split('\n')).toEqual(['bob@cloud-terminal', 'logout', 'admin@cloud-terminal']);
+  });
+
+  it('need the sudo group for sudo', async () => {
+    const { state } = await runLine(`${setup} && sudo su bob`);
+    const { exitCode } = await runLine('sudo whoami', state);
+    expect(exitCode).toBe(1);
+  });
+
+  it('only write where their permissions allow', async () => {
+    const { state } = await runLine(`${setup} && sudo su bob`);
+    const denied = await runLine('echo hi > /etc/x', state);
+    expect(denied).toMatchObject({ output: 'bash: /etc/x: Permission denied', exitCode: 1 });
+    expect((await runLine('echo hi > /home/admin/README.md', state)).output).toBe('bash: /home/admin/README.md: Permission denied');
+    const { output, state: next } = await runLine('echo hi > ~/notes && echo hi > /tmp/notes && cat ~/notes', state);
+    expect(output).toBe('hi');
+    expect((await runLine('exit; echo bye > /tmp/notes', next)).output.split('\n').pop()).toBe('bash: /tmp/notes: Permission denied');
+  });
+});
+
+describe('iam', () => {
+  it('stops commands the role does not allow', async () => {
+    const { state } = await runLine(`${setup} && sudo su bob`);
+    const { output, exitCode } = await runLine('create instance x compute --async', state);
+    expect(exitCode).toBe(1);
+    expect(output).toBe("create: permission denied: user 'bob' lacks compute.instances.create on project 'cloud-terminal' (roles: viewer)");
+  });
+
+  it('shows the bindings on the project', async () => {
+    const { output } = await runLine(`${setup} && iam policy show`);
+    expect(output.split('\n').slice(-3)).toEqual(['ROLE    MEMBERS', 'viewer  user:bob', 'admin   user:admin']);
+  });
+});
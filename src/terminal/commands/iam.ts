@@ -0,0 +1,336 @@
+import { parseArgs } from '../args';
+import { formatTable } from '../format';
+import { makeDirectoryAt } from '../fs';
+import { formatUsage } from '../help';
+import { hashString } from '../metrics';
+import {
+  activeProject,
+  checkPermissions,
+  closeLogin,
+  currentUser,
+  homeDirectory,
+  openLogin,
+  ROLE_PERMISSIONS,
+  ROLE_TITLES,
+  ROOT,
+  SUDO_GROUP,
+  userExists,
+  userGroups,
+} from '../iam';
+import { executeLine, quoteCommand } from '../interpreter';
+import { activeConnection, closeConnection } from '../remote';
+import { fail } from '../result';
+import { ROLES, type CommandContext, type CommandDefinition, type CommandPlugin, type CommandResult, type Role, type SessionState } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult;
+
+const USER_NAME = /^[a-z_][a-z0-9_-]{0,31}$/;
+const PROJECT_ID = /^[a-z][-a-z0-9]{4,28}[a-z0-9]$/;
+
+const uid = (state: SessionState, user: string) => user === ROOT ? 0 : 1000 + state.users.findIndex(u => u.name === user);
+
+const gid = (state: SessionState, group: string) => {
+  if (group === ROOT) {
+    return 0;
+  }
+  if (group === SUDO_GROUP) {
+    return 27;
+  }
+  return userExists(state, group) ? uid(state, group) : 2000 + hashString(group) % 1000;
+};
+
+const parseGroups = (value: string | true | undefined) => {
+  const groups = typeof value === 'string' ? value.split(',').filter(Boolean) : [];
+  const invalid = groups.find(group => !USER_NAME.test(group));
+  if (invalid) {
+    throw new Error(`group '${invalid}' does not exist`);
+  }
+  return groups;
+};
+
+const parseRole = (value: string | true | undefined) => {
+  const role = typeof value === 'string' ? value.replace(/^roles\//, '') : '';
+  return ROLES.includes(role as Role) ? role as Role : undefined;
+};
+
+const formatPolicy = (state: SessionState, project: string) => {
+  const rows = ROLES.flatMap(role => {
+    const members = state.bindings.filter(b => b.project === project && b.role === role).map(b => `user:${b.user}`);
+    return members.length > 0 ? [[role, members.join(', ')]] : [];
+  });
+  if (rows.length === 0) {
+    return `No role bindings on project '${project}'.`;
+  }
+  return `Project: ${project}\n${formatTable(rows, ['ROLE', 'MEMBERS'])}`;
+};
+
+// The binding named by `USER --role ROLE [--project P]`, checked and with the
+// acting user's right to change the policy confirmed.
+const parseBinding = (args: string[], state: SessionState) => {
+  const { flags, operands } = parseArgs(args, ['role', 'project']);
+  const user = operands[0];
+  const role = parseRole(flags.role);
+  const project = typeof flags.project === 'string' ? flags.project : activeProject(state);
+  if (!user || !role) {
+    return { error: `iam: a user and --role ${ROLES.join('|')} are required` };
+  }
+  if (!userExists(state, user)) {
+    return { error: `iam: user '${user}' does not exist (create it with 'sudo useradd ${user}')` };
+  }
+  if (!PROJECT_ID.test(project)) {
+    return { error: `iam: invalid project id '${project}'` };
+  }
+  const denied = checkPermissions(state, 'iam', ['resourcemanager.projects.setIamPolicy'], project);
+  return denied ? { error: denied } : { binding: { user, role, project } };
+};
+
+const policyCommands: Record<string, Subcommand> = {
+  show: (args, { state }) => {
+    const { flags } = parseArgs(args, ['project']);
+    const project = typeof flags.project === 'string' ? flags.project : activeProject(state);
+    const denied = checkPermissions(state, 'iam', ['resourcemanager.projects.getIamPolicy'], project);
+    return denied ? fail(denied) : { output: formatPolicy(state, project) };
+  },
+
+  'add-binding': (args, { state }) => {
+    const { binding, error } = parseBinding(args, state);
+    if (!binding) {
+      return fail(error);
+    }
+    const { user, role, project } = binding;
+    if (state.bindings.some(b => b.user === user && b.role === role && b.project === project)) {
+      return { output: `user:${user} already has ${role} on project '${project}'.` };
+    }
+    return {
+      output: `Granted ${role} to user:${user} on project '${project}'.`,
+      update: s => ({ ...s, bindings: [...s.bindings, binding] }),
+    };
+  },
+
+  'remove-binding': (args, { state }) => {
+    const { binding, error } = parseBinding(args, state);
+    if (!binding) {
+      return fail(error);
+    }
+    const { user, role, project } = binding;
+    const matches = (b: typeof binding) => b.user === user && b.role === role && b.project === project;
+    if (!state.bindings.some(matches)) {
+      return fail(`iam: user:${user} does not have ${role} on project '${project}'`);
+    }
+    return {
+      output: `Removed ${role} from user:${user} on project '${project}'.`,
+      update: s => ({ ...s, bindings: s.bindings.filter(b => !matches(b)) }),
+    };
+  },
+};
+
+const roleCommands: Record<string, Subcommand> = {
+  list: () => ({ output: formatTable(ROLES.map(role => [role, ROLE_TITLES[role]]), ['ROLE', 'DESCRIPTION']) }),
+
+  describe: args => {
+    const role = parseRole(args[0]);
+    if (!role) {
+      return fail(`iam: unknown role '${args[0] ?? ''}' (expected ${ROLES.join(', ')})`);
+    }
+    return { output: [`${role}: ${ROLE_TITLES[role]}`, 'Permissions:', ...ROLE_PERMISSIONS[role].map(p => `  ${p}`)].join('\n') };
+  },
+};
+
+const iam: CommandDefinition = {
+  name: 'iam',
+  category: 'cloud',
+  summary: 'Roles and project IAM policy',
+  usage: [
+    { usage: 'iam policy show [--project P]', description: 'Show who holds which role on a project' },
+    { usage: 'iam policy add-binding USER --role viewer|operator|admin [--project P]', description: 'Grant a role on a project' },
+    { usage: 'iam policy remove-binding USER --role ROLE [--project P]', description: 'Revoke a role on a project' },
+    { usage: 'iam roles list | describe ROLE', description: 'Show the roles and the permissions they grant' },
+  ],
+  complete: (args, { state }) => {
+    if (args.length === 1) {
+      return ['policy', 'roles'];
+    }
+    if (args.length === 2) {
+      return Object.keys(args[0] === 'roles' ? roleCommands : policyCommands);
+    }
+    if (args[args.length - 2] === '--role' || args[1] === 'describe') {
+      return [...ROLES];
+    }
+    return args.length === 3 && args[1] !== 'show' ? state.users.map(user => user.name) : [];
+  },
+  run: (args, ctx) => {
+    const [group, verb, ...rest] = args;
+    const handler = (group === 'policy' ? policyCommands : group === 'roles' ? roleCommands : {})[verb];
+    if (!handler) {
+      return fail(`Usage:\n${formatUsage(iam)}`);
+    }
+    return handler(rest, ctx);
+  },
+};
+
+export const iamCommands: CommandPlugin = registry => {
+  registry.register(iam);
+
+  registry.register({
+    name: 'useradd',
+    category: 'system',
+    summary: 'Create a user',
+    usage: [{ usage: 'useradd [-G group,...] [name]', description: 'Create a local user with a home directory (needs root: use sudo)' }],
+    complete: args => args[args.length - 2] === '-G' ? [SUDO_GROUP] : [],
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args, ['G', 'groups']);
+      const name = operands[0];
+      if (!name) {
+        return fail('Usage: useradd [options] LOGIN', 2);
+      }
+      if (currentUser(state) !== ROOT) {
+        return fail('useradd: Permission denied.\nuseradd: cannot lock /etc/passwd; try again later.', 1);
+      }
+      if (!USER_NAME.test(name)) {
+        return fail(`useradd: invalid user name '${name}'`, 3);
+      }
+      if (userExists(state, name)) {
+        return fail(`useradd: user '${name}' already exists`, 9);
+      }
+      let groups: string[];
+      try {
+        groups = parseGroups(flags.G ?? flags.groups);
+      } catch (error) {
+        return fail(`useradd: ${(error as Error).message}`, 6);
+      }
+      const user = { name, groups, createdAt: Date.now() };
+      return {
+        output: '',
+        update: s => ({
+          ...s,
+          users: [...s.users, user],
+          // Home directories live on the workstation; from inside an ssh session the account is created without one.
+          fs: activeConnection(s) ? s.fs : makeDirectoryAt(s.fs, homeDirectory(name), true),
+        }),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'usermod',
+    category: 'system',
+    summary: 'Change a user',
+    usage: [{ usage: 'usermod -aG group,... [name]', description: 'Add a user to groups, e.g. sudo (needs root)' }],
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args, ['G', 'groups']);
+      const name = operands[0];
+      const value = flags.G ?? flags.groups;
+      if (!name || value === undefined) {
+        return fail('Usage: usermod [-a] -G group,... LOGIN', 2);
+      }
+      if (currentUser(state) !== ROOT) {
+        return fail('usermod: Permission denied.\nusermod: cannot lock /etc/passwd; try again later.', 1);
+      }
+      if (!state.users.some(user => user.name === name)) {
+        return fail(`usermod: user '${name}' does not exist`, 6);
+      }
+      let groups: string[];
+      try {
+        groups = parseGroups(value);
+      } catch (error) {
+        return fail(`usermod: ${(error as Error).message}`, 6);
+      }
+      return {
+        output: '',
+        update: s => ({
+          ...s,
+          users: s.users.map(user => user.name === name
+            ? { ...user, groups: flags.a ? [...new Set([...user.groups, ...groups])] : groups }
+            : user),
+        }),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'id',
+    category: 'system',
+    summary: 'Show user and groups',
+    usage: [{ usage: 'id [user]', description: 'Print user and group ids' }],
+    complete: (args, { state }) => args.length === 1 ? state.users.map(user => user.name) : [],
+    run: (args, { state }) => {
+      const user = args[0] ?? currentUser(state);
+      if (!userExists(state, user)) {
+        return fail(`id: '${user}': no such user`);
+      }
+      const groups = userGroups(state, user).map(group => `${gid(state, group)}(${group})`);
+      return { output: `uid=${uid(state, user)}(${user}) gid=${groups[0]} groups=${groups.join(',')}` };
+    },
+  });
+
+  registry.register({
+    name: 'su',
+    category: 'system',
+    summary: 'Switch user',
+    usage: [
+      { usage: 'su [-] [user]', description: 'Start a shell as another user (root by default); only root can switch without a password' },
+      { usage: 'exit', description: 'Return to the previous user' },
+    ],
+    complete: (_args, { state }) => [ROOT, ...state.users.map(user => user.name)],
+    run: (args, { state }) => {
+      const loginShell = args[0] === '-' || args[0] === '-l' || args[0] === '--login';
+      const target = (loginShell ? args[1] : args[0]) ?? ROOT;
+      if (activeConnection(state)) {
+        return fail('su: only the workstation has local accounts; exit the ssh session first');
+      }
+      if (!userExists(state, target)) {
+        return fail(`su: user ${target} does not exist or the user entry does not contain all the required fields`);
+      }
+      if (currentUser(state) !== ROOT) {
+        return fail('su: Authentication failure');
+      }
+      const next = openLogin(state, target, loginShell);
+      const warning = loginShell && next.currentPath !== homeDirectory(target)
+        ? `su: warning: cannot change directory to ${homeDirectory(target)}: No such file or directory`
+        : undefined;
+      return { output: '', error: warning, update: s => openLogin(s, target, loginShell) };
+    },
+  });
+
+  registry.register({
+    name: 'sudo',
+    category: 'system',
+    summary: 'Run a command as root',
+    usage: [{ usage: 'sudo [-u user] command', description: 'Run a command as root (or another user); needs membership of the sudo group' }],
+    complete: (args, ctx) => args.length === 1 ? ctx.registry.list().map(definition => definition.name) : [],
+    run: async (args, ctx) => {
+      const state = ctx.state;
+      const target = args[0] === '-u' ? args[1] : ROOT;
+      const command = args[0] === '-u' ? args.slice(2) : args;
+      if (!target || command.length === 0) {
+        return fail('usage: sudo [-u user] command', 1);
+      }
+      const user = currentUser(state);
+      if (user !== ROOT && !userGroups(state, user).includes(SUDO_GROUP)) {
+        return fail(`${user} is not in the sudoers file.  This incident will be reported.`, 1);
+      }
+      if (!userExists(state, target)) {
+        return fail(`sudo: unknown user ${target}`, 1);
+      }
+
+      const depth = state.logins.length;
+      const connections = state.connections.length;
+      ctx.update(s => openLogin(s, target));
+      const result = await executeLine(ctx.registry, quoteCommand(command), ctx.getState(), {
+        onUpdate: ctx.update,
+        onDisplay: ctx.display,
+        onPrompt: question => ctx.prompt(question).then(answer => answer ?? ''),
+        signal: ctx.signal,
+      });
+      // Whatever the command opened ends with it, except a shell started with su.
+      ctx.update(s => {
+        let next = s;
+        while (next.connections.length > connections) {
+          next = closeConnection(next);
+        }
+        return closeLogin(next, depth);
+      });
+      return { output: result.output, exitCode: result.exitCode, clear: result.clear, editor: result.editor, replay: result.replay, effect: result.effect };
+    },
+  });
+};
@@ -0,0 +1,45 @@
+import { CommandRegistry } from '../registry';
+import type { CommandPlugin } from '../types';
+import { auditCommands } from './audit';
+import { billingCommands } from './billing';
+import { cloudCommands } from './cloud';
+import { fileCommands } from './files';
+import { gcloudCommands } from './gcloud';
+import { gitCommands } from './git';
+import { iamCommands } from './iam';
+import { networkCommands } from './network';
+import { recordCommands } from './record';
+import { sessionCommands } from './session';
+import { shellCommands } from './shell';
+import { sshCommands } from './ssh';
+import { storageCommands } from './storage';
+import { systemCommands } from './system';
+import { terraformCommands } from './terraform';
+import { textCommands } from './text';
+import { vpcCommands } from './vpc';
+
+export const builtinCommands: CommandPlugin[] = [
+  systemCommands,
+  shellCommands,
+  fileCommands,
+  textCommands,
+  sessionCommands,
+  recordCommands,
+  sshCommands,
+  gitCommands,
+  networkCommands,
+  vpcCommands,
+  iamCommands,
+  gcloudCommands,
+  cloudCommands,
+  storageCommands,
+  billingCommands,
+  auditCommands,
+  terraformCommands,
+];
+
+export const createDefaultRegistry = (plugins: CommandPlugin[] = []) => {
+  const registry = new CommandRegistry();
+  [...builtinCommands, ...plugins].forEach(plugin => registry.use(plugin));
+  return registry;
+};
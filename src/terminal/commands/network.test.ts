@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from '../state';
+import { runLine } from '../test-utils';
+import type { Instance, SessionState } from '../types';
+
+const instances: Instance[] = [
+  { id: 'i-1', name: 'web', type: 'compute', status: 'running', createdAt: 0 },
+  { id: 'i-2', name: 'files', type: 'storage', createdAt: 0 },
+];
+
+const initial = (): SessionState => ({ ...createInitialState(), instances });
+
+describe('curl', () => {
+  it('echoes the request back from /api/echo', async () => {
+    const { output, exitCode } = await runLine('curl -X POST -d hello -H "X-Test: 1" web/api/echo', initial());
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(output)).toMatchObject({ method: 'POST', path: '/api/echo', body: 'hello', headers: { 'X-Test': '1' } });
+  });
+
+  it('prints response headers with -i', async () => {
+    const { output } = await runLine('curl -i web/missing', initial());
+    expect(output.split('\n').slice(0, 2)).toEqual(['HTTP/1.1 404 Not Found', 'Server: nginx/1.24.0']);
+  });
+
+  it('fails on HTTP errors with -f', async () => {
+    const { output, exitCode } = await runLine('curl -sf web/missing', initial());
+    expect(exitCode).toBe(22);
+    expect(output).toBe('curl: (22) The requested URL returned error: 404');
+  });
+
+  it('stores and reads back objects on a storage instance', async () => {
+    const { output, exitCode } = await runLine('curl -X PUT -d hello files/note.txt > /tmp/put && curl files/note.txt', initial());
+    expect(exitCode).toBe(0);
+    expect(output).toBe('hello');
+  });
+
+  it('reports hosts that do not resolve', async () => {
+    const { output, exitCode } = await runLine('curl nowhere', initial());
+    expect(exitCode).toBe(6);
+    expect(output).toBe('curl: (6) Could not resolve host: nowhere');
+  });
+});
+
+describe('wget', () => {
+  it('saves the page under its own name', async () => {
+    const { exitCode, state } = await runLine('wget web/index.html', initial());
+    expect(exitCode).toBe(0);
+    expect((await runLine('head -1 index.html', state)).output).toBe('<!DOCTYPE html>');
+  });
+});
@@ -0,0 +1,656 @@
+import { parseArgs } from '../args';
+import { basename, formatFsError, getNode, resolve, writeFileAt } from '../fs';
+import {
+  addressFrom,
+  broadcastAddress,
+  checkFirewall,
+  DEFAULT_NETWORK,
+  instanceSubnet,
+  internalAddress,
+  internalHostname,
+  METADATA_SERVER,
+  netmask,
+  originAddress,
+  parseAddress,
+  resolveHost,
+  routeTo,
+  SERVICES,
+  trafficSource,
+  WORKSTATION_ADDRESS,
+  WORKSTATION_GATEWAY,
+  WORKSTATION_LAN_ADDRESS,
+  type Hop,
+} from '../hosts';
+import { parseUrl, sendRequest, STATUS_TEXT, type HttpOutcome, type HttpRequest, type HttpResponse } from '../http';
+import { isAvailable } from '../lifecycle';
+import { hashString } from '../metrics';
+import { fail } from '../result';
+import type { CommandCompleter, CommandContext, CommandPlugin, Instance, SessionState } from '../types';
+
+// How long a connection attempt to an instance that is not running hangs
+// before giving up, unless --connect-timeout / -T asks for less.
+const CONNECT_TIMEOUT = 5000;
+
+const USER_AGENTS = { curl: 'curl/8.5.0', wget: 'Wget/1.21.4' };
+
+// Values of an option that may be repeated, such as curl's -H and -d.
+const repeated = (args: string[], short: string, long: string) => {
+  const values: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === `-${short}` || arg === `--${long}`) {
+      values.push(args[++i] ?? '');
+    } else if (arg.startsWith(`--${long}=`)) {
+      values.push(arg.slice(long.length + 3));
+    } else if (arg.startsWith(`-${short}`) && !arg.startsWith('--')) {
+      values.push(arg.slice(2));
+    }
+  }
+  return values;
+};
+
+const stripNewline = (text: string) => text.endsWith('\n') ? text.slice(0, -1) : text;
+
+// Sends `request`, waiting out the connect timeout when the instance is not
+// running or the firewall drops it. An instance that comes up (or a rule that
+// opens the port) in the meantime still gets an answer.
+const connect = async (ctx: CommandContext, request: HttpRequest, timeout: number) => {
+  const outcome = sendRequest(ctx.getState(), request);
+  if (outcome.type !== 'timeout') {
+    return { outcome, elapsed: 0 };
+  }
+  const started = Date.now();
+  const up = await ctx.waitFor(s => sendRequest(s, request).type !== 'timeout', timeout);
+  const elapsed = Date.now() - started;
+  return { outcome: up ? sendRequest(ctx.getState(), request) : outcome, elapsed };
+};
+
+const formatHeaders = (response: HttpResponse) => [
+  `HTTP/1.1 ${response.status} ${STATUS_TEXT[response.status] ?? ''}`.trimEnd(),
+  ...Object.entries(response.headers).map(([name, value]) => `${name}: ${value}`),
+];
+
+const timeoutMs = (value: string | true | undefined) => {
+  const seconds = typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds * 1000, CONNECT_TIMEOUT) : CONNECT_TIMEOUT;
+};
+
+const progressMeter = (bytes: number) => {
+  const size = String(bytes).padStart(5);
+  return [
+    '  % Total    % Received % Xferd  Average Speed   Time    Time     Time  Current',
+    '                                 Dload  Upload   Total   Spent    Left  Speed',
+    `100 ${size}  100 ${size}    0     0   ${size}      0 --:--:-- --:--:-- --:--:-- ${size}`,
+  ].join('\n');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const wgetTimestamp = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const transferRate = (bytes: number, ms: number) => {
+  const perSecond = (bytes / Math.max(ms, 1)) * 1000;
+  return perSecond >= 1024 * 1024 ? `${(perSecond / 1024 / 1024).toFixed(1)} MB/s` : `${(perSecond / 1024).toFixed(1)} KB/s`;
+};
+
+// wget never overwrites: a second download of index.html becomes index.html.1.
+const availableName = (state: SessionState, name: string) => {
+  let candidate = name;
+  for (let suffix = 1; getNode(state.fs, resolve(state, candidate)); suffix++) {
+    candidate = `${name}.${suffix}`;
+  }
+  return candidate;
+};
+
+const completeUrl: CommandCompleter = (args, { state }) => {
+  const partial = args[args.length - 1];
+  const scheme = partial.match(/^https?:\/\//)?.[0] ?? '';
+  return state.instances.map(instance => `${scheme}${instance.name}/`);
+};
+
+const connectionFailure = (outcome: HttpOutcome, host: string, port: string, elapsed: number) => {
+  switch (outcome.type) {
+    case 'unresolved':
+      return fail(`curl: (6) Could not resolve host: ${host}`, 6);
+    case 'refused':
+      return fail(`curl: (7) Failed to connect to ${host} port ${port} after 0 ms: Couldn't connect to server`, 7);
+    default:
+      return fail(`curl: (28) Failed to connect to ${host} port ${port} after ${elapsed} ms: Timeout was reached`, 28);
+  }
+};
+
+const LOOPBACK = '127.0.0.1';
+
+const PORT_NAMES: Record<number, string> = { 22: 'ssh', 53: 'domain', 68: 'bootpc', 80: 'http', 443: 'https', 5432: 'postgresql' };
+
+interface Destination {
+  address: string;
+  // The name replies appear to come from, as reverse DNS gives it.
+  label: string;
+  instance?: Instance;
+}
+
+// Where `host` points from the current shell; undefined when it does not resolve.
+const lookupDestination = (state: SessionState, host: string): Destination | undefined => {
+  if (host === 'localhost' || host === LOOPBACK) {
+    return { address: LOOPBACK, label: 'localhost' };
+  }
+  const instance = resolveHost(state, host);
+  if (!instance || instance.status === 'terminated') {
+    return undefined;
+  }
+  const address = parseAddress(host) === null ? addressFrom(trafficSource(state), instance) : host;
+  const label = address === internalAddress(instance)
+    ? internalHostname(instance)
+    : `${address.split('.').reverse().join('.')}.bc.googleusercontent.com`;
+  return { address, label, instance };
+};
+
+// Whether an ICMP echo to `destination` is answered right now.
+const answersPing = (state: SessionState, destination: Destination) => {
+  const { instance } = destination;
+  if (!instance) {
+    return true;
+  }
+  const current = state.instances.find(i => i.id === instance.id);
+  return current !== undefined && isAvailable(current) && checkFirewall(state, current, 'icmp').allowed;
+};
+
+// Round-trip time of probe `seq`, varying a little around the hop's latency.
+const probeTime = (hop: Hop, key: string) => hop.latency * (0.9 + (hashString(`${hop.address}:${key}`) % 1000) / 5000);
+
+// As ping prints times: three significant digits.
+const formatTime = (ms: number) => ms.toFixed(ms < 1 ? 3 : ms < 10 ? 2 : ms < 100 ? 1 : 0);
+
+const pingStatistics = (host: string, times: number[], sent: number, elapsed: number) => {
+  const loss = Math.round(((sent - times.length) / Math.max(sent, 1)) * 100);
+  const lines = [
+    `--- ${host} ping statistics ---`,
+    `${sent} packets transmitted, ${times.length} received, ${loss}% packet loss, time ${elapsed}ms`,
+  ];
+  if (times.length > 0) {
+    const average = times.reduce((a, b) => a + b, 0) / times.length;
+    const deviation = Math.sqrt(times.reduce((sum, time) => sum + (time - average) ** 2, 0) / times.length);
+    lines.push(`rtt min/avg/max/mdev = ${[Math.min(...times), average, Math.max(...times), deviation].map(t => t.toFixed(3)).join('/')} ms`);
+  }
+  return lines;
+};
+
+interface Socket {
+  protocol: 'tcp' | 'udp';
+  local: string;
+  localPort: number;
+  foreign: string;
+  foreignPort?: number;
+  state: string;
+  program: string;
+}
+
+// An ephemeral client port, stable for a given pair of endpoints.
+const ephemeralPort = (key: string) => 32768 + hashString(key) % 28232;
+
+const processId = (instance: Instance, program: string) => 300 + hashString(`${instance.id}:${program}`) % 2000;
+
+// The sockets open on the instance the current shell runs on: its listening
+// services, the ssh session this shell came in on, and the database
+// connections between compute and database instances of the same network.
+const openSockets = (state: SessionState): Socket[] => {
+  const { instance } = trafficSource(state);
+  if (!instance) {
+    return [];
+  }
+  const local = internalAddress(instance);
+  const sockets: Socket[] = [
+    ...SERVICES[instance.type].map(({ port, program }) => ({
+      protocol: 'tcp' as const, local: '0.0.0.0', localPort: port, foreign: '0.0.0.0', state: 'LISTEN', program,
+    })),
+    { protocol: 'udp', local: '0.0.0.0', localPort: 68, foreign: '0.0.0.0', state: '', program: 'dhclient' },
+    { protocol: 'udp', local: '127.0.0.53', localPort: 53, foreign: '0.0.0.0', state: '', program: 'systemd-resolve' },
+  ];
+  const previous = state.connections[state.connections.length - 2];
+  const client = previous && resolveHost(state, previous.host);
+  const origin = originAddress(client ? { instance: client, address: internalAddress(client) } : { address: WORKSTATION_ADDRESS }, instance);
+  sockets.push({
+    protocol: 'tcp', local, localPort: 22, foreign: origin, foreignPort: ephemeralPort(`${origin}:${local}`), state: 'ESTABLISHED', program: 'sshd',
+  });
+  const peers = state.instances.filter(peer => peer.id !== instance.id && peer.status === 'running'
+    && (peer.network ?? DEFAULT_NETWORK) === (instance.network ?? DEFAULT_NETWORK));
+  if (instance.type === 'compute') {
+    for (const database of peers.filter(peer => peer.type === 'database')) {
+      const remote = internalAddress(database);
+      sockets.push({
+        protocol: 'tcp', local, localPort: ephemeralPort(`${local}:${remote}`), foreign: remote, foreignPort: 5432, state: 'ESTABLISHED', program: 'node',
+      });
+    }
+  }
+  if (instance.type === 'database') {
+    for (const app of peers.filter(peer => peer.type === 'compute')) {
+      const remote = internalAddress(app);
+      sockets.push({
+        protocol: 'tcp', local, localPort: 5432, foreign: remote, foreignPort: ephemeralPort(`${remote}:${local}`), state: 'ESTABLISHED', program: 'postgres',
+      });
+    }
+  }
+  return sockets;
+};
+
+// `-n` prints numbers; otherwise known ports and instance addresses get names.
+const socketAddress = (state: SessionState, address: string, port: number | undefined, numeric: boolean) => {
+  const host = numeric ? address : resolveHost(state, address)?.name ?? address;
+  const service = port === undefined ? '*' : numeric ? String(port) : PORT_NAMES[port] ?? String(port);
+  return `${host}:${service}`;
+};
+
+export const networkCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'ping',
+    category: 'network',
+    summary: 'Test connectivity',
+    usage: [{ usage: 'ping [-c count] [host]', description: 'Send ICMP echo requests (4 by default) to a host' }],
+    complete: (args, { state }) => args.length === 1 || args[args.length - 2] !== '-c' ? state.instances.map(i => i.name) : [],
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['c']);
+      const host = operands[0];
+      if (!host) {
+        return fail('ping: usage error: Destination address required', 2);
+      }
+      const count = flags.c === undefined ? 4 : Number(flags.c);
+      if (!Number.isInteger(count) || count < 1) {
+        return fail(`ping: invalid argument: '${flags.c}'`, 2);
+      }
+      const destination = lookupDestination(ctx.getState(), host);
+      if (!destination) {
+        return fail(`ping: ${host}: Name or service not known`, 2);
+      }
+
+      const lines = [`PING ${host} (${destination.address}) 56(84) bytes of data.`];
+      const times: number[] = [];
+      const started = Date.now();
+      let sent = 0;
+      while (sent < count) {
+        sent++;
+        const state = ctx.getState();
+        if (answersPing(state, destination)) {
+          const hops = destination.instance ? routeTo(state, destination.instance) : [{ address: LOOPBACK, latency: 0.03 }];
+          const time = probeTime(hops[hops.length - 1], String(sent));
+          times.push(time);
+          lines.push(`64 bytes from ${destination.label} (${destination.address}): icmp_seq=${sent} ttl=${65 - hops.length} time=${formatTime(time)} ms`);
+        }
+        ctx.display(lines.join('\n'));
+        if (sent < count && !await ctx.sleep(1000)) {
+          break;
+        }
+      }
+      const output = [...lines, '', ...pingStatistics(host, times, sent, Date.now() - started)].join('\n');
+      return times.length > 0 ? { output } : { output, exitCode: 1 };
+    },
+  });
+
+  registry.register({
+    name: 'traceroute',
+    category: 'network',
+    summary: 'Trace the route to a host',
+    usage: [{ usage: 'traceroute [-m max_hops] [host]', description: 'Show the routers ICMP probes pass through on the way to a host' }],
+    complete: (_args, { state }) => state.instances.map(i => i.name),
+    run: (args, { state }) => {
+      const { flags, operands } = parseArgs(args, ['m']);
+      const host = operands[0];
+      if (!host) {
+        return fail('Usage: traceroute [-m max_hops] host', 2);
+      }
+      const maxHops = flags.m === undefined ? 30 : Number(flags.m);
+      if (!Number.isInteger(maxHops) || maxHops < 1 || maxHops > 255) {
+        return fail(`traceroute: invalid max hops '${flags.m}'`, 2);
+      }
+      const destination = lookupDestination(state, host);
+      if (!destination) {
+        return fail(`${host}: Name or service not known\nCannot handle "host" cmdline arg \`${host}' on position 1 (argc 1)`, 2);
+      }
+      const hops = destination.instance ? routeTo(state, destination.instance) : [{ address: LOOPBACK, latency: 0.03 }];
+      const reached = answersPing(state, destination);
+      const lines = [`traceroute to ${host} (${destination.address}), ${maxHops} hops max, 60 byte packets`];
+      for (let ttl = 1; ttl <= maxHops; ttl++) {
+        const hop = hops[ttl - 1];
+        const last = ttl === hops.length;
+        if (!hop || (last && !reached)) {
+          lines.push(`${String(ttl).padStart(2)}  * * *`);
+          continue;
+        }
+        const name = last ? destination.label : hop.name ?? hop.address;
+        const probes = [1, 2, 3].map(probe => `${probeTime(hop, `${ttl}:${probe}`).toFixed(3)} ms`).join('  ');
+        lines.push(`${String(ttl).padStart(2)}  ${name} (${hop.address})  ${probes}`);
+        if (last) {
+          break;
+        }
+      }
+      return { output: lines.join('\n') };
+    },
+  });
+
+  registry.register({
+    name: 'nslookup',
+    category: 'network',
+    summary: 'Query DNS',
+    usage: [{ usage: 'nslookup [name|address]', description: 'Look up an instance name or address' }],
+    complete: (args, { state }) => args.length === 1 ? state.instances.map(i => i.name) : [],
+    run: (args, { state }) => {
+      const query = args[0];
+      if (!query) {
+        return fail('Usage: nslookup [name|address]');
+      }
+      const server = trafficSource(state).instance ? METADATA_SERVER : WORKSTATION_GATEWAY;
+      const header = [`Server:\t\t${server}`, `Address:\t${server}#53`, ''];
+      const destination = lookupDestination(state, query);
+      if (!destination?.instance) {
+        return { output: [...header, `** server can't find ${query}: NXDOMAIN`].join('\n'), exitCode: 1 };
+      }
+      if (parseAddress(query) !== null) {
+        return { output: [...header, `${query.split('.').reverse().join('.')}.in-addr.arpa\tname = ${destination.label}.`].join('\n') };
+      }
+      const internal = destination.address === internalAddress(destination.instance);
+      return {
+        output: [
+          ...header,
+          ...internal ? [] : ['Non-authoritative answer:'],
+          `Name:\t${internal ? internalHostname(destination.instance) : query}`,
+          `Address: ${destination.address}`,
+        ].join('\n'),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'host',
+    category: 'network',
+    summary: 'Query DNS',
+    usage: [{ usage: 'host [name|address]', description: 'Print the address of an instance, or the name of an address' }],
+    complete: (args, { state }) => args.length === 1 ? state.instances.map(i => i.name) : [],
+    run: (args, { state }) => {
+      const query = args[0];
+      if (!query) {
+        return fail('Usage: host [name|address]');
+      }
+      const destination = lookupDestination(state, query);
+      if (!destination?.instance) {
+        return fail(`Host ${query} not found: 3(NXDOMAIN)`);
+      }
+      if (parseAddress(query) !== null) {
+        return { output: `${query.split('.').reverse().join('.')}.in-addr.arpa domain name pointer ${destination.label}.` };
+      }
+      return { output: `${query} has address ${destination.address}` };
+    },
+  });
+
+  registry.register({
+    name: 'ifconfig',
+    category: 'network',
+    summary: 'Network interfaces',
+    usage: [{ usage: 'ifconfig', description: 'Display network interfaces' }],
+    run: (_args, { state }) => {
+      const { instance } = trafficSource(state);
+      const subnet = instance && instanceSubnet(state, instance);
+      const address = instance ? internalAddress(instance) : WORKSTATION_LAN_ADDRESS;
+      const mac = instance
+        ? `42:01:${address.split('.').map(part => Number(part).toString(16).padStart(2, '0')).join(':')}`
+        : '00:00:00:00:00:00';
+      const eth0 = instance
+        ? [
+          'eth0: flags=4163<UP,BROADCAST,RUNNING,MULTICAST>  mtu 1460',
+          `        inet ${address}  netmask ${subnet ? netmask(subnet.cidr) : '255.255.255.255'}  broadcast ${subnet ? broadcastAddress(subnet.cidr) : '0.0.0.0'}`,
+        ]
+        : [
+          'eth0: flags=4163<UP,BROADCAST,RUNNING,MULTICAST>  mtu 1500',
+          `        inet ${address}  netmask 255.255.255.0  broadcast 192.168.1.255`,
+          '        inet6 fe80::1  prefixlen 64  scopeid 0x20<link>',
+        ];
+      return {
+        output: [
+          ...eth0,
+          `        ether ${mac}  txqueuelen 1000  (Ethernet)`,
+          '',
+          'lo: flags=73<UP,LOOPBACK,RUNNING>  mtu 65536',
+          `        inet ${LOOPBACK}  netmask 255.0.0.0`,
+          '        inet6 ::1  prefixlen 128  scopeid 0x10<host>',
+          '        loop  txqueuelen 1000  (Local Loopback)',
+        ].join('\n'),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'netstat',
+    category: 'network',
+    summary: 'Network statistics',
+    usage: [
+      { usage: 'netstat [-tulanp]', description: 'Show connections of the current host' },
+      { usage: '  -t / -u', description: 'Only TCP / only UDP sockets' },
+      { usage: '  -l / -a', description: 'Only listening sockets / listening and connected' },
+      { usage: '  -n / -p', description: 'Numeric addresses / show the owning program' },
+    ],
+    run: (args, { state }) => {
+      const { flags } = parseArgs(args);
+      const both = !flags.t && !flags.u;
+      const sockets = openSockets(state)
+        .filter(socket => both || (socket.protocol === 'tcp' ? flags.t : flags.u))
+        .filter(socket => {
+          const listening = socket.state !== 'ESTABLISHED';
+          return flags.a || (flags.l ? listening : !listening);
+        });
+      const instance = trafficSource(state).instance;
+      const title = flags.a ? 'servers and established' : flags.l ? 'only servers' : 'w/o servers';
+      const columns = ['Proto Recv-Q Send-Q Local Address           Foreign Address         State      ', ...flags.p ? [' PID/Program name'] : []];
+      const rows = sockets.map(socket => {
+        const program = flags.p ? ` ${instance ? `${processId(instance, socket.program)}/${socket.program}` : '-'}` : '';
+        return `${socket.protocol.padEnd(5)} ${'0'.padStart(6)} ${'0'.padStart(6)} ${socketAddress(state, socket.local, socket.localPort, !!flags.n).padEnd(23)} ${socketAddress(state, socket.foreign, socket.foreignPort, !!flags.n).padEnd(23)} ${socket.state.padEnd(11)}${program}`.trimEnd();
+      });
+      return { output: [`Active Internet connections (${title})`, columns.join('').trimEnd(), ...rows].join('\n') };
+    },
+  });
+
+  registry.register({
+    name: 'curl',
+    category: 'network',
+    summary: 'Transfer data from a URL',
+    usage: [
+      { usage: 'curl [options] <url>', description: 'Request a URL served by an instance' },
+      { usage: '  -I / -i', description: 'Fetch headers only / include headers in the output' },
+      { usage: '  -X <method> -d <data> -H <header>', description: 'Set the method, request body and headers' },
+      { usage: '  -o <file> / -O', description: 'Write the body to a file / to the remote file name' },
+      { usage: '  -s -f -v --connect-timeout <s>', description: 'Silent, fail on HTTP errors, verbose, timeout' },
+    ],
+    complete: completeUrl,
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, [
+        'X', 'request', 'd', 'data', 'H', 'header', 'o', 'output', 'm', 'max-time', 'connect-timeout',
+      ]);
+      if (!operands[0]) {
+        return fail("curl: try 'curl --help' or 'curl --manual' for more information", 2);
+      }
+      const url = parseUrl(operands[0]);
+      if (!url) {
+        return fail('curl: (3) URL using bad/illegal format or missing URL', 3);
+      }
+
+      const data = repeated(args, 'd', 'data');
+      const body = data.join('&');
+      const explicitMethod = flags.X ?? flags.request;
+      const method = typeof explicitMethod === 'string'
+        ? explicitMethod.toUpperCase()
+        : flags.I || flags.head ? 'HEAD' : data.length > 0 ? 'POST' : 'GET';
+      const headers: Record<string, string> = {
+        Host: url.host,
+        'User-Agent': USER_AGENTS.curl,
+        Accept: '*/*',
+        ...data.length > 0 ? { 'Content-Type': 'application/x-www-form-urlencoded', 'Content-Length': String(body.length) } : {},
+      };
+      for (const header of repeated(args, 'H', 'header')) {
+        const separator = header.indexOf(':');
+        if (separator > 0) {
+          headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+        }
+      }
+
+      const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+      const request: HttpRequest = { method, url, headers, body };
+      const { outcome, elapsed } = await connect(ctx, request, timeoutMs(flags['connect-timeout'] ?? flags.m ?? flags['max-time']));
+      if (ctx.signal.aborted) {
+        return { output: '', exitCode: 130 };
+      }
+      if (outcome.type !== 'response') {
+        return connectionFailure(outcome, url.hostname, port, elapsed);
+      }
+      await ctx.sleep(outcome.latency);
+
+      const { response } = outcome;
+      const verbose = flags.v || flags.verbose ? [
+        `*   Trying ${outcome.address}:${port}...`,
+        `* Connected to ${url.hostname} (${outcome.address}) port ${port}`,
+        `> ${method} ${url.pathname}${url.search} HTTP/1.1`,
+        ...Object.entries(headers).map(([name, value]) => `> ${name}: ${value}`),
+        '>',
+        ...formatHeaders(response).map(line => `< ${line}`),
+        '<',
+        `* Connection #0 to host ${url.hostname} left intact`,
+      ] : [];
+
+      if ((flags.f || flags.fail) && response.status >= 400) {
+        return {
+          output: '',
+          error: [...verbose, `curl: (22) The requested URL returned error: ${response.status}`].join('\n'),
+          exitCode: 22,
+          update: outcome.update,
+        };
+      }
+
+      const head = flags.I || flags.head;
+      const content = head
+        ? formatHeaders(response).join('\n')
+        : flags.i || flags.include ? [...formatHeaders(response), '', response.body].join('\n') : response.body;
+
+      const remoteName = flags.O || flags['remote-name'];
+      const output = flags.o ?? flags.output ?? (remoteName ? basename(url.pathname) : undefined);
+      if (output === '' || output === '/') {
+        return fail('curl: Remote file name has no length!', 23);
+      }
+      if (typeof output === 'string' && output !== '-') {
+        const path = resolve(ctx.getState(), output);
+        try {
+          writeFileAt(ctx.getState().fs, path, content);
+        } catch (error) {
+          return fail(`curl: (23) Failure writing output to destination, ${formatFsError('curl', error, output).slice(6)}`, 23);
+        }
+        const meter = flags.s || flags.silent ? [] : [progressMeter(new TextEncoder().encode(content).length)];
+        const error = [...verbose, ...meter].join('\n');
+        return {
+          output: '',
+          error: error || undefined,
+          update: s => {
+            const next = outcome.update ? outcome.update(s) : s;
+            return { ...next, fs: writeFileAt(next.fs, path, content) };
+          },
+        };
+      }
+      return {
+        output: stripNewline(content),
+        error: verbose.length > 0 ? verbose.join('\n') : undefined,
+        update: outcome.update,
+      };
+    },
+  });
+
+  registry.register({
+    name: 'wget',
+    category: 'network',
+    summary: 'Download files',
+    usage: [
+      { usage: 'wget [-q] [-S] [-O file] <url>', description: 'Download a URL into the current directory' },
+    ],
+    complete: completeUrl,
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['O', 'output-document', 'T', 'timeout']);
+      if (!operands[0]) {
+        return fail("wget: missing URL\nUsage: wget [OPTION]... [URL]...\n\nTry `wget --help' for more options.");
+      }
+      const url = parseUrl(operands[0]);
+      if (!url) {
+        return fail(`${operands[0]}: Invalid URL.`);
+      }
+
+      const host = url.hostname;
+      const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+      const quiet = !!(flags.q || flags.quiet);
+      const log = [`--${wgetTimestamp(Date.now())}--  ${url.href}`];
+      const request: HttpRequest = {
+        method: 'GET',
+        url,
+        headers: { Host: url.host, 'User-Agent': USER_AGENTS.wget, Accept: '*/*' },
+        body: '',
+      };
+      const { outcome } = await connect(ctx, request, timeoutMs(flags.T ?? flags.timeout));
+      if (ctx.signal.aborted) {
+        return { output: '', exitCode: 130 };
+      }
+      const finish = (lines: string[], exitCode: number) => fail(quiet ? '' : [...log, ...lines].join('\n'), exitCode);
+
+      if (outcome.type === 'unresolved') {
+        log.push(`Resolving ${host} (${host})... failed: Name or service not known.`);
+        return finish([`wget: unable to resolve host address \u2018${host}\u2019`], 4);
+      }
+      log.push(`Resolving ${host} (${host})... ${outcome.address}`);
+      const connecting = `Connecting to ${host} (${host})|${outcome.address}|:${port}...`;
+      if (outcome.type === 'refused') {
+        return finish([`${connecting} failed: Connection refused.`], 4);
+      }
+      if (outcome.type === 'timeout') {
+        return finish([`${connecting} failed: Connection timed out.`, 'Giving up.'], 4);
+      }
+      await ctx.sleep(outcome.latency);
+
+      const { response } = outcome;
+      log.push(`${connecting} connected.`, `HTTP request sent, awaiting response... ${response.status} ${STATUS_TEXT[response.status] ?? ''}`.trimEnd());
+      if (flags.S || flags['server-response']) {
+        log.push(...formatHeaders(response).map(line => `  ${line}`));
+      }
+      if (response.status >= 400) {
+        return {
+          ...finish([`${wgetTimestamp(Date.now())} ERROR ${response.status}: ${STATUS_TEXT[response.status] ?? 'Error'}.`], 8),
+          update: outcome.update,
+        };
+      }
+
+      const target = flags.O ?? flags['output-document'];
+      if (target === '-') {
+        return { output: stripNewline(response.body), update: outcome.update };
+      }
+      const state = ctx.getState();
+      const name = typeof target === 'string' ? target : availableName(state, basename(url.pathname) === '/' ? 'index.html' : basename(url.pathname));
+      const path = resolve(state, name);
+      try {
+        writeFileAt(state.fs, path, response.body);
+      } catch (error) {
+        return finish([`${name}: ${formatFsError('wget', error, name).split(': ').pop()}`], 3);
+      }
+
+      const size = new TextEncoder().encode(response.body).length;
+      const type = response.headers['Content-Type'] ?? 'application/octet-stream';
+      log.push(
+        `Length: ${size} [${type.split(';')[0]}]`,
+        `Saving to: \u2018${name}\u2019`,
+        '',
+        `${name.padEnd(19).slice(0, 19)} 100%[===================>] ${String(size).padStart(7)}  --.-KB/s    in 0s`,
+        '',
+        `${wgetTimestamp(Date.now())} (${transferRate(size, outcome.latency)}) - \u2018${name}\u2019 saved [${size}/${size}]`,
+      );
+      return {
+        output: quiet ? '' : log.join('\n'),
+        update: s => {
+          const next = outcome.update ? outcome.update(s) : s;
+          return { ...next, fs: writeFileAt(next.fs, path, response.body) };
+        },
+      };
+    },
+  });
+};
@@ -0,0 +1,202 @@
+import { parseArgs } from '../args';
+import { completePaths } from '../completion';
+import { basename, formatFsError, getNode, makeDirectoryAt, readFile, resolve, writeFile } from '../fs';
+import { formatTable } from '../format';
+import { formatUsage } from '../help';
+import { fail } from '../result';
+import {
+  castDuration,
+  castTranscript,
+  CastError,
+  parseCast,
+  RECORDING_DIR,
+  serializeCast,
+  startRecording,
+  type Cast,
+} from '../recording';
+import { formatDuration } from '../time';
+import type { CommandContext, CommandDefinition, CommandPlugin, CommandResult, SessionState } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult;
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const defaultName = (now: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `session-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+};
+
+// Saved recordings in the current shell's ~/recordings, oldest first.
+const savedRecordings = (state: SessionState) => {
+  const dir = getNode(state.fs, resolve(state, RECORDING_DIR));
+  if (dir?.type !== 'dir') {
+    return [];
+  }
+  return Object.entries(dir.children)
+    .filter(([name, node]) => node.type === 'file' && name.endsWith('.cast'))
+    .sort(([, a], [, b]) => a.mtime - b.mtime)
+    .map(([name]) => `${RECORDING_DIR}/${name}`);
+};
+
+// Reads the named recording, or the most recent one.
+const loadCast = (state: SessionState, path: string | undefined): { path: string; content: string; cast: Cast } => {
+  const target = path ?? savedRecordings(state).pop();
+  if (!target) {
+    throw new CastError(`no recordings in ${RECORDING_DIR} (start one with 'record start')`);
+  }
+  let content: string;
+  try {
+    content = readFile(state, target);
+  } catch (error) {
+    throw new CastError(formatFsError('record', error, target).replace(/^record: /, ''));
+  }
+  try {
+    return { path: target, content, cast: parseCast(content) };
+  } catch (error) {
+    if (error instanceof CastError) {
+      throw new CastError(`${target}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+const subcommands: Record<string, Subcommand> = {
+  start: (args, { state }) => {
+    if (state.recording) {
+      return fail(`record: already recording '${state.recording.name}' (stop it with 'record stop')`);
+    }
+    const name = args[0] ?? defaultName(new Date());
+    if (!/^[\w.-]+$/.test(name)) {
+      return fail(`record: invalid name '${name}' (use letters, digits, '.', '-' and '_')`);
+    }
+    return {
+      output: `Recording started: ${name}. Type 'record stop' to finish.`,
+      update: s => ({ ...s, recording: startRecording(name, Date.now()) }),
+    };
+  },
+
+  stop: (_args, { state }) => {
+    const recording = state.recording;
+    if (!recording) {
+      return fail('record: not recording');
+    }
+    const path = `${RECORDING_DIR}/${recording.name}.cast`;
+    const content = serializeCast(recording, { SHELL: state.env.SHELL, TERM: state.env.TERM });
+    const save = (s: SessionState) => {
+      const fs = makeDirectoryAt(s.fs, resolve(s, RECORDING_DIR), true);
+      return writeFile({ ...s, fs, recording: undefined }, path, content);
+    };
+    try {
+      save(state);
+    } catch (error) {
+      return fail(formatFsError('record', error, path));
+    }
+    return {
+      output: [
+        `Recording saved to ${path} (${formatDuration(Date.now() - recording.startedAt)}, ${recording.events.length} events).`,
+        `Replay it with 'record play ${path}'.`,
+      ].join('\n'),
+      update: save,
+    };
+  },
+
+  status: (_args, { state }) => {
+    const recording = state.recording;
+    if (!recording) {
+      return { output: 'Not recording.' };
+    }
+    return { output: `Recording '${recording.name}' for ${formatDuration(Date.now() - recording.startedAt)} (${recording.events.length} events).` };
+  },
+
+  list: (_args, { state }) => {
+    const rows = savedRecordings(state).map(path => {
+      try {
+        const { cast } = loadCast(state, path);
+        const started = cast.header.timestamp ? new Date(cast.header.timestamp * 1000).toLocaleString() : '';
+        return [basename(path), formatDuration(castDuration(cast) * 1000), started];
+      } catch (error) {
+        if (error instanceof CastError) {
+          return [basename(path), 'invalid', ''];
+        }
+        throw error;
+      }
+    });
+    if (rows.length === 0) {
+      return { output: `No recordings in ${RECORDING_DIR}.` };
+    }
+    return { output: formatTable(rows, ['NAME', 'DURATION', 'RECORDED']) };
+  },
+
+  play: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['speed']);
+    const speed = flags.speed === undefined ? 1 : Number(flags.speed);
+    if (!SPEEDS.includes(speed)) {
+      return fail(`record: --speed must be one of ${SPEEDS.join(', ')}`);
+    }
+    const { path, content } = loadCast(state, operands[0]);
+    return { output: '', replay: { path, content, speed } };
+  },
+
+  transcript: (args, { state }) => {
+    return { output: castTranscript(loadCast(state, args[0]).cast).trimEnd() };
+  },
+
+  export: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['format']);
+    const format = flags.format ?? 'cast';
+    if (format !== 'cast' && format !== 'txt') {
+      return fail('record: --format must be cast or txt');
+    }
+    const { path, content, cast } = loadCast(state, operands[0]);
+    const filename = basename(path).replace(/\.cast$/, `.${format}`);
+    return {
+      output: `Downloading ${filename}...`,
+      effect: format === 'cast'
+        ? { type: 'download-file', filename, content, mimeType: 'application/x-asciicast' }
+        : { type: 'download-file', filename, content: castTranscript(cast), mimeType: 'text/plain' },
+    };
+  },
+};
+
+const record: CommandDefinition = {
+  name: 'record',
+  category: 'system',
+  summary: 'Record and replay terminal sessions',
+  usage: [
+    { usage: 'record start [name]', description: 'Start recording everything typed and shown, with its timing' },
+    { usage: 'record stop', description: `Stop and save the recording to ${RECORDING_DIR}/NAME.cast (asciinema v2)` },
+    { usage: 'record status', description: 'Show whether a recording is running' },
+    { usage: 'record list', description: 'List saved recordings' },
+    { usage: 'record play [file] [--speed 0.5|1|2|4]', description: 'Replay a recording (the latest by default); space pauses, q exits' },
+    { usage: 'record transcript [file]', description: 'Print a recording as plain text' },
+    { usage: 'record export [file] [--format cast|txt]', description: 'Download a recording as a .cast file or a plain transcript' },
+  ],
+  complete: (args, { state }) => {
+    if (args.length === 1) {
+      return Object.keys(subcommands);
+    }
+    if (['play', 'transcript', 'export'].includes(args[0])) {
+      return completePaths(state, args[args.length - 1]);
+    }
+    return [];
+  },
+  run: (args, ctx) => {
+    const [subcommand, ...rest] = args;
+    const handler = subcommands[subcommand];
+    if (!handler) {
+      return fail(`Usage:\n${formatUsage(record)}`);
+    }
+    try {
+      return handler(rest, ctx);
+    } catch (error) {
+      if (error instanceof CastError) {
+        return fail(`record: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const recordCommands: CommandPlugin = registry => {
+  registry.register(record);
+};
@@ -0,0 +1,160 @@
+import { completePaths } from '../completion';
+import { formatFsError, readFile } from '../fs';
+import { formatTable } from '../format';
+import { formatUsage } from '../help';
+import { executeScript } from '../interpreter';
+import { fail } from '../result';
+import { formatProgress, parseScenario, ScenarioError, startScenario, type Scenario } from '../scenario';
+import type { CommandContext, CommandDefinition, CommandPlugin, CommandResult } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult | Promise<CommandResult>;
+
+const NOT_STARTED = "scenario: no scenario in progress (try 'scenario list')";
+
+// Scenarios can also be loaded from a file in the virtual filesystem while writing them.
+const isFile = (target: string) => target.includes('/') || /\.(json|ya?ml)$/.test(target);
+
+const begin = async (scenario: Scenario, ctx: CommandContext): Promise<CommandResult> => {
+  ctx.update(s => ({ ...startScenario(scenario, Date.now()), recording: s.recording, events: s.events }));
+  if (scenario.setup.script) {
+    const result = await executeScript(scenario.setup.script, { ...ctx, stdin: '' }, { name: scenario.id, args: [], sourced: true });
+    if ((result.exitCode ?? 0) !== 0) {
+      return fail(`scenario: setup script for '${scenario.id}' failed with status ${result.exitCode}\n${result.output}`.trimEnd());
+    }
+    // The script's commands are part of the setup, not the player's history.
+    ctx.update(s => ({ ...s, history: [], lastExitCode: 0 }));
+  }
+  const progress = ctx.getState().scenario!;
+  return { output: formatProgress(progress) };
+};
+
+const subcommands = (scenarios: Scenario[]): Record<string, Subcommand> => ({
+  list: (_args, { state }) => {
+    if (scenarios.length === 0) {
+      return { output: 'No scenarios installed.' };
+    }
+    const rows = scenarios.map(scenario => {
+      const current = state.scenario?.scenario.id === scenario.id ? state.scenario : undefined;
+      let status = '';
+      if (current) {
+        status = current.finishedAt !== undefined ? 'completed' : `in progress (${current.completed}/${scenario.objectives.length})`;
+      }
+      return [scenario.id, scenario.title, String(scenario.objectives.length), status];
+    });
+    return { output: formatTable(rows, ['ID', 'TITLE', 'OBJECTIVES', 'STATUS']) };
+  },
+
+  start: (args, ctx) => {
+    const [target] = args;
+    if (!target) {
+      return fail('Usage: scenario start <id | file>');
+    }
+    if (!isFile(target)) {
+      const scenario = scenarios.find(s => s.id === target);
+      if (!scenario) {
+        return fail(`scenario: unknown scenario '${target}' (try 'scenario list')`);
+      }
+      return begin(scenario, ctx);
+    }
+    let source: string;
+    try {
+      source = readFile(ctx.state, target);
+    } catch (error) {
+      return fail(formatFsError('scenario', error, target));
+    }
+    try {
+      return begin(parseScenario(source, target), ctx);
+    } catch (error) {
+      if (error instanceof ScenarioError) {
+        return fail(`scenario: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+
+  reset: (_args, ctx) => {
+    const progress = ctx.state.scenario;
+    if (!progress) {
+      return fail(NOT_STARTED);
+    }
+    return begin(progress.scenario, ctx);
+  },
+
+  status: (_args, { state }) => {
+    if (!state.scenario) {
+      return fail(NOT_STARTED);
+    }
+    return { output: formatProgress(state.scenario) };
+  },
+
+  hint: (_args, { state }) => {
+    const progress = state.scenario;
+    if (!progress) {
+      return fail(NOT_STARTED);
+    }
+    const objective = progress.scenario.objectives[progress.completed];
+    if (!objective) {
+      return { output: 'All objectives are complete.' };
+    }
+    if (objective.hints.length === 0) {
+      return { output: `No hints for '${objective.title}'.` };
+    }
+    const hints = Math.min(progress.hints + 1, objective.hints.length);
+    const lines = objective.hints.slice(0, hints).map((hint, index) => `Hint ${index + 1}/${objective.hints.length}: ${hint}`);
+    return {
+      output: lines.join('\n'),
+      update: s => s.scenario ? { ...s, scenario: { ...s.scenario, hints } } : s,
+    };
+  },
+
+  stop: (_args, { state }) => {
+    if (!state.scenario) {
+      return fail(NOT_STARTED);
+    }
+    return {
+      output: `Left scenario '${state.scenario.scenario.title}'. The session keeps its current state.`,
+      update: s => ({ ...s, scenario: undefined }),
+    };
+  },
+});
+
+// `scenario` over a fixed set of scenarios; the app passes in the ones it ships with.
+export const scenarioCommands = (scenarios: Scenario[]): CommandPlugin => registry => {
+  const handlers = subcommands(scenarios);
+
+  const scenario: CommandDefinition = {
+    name: 'scenario',
+    category: 'system',
+    summary: 'Guided exercises with objectives',
+    usage: [
+      { usage: 'scenario list', description: 'List the available scenarios' },
+      { usage: 'scenario start <id | file>', description: 'Start a scenario (a .yaml or .json file can be given too); this replaces the session' },
+      { usage: 'scenario status', description: 'Show the objectives and your progress' },
+      { usage: 'scenario hint', description: 'Reveal the next hint for the current objective' },
+      { usage: 'scenario reset', description: 'Start the current scenario over' },
+      { usage: 'scenario stop', description: 'Leave the scenario and keep the session as it is' },
+    ],
+    complete: (args, ctx) => {
+      if (args.length === 1) {
+        return Object.keys(handlers);
+      }
+      if (args[0] === 'start' && args.length === 2) {
+        return [...scenarios.map(s => s.id), ...completePaths(ctx.state, args[1])];
+      }
+      return [];
+    },
+    run: (args, ctx) => {
+      const [subcommand, ...rest] = args;
+      if (!subcommand) {
+        return { output: formatUsage(scenario) };
+      }
+      const handler = handlers[subcommand];
+      if (!handler) {
+        return fail(`scenario: unknown command '${subcommand}'\n${formatUsage(scenario)}`);
+      }
+      return handler(rest, ctx);
+    },
+  };
+
+  registry.register(scenario);
+};
@@ -0,0 +1,58 @@
+import { formatUsage } from '../help';
+import { fail } from '../result';
+import type { CommandDefinition, CommandPlugin } from '../types';
+
+const session: CommandDefinition = {
+  name: 'session',
+  category: 'system',
+  summary: 'Save/restore session',
+  usage: [
+    { usage: 'session export [filename]', description: 'Download the session as a JSON snapshot' },
+    { usage: 'session import', description: 'Load a session from a JSON snapshot file' },
+    { usage: 'session reset', description: 'Discard the saved session and start fresh' },
+    { usage: 'session info', description: 'Show what the current session contains' },
+  ],
+  complete: args => args.length === 1 ? ['export', 'import', 'reset', 'info'] : [],
+  run: (args, { state }) => {
+    const [subcommand, filename] = args;
+
+    switch (subcommand) {
+      case 'export': {
+        const name = filename || `cloud-terminal-session-${new Date().toISOString().slice(0, 10)}.json`;
+        return {
+          output: `Exporting session to ${name}...`,
+          effect: { type: 'export-session', filename: name },
+        };
+      }
+
+      case 'import':
+        return {
+          output: 'Select a session snapshot file to import...',
+          effect: { type: 'import-session' },
+        };
+
+      case 'reset':
+        return {
+          output: 'Session reset.',
+          effect: { type: 'reset-session' },
+        };
+
+      case 'info':
+        return {
+          output: `Session:
+  Instances: ${state.instances.length}
+  Repositories: ${state.gitRepos.length}
+  SSH keys: ${state.sshKeys.length}
+  History entries: ${state.history.length}
+  Working directory: ${state.currentPath}
+Sessions are saved automatically in this browser.`,
+        };
+    }
+
+    return fail(`Usage:\n${formatUsage(session)}`);
+  },
+};
+
+export const sessionCommands: CommandPlugin = registry => {
+  registry.register(session);
+};
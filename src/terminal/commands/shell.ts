@@ -0,0 +1,252 @@
+import { formatFsError, getNode, readFile, resolve, type FsNode } from '../fs';
+import { executeScript } from '../interpreter';
+import { fail } from '../result';
+import type { CommandDefinition, CommandHandler, CommandPlugin, SessionState } from '../types';
+
+class TestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TestError';
+  }
+}
+
+const FILE_TESTS: Record<string, (node: FsNode) => boolean> = {
+  '-e': () => true,
+  '-f': node => node.type === 'file',
+  '-d': node => node.type === 'dir',
+  '-s': node => node.type === 'dir' || node.content.length > 0,
+  '-r': node => (node.mode & 0o400) !== 0,
+  '-w': node => (node.mode & 0o200) !== 0,
+  '-x': node => (node.mode & 0o100) !== 0,
+};
+
+const STRING_TESTS: Record<string, (value: string) => boolean> = {
+  '-z': value => value === '',
+  '-n': value => value !== '',
+};
+
+const COMPARISONS: Record<string, (left: string, right: string) => boolean> = {
+  '=': (left, right) => left === right,
+  '==': (left, right) => left === right,
+  '!=': (left, right) => left !== right,
+  '<': (left, right) => left < right,
+  '>': (left, right) => left > right,
+};
+
+const INTEGER_COMPARISONS: Record<string, (left: number, right: number) => boolean> = {
+  '-eq': (left, right) => left === right,
+  '-ne': (left, right) => left !== right,
+  '-lt': (left, right) => left < right,
+  '-le': (left, right) => left <= right,
+  '-gt': (left, right) => left > right,
+  '-ge': (left, right) => left >= right,
+};
+
+const toInteger = (value: string) => {
+  if (!/^\s*-?\d+\s*$/.test(value)) {
+    throw new TestError(`${value}: integer expression expected`);
+  }
+  return parseInt(value, 10);
+};
+
+// Evaluates a `test` expression: file, string and integer checks combined
+// with `!`, `-a`, `-o` and parentheses.
+const evaluateTest = (args: string[], state: SessionState) => {
+  let position = 0;
+
+  const isBinary = (operator: string | undefined) => {
+    return operator !== undefined && (operator in COMPARISONS || operator in INTEGER_COMPARISONS);
+  };
+
+  const parsePrimary = (): boolean => {
+    const token = args[position++];
+    if (token === undefined) {
+      throw new TestError('argument expected');
+    }
+    if (isBinary(args[position]) && position + 1 < args.length) {
+      const operator = args[position];
+      const right = args[position + 1];
+      position += 2;
+      if (operator in COMPARISONS) {
+        return COMPARISONS[operator](token, right);
+      }
+      return INTEGER_COMPARISONS[operator](toInteger(token), toInteger(right));
+    }
+    if (token === '!' && position < args.length) {
+      return !parsePrimary();
+    }
+    if (token === '(' && position < args.length) {
+      const value = parseOr();
+      if (args[position++] !== ')') {
+        throw new TestError("')' expected");
+      }
+      return value;
+    }
+    if ((token in FILE_TESTS || token in STRING_TESTS) && position < args.length) {
+      const operand = args[position++];
+      if (token in STRING_TESTS) {
+        return STRING_TESTS[token](operand);
+      }
+      const node = getNode(state.fs, resolve(state, operand));
+      return node !== undefined && FILE_TESTS[token](node);
+    }
+    return token !== '';
+  };
+
+  const parseAnd = (): boolean => {
+    let value = parsePrimary();
+    while (args[position] === '-a') {
+      position++;
+      value = parsePrimary() && value;
+    }
+    return value;
+  };
+
+  const parseOr = (): boolean => {
+    let value = parseAnd();
+    while (args[position] === '-o') {
+      position++;
+      value = parseAnd() || value;
+    }
+    return value;
+  };
+
+  if (args.length === 0) {
+    return false;
+  }
+  const value = parseOr();
+  if (position < args.length) {
+    throw new TestError(`${args[position]}: unexpected argument`);
+  }
+  return value;
+};
+
+const runTest = (name: string): CommandHandler => (args, { state }) => {
+  let operands = args;
+  if (name === '[') {
+    if (args[args.length - 1] !== ']') {
+      return fail("[: missing ']'", 2);
+    }
+    operands = args.slice(0, -1);
+  }
+  try {
+    return { output: '', exitCode: evaluateTest(operands, state) ? 0 : 1 };
+  } catch (error) {
+    if (error instanceof TestError) {
+      return fail(`${name}: ${error.message}`, 2);
+    }
+    throw error;
+  }
+};
+
+// `bash FILE`, `bash -c COMMANDS` or a script piped in on stdin.
+const runShell = (name: string): CommandHandler => (args, ctx) => {
+  if (args[0] === '-c') {
+    if (args.length < 2) {
+      return fail(`${name}: -c: option requires an argument`, 2);
+    }
+    const [, source, scriptName = name, ...rest] = args;
+    return executeScript(source, ctx, { name: scriptName, args: rest });
+  }
+  if (args.length === 0) {
+    if (!ctx.stdin) {
+      return fail(`Usage: ${name} FILE [arguments...] | ${name} -c COMMANDS`, 2);
+    }
+    return executeScript(ctx.stdin, { ...ctx, stdin: '' }, { name, args: [] });
+  }
+  const [path, ...rest] = args;
+  try {
+    return executeScript(readFile(ctx.state, path), ctx, { name: path, args: rest });
+  } catch (error) {
+    return fail(formatFsError(name, error, path), 127);
+  }
+};
+
+const source = (name: string): CommandDefinition => ({
+  name,
+  category: 'system',
+  summary: 'Run a script in this shell',
+  usage: [{ usage: `${name} FILE [arguments...]`, description: 'Run a script in the current shell, keeping its variables, functions and directory' }],
+  run: (args, ctx) => {
+    const [path, ...rest] = args;
+    if (!path) {
+      return fail(`${name}: filename argument required\n${name}: usage: ${name} filename [arguments]`, 2);
+    }
+    try {
+      return executeScript(readFile(ctx.state, path), ctx, { name: path, args: rest, sourced: true });
+    } catch (error) {
+      return fail(formatFsError('bash', error, path));
+    }
+  },
+});
+
+export const shellCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'bash',
+    category: 'system',
+    summary: 'Run a shell script',
+    usage: [
+      { usage: 'bash FILE [arguments...]', description: 'Run a script from the filesystem in a child shell ($1, $2... are the arguments)' },
+      { usage: 'bash -c COMMANDS [name [arguments...]]', description: 'Run a command string as a script' },
+      { usage: './FILE [arguments...]', description: 'Run an executable script (chmod +x FILE first)' },
+    ],
+    run: runShell('bash'),
+  });
+
+  registry.register({
+    name: 'sh',
+    category: 'system',
+    summary: 'Run a shell script',
+    usage: [{ usage: 'sh FILE [arguments...]', description: 'Same as bash' }],
+    run: runShell('sh'),
+  });
+
+  registry.register(source('source'));
+  registry.register(source('.'));
+
+  registry.register({
+    name: 'test',
+    category: 'system',
+    summary: 'Evaluate a condition',
+    usage: [
+      { usage: 'test EXPRESSION', description: 'Exit 0 if true: -e/-f/-d/-s/-r/-w/-x FILE, -z/-n STRING, = != < >, -eq -ne -lt -le -gt -ge, ! -a -o' },
+    ],
+    complete: () => [],
+    run: runTest('test'),
+  });
+
+  registry.register({
+    name: '[',
+    category: 'system',
+    summary: 'Evaluate a condition',
+    usage: [{ usage: '[ EXPRESSION ]', description: 'Same as test' }],
+    complete: () => [],
+    run: runTest('['),
+  });
+
+  registry.register({
+    name: 'true',
+    category: 'system',
+    summary: 'Succeed',
+    usage: [{ usage: 'true', description: 'Do nothing, successfully' }],
+    complete: () => [],
+    run: () => ({ output: '' }),
+  });
+
+  registry.register({
+    name: ':',
+    category: 'system',
+    summary: 'Succeed',
+    usage: [{ usage: ': [arguments...]', description: 'Do nothing, successfully (e.g. while :; do ...)' }],
+    run: () => ({ output: '' }),
+  });
+
+  registry.register({
+    name: 'false',
+    category: 'system',
+    summary: 'Fail',
+    usage: [{ usage: 'false', description: 'Do nothing, unsuccessfully' }],
+    complete: () => [],
+    run: () => ({ output: '', exitCode: 1 }),
+  });
+};
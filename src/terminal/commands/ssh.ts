@@ -0,0 +1,513 @@
+import { parseArgs } from '../args';
+import { completePaths } from '../completion';
+import {
+  basename,
+  chmodAt,
+  dirname,
+  displayPath,
+  formatFsError,
+  getNode,
+  HOME,
+  joinPath,
+  makeDirectoryAt,
+  readFile,
+  resolve,
+  writeFileAt,
+  type DirectoryNode,
+} from '../fs';
+import { checkFirewall, internalAddress, resolveHost } from '../hosts';
+import { executeLine } from '../interpreter';
+import { closeConnection, DEFAULT_LOGIN, hostFileSystem, openConnection, updateHostFileSystem } from '../remote';
+import { fail } from '../result';
+import {
+  DEFAULT_KEY_SIZES,
+  describePublicKey,
+  generateKeyPair,
+  KEY_SIZES,
+  KEY_TYPES,
+  KeyFormatError,
+  type KeyPair,
+  type KeyType,
+} from '../sshkeys';
+import type { CommandCompleter, CommandPlugin, CommandResult, SessionState, SSHKey } from '../types';
+
+const isPublicKey = (content: string) => /^(ssh-|ecdsa-)/.test(content.trim());
+
+const sshDirectory = (state: SessionState) => joinPath(state.env.HOME || HOME, '.ssh');
+
+const saveKeyFiles = (state: SessionState, path: string, pair: KeyPair): SessionState => {
+  let fs = state.fs;
+  const sshDir = sshDirectory(state);
+  if (dirname(path) === sshDir && !getNode(fs, sshDir)) {
+    fs = chmodAt(makeDirectoryAt(fs, sshDir, true), sshDir, 0o700);
+  }
+  fs = chmodAt(writeFileAt(fs, path, pair.privateKey), path, 0o600);
+  fs = writeFileAt(fs, `${path}.pub`, `${pair.publicKey}\n`);
+  return { ...state, fs };
+};
+
+const addKey = (state: SessionState, key: SSHKey): SessionState => {
+  const others = state.sshKeys.filter(k => k.path !== key.path);
+  const name = others.some(k => k.name === key.name) ? displayPath(key.path ?? key.name, state.env.HOME) : key.name;
+  return { ...state, sshKeys: [...others, { ...key, name }] };
+};
+
+// `ssh-keygen -l -f file`: fingerprints every key in a public key file, or
+// in the `.pub` next to a private key.
+const listFingerprints = async (state: SessionState, file: string): Promise<CommandResult> => {
+  let content: string;
+  try {
+    content = readFile(state, file);
+  } catch (error) {
+    return fail(formatFsError('ssh-keygen', error, file), 255);
+  }
+  if (!isPublicKey(content)) {
+    const pub = getNode(state.fs, resolve(state, `${file}.pub`));
+    if (pub?.type !== 'file') {
+      return fail(`${file} is not a public key file.`, 255);
+    }
+    content = pub.content;
+  }
+  const lines = content.split('\n').filter(line => line.trim() && !line.startsWith('#'));
+  try {
+    return { output: (await Promise.all(lines.map(describePublicKey))).join('\n') };
+  } catch (error) {
+    if (error instanceof KeyFormatError) {
+      return fail(`${file} is not a public key file.`, 255);
+    }
+    throw error;
+  }
+};
+
+const DEFAULT_IDENTITIES = ['id_rsa', 'id_ecdsa', 'id_ed25519'];
+
+const keyBlob = (line: string) => line.trim().split(/\s+/)[1];
+
+const keyComment = (line: string) => line.trim().split(/\s+/).slice(2).join(' ');
+
+interface Identity {
+  path: string;
+  publicKey: string;
+}
+
+// Public half of an identity given as a `.pub` file, a private key with its
+// `.pub` alongside, or the name of a key listed by ssh-list.
+const readIdentity = (state: SessionState, file: string): Identity | null => {
+  const path = resolve(state, file);
+  const node = getNode(state.fs, path);
+  if (node?.type === 'file') {
+    const pub = getNode(state.fs, `${path}.pub`);
+    const content = isPublicKey(node.content) ? node.content : pub?.type === 'file' ? pub.content : '';
+    return isPublicKey(content) ? { path, publicKey: content.trim().split('\n')[0] } : null;
+  }
+  const key = state.sshKeys.find(k => k.name === file && (!k.path || getNode(state.fs, k.path)));
+  return key ? { path: key.path ?? file, publicKey: key.publicKey } : null;
+};
+
+const defaultIdentities = (state: SessionState) => {
+  return DEFAULT_IDENTITIES
+    .map(name => readIdentity(state, `${sshDirectory(state)}/${name}`))
+    .filter((identity): identity is Identity => identity !== null);
+};
+
+// Splits `[options] [user@]host [command...]`; option parsing stops at the host.
+const parseDestination = (args: string[], withValue: string[]) => {
+  let index = 0;
+  while (index < args.length && args[index].startsWith('-') && args[index] !== '-') {
+    const arg = args[index];
+    index += arg.length === 2 && withValue.includes(arg[1]) ? 2 : 1;
+  }
+  const { flags } = parseArgs(args.slice(0, index), withValue);
+  const destination = args[index];
+  if (!destination) {
+    return null;
+  }
+  const at = destination.lastIndexOf('@');
+  return {
+    flags,
+    user: at === -1 ? undefined : destination.slice(0, at),
+    host: at === -1 ? destination : destination.slice(at + 1),
+    command: args.slice(index + 1),
+  };
+};
+
+// Finds the instance behind `host` and checks that it accepts connections.
+const connectTo = (state: SessionState, host: string, port: string | true | undefined) => {
+  const instance = resolveHost(state, host);
+  if (!instance) {
+    return { error: `ssh: Could not resolve hostname ${host}: Name or service not known` };
+  }
+  if ((port !== undefined && port !== '22') || instance.status !== 'running') {
+    return { error: `ssh: connect to host ${host} port ${typeof port === 'string' ? port : 22}: Connection refused` };
+  }
+  if (!checkFirewall(state, instance, 'tcp', 22).allowed) {
+    return { error: `ssh: connect to host ${host} port 22: Connection timed out` };
+  }
+  return { instance };
+};
+
+const authorizedKeys = (fs: DirectoryNode, user: string) => {
+  const node = getNode(fs, `/home/${user}/.ssh/authorized_keys`);
+  return node?.type === 'file' ? node.content.split('\n').filter(line => isPublicKey(line)) : [];
+};
+
+const installKeys = (fs: DirectoryNode, user: string, keys: string[]) => {
+  const sshDir = `/home/${user}/.ssh`;
+  let next = fs;
+  if (!getNode(next, sshDir)) {
+    next = chmodAt(makeDirectoryAt(next, sshDir), sshDir, 0o700);
+  }
+  next = writeFileAt(next, `${sshDir}/authorized_keys`, keys.map(key => `${key}\n`).join(''), true);
+  return chmodAt(next, `${sshDir}/authorized_keys`, 0o600);
+};
+
+const completeDestination: CommandCompleter = (args, ctx) => {
+  if (args[args.length - 2] === '-i') {
+    return completePaths(ctx.state, args[args.length - 1]);
+  }
+  const user = ctx.state.env.USER || DEFAULT_LOGIN;
+  return args.some((arg, index) => index < args.length - 1 && !arg.startsWith('-') && args[index - 1] !== '-i')
+    ? []
+    : ctx.state.instances.map(instance => `${user}@${instance.name}`);
+};
+
+const completeKeyName: CommandCompleter = (args, { state }) => {
+  return args.length === 1 ? state.sshKeys.map(key => key.name) : [];
+};
+
+export const sshCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'ssh-keygen',
+    category: 'ssh',
+    summary: 'Generate key',
+    usage: [
+      {
+        usage: 'ssh-keygen [-t rsa|ecdsa|ed25519] [-b bits] [-C comment] [-f file] [-N passphrase]',
+        description: 'Generate new SSH key pair',
+      },
+      { usage: 'ssh-keygen -l -f [file]', description: 'Show key fingerprint' },
+    ],
+    complete: (args, ctx) => {
+      const previous = args[args.length - 2];
+      if (previous === '-t') {
+        return [...KEY_TYPES];
+      }
+      if (previous === '-b') {
+        const type = args[args.indexOf('-t') + 1] as KeyType;
+        return (KEY_SIZES[type] ?? KEY_SIZES.rsa).map(String);
+      }
+      if (previous === '-f') {
+        return completePaths(ctx.state, args[args.length - 1]);
+      }
+      return ['-t', '-b', '-C', '-f', '-N', '-l'];
+    },
+    run: async (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['t', 'b', 'C', 'f', 'N']);
+      const usage = 'usage: ssh-keygen [-t rsa|ecdsa|ed25519] [-b bits] [-C comment] [-f file] [-N passphrase]\n       ssh-keygen -l -f file';
+      if (operands.length > 0) {
+        return fail(usage);
+      }
+
+      if (flags.l) {
+        return typeof flags.f === 'string' && flags.f
+          ? listFingerprints(ctx.state, flags.f)
+          : fail(usage);
+      }
+
+      const type = (typeof flags.t === 'string' ? flags.t : 'rsa') as KeyType;
+      if (!KEY_TYPES.includes(type)) {
+        return fail(`unknown key type ${flags.t}`);
+      }
+      let bits = DEFAULT_KEY_SIZES[type];
+      if (flags.b !== undefined && type !== 'ed25519') {
+        bits = Number(flags.b);
+        if (!KEY_SIZES[type].includes(bits)) {
+          return fail(`Invalid ${type.toUpperCase()} key length ${flags.b}: use ${KEY_SIZES[type].join(', ')}`);
+        }
+      }
+
+      const state = ctx.getState();
+      const comment = typeof flags.C === 'string' ? flags.C : `${state.env.USER || 'admin'}@cloud-terminal`;
+      const passphrase = typeof flags.N === 'string' ? flags.N : '';
+      const file = typeof flags.f === 'string' && flags.f ? flags.f : `${sshDirectory(state)}/id_${type}`;
+      const path = resolve(state, file);
+      if (getNode(state.fs, path)) {
+        return fail(`${path} already exists. Remove it first to generate a new key.`);
+      }
+
+      let pair: KeyPair;
+      try {
+        pair = await generateKeyPair(type, bits, comment, passphrase);
+      } catch (error) {
+        if (error instanceof KeyFormatError) {
+          return fail(`ssh-keygen: ${error.message}`);
+        }
+        throw error;
+      }
+
+      try {
+        saveKeyFiles(ctx.getState(), path, pair);
+      } catch (error) {
+        return fail(formatFsError('ssh-keygen', error, file));
+      }
+
+      const key: SSHKey = {
+        name: basename(path),
+        publicKey: pair.publicKey,
+        fingerprint: pair.fingerprint,
+        created: new Date().toISOString(),
+        path,
+      };
+      return {
+        output: `Generating public/private ${type} key pair.
+Your identification has been saved in ${path}
+Your public key has been saved in ${path}.pub
+The key fingerprint is:
+${pair.fingerprint} ${comment}
+The key's randomart image is:
+${pair.randomart}`,
+        update: s => addKey(saveKeyFiles(s, path, pair), key),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'ssh-add',
+    category: 'ssh',
+    summary: 'Add key',
+    usage: [
+      { usage: 'ssh-add [file...]', description: 'Add identities (default ~/.ssh/id_*) to the agent' },
+      { usage: 'ssh-add -l', description: 'List fingerprints of agent identities' },
+      { usage: 'ssh-add -L', description: 'List public keys of agent identities' },
+      { usage: 'ssh-add -d [file...]', description: 'Remove identities from the agent' },
+      { usage: 'ssh-add -D', description: 'Remove all identities from the agent' },
+    ],
+    complete: (args, ctx) => {
+      const partial = args[args.length - 1];
+      if (partial.startsWith('-')) {
+        return ['-l', '-L', '-d', '-D'];
+      }
+      return [...ctx.state.sshKeys.map(key => key.name), ...completePaths(ctx.state, partial)];
+    },
+    run: async (args, { state }) => {
+      const { flags, operands } = parseArgs(args);
+
+      if (flags.D) {
+        return { output: 'All identities removed.', update: s => ({ ...s, agent: [] }) };
+      }
+      if (flags.l || flags.L) {
+        if (state.agent.length === 0) {
+          return fail('The agent has no identities.');
+        }
+        return { output: flags.L ? state.agent.join('\n') : (await Promise.all(state.agent.map(describePublicKey))).join('\n') };
+      }
+
+      const identities: Identity[] = [];
+      const errors: string[] = [];
+      if (operands.length === 0) {
+        identities.push(...defaultIdentities(state));
+        if (identities.length === 0) {
+          return fail(`No identities found in ${displayPath(sshDirectory(state), state.env.HOME)}.`);
+        }
+      }
+      for (const file of operands) {
+        const identity = readIdentity(state, file);
+        if (identity) {
+          identities.push(identity);
+        } else if (getNode(state.fs, resolve(state, file))) {
+          errors.push(`Error loading key "${file}": invalid format`);
+        } else {
+          errors.push(`${file}: No such file or directory`);
+        }
+      }
+
+      const output: string[] = [];
+      let agent = state.agent;
+      for (const { path, publicKey } of identities) {
+        const present = agent.some(key => keyBlob(key) === keyBlob(publicKey));
+        if (flags.d) {
+          if (!present) {
+            errors.push(`Could not remove identity "${path}": agent refused operation`);
+            continue;
+          }
+          agent = agent.filter(key => keyBlob(key) !== keyBlob(publicKey));
+          output.push(`Identity removed: ${path} (${keyComment(publicKey)})`);
+        } else {
+          agent = present ? agent : [...agent, publicKey];
+          output.push(`Identity added: ${path} (${keyComment(publicKey)})`);
+        }
+      }
+
+      return {
+        output: output.join('\n'),
+        error: errors.length > 0 ? errors.join('\n') : undefined,
+        exitCode: errors.length > 0 ? 1 : 0,
+        update: s => ({ ...s, agent }),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'ssh-list',
+    category: 'ssh',
+    summary: 'List keys',
+    usage: [{ usage: 'ssh-list', description: 'List all SSH keys' }],
+    permissions: () => ['compute.projects.get'],
+    run: (_args, { state }) => {
+      if (state.sshKeys.length === 0) {
+        return { output: 'No SSH keys found.' };
+      }
+      return {
+        output: 'SSH Keys:\n\n' + state.sshKeys.map(key =>
+          `${key.name}:\n  Fingerprint: ${key.fingerprint}\n  Created: ${key.created}\n  Public Key: ${key.publicKey.substring(0, 50)}...`
+        ).join('\n\n'),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'ssh',
+    category: 'ssh',
+    summary: 'Connect',
+    usage: [
+      { usage: 'ssh [-i identity] [user@]host', description: 'Open a shell on a running instance' },
+      { usage: 'ssh [user@]host [command]', description: 'Run a command on an instance' },
+    ],
+    complete: completeDestination,
+    permissions: () => ['compute.instances.osLogin'],
+    run: async (args, ctx) => {
+      const target = parseDestination(args, ['i', 'l', 'p']);
+      if (!target) {
+        return fail('usage: ssh [-i identity_file] [-l login_name] [-p port] [user@]host [command]', 255);
+      }
+      const state = ctx.getState();
+      const user = target.user ?? (typeof target.flags.l === 'string' ? target.flags.l : state.env.USER || DEFAULT_LOGIN);
+      const { instance, error } = connectTo(state, target.host, target.flags.p);
+      if (!instance) {
+        return fail(error, 255);
+      }
+
+      const warnings: string[] = [];
+      const offered = [...state.agent];
+      if (typeof target.flags.i === 'string') {
+        const identity = readIdentity(state, target.flags.i);
+        if (identity) {
+          offered.push(identity.publicKey);
+        } else {
+          warnings.push(`Warning: Identity file ${target.flags.i} not accessible: No such file or directory.`);
+        }
+      }
+      const authorized = authorizedKeys(hostFileSystem(state, instance), user).map(keyBlob);
+      if (!offered.some(key => authorized.includes(keyBlob(key)))) {
+        return fail([...warnings, `${user}@${target.host}: Permission denied (publickey).`].join('\n'), 255);
+      }
+
+      if (target.command.length > 0) {
+        const session = openConnection(state, instance, user);
+        const result = await executeLine(ctx.registry, target.command.join(' '), session);
+        const finished = closeConnection(result.update ? result.update(session) : session);
+        const fs = finished.instances.find(i => i.name === instance.name)?.fs;
+        ctx.update(s => fs ? updateHostFileSystem(s, instance.name, () => fs) : s);
+        return { output: result.output, error: warnings.join('\n') || undefined, exitCode: result.exitCode };
+      }
+
+      return {
+        output: `Welcome to Cloud-Terminal-OS 1.0.0 (${instance.type} instance ${instance.name}, ${internalAddress(instance)})
+
+Type 'exit' to close the connection.`,
+        error: warnings.join('\n') || undefined,
+        update: s => {
+          const current = s.instances.find(i => i.name === instance.name);
+          return current ? openConnection(s, current, user) : s;
+        },
+      };
+    },
+  });
+
+  registry.register({
+    name: 'ssh-copy-id',
+    category: 'ssh',
+    summary: 'Copy key to server',
+    usage: [{ usage: 'ssh-copy-id [-i identity] [user@]host', description: 'Install public keys in authorized_keys on an instance' }],
+    complete: completeDestination,
+    permissions: () => ['compute.instances.setMetadata'],
+    run: (args, { state }) => {
+      const target = parseDestination(args, ['i', 'p']);
+      if (!target || target.command.length > 0) {
+        return fail('Usage: ssh-copy-id [-i identity_file] [-p port] [user@]host');
+      }
+      const user = target.user ?? (state.env.USER || DEFAULT_LOGIN);
+      const prefix = '/usr/bin/ssh-copy-id:';
+
+      let keys: string[];
+      let source: string;
+      if (typeof target.flags.i === 'string') {
+        const identity = readIdentity(state, target.flags.i);
+        if (!identity) {
+          return fail(`${prefix} ERROR: failed to open ID file '${target.flags.i}': No such file or directory`);
+        }
+        keys = [identity.publicKey];
+        source = `${identity.path.replace(/\.pub$/, '')}.pub`;
+      } else if (state.agent.length > 0) {
+        keys = state.agent;
+        source = 'ssh-agent';
+      } else {
+        const identities = defaultIdentities(state);
+        if (identities.length === 0) {
+          return fail(`${prefix} ERROR: No identities found`);
+        }
+        keys = identities.map(identity => identity.publicKey);
+        source = identities.map(identity => `${identity.path}.pub`).join(', ');
+      }
+
+      const { instance, error } = connectTo(state, target.host, target.flags.p);
+      if (!instance) {
+        return fail(`${prefix} INFO: Source of key(s) to be installed: "${source}"\n${prefix} ERROR: ${error}`);
+      }
+      const fs = hostFileSystem(state, instance);
+      if (getNode(fs, `/home/${user}`)?.type !== 'dir') {
+        return fail(`${user}@${target.host}: Permission denied (publickey,password).`);
+      }
+
+      const installed = authorizedKeys(fs, user).map(keyBlob);
+      const missing = keys.filter(key => !installed.includes(keyBlob(key)));
+      const header = `${prefix} INFO: Source of key(s) to be installed: "${source}"
+${prefix} INFO: attempting to log in with the new key(s), to filter out any that are already installed`;
+      if (missing.length === 0) {
+        return { output: `${header}\n\n${prefix} WARNING: All keys were skipped because they already exist on the remote system.` };
+      }
+      return {
+        output: `${header}
+${prefix} INFO: ${missing.length} key(s) remain to be installed -- if you are prompted now it is to install the new keys
+
+Number of key(s) added: ${missing.length}
+
+Now try logging into the machine, with:   "ssh '${user}@${target.host}'"
+and check to make sure that only the key(s) you wanted were added.`,
+        update: s => updateHostFileSystem(s, instance.name, hostFs => installKeys(hostFs, user, missing)),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'ssh-remove',
+    category: 'ssh',
+    summary: 'Remove key',
+    usage: [{ usage: 'ssh-remove [keyname]', description: 'Remove SSH key' }],
+    complete: completeKeyName,
+    permissions: () => ['compute.projects.setCommonInstanceMetadata'],
+    run: (args, { state }) => {
+      if (!args[0]) {
+        return fail('Usage: ssh-remove [keyname]');
+      }
+      const keyName = args[0];
+      if (!state.sshKeys.some(k => k.name === keyName)) {
+        return fail(`Could not find SSH key: ${keyName}`);
+      }
+      return {
+        output: `Removed SSH key: ${keyName}`,
+        update: s => ({ ...s, sshKeys: s.sshKeys.filter(k => k.name !== keyName) }),
+      };
+    },
+  });
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { chargesBetween, storageRate } from '../billing';
+import { createInitialState } from '../state';
+import { runLine } from '../test-utils';
+import type { Instance, SessionState, StorageObject } from '../types';
+
+const object = (name: string, content: string, createdAt = 0): StorageObject => ({
+  name,
+  content,
+  contentType: 'text/plain',
+  generation: createdAt * 1000 + 1,
+  createdAt,
+});
+
+const bucket: Instance = { id: 'b-1', name: 'assets', type: 'storage', createdAt: 0, objects: [] };
+
+const withBucket = (objects: StorageObject[] = []): SessionState => ({ ...createInitialState(), instances: [{ ...bucket, objects }] });
+
+const site = () => withBucket([object('index.html', 'hello'), object('logs/a.log', 'abc'), object('logs/2026/b.log', 'defg')]);
+
+describe('gsutil', () => {
+  it('copies files into a bucket and prints them back', async () => {
+    const { output, exitCode } = await runLine('echo one > f.txt && gsutil cp f.txt gs://assets/a/f.txt && gsutil cat gs://assets/a/f.txt', withBucket());
+    expect(exitCode).toBe(0);
+    expect(output.split('\n').slice(-2)).toEqual(['one', '']);
+  });
+
+  it('keeps noncurrent versions while versioning is on', async () => {
+    const { state } = await runLine([
+      'gsutil versioning set on gs://assets',
+      'echo one > f.txt && gsutil cp f.txt gs://assets/f.txt',
+      'echo two > f.txt && gsutil cp f.txt gs://assets/f.txt',
+      'gsutil rm gs://assets/f.txt',
+    ].join('\n'), withBucket());
+    expect((await runLine('gsutil ls gs://assets', state)).output).toBe('CommandException: One or more URLs matched no objects.');
+    expect((await runLine('gsutil ls -a gs://assets', state)).output.split('\n')).toHaveLength(2);
+  });
+
+  it('refuses to remove a bucket that holds objects', async () => {
+    const { output, exitCode } = await runLine('echo x > f && gsutil cp f gs://assets && gsutil rb gs://assets', withBucket());
+    expect(exitCode).toBe(1);
+    expect(output.split('\n').pop()).toBe("BucketNotEmptyException: 409 BucketNotEmpty (assets). Remove its objects first with 'gsutil rm -r -a gs://assets'.");
+  });
+
+  it('reports objects that do not exist', async () => {
+    const { output, exitCode } = await runLine('gsutil cat gs://assets/nope', withBucket());
+    expect(exitCode).toBe(1);
+    expect(output).toBe('CommandException: No URLs matched: gs://assets/nope');
+  });
+
+  it('checks bucket names', async () => {
+    const { output } = await runLine('gsutil mb gs://Bad_Name');
+    expect(output).toMatch(/^BadRequestException: 400 Invalid bucket name: 'Bad_Name'\./);
+  });
+});
+
+describe('gsutil ls', () => {
+  it('lists every object below a prefix for PREFIX/**', async () => {
+    const { output } = await runLine('gsutil ls -l gs://assets/**', site());
+    const lines = output.split('\n');
+    expect(lines.map(line => line.split(/\s+/).filter(Boolean)).map(fields => [fields[0], fields[2]])).toEqual([
+      ['5', 'gs://assets/index.html'],
+      ['4', 'gs://assets/logs/2026/b.log'],
+      ['3', 'gs://assets/logs/a.log'],
+      ['TOTAL:', 'objects,'],
+    ]);
+    expect(lines[3]).toBe('TOTAL: 3 objects, 12 bytes (12 B)');
+  });
+
+  it('keeps * within one level', async () => {
+    const { output } = await runLine('gsutil ls gs://assets/logs/*.log', site());
+    expect(output).toBe('gs://assets/logs/a.log');
+  });
+});
+
+describe('buckets', () => {
+  it('are created without a run status', async () => {
+    const { output, state } = await runLine('create instance fresh storage');
+    expect(output).toBe('Bucket gs://fresh/ created.');
+    expect(state.instances.find(instance => instance.name === 'fresh')?.status).toBeUndefined();
+    expect((await runLine('wait instance fresh --status running', state)).output)
+      .toBe('Instance "fresh" is a storage bucket, which has no status to wait for.');
+  });
+
+  it('hold objects as soon as they are made', async () => {
+    const { output, exitCode } = await runLine('echo hi > f.txt && gsutil mb gs://fresh && gsutil cp f.txt gs://fresh && gsutil cat gs://fresh/f.txt');
+    expect(exitCode).toBe(0);
+    expect(output.trimEnd().split('\n').pop()).toBe('hi');
+  });
+
+  it('have no run state to change', async () => {
+    for (const command of ['start instance assets', 'stop instance assets']) {
+      const { output, exitCode } = await runLine(command, site());
+      expect(exitCode).toBe(1);
+      expect(output).toBe('Instance "assets" is a storage bucket, which is always available: it cannot be started or stopped.');
+    }
+  });
+
+  it('have no metrics', async () => {
+    const { exitCode } = await runLine('metrics assets', site());
+    expect(exitCode).toBe(1);
+  });
+
+  it('are described without machine details', async () => {
+    const { output } = await runLine('describe instance assets', site());
+    expect(output).toContain('Location: us-central1');
+    expect(output).toContain('Objects: 3 (12 B)');
+    expect(output).not.toMatch(/Status|Uptime|Machine Type|Image|CPU Usage/);
+    expect(output).not.toMatch(/Network|Subnet|Internal IP|Internal DNS|External IP/);
+  });
+
+  it('are not deleted while they hold objects', async () => {
+    const { exitCode, state } = await runLine('delete instance assets', site());
+    expect(exitCode).toBe(1);
+    expect(state.instances).toHaveLength(1);
+  });
+});
+
+describe('bucket billing', () => {
+  it('charges for stored bytes only', () => {
+    const hour = 60 * 60 * 1000;
+    const empty = { ...bucket, objects: [] };
+    const full = { ...bucket, objects: [object('big', 'x'.repeat(1024), hour)] };
+    expect(storageRate(empty)).toBe(0);
+    expect(storageRate(full)).toBeGreaterThan(0);
+    expect(chargesBetween(empty, 0, 2 * hour)).toEqual({ uptime: 0, compute: 0, disk: 0, storage: 0 });
+    // The object has been stored for one of the two hours.
+    expect(chargesBetween(full, 0, 2 * hour).storage).toBeCloseTo(storageRate(full));
+  });
+});
@@ -0,0 +1,582 @@
+import { parseArgs } from '../args';
+import { DEFAULT_ZONE, REGIONS, regionOf, ZONES } from '../compute';
+import { completePaths } from '../completion';
+import { dirname, FsError, getNode, joinPath, makeDirectoryAt, readFileAt, resolve, writeFileAt } from '../fs';
+import { formatUsage } from '../help';
+import { attachInstance, NetworkError } from '../hosts';
+import { contentType, formatHttpDate } from '../http';
+import { beginTransition, checkTransition, generateInstanceId, provisionInstance } from '../lifecycle';
+import { fail } from '../result';
+import {
+  checkBucketName,
+  deleteObject,
+  directoryPrefix,
+  findObject,
+  formatObjectUrl,
+  formatSize,
+  hasWildcard,
+  isObjectUrl,
+  liveObjects,
+  matchesWildcard,
+  objectSize,
+  objectsUnder,
+  parseObjectUrl,
+  putObject,
+  StorageError,
+  updateBucket,
+  updateObject,
+  URL_SCHEME,
+  type ObjectUrl,
+} from '../storage';
+import type {
+  CommandContext,
+  CommandDefinition,
+  CommandPlugin,
+  CommandResult,
+  Instance,
+  SessionState,
+  StateUpdate,
+  StorageObject,
+} from '../types';
+
+// `headers` are the -h options given before the subcommand.
+type Subcommand = (args: string[], ctx: CommandContext, headers: string[]) => CommandResult | Promise<CommandResult>;
+
+const META_PREFIX = 'x-goog-meta-';
+
+// Splits off `-h HEADER` options; gsutil takes them before the subcommand, and setmeta after it too.
+const takeHeaders = (args: string[], leadingOnly = false) => {
+  const headers: string[] = [];
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-h' && i + 1 < args.length) {
+      headers.push(args[++i]);
+    } else if (leadingOnly && ['-m', '-q'].includes(args[i])) {
+      continue;
+    } else if (leadingOnly) {
+      rest.push(...args.slice(i));
+      break;
+    } else {
+      rest.push(args[i]);
+    }
+  }
+  return { headers, rest };
+};
+
+// Reads `Content-Type:text/plain` and `x-goog-meta-KEY:VALUE` headers; a
+// metadata header without a value is kept as undefined, which setmeta takes as removal.
+const parseHeaders = (headers: string[]) => {
+  let type: string | undefined;
+  const metadata: Record<string, string | undefined> = {};
+  for (const header of headers) {
+    const colon = header.indexOf(':');
+    const name = (colon === -1 ? header : header.slice(0, colon)).trim().toLowerCase();
+    const value = colon === -1 ? '' : header.slice(colon + 1).trim();
+    if (name === 'content-type') {
+      type = value || undefined;
+    } else if (name.startsWith(META_PREFIX) && name.length > META_PREFIX.length) {
+      metadata[name.slice(META_PREFIX.length)] = value || undefined;
+    } else {
+      throw new StorageError(`CommandException: Invalid or unsupported header "${header}" (use Content-Type or ${META_PREFIX}KEY).`);
+    }
+  }
+  return { type, metadata };
+};
+
+const setMetadata = (existing: Record<string, string> = {}, changes: Record<string, string | undefined>) => {
+  const metadata = { ...existing };
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === undefined) {
+      delete metadata[key];
+    } else {
+      metadata[key] = value;
+    }
+  });
+  return Object.keys(metadata).length ? metadata : undefined;
+};
+
+const findBucket = (state: SessionState, name: string) => {
+  const bucket = state.instances.find(instance => instance.name === name && instance.type === 'storage' && instance.status !== 'terminated');
+  if (!bucket) {
+    throw new StorageError(`BucketNotFoundException: 404 gs://${name} bucket does not exist.`);
+  }
+  return bucket;
+};
+
+const bucketUrls = (args: string[]) => {
+  if (args.length === 0) {
+    throw new StorageError('CommandException: Wrong number of arguments.');
+  }
+  return args.map(arg => {
+    const url = parseObjectUrl(arg);
+    if (url.name) {
+      throw new StorageError(`CommandException: "${arg}" is not a bucket URL.`);
+    }
+    return url.bucket;
+  });
+};
+
+const noMatch = (url: string) => new StorageError(`CommandException: No URLs matched: ${url}`);
+
+// The object a URL names, taking a `#generation` suffix into account.
+const requireObject = (state: SessionState, arg: string) => {
+  const url = parseObjectUrl(arg);
+  const object = url.name ? findObject(findBucket(state, url.bucket), url.name, url.generation) : undefined;
+  if (!object) {
+    throw noMatch(arg);
+  }
+  return { url, object };
+};
+
+const objectUrl = (bucket: string, object: StorageObject, withGeneration = false) => {
+  return formatObjectUrl(bucket, object.name, withGeneration ? object.generation : undefined);
+};
+
+const formatDate = (time: number) => `${new Date(time).toISOString().slice(0, 19)}Z`;
+
+// A file or object about to be copied; `relative` is the name it keeps under a destination directory.
+interface CopySource {
+  label: string;
+  relative: string;
+  content: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+const localFiles = (state: SessionState, path: string, relative: string): { path: string; relative: string }[] => {
+  const node = getNode(state.fs, path);
+  if (node?.type !== 'dir') {
+    return [{ path, relative }];
+  }
+  return Object.keys(node.children).sort().flatMap(name => localFiles(state, joinPath(path, name), `${relative}/${name}`));
+};
+
+const copySources = (state: SessionState, arg: string, recursive: boolean): CopySource[] => {
+  if (!isObjectUrl(arg)) {
+    const path = resolve(state, arg);
+    const node = getNode(state.fs, path);
+    if (!node) {
+      throw noMatch(arg);
+    }
+    if (node.type === 'dir' && !recursive) {
+      throw new StorageError(`CommandException: Omitting directory "file://${arg}". (Did you mean to do cp -r?)`);
+    }
+    const base = path.split('/').pop() ?? '';
+    return localFiles(state, path, base).map(file => ({
+      label: `file://${arg.replace(/\/$/, '')}${file.relative.slice(base.length)}`,
+      relative: file.relative,
+      content: readFileAt(state.fs, file.path),
+    }));
+  }
+  const url = parseObjectUrl(arg);
+  const bucket = findBucket(state, url.bucket);
+  const object = url.name ? findObject(bucket, url.name, url.generation) : undefined;
+  if (object) {
+    return [{ ...object, label: arg, relative: object.name.split('/').pop() ?? object.name }];
+  }
+  const objects = recursive && url.generation === undefined ? objectsUnder(bucket, url.name) : [];
+  if (objects.length === 0) {
+    throw noMatch(arg);
+  }
+  // `cp -r gs://b/logs dir` copies into dir/logs/..., as a local recursive copy would.
+  const base = url.name.replace(/\/$/, '').split('/').pop() || url.bucket;
+  const prefix = directoryPrefix(url.name);
+  return objects.map(object => ({ ...object, label: objectUrl(url.bucket, object), relative: `${base}/${object.name.slice(prefix.length)}` }));
+};
+
+// Where each source lands in a bucket: under the destination as a prefix when
+// copying several things or into something ending in `/`, at its exact name otherwise.
+const objectDestination = (bucket: Instance, url: ObjectUrl, sources: CopySource[], recursive: boolean) => {
+  const asPrefix = !url.name || url.name.endsWith('/') || sources.length > 1 || recursive
+    || objectsUnder(bucket, url.name).some(object => object.name !== url.name);
+  const prefix = directoryPrefix(url.name);
+  return (source: CopySource) => asPrefix ? `${prefix}${source.relative}` : url.name;
+};
+
+const localDestination = (state: SessionState, arg: string, sources: CopySource[], recursive: boolean) => {
+  const path = resolve(state, arg);
+  const asDirectory = getNode(state.fs, path)?.type === 'dir' || sources.length > 1 || recursive;
+  return (source: CopySource) => asDirectory ? joinPath(path, source.relative) : path;
+};
+
+const cp: Subcommand = (args, { state }, headers) => {
+  const { flags, operands } = parseArgs(args);
+  if (operands.length < 2) {
+    throw new StorageError('CommandException: Wrong number of arguments for "cp" command.');
+  }
+  const recursive = Boolean(flags.r || flags.R);
+  const target = operands[operands.length - 1];
+  const sources = operands.slice(0, -1).flatMap(arg => copySources(state, arg, recursive));
+  const { type, metadata } = parseHeaders(headers);
+
+  let write: (source: CopySource, now: number) => StateUpdate;
+  let announce: (source: CopySource) => string;
+  if (isObjectUrl(target)) {
+    const url = parseObjectUrl(target);
+    const name = objectDestination(findBucket(state, url.bucket), url, sources, recursive);
+    announce = source => `Copying ${source.label} [Content-Type=${source.contentType ?? type ?? contentType(name(source))}]...`;
+    write = (source, now) => s => updateBucket(s, url.bucket, bucket => putObject(bucket, {
+      name: name(source),
+      content: source.content,
+      contentType: source.contentType ?? type ?? contentType(name(source)),
+      metadata: setMetadata(source.metadata, metadata),
+    }, now));
+  } else {
+    const path = localDestination(state, target, sources, recursive);
+    announce = source => `Copying ${source.label}...`;
+    write = source => s => ({ ...s, fs: writeFileAt(makeDirectoryAt(s.fs, dirname(path(source)), true), path(source), source.content) });
+  }
+
+  const now = Date.now();
+  const update: StateUpdate = s => sources.reduce((next, source) => write(source, now)(next), s);
+  // Fails now, rather than inside the update, when a local file cannot be written.
+  update(state);
+  const bytes = sources.reduce((total, source) => total + objectSize(source), 0);
+  return {
+    output: [
+      ...sources.map(announce),
+      `/ [${sources.length} files][${formatSize(bytes)}/${formatSize(bytes)}]`,
+      `Operation completed over ${sources.length} objects/${formatSize(bytes)}.`,
+    ].join('\n'),
+    update,
+  };
+};
+
+// One level of a bucket, as `ls` shows it: the objects directly under `prefix`, and the prefixes below it.
+const listLevel = (objects: StorageObject[], prefix: string): [string, StorageObject | undefined][] => {
+  const entries = new Map<string, StorageObject | undefined>();
+  objects.forEach(object => {
+    const slash = object.name.indexOf('/', prefix.length);
+    if (slash === -1) {
+      entries.set(`${object.name}#${object.generation}`, object);
+    } else {
+      entries.set(object.name.slice(0, slash + 1), undefined);
+    }
+  });
+  return [...entries.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+const ls: Subcommand = (args, { state }) => {
+  const { flags, operands } = parseArgs(args);
+  if (operands.length === 0) {
+    const buckets = state.instances.filter(instance => instance.type === 'storage' && instance.status !== 'terminated');
+    return { output: buckets.map(bucket => formatObjectUrl(bucket.name)).join('\n') };
+  }
+  const all = Boolean(flags.a);
+  const long = Boolean(flags.l);
+  const lines: string[] = [];
+  let count = 0;
+  let bytes = 0;
+  for (const arg of operands) {
+    const url = parseObjectUrl(arg);
+    const bucket = findBucket(state, url.bucket);
+    const objects = (all ? bucket.objects ?? [] : liveObjects(bucket))
+      .filter(object => url.generation === undefined || object.generation === url.generation);
+    const exact = objects.filter(object => object.name === url.name);
+    const prefix = directoryPrefix(url.name);
+    const matched: [string, StorageObject | undefined][] = hasWildcard(url.name)
+      ? objects.filter(object => matchesWildcard(url.name, object.name))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(object => [object.name, object])
+      : exact.length > 0
+        ? exact.map(object => [object.name, object])
+        : flags.r || flags.R
+          ? objects.filter(object => object.name.startsWith(prefix)).map(object => [object.name, object])
+          : listLevel(objects.filter(object => object.name.startsWith(prefix)), prefix);
+    if (matched.length === 0) {
+      throw new StorageError('CommandException: One or more URLs matched no objects.');
+    }
+    matched.forEach(([name, object]) => {
+      if (!object) {
+        lines.push(long ? `${''.padStart(32)}${formatObjectUrl(url.bucket, name)}` : formatObjectUrl(url.bucket, name));
+        return;
+      }
+      count++;
+      bytes += objectSize(object);
+      const link = objectUrl(url.bucket, object, all);
+      lines.push(long ? `${String(objectSize(object)).padStart(10)}  ${formatDate(object.createdAt)}  ${link}` : link);
+    });
+  }
+  if (long) {
+    lines.push(`TOTAL: ${count} objects, ${bytes} bytes (${formatSize(bytes)})`);
+  }
+  return { output: lines.join('\n') };
+};
+
+const rm: Subcommand = (args, { state }) => {
+  const { flags, operands } = parseArgs(args);
+  if (operands.length === 0) {
+    throw new StorageError('CommandException: Wrong number of arguments for "rm" command.');
+  }
+  const all = Boolean(flags.a);
+  const removals: { bucket: string; object: StorageObject; generation?: number }[] = [];
+  for (const arg of operands) {
+    const url = parseObjectUrl(arg);
+    const bucket = findBucket(state, url.bucket);
+    if (url.generation !== undefined) {
+      removals.push({ bucket: url.bucket, object: requireObject(state, arg).object, generation: url.generation });
+      continue;
+    }
+    // -a takes every generation, noncurrent ones included, and removes them for good.
+    const objects = flags.r || flags.R
+      ? objectsUnder(bucket, url.name, all)
+      : (all ? bucket.objects ?? [] : liveObjects(bucket)).filter(object => url.name && object.name === url.name);
+    if (objects.length === 0) {
+      throw noMatch(arg);
+    }
+    objects.forEach(object => removals.push({ bucket: url.bucket, object, generation: all ? object.generation : undefined }));
+  }
+  const now = Date.now();
+  return {
+    output: [
+      ...removals.map(({ bucket, object, generation }) => `Removing ${formatObjectUrl(bucket, object.name, generation)}...`),
+      `/ [${removals.length} objects]`,
+      `Operation completed over ${removals.length} objects.`,
+    ].join('\n'),
+    update: s => removals.reduce((next, { bucket, object, generation }) => {
+      return updateBucket(next, bucket, b => deleteObject(b, object.name, now, generation));
+    }, s),
+  };
+};
+
+const cat: Subcommand = (args, { state }) => {
+  const { flags, operands } = parseArgs(args);
+  if (operands.length === 0) {
+    throw new StorageError('CommandException: Wrong number of arguments for "cat" command.');
+  }
+  return {
+    output: operands.map(arg => {
+      const { object } = requireObject(state, arg);
+      return flags.h ? `==> ${arg} <==\n${object.content}` : object.content;
+    }).join(flags.h ? '\n\n' : ''),
+  };
+};
+
+const stat: Subcommand = (args, { state }) => {
+  if (args.length === 0) {
+    throw new StorageError('CommandException: Wrong number of arguments for "stat" command.');
+  }
+  return {
+    output: args.map(arg => {
+      const { url, object } = requireObject(state, arg);
+      const metadata = Object.entries(object.metadata ?? {});
+      return [
+        `${objectUrl(url.bucket, object, url.generation !== undefined)}:`,
+        `    Creation time:          ${formatHttpDate(object.createdAt)}`,
+        ...object.archivedAt === undefined ? [] : [`    Noncurrent time:        ${formatHttpDate(object.archivedAt)}`],
+        '    Storage class:          STANDARD',
+        `    Content-Length:         ${objectSize(object)}`,
+        `    Content-Type:           ${object.contentType}`,
+        ...metadata.length ? ['    Metadata:', ...metadata.map(([key, value]) => `        ${`${key}:`.padEnd(20)}${value}`)] : [],
+        `    Generation:             ${object.generation}`,
+        '    Metageneration:         1',
+      ].join('\n');
+    }).join('\n'),
+  };
+};
+
+const setmeta: Subcommand = (args, { state }, leading) => {
+  const { headers, rest } = takeHeaders(args);
+  const { type, metadata } = parseHeaders([...leading, ...headers]);
+  if (rest.length === 0 || (type === undefined && Object.keys(metadata).length === 0)) {
+    throw new StorageError('CommandException: setmeta needs -h headers to set and at least one object URL.');
+  }
+  const targets = rest.map(arg => requireObject(state, arg));
+  return {
+    output: targets.map(({ url, object }) => `Setting metadata on ${objectUrl(url.bucket, object)}...`).join('\n'),
+    update: s => targets.reduce((next, { url, object }) => updateBucket(next, url.bucket, bucket => updateObject(bucket, object.name, current => ({
+      ...current,
+      contentType: type ?? current.contentType,
+      metadata: setMetadata(current.metadata, metadata),
+    }))), s),
+  };
+};
+
+const versioning: Subcommand = (args, { state }) => {
+  const [verb, ...rest] = args;
+  if (verb === 'get') {
+    return { output: bucketUrls(rest).map(name => `gs://${name}: ${findBucket(state, name).versioning ? 'Enabled' : 'Suspended'}`).join('\n') };
+  }
+  const setting = rest[0];
+  if (verb !== 'set' || (setting !== 'on' && setting !== 'off')) {
+    throw new StorageError('CommandException: Usage: gsutil versioning set (on|off) gs://BUCKET... | gsutil versioning get gs://BUCKET...');
+  }
+  const names = bucketUrls(rest.slice(1));
+  names.forEach(name => findBucket(state, name));
+  return {
+    output: names.map(name => `${setting === 'on' ? 'Enabling' : 'Suspending'} versioning for gs://${name}/...`).join('\n'),
+    update: s => names.reduce((next, name) => updateBucket(next, name, bucket => ({ ...bucket, versioning: setting === 'on' })), s),
+  };
+};
+
+const du: Subcommand = (args, { state }) => {
+  const { flags, operands } = parseArgs(args);
+  const size = (bytes: number) => (flags.h ? formatSize(bytes) : String(bytes)).padEnd(11);
+  const buckets = operands.length
+    ? operands
+    : state.instances.filter(instance => instance.type === 'storage' && instance.status !== 'terminated').map(bucket => formatObjectUrl(bucket.name));
+  const lines = buckets.flatMap(arg => {
+    const url = parseObjectUrl(arg);
+    const bucket = findBucket(state, url.bucket);
+    const objects = objectsUnder(bucket, url.name, Boolean(flags.a));
+    if (url.name && objects.length === 0) {
+      throw noMatch(arg);
+    }
+    const total = objects.reduce((sum, object) => sum + objectSize(object), 0);
+    if (flags.s) {
+      return [`${size(total)} ${arg}`];
+    }
+    return [
+      ...objects.map(object => `${size(objectSize(object))} ${objectUrl(url.bucket, object, Boolean(flags.a))}`),
+      `${size(total)} ${formatObjectUrl(url.bucket, url.name)}`,
+    ];
+  });
+  return { output: lines.join('\n') };
+};
+
+const mb: Subcommand = (args, { state }) => {
+  const { flags, operands } = parseArgs(args, ['l', 'c', 'p']);
+  const location = typeof flags.l === 'string' ? flags.l.toLowerCase() : regionOf(DEFAULT_ZONE);
+  if (!REGIONS.includes(location)) {
+    throw new StorageError(`BadRequestException: 400 Invalid location: ${flags.l} (use one of ${REGIONS.join(', ')}).`);
+  }
+  const names = bucketUrls(operands).map(checkBucketName);
+  const now = Date.now();
+  // Buckets have no run state to wait for: they can hold objects as soon as they exist.
+  const buckets = names.reduce<Instance[]>((made, name) => {
+    if ([...state.instances, ...made].some(instance => instance.name === name)) {
+      throw new StorageError(`ServiceException: 409 A Cloud Storage bucket named '${name}' already exists. Try another name.`);
+    }
+    try {
+      return [...made, provisionInstance(attachInstance({ ...state, instances: [...state.instances, ...made] }, {
+        id: generateInstanceId(),
+        name,
+        type: 'storage',
+        zone: ZONES.find(zone => regionOf(zone) === location) ?? DEFAULT_ZONE,
+        objects: [],
+        versioning: false,
+      }), now)];
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        throw new StorageError(`ServiceException: 400 Cannot create gs://${name}: ${error.message}.`);
+      }
+      throw error;
+    }
+  }, []);
+  return {
+    output: names.map(name => `Creating gs://${name}/...`).join('\n'),
+    update: s => ({ ...s, instances: [...s.instances, ...buckets] }),
+  };
+};
+
+const rb: Subcommand = (args, { state }) => {
+  const names = bucketUrls(args);
+  for (const name of names) {
+    const bucket = findBucket(state, name);
+    if (bucket.objects?.length) {
+      throw new StorageError(`BucketNotEmptyException: 409 BucketNotEmpty (${name}). Remove its objects first with 'gsutil rm -r -a gs://${name}'.`);
+    }
+    const rejection = checkTransition(bucket, 'delete');
+    if (rejection) {
+      throw new StorageError(`ServiceException: 409 ${rejection}`);
+    }
+  }
+  const now = Date.now();
+  return {
+    output: names.map(name => `Removing gs://${name}/...`).join('\n'),
+    update: s => ({
+      ...s,
+      instances: s.instances.map(instance => instance.type === 'storage' && names.includes(instance.name) ? beginTransition(instance, 'delete', now) : instance),
+    }),
+  };
+};
+
+const subcommands: Record<string, Subcommand> = { mb, rb, ls, cp, rm, cat, stat, setmeta, versioning, du };
+
+const PERMISSIONS: Record<string, string[]> = {
+  mb: ['storage.buckets.create'],
+  rb: ['storage.buckets.delete'],
+  rm: ['storage.objects.delete'],
+  cat: ['storage.objects.get'],
+  stat: ['storage.objects.get'],
+  setmeta: ['storage.objects.update'],
+  du: ['storage.objects.list'],
+};
+
+const gsutil: CommandDefinition = {
+  name: 'gsutil',
+  category: 'cloud',
+  summary: 'Manage storage buckets and objects',
+  usage: [
+    { usage: 'gsutil mb [-l REGION] gs://BUCKET', description: 'Make a bucket (a storage instance)' },
+    { usage: 'gsutil rb gs://BUCKET', description: 'Remove an empty bucket' },
+    { usage: 'gsutil ls [-l] [-a] [-r] [gs://BUCKET[/PREFIX]]', description: 'List buckets, or the objects in one; -a includes noncurrent versions, PREFIX/** every object below it' },
+    { usage: 'gsutil [-h HEADER] cp [-r] SOURCE... DESTINATION', description: 'Copy files into buckets, out of them, or between them' },
+    { usage: 'gsutil rm [-r] [-a] gs://BUCKET/OBJECT[#GENERATION]...', description: 'Remove objects; -a removes every version' },
+    { usage: 'gsutil cat [-h] gs://BUCKET/OBJECT...', description: 'Print objects' },
+    { usage: 'gsutil stat gs://BUCKET/OBJECT...', description: 'Show object metadata' },
+    { usage: 'gsutil setmeta -h "x-goog-meta-KEY:VALUE" gs://BUCKET/OBJECT...', description: 'Set or (with no value) remove metadata and Content-Type' },
+    { usage: 'gsutil versioning set on|off gs://BUCKET', description: 'Keep noncurrent versions of overwritten and deleted objects' },
+    { usage: 'gsutil versioning get gs://BUCKET', description: 'Show whether versioning is on' },
+    { usage: 'gsutil du [-s] [-h] [-a] [gs://BUCKET[/PREFIX]]', description: 'Show how much space objects take' },
+  ],
+  complete: (args, { state }) => {
+    const partial = args[args.length - 1];
+    if (args.length === 1) {
+      return Object.keys(subcommands);
+    }
+    if (args[0] === 'versioning' && args.length === 2) {
+      return ['get', 'set'];
+    }
+    const local = args[0] === 'cp' ? completePaths(state, partial) : [];
+    if (args[0] === 'mb' || !(isObjectUrl(partial) || URL_SCHEME.startsWith(partial))) {
+      return local;
+    }
+    const buckets = state.instances.filter(instance => instance.type === 'storage' && instance.status !== 'terminated');
+    return [...local, ...buckets.flatMap(bucket => [
+      formatObjectUrl(bucket.name),
+      ...liveObjects(bucket).map(object => formatObjectUrl(bucket.name, object.name)),
+    ])];
+  },
+  permissions: args => {
+    const [subcommand, ...rest] = takeHeaders(args, true).rest;
+    if (subcommand === 'ls') {
+      return [rest.some(isObjectUrl) ? 'storage.objects.list' : 'storage.buckets.list'];
+    }
+    if (subcommand === 'versioning') {
+      return [rest[0] === 'set' ? 'storage.buckets.update' : 'storage.buckets.get'];
+    }
+    if (subcommand === 'cp') {
+      const operands = parseArgs(rest).operands;
+      return [
+        ...operands.slice(0, -1).some(isObjectUrl) ? ['storage.objects.get'] : [],
+        ...operands.slice(-1).some(isObjectUrl) ? ['storage.objects.create'] : [],
+      ];
+    }
+    return PERMISSIONS[subcommand] ?? [];
+  },
+  run: async (args, ctx) => {
+    const { headers, rest } = takeHeaders(args, true);
+    const [subcommand, ...operands] = rest;
+    const handler = subcommands[subcommand];
+    if (!handler) {
+      return fail(subcommand ? `CommandException: Invalid command "${subcommand}".` : `Usage:\n${formatUsage(gsutil)}`);
+    }
+    try {
+      return await handler(operands, ctx, headers);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return fail(error.message);
+      }
+      if (error instanceof FsError) {
+        return fail(`CommandException: ${error.path}: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const storageCommands: CommandPlugin = registry => {
+  registry.register(gsutil);
+};
+
@@ -0,0 +1,243 @@
+import { getNode } from '../fs';
+import { formatHelp, formatUsage } from '../help';
+import { commandSummary, formatDateTime, isLocale, LOCALE_INFO, localeOf, LOCALES, setLocale, t } from '../i18n';
+import { closeLogin } from '../iam';
+import { activeConnection, closeConnection } from '../remote';
+import { fail } from '../result';
+import type { CommandPlugin } from '../types';
+
+const ECHO_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', e: '\x1b', '\\': '\\' };
+
+// Backslash escapes as `echo -e` reads them: the letters above, \0nnn octal and \xHH hex.
+const unescapeEcho = (text: string) => text.replace(/\\(0[0-7]{0,3}|x[0-9a-fA-F]{1,2}|.)/g, (escape, code: string) => {
+  if (code[0] === '0') {
+    return String.fromCharCode(parseInt(code.slice(1) || '0', 8));
+  }
+  if (code[0] === 'x' && code.length > 1) {
+    return String.fromCharCode(parseInt(code.slice(1), 16));
+  }
+  return ECHO_ESCAPES[code] ?? escape;
+});
+
+export const systemCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'help',
+    category: 'system',
+    summary: 'Show all commands',
+    usage: [
+      { usage: 'help', description: 'Show all available commands' },
+      { usage: 'help [command]', description: 'Show how to use one command' },
+    ],
+    complete: (args, { registry }) => args.length === 1 ? registry.list().map(definition => definition.name) : [],
+    run: (args, ctx) => {
+      const locale = localeOf(ctx.state);
+      if (args[0]) {
+        const definition = ctx.registry.get(args[0]);
+        if (!definition) {
+          return fail(t(locale, 'help.unknown', { name: args[0] }));
+        }
+        return { output: `${definition.name}: ${commandSummary(locale, definition)}\n${formatUsage(definition)}` };
+      }
+      const more = locale === 'en' ? '' : `\n\n${t(locale, 'help.more')}`;
+      return { output: `${t(locale, 'help.title')}\n\n${formatHelp(ctx.registry, undefined, locale)}${more}` };
+    },
+  });
+
+  registry.register({
+    name: 'clear',
+    category: 'system',
+    summary: 'Clear screen',
+    usage: [{ usage: 'clear', description: 'Clear the terminal screen' }],
+    run: () => ({ output: '', clear: true }),
+  });
+
+  registry.register({
+    name: 'date',
+    category: 'system',
+    summary: 'Show current date',
+    usage: [{ usage: 'date', description: 'Show current date' }],
+    run: (_args, { state }) => ({
+      output: formatDateTime(localeOf(state), Date.now(), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+    }),
+  });
+
+  registry.register({
+    name: 'time',
+    category: 'system',
+    summary: 'Show current time',
+    usage: [{ usage: 'time', description: 'Show current time' }],
+    run: (_args, { state }) => ({ output: formatDateTime(localeOf(state), Date.now(), { timeStyle: 'medium' }) }),
+  });
+
+  registry.register({
+    name: 'locale',
+    category: 'system',
+    summary: 'Show or change the interface language',
+    usage: [
+      { usage: 'locale', description: 'Show the current locale settings' },
+      { usage: 'locale -a', description: 'List available locales' },
+      { usage: `locale set [${LOCALES.join('|')}]`, description: 'Change the language of the interface, help and messages' },
+    ],
+    complete: args => args.length === 1 ? ['-a', 'set'] : args[0] === 'set' && args.length === 2 ? [...LOCALES] : [],
+    run: (args, { state }) => {
+      if (args.length === 0) {
+        return { output: `LANG=${state.env.LANG ?? ''}\nLC_ALL=${state.env.LC_ALL ?? ''}` };
+      }
+      if (args[0] === '-a') {
+        return { output: ['C', 'C.UTF-8', 'POSIX', ...Object.values(LOCALE_INFO).map(info => info.lang).sort()].join('\n') };
+      }
+      if (args[0] === 'set' && args[1]) {
+        const locale = args[1].split(/[_.]/)[0];
+        if (!isLocale(locale)) {
+          return fail(t(localeOf(state), 'locale.unknown', { locale: args[1], available: LOCALES.join(', ') }));
+        }
+        return { output: t(locale, 'locale.set', { name: LOCALE_INFO[locale].name }), update: s => setLocale(s, locale) };
+      }
+      if (isLocale(args[0].split(/[_.]/)[0])) {
+        return fail(t(localeOf(state), 'locale.useSet', { locale: args[0] }));
+      }
+      return fail(`locale: invalid option -- '${args[0]}'\nUsage: locale [-a] | locale set [${LOCALES.join('|')}]`);
+    },
+  });
+
+  registry.register({
+    name: 'echo',
+    category: 'system',
+    summary: 'Display text',
+    usage: [
+      { usage: 'echo [text]', description: 'Display text' },
+      { usage: 'echo -e [text]', description: 'Interpret escapes such as \\n, \\t and \\e[31m (colours)' },
+    ],
+    run: args => {
+      const output = args[0] === '-e' ? unescapeEcho(args.slice(1).join(' ')) : args.join(' ');
+      return { output, blankLine: output === '' };
+    },
+  });
+
+  registry.register({
+    name: 'export',
+    category: 'system',
+    summary: 'Set environment variable',
+    usage: [{ usage: 'export [NAME=value]', description: 'Set an environment variable' }],
+    run: (args, { state }) => {
+      if (args.length === 0) {
+        return {
+          output: Object.entries(state.env).map(([name, value]) => `declare -x ${name}="${value}"`).join('\n'),
+        };
+      }
+      for (const arg of args) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*(=|$)/.test(arg)) {
+          return fail(`export: '${arg}': not a valid identifier`);
+        }
+      }
+      return {
+        output: '',
+        update: s => args.reduce((next, arg) => {
+          const [name, ...rest] = arg.split('=');
+          const value = rest.length > 0 ? rest.join('=') : next.vars[name] ?? next.env[name] ?? '';
+          const vars = { ...next.vars };
+          delete vars[name];
+          return { ...next, vars, env: { ...next.env, [name]: value } };
+        }, s),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'unset',
+    category: 'system',
+    summary: 'Remove variable',
+    usage: [{ usage: 'unset [NAME]', description: 'Remove a shell or environment variable' }],
+    complete: (_args, { state }) => [...Object.keys(state.env), ...Object.keys(state.vars)],
+    run: args => ({
+      output: '',
+      update: s => {
+        const env = { ...s.env };
+        const vars = { ...s.vars };
+        args.forEach(name => {
+          delete env[name];
+          delete vars[name];
+        });
+        return { ...s, env, vars };
+      },
+    }),
+  });
+
+  registry.register({
+    name: 'env',
+    category: 'system',
+    summary: 'Show environment',
+    usage: [{ usage: 'env', description: 'Print environment variables' }],
+    run: (_args, { env }) => ({
+      output: Object.entries(env).map(([name, value]) => `${name}=${value}`).join('\n'),
+    }),
+  });
+
+  registry.register({
+    name: 'whoami',
+    category: 'system',
+    summary: 'Display current user',
+    usage: [{ usage: 'whoami', description: 'Display current user' }],
+    run: (_args, { state }) => {
+      const hostname = getNode(state.fs, '/etc/hostname');
+      return { output: `${state.env.USER}@${hostname?.type === 'file' ? hostname.content.trim() : 'cloud-terminal'}` };
+    },
+  });
+
+  registry.register({
+    name: 'exit',
+    category: 'system',
+    summary: 'Close ssh session or su shell',
+    usage: [
+      { usage: 'exit', description: 'Log out of the current ssh session, or return from su to the previous user' },
+      { usage: 'exit [n]', description: 'In a script, stop with exit status n' },
+    ],
+    complete: () => [],
+    run: (_args, { state }) => {
+      const connection = activeConnection(state);
+      if (!connection && state.logins.length > 0) {
+        return { output: 'logout', update: s => closeLogin(s) };
+      }
+      if (!connection) {
+        return fail('exit: not connected to a remote host');
+      }
+      return { output: `logout\nConnection to ${connection.host} closed.`, update: closeConnection };
+    },
+  });
+
+  registry.register({
+    name: 'uname',
+    category: 'system',
+    summary: 'Display system information',
+    usage: [{ usage: 'uname', description: 'Display system information' }],
+    run: () => ({ output: 'Cloud-Terminal-OS v1.0.0' }),
+  });
+
+  registry.register({
+    name: 'history',
+    category: 'system',
+    summary: 'Show command history',
+    usage: [
+      { usage: 'history [n]', description: 'Show command history (last n entries)' },
+      { usage: 'history -c', description: 'Clear command history' },
+      { usage: '!! / !n / !prefix', description: 'Re-run a previous command' },
+    ],
+    complete: args => args.length === 1 ? ['-c'] : [],
+    run: (args, { state }) => {
+      if (args[0] === '-c') {
+        return { output: '', update: s => ({ ...s, history: [] }) };
+      }
+      const count = args[0] === undefined ? state.history.length : parseInt(args[0], 10);
+      if (Number.isNaN(count) || count < 0) {
+        return fail(`history: ${args[0]}: numeric argument required`);
+      }
+      const start = Math.max(state.history.length - count, 0);
+      return {
+        output: state.history
+          .slice(start)
+          .map((entry, index) => `${String(start + index + 1).padStart(5)}  ${entry}`)
+          .join('\n'),
+      };
+    },
+  });
+};
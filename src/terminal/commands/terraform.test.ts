@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+import type { SessionState } from '../types';
+
+const config = `cat > main.tf <<EOF
+variable "cidr" {
+  default = "10.1.0.0/16"
+}
+resource "cloud_network" "vpc" {
+  name = "vpc"
+  cidr = var.cidr
+}
+output "vpc_name" {
+  value = cloud_network.vpc.name
+}
+EOF`;
+
+const lastLine = (output: string) => output.split('\n').pop();
+
+const vpcs = (state: SessionState) => state.networks.filter(network => network.name === 'vpc');
+
+describe('terraform', () => {
+  it('asks for init before planning', async () => {
+    const { state } = await runLine(config);
+    const { output, exitCode } = await runLine('terraform plan', state);
+    expect(exitCode).toBe(1);
+    expect(output).toContain('Error: Inconsistent dependency lock file');
+  });
+
+  it('creates the planned resources and prints outputs', async () => {
+    const { state } = await runLine(`${config}\nterraform init`);
+    const plan = await runLine('terraform plan', state);
+    expect(plan.output).toContain('Plan: 1 to add, 0 to change, 0 to destroy.');
+    expect(vpcs(plan.state)).toEqual([]);
+
+    const { output, exitCode, state: applied } = await runLine('terraform apply -auto-approve', state);
+    expect(exitCode).toBe(0);
+    expect(lastLine(output)).toBe('vpc_name = "vpc"');
+    expect(vpcs(applied)).toMatchObject([{ name: 'vpc', cidr: '10.1.0.0/16' }]);
+    expect((await runLine('terraform state list', applied)).output).toBe('cloud_network.vpc');
+    expect((await runLine('terraform plan', applied)).output).toContain('No changes. Your infrastructure matches the configuration.');
+  });
+
+  it('destroys what it created', async () => {
+    const { state } = await runLine(`${config}\nterraform init && terraform apply -auto-approve`);
+    const { output, state: destroyed } = await runLine('terraform destroy -auto-approve', state);
+    expect(lastLine(output)).toBe('Destroy complete! Resources: 1 destroyed.');
+    expect(vpcs(destroyed)).toEqual([]);
+  });
+});
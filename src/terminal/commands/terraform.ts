@@ -0,0 +1,579 @@
+import { completePaths } from '../completion';
+import { FsError, formatFsError, getNode, joinPath, makeDirectoryAt, writeFileAt } from '../fs';
+import { formatUsage } from '../help';
+import { attachInstance, NetworkError } from '../hosts';
+import { beginTransition, checkTransition, generateInstanceId, isPending, provisionInstance } from '../lifecycle';
+import { fail } from '../result';
+import { fingerprint, parsePublicKey } from '../sshkeys';
+import {
+  configFiles,
+  countChanges,
+  DATA_DIR,
+  evaluateOutput,
+  formatDiagnostic,
+  formatPlan,
+  formatValue,
+  hasChanges,
+  isInitialized,
+  loadConfiguration,
+  LOCK_FILE,
+  lockFile,
+  planChanges,
+  PROVIDER,
+  PROVIDER_VERSION,
+  readBlocks,
+  readState,
+  refresh,
+  SCHEMAS,
+  serializeState,
+  STATE_FILE,
+  stateAttributes,
+  TERRAFORM_VERSION,
+  TerraformError,
+  withResources,
+  type Attributes,
+  type Configuration,
+  type PlannedChange,
+  type TerraformState,
+} from '../terraform';
+import { formatDuration } from '../time';
+import type { CommandCompleter, CommandContext, CommandDefinition, CommandPlugin, CommandResult, InstanceType, SessionState } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult | Promise<CommandResult>;
+
+interface Options {
+  flags: Record<string, string | true>;
+  vars: Record<string, string>;
+  operands: string[];
+}
+
+// Terraform spells its options with a single dash (`-auto-approve`,
+// `-var name=value`); two dashes are accepted too.
+const parseOptions = (args: string[]): Options => {
+  const options: Options = { flags: {}, vars: {}, operands: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      options.operands.push(arg);
+      continue;
+    }
+    const [name, ...value] = arg.replace(/^--?/, '').split('=');
+    if (name === 'var') {
+      const assignment = value.length > 0 ? value.join('=') : args[++i] ?? '';
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new TerraformError('Invalid -var option', `The given -var option "${assignment}" is not correctly specified. It must be a variable name and value separated by an equals sign, like -var="key=value".`);
+      }
+      options.vars[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    } else {
+      options.flags[name] = value.length > 0 ? value.join('=') : true;
+    }
+  }
+  return options;
+};
+
+const NOT_INITIALIZED = new TerraformError('Inconsistent dependency lock file', [
+  'The following dependency selections recorded in the lock file are',
+  'inconsistent with the current configuration:',
+  `  - provider ${PROVIDER}: required by this configuration but no version is selected`,
+  '',
+  'To make the initial dependency selections that will initialize the',
+  'dependency lock file, run:',
+  '  terraform init',
+].join('\n'));
+
+const NO_CONFIGURATION = new TerraformError('No configuration files', [
+  'Plan requires configuration to be present. Planning without a configuration',
+  'would mark everything for destruction, which is normally not what is desired.',
+  'If you would like to destroy everything, run plan with the -destroy option.',
+  'Otherwise, create a Terraform configuration file (.tf file) and try again.',
+].join('\n'));
+
+const NO_STATE = [
+  'No state file was found!',
+  '',
+  'State management commands require a state file. Run this command',
+  'in a directory where Terraform has been run or use the -state flag',
+  'to point the command to another state file.',
+].join('\n');
+
+const APPROVAL = {
+  apply: [
+    'Do you want to perform these actions?',
+    '  Terraform will perform the actions described above.',
+    "  Only 'yes' will be accepted to approve.",
+  ],
+  destroy: [
+    'Do you really want to destroy all resources?',
+    '  Terraform will destroy all your managed infrastructure, as shown above.',
+    "  There is no undo. Only 'yes' will be accepted to confirm.",
+  ],
+};
+
+const VALUE_PROMPT = '  Enter a value: ';
+
+// Loads the configuration of the current directory after checking that
+// `terraform init` has been run there.
+const prepare = (state: SessionState, options: Options) => {
+  const dir = state.currentPath;
+  if (configFiles(state.fs, dir).length === 0) {
+    throw NO_CONFIGURATION;
+  }
+  if (!isInitialized(state.fs, dir)) {
+    throw NOT_INITIALIZED;
+  }
+  const config = loadConfiguration(state.fs, dir, state.env.HOME, options.vars, state.env);
+  return { dir, config, tfstate: readState(state.fs, dir) };
+};
+
+const refreshLines = (tfstate: TerraformState, changes: PlannedChange[]) => [
+  ...Object.entries(stateAttributes(tfstate)).map(([address, attributes]) => `${address}: Refreshing state... [id=${attributes.id}]`),
+  ...changes.filter(change => change.imported).map(change => `${change.address}: Preparing import... [id=${change.before?.id}]`),
+];
+
+const waitForInstance = async (ctx: CommandContext, id: string) => {
+  await ctx.waitFor(s => {
+    const instance = s.instances.find(i => i.id === id);
+    return !instance || !isPending(instance);
+  });
+  return ctx.getState().instances.find(i => i.id === id);
+};
+
+const setInstanceStatus = async (ctx: CommandContext, id: string, status: string) => {
+  const instance = await waitForInstance(ctx, id);
+  if (!instance || instance.status === status || ctx.signal.aborted) {
+    return;
+  }
+  const action = status === 'running' ? 'start' : 'stop';
+  const rejection = checkTransition(instance, action);
+  if (rejection) {
+    throw new TerraformError(`updating instance "${instance.name}"`, rejection);
+  }
+  const now = Date.now();
+  ctx.update(s => ({ ...s, instances: s.instances.map(i => i.id === id ? beginTransition(i, action, now) : i) }));
+  const settled = await waitForInstance(ctx, id);
+  if (settled?.status === 'error') {
+    throw new TerraformError(`starting instance "${instance.name}"`, `Instance "${instance.name}" failed and is now in error state.`);
+  }
+};
+
+// Creates the real object for a resource and returns its attributes.
+const createObject = async (ctx: CommandContext, change: PlannedChange): Promise<Attributes> => {
+  const attributes = change.after!;
+  switch (change.type) {
+    case 'cloud_instance': {
+      const id = generateInstanceId();
+      let attached;
+      try {
+        attached = attachInstance(ctx.getState(), { id, name: attributes.name, type: attributes.type as InstanceType });
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          throw new TerraformError(`creating instance "${attributes.name}"`, error.message);
+        }
+        throw error;
+      }
+      const instance = provisionInstance(attached, Date.now());
+      ctx.update(s => ({ ...s, instances: [...s.instances, instance] }));
+      const created = await waitForInstance(ctx, id);
+      if (created?.status === 'error') {
+        throw new TerraformError(`creating instance "${attributes.name}"`, `Instance "${attributes.name}" failed and is now in error state.`);
+      }
+      if (attributes.status === 'stopped') {
+        await setInstanceStatus(ctx, id, 'stopped');
+      }
+      return SCHEMAS.cloud_instance.read(ctx.getState(), { id }) ?? { ...attributes, id };
+    }
+    case 'cloud_ssh_key': {
+      const digest = await fingerprint(parsePublicKey(attributes.public_key).blob);
+      const key = { name: attributes.name, publicKey: attributes.public_key, fingerprint: digest, created: new Date().toISOString() };
+      ctx.update(s => ({ ...s, sshKeys: [...s.sshKeys.filter(k => k.name !== key.name), key] }));
+      return { ...attributes, id: key.name, fingerprint: digest };
+    }
+    case 'cloud_network': {
+      const network = { id: generateInstanceId(), name: attributes.name, cidr: attributes.cidr, createdAt: Date.now() };
+      ctx.update(s => ({ ...s, networks: [...s.networks, network] }));
+      return { ...attributes, id: network.id };
+    }
+  }
+};
+
+const destroyObject = async (ctx: CommandContext, change: PlannedChange) => {
+  const { id } = change.before!;
+  switch (change.type) {
+    case 'cloud_instance': {
+      const instance = await waitForInstance(ctx, id);
+      if (!instance) {
+        return;
+      }
+      const now = Date.now();
+      ctx.update(s => ({ ...s, instances: s.instances.map(i => i.id === id ? beginTransition(i, 'delete', now) : i) }));
+      await ctx.waitFor(s => !s.instances.some(i => i.id === id));
+      return;
+    }
+    case 'cloud_ssh_key':
+      ctx.update(s => ({ ...s, sshKeys: s.sshKeys.filter(k => k.name !== id) }));
+      return;
+    case 'cloud_network': {
+      const name = ctx.getState().networks.find(n => n.id === id)?.name;
+      ctx.update(s => ({
+        ...s,
+        networks: s.networks.filter(n => n.id !== id),
+        subnets: s.subnets.filter(subnet => subnet.network !== name),
+        firewallRules: s.firewallRules.filter(rule => rule.network !== name),
+      }));
+      return;
+    }
+  }
+};
+
+const PROGRESS = {
+  create: ['Creating...', 'Creation complete'],
+  update: ['Modifying...', 'Modifications complete'],
+  delete: ['Destroying...', 'Destruction complete'],
+};
+
+const formatOutputs = (values: Record<string, { value: unknown }>) => {
+  const names = Object.keys(values);
+  if (names.length === 0) {
+    return [];
+  }
+  return ['', 'Outputs:', '', ...names.map(name => `${name} = ${formatValue(values[name].value as never)}`)];
+};
+
+// Carries out a plan, showing progress as it goes and saving the state file
+// after every step so an interrupted run keeps track of what it made.
+const execute = async (
+  ctx: CommandContext,
+  dir: string,
+  config: Configuration,
+  tfstate: TerraformState,
+  changes: PlannedChange[],
+  lines: string[],
+  destroy: boolean
+) => {
+  const resources: Record<string, Attributes> = {};
+  for (const change of changes) {
+    if (change.before) {
+      resources[change.address] = change.before;
+    }
+  }
+  let saved = tfstate;
+  const save = () => {
+    saved = withResources(saved, resources);
+    const content = serializeState(saved);
+    ctx.update(s => ({ ...s, fs: writeFileAt(s.fs, joinPath(dir, STATE_FILE), content) }));
+  };
+  const report = (line: string) => {
+    lines.push(line);
+    ctx.display(lines.join('\n'));
+  };
+  const step = async (change: PlannedChange, kind: keyof typeof PROGRESS, action: () => Promise<void>) => {
+    const started = Date.now();
+    const id = kind === 'create' ? '' : ` [id=${change.before?.id}]`;
+    report(`${change.address}: ${PROGRESS[kind][0]}${id}`);
+    await action();
+    const after = kind === 'delete' ? '' : ` [id=${resources[change.address]?.id}]`;
+    report(`${change.address}: ${PROGRESS[kind][1]} after ${formatDuration(Date.now() - started)}${after}`);
+    save();
+  };
+
+  const ordered = [...changes.filter(c => c.action === 'delete'), ...changes.filter(c => c.action !== 'delete')];
+  try {
+    for (const change of ordered) {
+      if (ctx.signal.aborted) {
+        throw new TerraformError('execution halted', 'The operation was interrupted; resources that were not reached are unchanged.');
+      }
+      if (change.imported) {
+        report(`${change.address}: Importing... [id=${change.before?.id}]`);
+        report(`${change.address}: Import complete [id=${change.before?.id}]`);
+        save();
+      }
+      if (change.action === 'delete' || change.action === 'replace') {
+        await step(change, 'delete', async () => {
+          await destroyObject(ctx, change);
+          delete resources[change.address];
+        });
+      }
+      if (change.action === 'create' || change.action === 'replace') {
+        await step(change, 'create', async () => {
+          resources[change.address] = await createObject(ctx, change);
+        });
+      }
+      if (change.action === 'update') {
+        await step(change, 'update', async () => {
+          await setInstanceStatus(ctx, change.before!.id, change.after!.status);
+          resources[change.address] = SCHEMAS[change.type].read(ctx.getState(), { id: change.before!.id }) ?? change.after!;
+        });
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof TerraformError)) {
+      throw error;
+    }
+    save();
+    return { output: lines.join('\n'), error: formatDiagnostic(error), exitCode: 1 };
+  }
+
+  const outputs = destroy ? {} : Object.fromEntries(config.outputs.map(output => {
+    const value = evaluateOutput(output, config, resources);
+    return [output.name, { value, type: typeof value === 'object' ? 'dynamic' : typeof value }];
+  }));
+  saved = { ...withResources(saved, resources), outputs };
+  const content = serializeState(saved);
+  ctx.update(s => ({ ...s, fs: writeFileAt(s.fs, joinPath(dir, STATE_FILE), content) }));
+
+  const counts = countChanges(changes);
+  const summary = destroy
+    ? `Destroy complete! Resources: ${counts.destroy} destroyed.`
+    : `Apply complete! Resources: ${counts.import > 0 ? `${counts.import} imported, ` : ''}${counts.add} added, ${counts.change} changed, ${counts.destroy} destroyed.`;
+  return { output: [...lines, '', summary, ...formatOutputs(outputs)].join('\n') };
+};
+
+const applyCommand = (destroy: boolean): Subcommand => async (args, ctx) => {
+  const options = parseOptions(args);
+  const { dir, config, tfstate } = prepare(ctx.state, options);
+  const current = refresh(ctx.state, tfstate);
+  const changes = planChanges(ctx.state, config, current, destroy);
+  const lines = [...refreshLines(tfstate, changes)];
+  if (lines.length > 0) {
+    lines.push('');
+  }
+  lines.push(formatPlan(changes, destroy));
+
+  if (!hasChanges(changes)) {
+    const outputs = Object.fromEntries(config.outputs.map(output => [output.name, { value: evaluateOutput(output, config, stateAttributes(tfstate)) }]));
+    const summary = destroy ? 'Destroy complete! Resources: 0 destroyed.' : 'Apply complete! Resources: 0 added, 0 changed, 0 destroyed.';
+    return { output: [...lines, '', summary, ...destroy ? [] : formatOutputs(outputs)].join('\n') };
+  }
+
+  lines.push('');
+  if (!options.flags['auto-approve']) {
+    lines.push(...APPROVAL[destroy ? 'destroy' : 'apply'], '');
+    ctx.display(lines.join('\n'));
+    const answer = await ctx.prompt(VALUE_PROMPT);
+    lines.push(`${VALUE_PROMPT}${answer ?? ''}`, '');
+    if (answer?.trim() !== 'yes') {
+      return { output: lines.join('\n'), error: destroy ? 'Destroy cancelled.' : 'Apply cancelled.', exitCode: 1 };
+    }
+  }
+  return execute(ctx, dir, config, tfstate, changes, lines, destroy);
+};
+
+const subcommands: Record<string, Subcommand> = {
+  init: (_args, { state }) => {
+    const dir = state.currentPath;
+    const files = configFiles(state.fs, dir);
+    if (files.length === 0) {
+      return {
+        output: [
+          'Terraform initialized in an empty directory!',
+          '',
+          'The directory has no Terraform configuration files. You may begin working',
+          'with Terraform immediately by creating Terraform configuration files.',
+        ].join('\n'),
+      };
+    }
+    readBlocks(state.fs, dir);
+    const reused = isInitialized(state.fs, dir);
+    const providerLines = reused
+      ? [
+        '- Reusing previous version of cloudterm/cloud from the dependency lock file',
+        `- Using previously-installed cloudterm/cloud v${PROVIDER_VERSION}`,
+      ]
+      : [
+        '- Finding latest version of cloudterm/cloud...',
+        `- Installing cloudterm/cloud v${PROVIDER_VERSION}...`,
+        `- Installed cloudterm/cloud v${PROVIDER_VERSION} (self-signed)`,
+        '',
+        `Terraform has created a lock file ${LOCK_FILE} to record the provider`,
+        'selections it made above. Include this file in your version control repository',
+        'so that Terraform can guarantee to make the same selections by default when',
+        'you run "terraform init" in the future.',
+      ];
+    return {
+      output: [
+        'Initializing the backend...',
+        'Initializing provider plugins...',
+        ...providerLines,
+        '',
+        'Terraform has been successfully initialized!',
+        '',
+        'You may now begin working with Terraform. Try running "terraform plan" to see',
+        'any changes that are required for your infrastructure. All Terraform commands',
+        'should now work.',
+        '',
+        'If you ever set or change modules or backend configuration for Terraform,',
+        'rerun this command to reinitialize your working directory. If you forget, other',
+        'commands will detect it and remind you to do so if necessary.',
+      ].join('\n'),
+      update: s => {
+        const providers = joinPath(dir, DATA_DIR, 'providers', PROVIDER, PROVIDER_VERSION);
+        return { ...s, fs: writeFileAt(makeDirectoryAt(s.fs, providers, true), joinPath(dir, LOCK_FILE), lockFile()) };
+      },
+    };
+  },
+
+  validate: (args, { state }) => {
+    prepare(state, parseOptions(args));
+    return { output: 'Success! The configuration is valid.' };
+  },
+
+  plan: (args, { state }) => {
+    const options = parseOptions(args);
+    const destroy = Boolean(options.flags.destroy);
+    const { config, tfstate } = prepare(state, options);
+    const changes = planChanges(state, config, refresh(state, tfstate), destroy);
+    const lines = refreshLines(tfstate, changes);
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push(formatPlan(changes, destroy));
+    if (hasChanges(changes)) {
+      lines.push(
+        '',
+        '─'.repeat(77),
+        '',
+        'Note: You didn\'t use the -out option to save this plan, so Terraform can\'t',
+        'guarantee to take exactly these actions if you run "terraform apply" now.',
+      );
+    }
+    return { output: lines.join('\n') };
+  },
+
+  apply: applyCommand(false),
+
+  destroy: applyCommand(true),
+
+  output: (args, { state }) => {
+    const { operands } = parseOptions(args);
+    const { outputs } = readState(state.fs, state.currentPath);
+    if (operands[0]) {
+      if (!(operands[0] in outputs)) {
+        throw new TerraformError(`Output "${operands[0]}" not found`, 'The output variable requested could not be found in the state file. If you recently added this to your configuration, be sure to run `terraform apply`, since the state won\'t be updated with new output variables until that command is run.');
+      }
+      const { value } = outputs[operands[0]];
+      return { output: typeof value === 'string' ? value : formatValue(value) };
+    }
+    if (Object.keys(outputs).length === 0) {
+      return {
+        output: '',
+        error: formatDiagnostic(new TerraformError('No outputs found', 'The state file either has no outputs defined, or all the defined outputs are empty. Please define an output in your configuration with the `output` keyword and run `terraform apply` for it to become available.'), 'Warning'),
+      };
+    }
+    return { output: formatOutputs(outputs).slice(3).join('\n') };
+  },
+
+  state: (args, { state }) => {
+    const [action, address] = args;
+    const dir = state.currentPath;
+    if (!getNode(state.fs, joinPath(dir, STATE_FILE))) {
+      return fail(NO_STATE);
+    }
+    const resources = stateAttributes(readState(state.fs, dir));
+    switch (action) {
+      case 'list':
+        return { output: Object.keys(resources).filter(a => !address || a.startsWith(address)).join('\n') };
+      case 'show': {
+        const attributes = address ? resources[address] : undefined;
+        if (!attributes) {
+          return fail([
+            'No instance found for the given address!',
+            '',
+            'This command requires that the address references one specific instance.',
+            'To view the available instances, use "terraform state list". Please modify',
+            'the address to reference a specific instance.',
+          ].join('\n'));
+        }
+        const [type, name] = address.split('.');
+        const keys = Object.keys(attributes).sort();
+        const width = Math.max(...keys.map(key => key.length));
+        return {
+          output: [
+            `# ${address}:`,
+            `resource "${type}" "${name}" {`,
+            ...keys.map(key => `    ${key.padEnd(width)} = ${formatValue(attributes[key])}`),
+            '}',
+          ].join('\n'),
+        };
+      }
+      default:
+        return fail('Usage: terraform state <list|show> [address]');
+    }
+  },
+
+  version: (_args, { state }) => ({
+    output: [
+      `Terraform v${TERRAFORM_VERSION}`,
+      'on linux_amd64',
+      ...isInitialized(state.fs, state.currentPath) ? [`+ provider ${PROVIDER} v${PROVIDER_VERSION}`] : [],
+    ].join('\n'),
+  }),
+};
+
+const completeTerraform: CommandCompleter = (args, { state }) => {
+  if (args.length === 1) {
+    return Object.keys(subcommands);
+  }
+  switch (args[0]) {
+    case 'state':
+      if (args.length === 2) {
+        return ['list', 'show'];
+      }
+      return Object.keys(stateAttributes(readState(state.fs, state.currentPath)));
+    case 'apply':
+    case 'destroy':
+      return ['-auto-approve', '-var'];
+    case 'plan':
+      return ['-destroy', '-var'];
+    default:
+      return completePaths(state, args[args.length - 1]);
+  }
+};
+
+const terraform: CommandDefinition = {
+  name: 'terraform',
+  category: 'cloud',
+  summary: 'Declarative provisioning from .tf files',
+  usage: [
+    { usage: 'terraform init', description: 'Prepare the working directory' },
+    { usage: 'terraform validate', description: 'Check whether the configuration is valid' },
+    { usage: 'terraform plan [-destroy] [-var name=value]', description: 'Show the changes required by the configuration' },
+    { usage: 'terraform apply [-auto-approve] [-var name=value]', description: 'Create or update infrastructure' },
+    { usage: 'terraform destroy [-auto-approve]', description: 'Destroy the managed infrastructure' },
+    { usage: 'terraform state list | show <address>', description: 'Inspect the state file' },
+    { usage: 'terraform output [name]', description: 'Show output values' },
+    { usage: 'terraform version', description: 'Show the Terraform version' },
+  ],
+  complete: completeTerraform,
+  permissions: ([subcommand]) => {
+    if (subcommand === 'apply' || subcommand === 'destroy') {
+      return ['compute.instances.create', 'compute.instances.delete', 'compute.networks.create', 'compute.networks.delete'];
+    }
+    return ['plan', 'state', 'output'].includes(subcommand) ? ['compute.instances.list'] : [];
+  },
+  run: async (args, ctx) => {
+    const [subcommand, ...rest] = args;
+    const handler = subcommands[subcommand];
+    if (!subcommand) {
+      return { output: `Usage: terraform <subcommand> [args]\n${formatUsage(terraform)}` };
+    }
+    if (!handler) {
+      return fail(`Terraform has no command named "${subcommand}".\n\nTo see all of Terraform's top-level commands, run:\n  terraform -help`);
+    }
+    try {
+      return await handler(rest, ctx);
+    } catch (error) {
+      if (error instanceof TerraformError) {
+        return fail(formatDiagnostic(error));
+      }
+      if (error instanceof FsError) {
+        return fail(formatFsError('terraform', error));
+      }
+      throw error;
+    }
+  },
+};
+
+export const terraformCommands: CommandPlugin = registry => {
+  registry.register(terraform);
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+const output = async (input: string) => (await runLine(input)).output;
+
+describe('text commands', () => {
+  it('filter and count lines', async () => {
+    expect(await output('echo apple banana | grep -c an')).toBe('1');
+    expect(await output('echo a b c | wc -l')).toBe('      1');
+    expect(await output('echo a b c | wc -w')).toBe('      3');
+  });
+
+  it('report missing files', async () => {
+    const { output: message, exitCode } = await runLine('wc -l missing.txt');
+    expect(message).toBe('wc: missing.txt: No such file or directory');
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe('wc', () => {
+  it('counts the bytes of a file including its final newline', async () => {
+    const [count, listing] = (await output('echo héllo > f; echo world >> f; wc -c f; ls -l f')).split('\n');
+    expect(count).toBe('     13 f');
+    expect(listing.split(/\s+/)[4]).toBe('13');
+  });
+
+  it('counts piped output as stdout would write it', async () => {
+    expect(await output('echo hi | wc -c')).toBe('      3');
+    expect(await output('echo hi | wc')).toBe('      1       1       3');
+  });
+
+  it('names each file and totals several', async () => {
+    expect(await output('echo a b > one; echo c > two; wc one two')).toBe([
+      '      1       2       4 one',
+      '      1       1       2 two',
+      '      2       3       6 total',
+    ].join('\n'));
+  });
+
+  it('counts an empty line as a line', async () => {
+    expect(await output('echo "" | wc -l')).toBe('      1');
+    expect(await output('echo "" > f; wc -l f')).toBe('      1 f');
+    expect(await output('echo a > f; grep nothing f | wc -l')).toBe('      0');
+  });
+});
@@ -0,0 +1,178 @@
+import { parseArgs } from '../args';
+import { formatFsError, readFile } from '../fs';
+import { fail } from '../result';
+import type { CommandContext, CommandPlugin, CommandResult } from '../types';
+
+const readSources = (command: string, files: string[], ctx: CommandContext): string | CommandResult => {
+  if (files.length === 0) {
+    return ctx.stdin;
+  }
+  const contents: string[] = [];
+  for (const path of files) {
+    try {
+      contents.push(readFile(ctx.state, path).replace(/\n$/, ''));
+    } catch (error) {
+      return fail(formatFsError(command, error, path));
+    }
+  }
+  return contents.join('\n');
+};
+
+// Text as written: files keep their final newline, and piped output ends with one the way stdout does.
+const writtenSources = (command: string, files: string[], ctx: CommandContext): [string, string][] | CommandResult => {
+  if (files.length === 0) {
+    return [['', ctx.stdin ? `${ctx.stdin}\n` : ctx.blankStdin ? '\n' : '']];
+  }
+  const sources: [string, string][] = [];
+  for (const path of files) {
+    try {
+      sources.push([path, readFile(ctx.state, path)]);
+    } catch (error) {
+      return fail(formatFsError(command, error, path));
+    }
+  }
+  return sources;
+};
+
+const countText = (text: string) => ({
+  l: (text.match(/\n/g) ?? []).length,
+  w: text.split(/\s+/).filter(Boolean).length,
+  c: new TextEncoder().encode(text).length,
+});
+
+const toLines = (text: string) => text === '' ? [] : text.split('\n');
+
+const lineCount = (value: string | true | undefined, fallback: number) => {
+  const count = typeof value === 'string' ? parseInt(value, 10) : fallback;
+  return Number.isNaN(count) ? null : count;
+};
+
+export const textCommands: CommandPlugin = registry => {
+  registry.register({
+    name: 'grep',
+    category: 'text',
+    summary: 'Filter lines',
+    usage: [{ usage: 'grep [-ivcn] [pattern] [file...]', description: 'Print lines matching a pattern' }],
+    run: (args, ctx) => {
+      const { flags, operands } = parseArgs(args);
+      const [pattern, ...files] = operands;
+      if (pattern === undefined) {
+        return fail('Usage: grep [-ivcn] [pattern] [file...]', 2);
+      }
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, flags.i ? 'i' : '');
+      } catch {
+        return fail(`grep: invalid regular expression: ${pattern}`, 2);
+      }
+
+      const source = readSources('grep', files, ctx);
+      if (typeof source !== 'string') {
+        return { ...source, exitCode: 2 };
+      }
+
+      const matches = toLines(source)
+        .map((line, index) => ({ line, number: index + 1 }))
+        .filter(({ line }) => regex.test(line) !== Boolean(flags.v));
+      const exitCode = matches.length > 0 ? 0 : 1;
+
+      if (flags.c) {
+        return { output: String(matches.length), exitCode };
+      }
+      return {
+        output: matches.map(({ line, number }) => flags.n ? `${number}:${line}` : line).join('\n'),
+        exitCode,
+      };
+    },
+  });
+
+  registry.register({
+    name: 'head',
+    category: 'text',
+    summary: 'First lines',
+    usage: [{ usage: 'head [-n count] [file...]', description: 'Print the first lines of input' }],
+    run: (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['n']);
+      const count = lineCount(flags.n, 10);
+      if (count === null) {
+        return fail(`head: invalid number of lines: '${flags.n}'`);
+      }
+      const source = readSources('head', operands, ctx);
+      if (typeof source !== 'string') {
+        return source;
+      }
+      return { output: toLines(source).slice(0, Math.max(count, 0)).join('\n') };
+    },
+  });
+
+  registry.register({
+    name: 'tail',
+    category: 'text',
+    summary: 'Last lines',
+    usage: [{ usage: 'tail [-n count] [file...]', description: 'Print the last lines of input' }],
+    run: (args, ctx) => {
+      const { flags, operands } = parseArgs(args, ['n']);
+      const count = lineCount(flags.n, 10);
+      if (count === null) {
+        return fail(`tail: invalid number of lines: '${flags.n}'`);
+      }
+      const source = readSources('tail', operands, ctx);
+      if (typeof source !== 'string') {
+        return source;
+      }
+      const lines = toLines(source);
+      return { output: count > 0 ? lines.slice(-count).join('\n') : '' };
+    },
+  });
+
+  registry.register({
+    name: 'wc',
+    category: 'text',
+    summary: 'Count lines/words',
+    usage: [{ usage: 'wc [-lwc] [file...]', description: 'Count lines, words and bytes' }],
+    run: (args, ctx) => {
+      const { flags, operands } = parseArgs(args);
+      const sources = writtenSources('wc', operands, ctx);
+      if (!Array.isArray(sources)) {
+        return sources;
+      }
+      const rows = sources.map(([name, text]) => ({ name, counts: countText(text) }));
+      if (rows.length > 1) {
+        const sum = (flag: 'l' | 'w' | 'c') => rows.reduce((total, row) => total + row.counts[flag], 0);
+        rows.push({ name: 'total', counts: { l: sum('l'), w: sum('w'), c: sum('c') } });
+      }
+      const selected = (['l', 'w', 'c'] as const).filter(flag => flags[flag]);
+      const columns = selected.length > 0 ? selected : (['l', 'w', 'c'] as const);
+      return {
+        output: rows
+          .map(({ name, counts }) => [...columns.map(flag => String(counts[flag]).padStart(7)), ...(name ? [name] : [])].join(' '))
+          .join('\n'),
+      };
+    },
+  });
+
+  registry.register({
+    name: 'sort',
+    category: 'text',
+    summary: 'Sort lines',
+    usage: [{ usage: 'sort [-rnu] [file...]', description: 'Sort lines of input' }],
+    run: (args, ctx) => {
+      const { flags, operands } = parseArgs(args);
+      const source = readSources('sort', operands, ctx);
+      if (typeof source !== 'string') {
+        return source;
+      }
+      let lines = toLines(source).sort(flags.n
+        ? (a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0)
+        : (a, b) => a.localeCompare(b));
+      if (flags.u) {
+        lines = lines.filter((line, index) => index === 0 || line !== lines[index - 1]);
+      }
+      if (flags.r) {
+        lines.reverse();
+      }
+      return { output: lines.join('\n') };
+    },
+  });
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { runLine } from '../test-utils';
+
+describe('network', () => {
+  it('refuses overlapping networks', async () => {
+    const { output, exitCode } = await runLine('network create lab --range 10.5.0.0/16 && network create bad --range 10.5.1.0/24');
+    expect(exitCode).toBe(1);
+    expect(output.split('\n').pop()).toBe("network: range 10.5.1.0/24 overlaps network 'lab' (10.5.0.0/16)");
+  });
+
+  it('keeps subnets inside their network', async () => {
+    const { state } = await runLine('network create lab --range 10.5.0.0/16');
+    const outside = await runLine('network subnets create s1 --network lab --range 10.6.0.0/24', state);
+    expect(outside.output).toBe("network: range 10.6.0.0/24 is outside network 'lab' (10.5.0.0/16)");
+    const inside = await runLine('network subnets create s1 --network lab --range 10.5.1.0/24 --region us-east1', state);
+    expect(inside.output).toBe("Created subnet 's1' in network 'lab' (us-east1, 10.5.1.0/24, gateway 10.5.1.1).");
+    expect(inside.state.subnets.filter(subnet => subnet.network === 'lab')).toHaveLength(1);
+  });
+
+  it('adds firewall rules to the default network', async () => {
+    const { output, state } = await runLine('network firewall-rules create block-web --deny tcp:80 --priority 100');
+    expect(output).toBe("Created firewall rule 'block-web': deny tcp:80 from 0.0.0.0/0 on network 'default'.");
+    expect(state.firewallRules.find(rule => rule.name === 'block-web')).toMatchObject({ action: 'deny', priority: 100 });
+  });
+});
@@ -0,0 +1,379 @@
+import { parseArgs } from '../args';
+import { REGIONS } from '../compute';
+import { formatTable } from '../format';
+import { formatUsage } from '../help';
+import {
+  cidrContains,
+  cidrsOverlap,
+  DEFAULT_NETWORK,
+  formatPermissions,
+  freeNetworkRange,
+  gatewayAddress,
+  internalAddress,
+  NetworkError,
+  parseCidr,
+  parsePermissions,
+} from '../hosts';
+import { permissionVerb } from '../iam';
+import { generateInstanceId } from '../lifecycle';
+import { fail } from '../result';
+import type { CommandContext, CommandDefinition, CommandPlugin, CommandResult, FirewallRule, SessionState, Subnet } from '../types';
+
+type Subcommand = (args: string[], ctx: CommandContext) => CommandResult;
+
+const NAME = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+
+const checkName = (kind: string, name: string | undefined) => {
+  if (!name) {
+    throw new NetworkError(`missing ${kind} name`);
+  }
+  if (!NAME.test(name)) {
+    throw new NetworkError(`invalid ${kind} name '${name}' (use lowercase letters, digits and dashes, starting with a letter)`);
+  }
+  return name;
+};
+
+const checkCidr = (range: string | true | undefined, option: string) => {
+  if (typeof range !== 'string') {
+    throw new NetworkError(`${option} is required`);
+  }
+  if (!parseCidr(range)) {
+    throw new NetworkError(`invalid CIDR range '${range}' (expected e.g. 10.1.0.0/16)`);
+  }
+  return range;
+};
+
+const findNetwork = (state: SessionState, name: string) => {
+  const network = state.networks.find(n => n.name === name);
+  if (!network) {
+    throw new NetworkError(`network '${name}' not found`);
+  }
+  return network;
+};
+
+const option = (flags: Record<string, string | true>, name: string) => typeof flags[name] === 'string' ? flags[name] as string : undefined;
+
+const list = (value: string | undefined) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+const instancesIn = (state: SessionState, network: string) => state.instances.filter(i => (i.network ?? DEFAULT_NETWORK) === network);
+
+const subnetInstances = (state: SessionState, subnet: Subnet) => {
+  return instancesIn(state, subnet.network).filter(i => i.ip !== undefined && cidrContains(subnet.cidr, i.ip));
+};
+
+const describeRule = (rule: FirewallRule) => [
+  `Name: ${rule.name}`,
+  `Network: ${rule.network}`,
+  `Direction: INGRESS`,
+  `Action: ${rule.action.toUpperCase()}`,
+  `Rules: ${formatPermissions(rule.rules)}`,
+  `Source Ranges: ${rule.sourceRanges.join(', ')}`,
+  `Target Tags: ${rule.targetTags.join(', ') || 'all instances'}`,
+  `Priority: ${rule.priority}`,
+  `Created: ${new Date(rule.createdAt).toISOString()}`,
+].join('\n');
+
+const subnetCommands: Record<string, Subcommand> = {
+  create: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['network', 'range', 'region']);
+    const name = checkName('subnet', operands[0]);
+    const network = findNetwork(state, option(flags, 'network') ?? DEFAULT_NETWORK);
+    const range = checkCidr(flags.range, '--range');
+    const region = option(flags, 'region') ?? REGIONS[0];
+    if (!REGIONS.includes(region)) {
+      throw new NetworkError(`unknown region '${region}' (expected one of ${REGIONS.join(', ')})`);
+    }
+    if (parseCidr(range)!.prefix > 29) {
+      throw new NetworkError(`range ${range} is too small (the largest prefix allowed is /29)`);
+    }
+    if (!cidrContains(network.cidr, range.split('/')[0]) || parseCidr(range)!.prefix < parseCidr(network.cidr)!.prefix) {
+      throw new NetworkError(`range ${range} is outside network '${network.name}' (${network.cidr})`);
+    }
+    const siblings = state.subnets.filter(s => s.network === network.name);
+    if (siblings.some(s => s.name === name && s.region === region)) {
+      throw new NetworkError(`subnet '${name}' already exists in network '${network.name}' region ${region}`);
+    }
+    const overlapping = siblings.find(s => cidrsOverlap(s.cidr, range));
+    if (overlapping) {
+      throw new NetworkError(`range ${range} overlaps subnet '${overlapping.name}' (${overlapping.cidr}) in ${overlapping.region}`);
+    }
+    const subnet = { id: generateInstanceId(), name, network: network.name, region, cidr: range, createdAt: Date.now() };
+    return {
+      output: `Created subnet '${name}' in network '${network.name}' (${region}, ${range}, gateway ${gatewayAddress(range)}).`,
+      update: s => ({ ...s, subnets: [...s.subnets, subnet] }),
+    };
+  },
+
+  list: (args, { state }) => {
+    const { flags } = parseArgs(args, ['network']);
+    const network = option(flags, 'network');
+    const subnets = state.subnets.filter(s => network === undefined || s.network === network);
+    if (subnets.length === 0) {
+      return { output: 'No subnets found.' };
+    }
+    return {
+      output: formatTable(
+        subnets.map(s => [s.name, s.region, s.network, s.cidr, String(subnetInstances(state, s).length)]),
+        ['NAME', 'REGION', 'NETWORK', 'RANGE', 'INSTANCES']
+      ),
+    };
+  },
+
+  delete: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['network', 'region']);
+    const name = checkName('subnet', operands[0]);
+    const network = option(flags, 'network') ?? DEFAULT_NETWORK;
+    const region = option(flags, 'region') ?? REGIONS[0];
+    const subnet = state.subnets.find(s => s.name === name && s.network === network && s.region === region);
+    if (!subnet) {
+      throw new NetworkError(`subnet '${name}' not found in network '${network}' region ${region}`);
+    }
+    const users = subnetInstances(state, subnet);
+    if (users.length > 0) {
+      throw new NetworkError(`subnet '${name}' is in use by ${users.map(i => i.name).join(', ')}`);
+    }
+    return {
+      output: `Deleted subnet '${name}' (${region}).`,
+      update: s => ({ ...s, subnets: s.subnets.filter(candidate => candidate.id !== subnet.id) }),
+    };
+  },
+};
+
+const firewallCommands: Record<string, Subcommand> = {
+  create: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['network', 'allow', 'deny', 'source-ranges', 'target-tags', 'priority']);
+    const name = checkName('firewall rule', operands[0]);
+    const network = findNetwork(state, option(flags, 'network') ?? DEFAULT_NETWORK);
+    if (state.firewallRules.some(rule => rule.name === name)) {
+      throw new NetworkError(`firewall rule '${name}' already exists`);
+    }
+    const allow = option(flags, 'allow');
+    const deny = option(flags, 'deny');
+    if ((allow === undefined) === (deny === undefined)) {
+      throw new NetworkError('exactly one of --allow and --deny is required, e.g. --allow tcp:22');
+    }
+    const sourceRanges = list(option(flags, 'source-ranges'));
+    const invalidRange = sourceRanges.find(range => !parseCidr(range));
+    if (invalidRange) {
+      throw new NetworkError(`invalid source range '${invalidRange}'`);
+    }
+    const priority = flags.priority === undefined ? 1000 : Number(flags.priority);
+    if (!Number.isInteger(priority) || priority < 0 || priority > 65535) {
+      throw new NetworkError(`invalid priority '${flags.priority}' (expected 0-65535)`);
+    }
+    const rule: FirewallRule = {
+      id: generateInstanceId(),
+      name,
+      network: network.name,
+      action: allow === undefined ? 'deny' : 'allow',
+      rules: parsePermissions((allow ?? deny)!),
+      sourceRanges: sourceRanges.length > 0 ? sourceRanges : ['0.0.0.0/0'],
+      targetTags: list(option(flags, 'target-tags')),
+      priority,
+      createdAt: Date.now(),
+    };
+    return {
+      output: `Created firewall rule '${name}': ${rule.action} ${formatPermissions(rule.rules)} from ${rule.sourceRanges.join(',')} on network '${network.name}'.`,
+      update: s => ({ ...s, firewallRules: [...s.firewallRules, rule] }),
+    };
+  },
+
+  list: (args, { state }) => {
+    const { flags } = parseArgs(args, ['network']);
+    const network = option(flags, 'network');
+    const rules = state.firewallRules
+      .filter(rule => network === undefined || rule.network === network)
+      .sort((a, b) => a.network.localeCompare(b.network) || a.priority - b.priority || a.name.localeCompare(b.name));
+    if (rules.length === 0) {
+      return { output: 'No firewall rules found.' };
+    }
+    return {
+      output: formatTable(
+        rules.map(rule => [
+          rule.name,
+          rule.network,
+          String(rule.priority),
+          rule.action.toUpperCase(),
+          formatPermissions(rule.rules),
+          rule.sourceRanges.join(','),
+          rule.targetTags.join(',') || '-',
+        ]),
+        ['NAME', 'NETWORK', 'PRIORITY', 'ACTION', 'RULES', 'SOURCE_RANGES', 'TARGET_TAGS']
+      ),
+    };
+  },
+
+  describe: (args, { state }) => {
+    const rule = state.firewallRules.find(candidate => candidate.name === args[0]);
+    if (!rule) {
+      throw new NetworkError(args[0] ? `firewall rule '${args[0]}' not found` : 'missing firewall rule name');
+    }
+    return { output: describeRule(rule) };
+  },
+
+  delete: (args, { state }) => {
+    const rule = state.firewallRules.find(candidate => candidate.name === args[0]);
+    if (!rule) {
+      throw new NetworkError(args[0] ? `firewall rule '${args[0]}' not found` : 'missing firewall rule name');
+    }
+    return {
+      output: `Deleted firewall rule '${rule.name}'.`,
+      update: s => ({ ...s, firewallRules: s.firewallRules.filter(candidate => candidate.id !== rule.id) }),
+    };
+  },
+};
+
+const nested = (group: string, handlers: Record<string, Subcommand>): Subcommand => (args, ctx) => {
+  const [verb, ...rest] = args;
+  const handler = handlers[verb];
+  if (!handler) {
+    return fail(`Usage: network ${group} ${Object.keys(handlers).join('|')} ...\nRun 'help network' for details.`);
+  }
+  return handler(rest, ctx);
+};
+
+const subcommands: Record<string, Subcommand> = {
+  list: (_args, { state }) => {
+    return {
+      output: formatTable(
+        state.networks.map(network => [
+          network.name,
+          network.cidr,
+          String(state.subnets.filter(s => s.network === network.name).length),
+          String(instancesIn(state, network.name).length),
+          String(state.firewallRules.filter(rule => rule.network === network.name).length),
+        ]),
+        ['NAME', 'RANGE', 'SUBNETS', 'INSTANCES', 'FIREWALL_RULES']
+      ) || 'No networks found.',
+    };
+  },
+
+  create: (args, { state }) => {
+    const { flags, operands } = parseArgs(args, ['range']);
+    const name = checkName('network', operands[0]);
+    if (state.networks.some(network => network.name === name)) {
+      throw new NetworkError(`network '${name}' already exists`);
+    }
+    const range = flags.range === undefined ? freeNetworkRange(state) : checkCidr(flags.range, '--range');
+    const overlapping = state.networks.find(network => parseCidr(network.cidr) && cidrsOverlap(network.cidr, range));
+    if (overlapping) {
+      throw new NetworkError(`range ${range} overlaps network '${overlapping.name}' (${overlapping.cidr})`);
+    }
+    const network = { id: generateInstanceId(), name, cidr: range, createdAt: Date.now() };
+    return {
+      output: [
+        `Created network '${name}' (${range}).`,
+        `It has no subnets or firewall rules yet: add them with 'network subnets create' and 'network firewall-rules create'.`,
+      ].join('\n'),
+      update: s => ({ ...s, networks: [...s.networks, network] }),
+    };
+  },
+
+  describe: (args, { state }) => {
+    const network = findNetwork(state, args[0] ?? DEFAULT_NETWORK);
+    const subnets = state.subnets.filter(s => s.network === network.name);
+    const rules = state.firewallRules.filter(rule => rule.network === network.name).sort((a, b) => a.priority - b.priority);
+    const instances = instancesIn(state, network.name);
+    return {
+      output: [
+        `Name: ${network.name}`,
+        `Range: ${network.cidr}`,
+        `Created: ${new Date(network.createdAt).toISOString()}`,
+        `Subnets:${subnets.length ? '' : ' none'}`,
+        ...subnets.map(s => `  ${s.name} ${s.region} ${s.cidr}`),
+        `Firewall Rules:${rules.length ? '' : ' none (all ingress is denied)'}`,
+        ...rules.map(rule => `  ${rule.name} ${rule.action} ${formatPermissions(rule.rules)} from ${rule.sourceRanges.join(',')} (priority ${rule.priority})`),
+        `Instances:${instances.length ? '' : ' none'}`,
+        ...instances.map(i => `  ${i.name} ${internalAddress(i)} (${i.status})`),
+      ].join('\n'),
+    };
+  },
+
+  delete: (args, { state }) => {
+    const network = findNetwork(state, checkName('network', args[0]));
+    if (network.name === DEFAULT_NETWORK) {
+      throw new NetworkError('the default network cannot be deleted');
+    }
+    const users = instancesIn(state, network.name);
+    if (users.length > 0) {
+      throw new NetworkError(`network '${network.name}' is in use by ${users.map(i => i.name).join(', ')}`);
+    }
+    return {
+      output: `Deleted network '${network.name}' with its subnets and firewall rules.`,
+      update: s => ({
+        ...s,
+        networks: s.networks.filter(n => n.id !== network.id),
+        subnets: s.subnets.filter(subnet => subnet.network !== network.name),
+        firewallRules: s.firewallRules.filter(rule => rule.network !== network.name),
+      }),
+    };
+  },
+
+  subnets: nested('subnets', subnetCommands),
+  'firewall-rules': nested('firewall-rules', firewallCommands),
+};
+
+const network: CommandDefinition = {
+  name: 'network',
+  category: 'network',
+  summary: 'Manage VPC networks, subnets and firewall rules',
+  usage: [
+    { usage: 'network list', description: 'List networks' },
+    { usage: 'network create NAME [--range CIDR]', description: 'Create a network (a free 10.x.0.0/16 by default)' },
+    { usage: 'network describe [NAME]', description: 'Show a network with its subnets, firewall rules and instances' },
+    { usage: 'network delete NAME', description: 'Delete an unused network' },
+    { usage: 'network subnets create NAME --range CIDR [--network N] [--region R]', description: 'Add a regional subnet to a network' },
+    { usage: 'network subnets list|delete [NAME] [--network N] [--region R]', description: 'List or delete subnets' },
+    {
+      usage: 'network firewall-rules create NAME --allow|--deny tcp:22,icmp [--network N] [--source-ranges CIDR,...] [--target-tags TAG,...] [--priority 1000]',
+      description: 'Add an ingress rule; ping, ssh, curl and traceroute honour them',
+    },
+    { usage: 'network firewall-rules list|describe|delete [NAME]', description: 'Inspect or delete firewall rules' },
+  ],
+  complete: (args, { state }) => {
+    if (args.length === 1) {
+      return Object.keys(subcommands);
+    }
+    if (args[0] === 'subnets' && args.length === 2) {
+      return Object.keys(subnetCommands);
+    }
+    if (args[0] === 'firewall-rules') {
+      return args.length === 2 ? Object.keys(firewallCommands) : state.firewallRules.map(rule => rule.name);
+    }
+    if (args[args.length - 2] === '--network' || ['describe', 'delete'].includes(args[0])) {
+      return state.networks.map(n => n.name);
+    }
+    if (args[args.length - 2] === '--region') {
+      return REGIONS;
+    }
+    return [];
+  },
+  permissions: ([subcommand, verb]) => {
+    if (subcommand === 'subnets') {
+      return verb in subnetCommands ? [`compute.subnetworks.${permissionVerb(verb)}`] : [];
+    }
+    if (subcommand === 'firewall-rules') {
+      return verb in firewallCommands ? [`compute.firewalls.${permissionVerb(verb)}`] : [];
+    }
+    return subcommand in subcommands ? [`compute.networks.${permissionVerb(subcommand)}`] : [];
+  },
+  run: (args, ctx) => {
+    const [subcommand, ...rest] = args;
+    const handler = subcommands[subcommand];
+    if (!handler) {
+      return fail(`Usage:\n${formatUsage(network)}`);
+    }
+    try {
+      return handler(rest, ctx);
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        return fail(`network: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const vpcCommands: CommandPlugin = registry => {
+  registry.register(network);
+};
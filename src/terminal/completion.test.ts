@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultRegistry } from './commands';
+import { completeLine } from './completion';
+import { writeFile } from './fs';
+import { createInitialState } from './state';
+import type { Instance } from './types';
+
+const registry = createDefaultRegistry();
+
+const withKeys = () => {
+  const state = createInitialState();
+  const key = { publicKey: 'ssh-ed25519 AAAA deploy', fingerprint: 'SHA256:x', created: '' };
+  return writeFile({ ...state, sshKeys: [{ name: 'deploy', ...key }, { name: 'backup', ...key }] }, 'deploy.pem', '');
+};
+
+describe('completeLine', () => {
+  it('completes command names', () => {
+    expect(completeLine(registry, 'hist', createInitialState()).line).toBe('history ');
+  });
+
+  it('completes paths and lists ambiguous ones', () => {
+    const state = createInitialState();
+    expect(completeLine(registry, 'cd Doc', state).line).toBe('cd Documents/');
+    expect(completeLine(registry, 'ls D', state)).toEqual({ line: 'ls Do', candidates: ['Documents/', 'Downloads/'] });
+  });
+
+  it('escapes spaces in completed names', () => {
+    const state = writeFile(createInitialState(), 'My File.txt', '');
+    expect(completeLine(registry, 'cat My', state).line).toBe('cat My\\ File.txt ');
+  });
+
+  it('completes the last command of a pipeline', () => {
+    expect(completeLine(registry, 'ls | hist', createInitialState()).line).toBe('ls | history ');
+  });
+
+  it('offers only instances the action applies to', () => {
+    const instances: Instance[] = [
+      { id: '1', name: 'web', type: 'compute', status: 'stopped' },
+      { id: '2', name: 'worker', type: 'compute', status: 'running' },
+    ];
+    expect(completeLine(registry, 'start instance w', { ...createInitialState(), instances }).line).toBe('start instance web ');
+  });
+
+  it('offers key names and paths for ssh-add operands', () => {
+    const state = withKeys();
+    expect(completeLine(registry, 'ssh-add dep', state).candidates).toEqual(['deploy', 'deploy.pem']);
+    expect(completeLine(registry, 'ssh-add deploy.pem ba', state).line).toBe('ssh-add deploy.pem backup ');
+    expect(completeLine(registry, 'ssh-add -d back', state).line).toBe('ssh-add -d backup ');
+    expect(completeLine(registry, 'ssh-add -', state).candidates).toEqual(['-D', '-L', '-d', '-l']);
+  });
+});
@@ -0,0 +1,117 @@
+import { basename, getNode, resolve } from './fs';
+import type { CommandRegistry } from './registry';
+import type { CompletionContext, SessionState } from './types';
+
+export interface CompletionResult {
+  // Text that replaces the whole input line.
+  line: string;
+  // Every candidate for the word under the cursor; more than one means ambiguous.
+  candidates: string[];
+}
+
+const COMMAND_SEPARATOR = /(?:\|\||&&|[|;])/;
+
+// Splits the last command of the line into words, honouring quotes and
+// backslash-escaped spaces so `cat My\ Fi<Tab>` completes "My File".
+const splitWords = (segment: string) => {
+  const words: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inWord = false;
+  let start = 0;
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === ' ' || char === '\t') {
+      if (inWord) {
+        words.push(current);
+      }
+      current = '';
+      inWord = false;
+      start = i + 1;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < segment.length) {
+      current += segment[++i];
+      inWord = true;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  words.push(current);
+  return { words, start };
+};
+
+const displayName = (candidate: string) => candidate.endsWith('/') ? `${basename(candidate)}/` : basename(candidate);
+
+const escapeWord = (word: string) => word.replace(/([\s'"\\|;&<>$])/g, '\\$1');
+
+const commonPrefix = (values: string[]) => {
+  if (values.length === 0) {
+    return '';
+  }
+  let prefix = values[0];
+  for (const value of values.slice(1)) {
+    while (!value.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+};
+
+export const completePaths = (state: SessionState, partial: string, directoriesOnly = false) => {
+  const slash = partial.lastIndexOf('/');
+  const directoryPart = slash === -1 ? '' : partial.slice(0, slash + 1);
+  const namePart = slash === -1 ? partial : partial.slice(slash + 1);
+  const directory = getNode(state.fs, resolve(state, directoryPart || '.'));
+  if (directory?.type !== 'dir') {
+    return [];
+  }
+  return Object.entries(directory.children)
+    .filter(([name, node]) => (!directoriesOnly || node.type === 'dir')
+      && name.startsWith(namePart)
+      && (namePart.startsWith('.') || !name.startsWith('.')))
+    .map(([name, node]) => `${directoryPart}${name}${node.type === 'dir' ? '/' : ''}`)
+    .sort();
+};
+
+export const completeLine = (registry: CommandRegistry, line: string, state: SessionState): CompletionResult => {
+  const segments = line.split(COMMAND_SEPARATOR);
+  const segment = segments[segments.length - 1];
+  const { words, start } = splitWords(segment);
+  const partial = words[words.length - 1];
+  const ctx: CompletionContext = { state, registry };
+
+  let candidates: string[];
+  if (words.length === 1) {
+    candidates = registry.list().map(definition => definition.name);
+  } else {
+    const definition = registry.get(words[0]);
+    const args = words.slice(1);
+    candidates = definition?.complete
+      ? definition.complete(args, ctx)
+      : completePaths(state, partial);
+  }
+
+  const matches = Array.from(new Set(candidates.filter(candidate => candidate.startsWith(partial)))).sort();
+  if (matches.length === 0) {
+    return { line, candidates: [] };
+  }
+
+  const head = line.slice(0, line.length - (segment.length - start));
+  const completion = matches.length === 1 ? matches[0] : commonPrefix(matches);
+  const suffix = matches.length === 1 && !completion.endsWith('/') ? ' ' : '';
+  const candidatesShown = matches.length > 1 ? matches.map(displayName) : [];
+
+  if (completion.length <= partial.length && matches.length > 1) {
+    return { line, candidates: candidatesShown };
+  }
+  return { line: `${head}${escapeWord(completion)}${suffix}`, candidates: candidatesShown };
+};
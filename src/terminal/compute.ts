@@ -0,0 +1,157 @@
+import type { Resource } from './format';
+import { DEFAULT_NETWORK, externalAddress, internalAddress } from './hosts';
+import type { Instance, InstanceStatus } from './types';
+
+// The Compute Engine view of instances: zones, machine types and images, and
+// the resource shape gcloud prints for them.
+
+export const PROJECT = 'cloud-terminal';
+export const API_ROOT = 'https://www.googleapis.com/compute/v1';
+
+export const DEFAULT_ZONE = 'us-central1-a';
+export const DEFAULT_MACHINE_TYPE = 'e2-medium';
+export const DEFAULT_IMAGE = 'debian-12';
+
+export const ZONES = [
+  'us-central1-a', 'us-central1-b', 'us-central1-c', 'us-central1-f',
+  'us-east1-b', 'us-east1-c', 'us-east1-d',
+  'europe-west1-b', 'europe-west1-c', 'europe-west1-d',
+  'asia-east1-a', 'asia-east1-b', 'asia-east1-c',
+];
+
+export const MACHINE_TYPES: Record<string, { cpus: number; memoryGb: number }> = {
+  'e2-micro': { cpus: 2, memoryGb: 1 },
+  'e2-small': { cpus: 2, memoryGb: 2 },
+  'e2-medium': { cpus: 2, memoryGb: 4 },
+  'e2-standard-2': { cpus: 2, memoryGb: 8 },
+  'e2-standard-4': { cpus: 4, memoryGb: 16 },
+  'n2-standard-2': { cpus: 2, memoryGb: 8 },
+  'n2-standard-4': { cpus: 4, memoryGb: 16 },
+  'n2-highmem-4': { cpus: 4, memoryGb: 32 },
+  'c2-standard-8': { cpus: 8, memoryGb: 32 },
+};
+
+export const regionOf = (zone: string) => zone.replace(/-[a-z]$/, '');
+
+export const REGIONS = [...new Set(ZONES.map(regionOf))];
+
+// Image families and the public projects that publish them.
+export const IMAGES: Record<string, string> = {
+  'debian-12': 'debian-cloud',
+  'debian-11': 'debian-cloud',
+  'ubuntu-2204-lts': 'ubuntu-os-cloud',
+  'ubuntu-2404-lts': 'ubuntu-os-cloud',
+  'rocky-linux-9': 'rocky-linux-cloud',
+  'cos-stable': 'cos-cloud',
+};
+
+// Compute Engine calls a stopped instance TERMINATED; one being deleted is
+// still STOPPING, and a failed one is being REPAIRED.
+const GCE_STATUS: Record<InstanceStatus, string> = {
+  provisioning: 'PROVISIONING',
+  staging: 'STAGING',
+  running: 'RUNNING',
+  stopping: 'STOPPING',
+  stopped: 'TERMINATED',
+  terminated: 'STOPPING',
+  error: 'REPAIRING',
+};
+
+export interface Placement {
+  zone: string;
+  machineType: string;
+  image: string;
+  labels: Record<string, string>;
+  tags: string[];
+}
+
+const LABEL_KEY = /^[a-z][a-z0-9_-]{0,62}$/;
+const LABEL_VALUE = /^[a-z0-9_-]{0,63}$/;
+
+// Parses `--labels=env=prod,team=web`.
+export const parseLabels = (value: string) => {
+  const labels: Record<string, string> = {};
+  for (const pair of value.split(',').filter(Boolean)) {
+    const [key, ...rest] = pair.split('=');
+    const label = rest.join('=');
+    if (!LABEL_KEY.test(key) || !LABEL_VALUE.test(label)) {
+      throw new Error(`Invalid label [${pair}]: keys must start with a lowercase letter and keys and values may only contain lowercase letters, digits, underscores and dashes.`);
+    }
+    labels[key] = label;
+  }
+  return labels;
+};
+
+const TAG = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+
+// Parses `--tags=web,ssh`.
+export const parseTags = (value: string) => {
+  const tags = value.split(',').filter(Boolean);
+  const invalid = tags.find(tag => !TAG.test(tag));
+  if (invalid) {
+    throw new Error(`Invalid value for field 'resource.tags.items': '${invalid}'. Must be a match of regex '(?:[a-z](?:[-a-z0-9]{0,61}[a-z0-9])?)'`);
+  }
+  return [...new Set(tags)];
+};
+
+// Validates the placement options shared by `gcloud compute instances create`
+// and `create instance`, filling in the defaults.
+export const resolvePlacement = (flags: Record<string, string | true>): Placement => {
+  const option = (name: string, fallback: string) => typeof flags[name] === 'string' ? flags[name] as string : fallback;
+  const zone = option('zone', DEFAULT_ZONE);
+  const machineType = option('machine-type', DEFAULT_MACHINE_TYPE);
+  const image = option('image', DEFAULT_IMAGE);
+  if (!ZONES.includes(zone)) {
+    throw new Error(`Invalid value for field 'zone': '${zone}'. Unknown zone.`);
+  }
+  if (!MACHINE_TYPES[machineType]) {
+    throw new Error(`Invalid value for field 'resource.machineType': '${machineType}'. Machine type with name '${machineType}' does not exist in zone '${zone}'.`);
+  }
+  if (!IMAGES[image]) {
+    throw new Error(`The resource 'projects/${PROJECT}/global/images/${image}' was not found`);
+  }
+  return { zone, machineType, image, labels: parseLabels(option('labels', '')), tags: parseTags(option('tags', '')) };
+};
+
+export const instanceZone = (instance: Instance) => instance.zone ?? DEFAULT_ZONE;
+
+export const instancePath = (instance: Pick<Instance, 'name' | 'zone'>) => {
+  return `projects/${PROJECT}/zones/${instance.zone ?? DEFAULT_ZONE}/instances/${instance.name}`;
+};
+
+export const selfLink = (instance: Pick<Instance, 'name' | 'zone'>) => `${API_ROOT}/${instancePath(instance)}`;
+
+export const gceStatus = (status: InstanceStatus) => GCE_STATUS[status];
+
+export const toResource = (instance: Instance): Resource => {
+  const zone = instanceZone(instance);
+  const machineType = instance.machineType ?? DEFAULT_MACHINE_TYPE;
+  const image = instance.image ?? DEFAULT_IMAGE;
+  const natIP = externalAddress(instance);
+  return {
+    id: instance.id,
+    kind: 'compute#instance',
+    name: instance.name,
+    creationTimestamp: new Date(instance.createdAt ?? 0).toISOString(),
+    zone: `${API_ROOT}/projects/${PROJECT}/zones/${zone}`,
+    machineType: `${API_ROOT}/projects/${PROJECT}/zones/${zone}/machineTypes/${machineType}`,
+    status: gceStatus(instance.status!),
+    labels: { ...instance.labels, 'instance-type': instance.type },
+    ...instance.tags?.length ? { tags: { items: instance.tags } } : {},
+    disks: [{
+      boot: true,
+      deviceName: instance.name,
+      source: `${API_ROOT}/projects/${PROJECT}/zones/${zone}/disks/${instance.name}`,
+      licenses: [`${API_ROOT}/projects/${IMAGES[image]}/global/licenses/${image}`],
+    }],
+    networkInterfaces: [{
+      name: 'nic0',
+      network: `${API_ROOT}/projects/${PROJECT}/global/networks/${instance.network ?? DEFAULT_NETWORK}`,
+      ...instance.subnet ? { subnetwork: `${API_ROOT}/projects/${PROJECT}/regions/${regionOf(zone)}/subnetworks/${instance.subnet}` } : {},
+      networkIP: internalAddress(instance),
+      ...natIP ? { accessConfigs: [{ name: 'External NAT', type: 'ONE_TO_ONE_NAT', natIP }] } : {},
+    }],
+    scheduling: { preemptible: false, automaticRestart: true },
+    selfLink: selfLink(instance),
+  };
+};
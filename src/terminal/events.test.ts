@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { instanceActivity, recordActivity, SYSTEM_ACTOR } from './events';
+import { createInitialState } from './state';
+import type { Instance, SessionState } from './types';
+
+const web: Instance = { id: 'i-1', name: 'web', type: 'compute', status: 'running', createdAt: 0 };
+
+describe('recordActivity', () => {
+  it('logs one event per change with who made it', () => {
+    const before = createInitialState();
+    const after: SessionState = { ...before, instances: [web], users: [...before.users, { name: 'bob', groups: [], createdAt: 0 }] };
+    const logged = recordActivity(before, after, 'admin', 5, 'setup');
+    expect(logged.events.map(event => [event.id, event.type, event.actor, event.command])).toEqual([
+      [1, 'instance.create', 'admin', 'setup'],
+      [2, 'user.create', 'admin', 'setup'],
+    ]);
+  });
+
+  it('names the transition an instance went through', () => {
+    const before: SessionState = { ...createInitialState(), instances: [web] };
+    const stopping = recordActivity(before, { ...before, instances: [{ ...web, status: 'stopping' }] }, 'admin', 1);
+    const stopped = recordActivity(stopping, { ...stopping, instances: [{ ...web, status: 'stopped' }] }, SYSTEM_ACTOR, 2);
+    expect(instanceActivity(stopped, 'i-1')).toMatchObject([
+      { type: 'instance.stop', actor: 'admin' },
+      { type: 'instance.status', from: 'stopping', to: 'stopped', actor: SYSTEM_ACTOR },
+    ]);
+  });
+
+  it('leaves states without changes alone', () => {
+    const state = createInitialState();
+    const same = { ...state, currentPath: '/tmp' };
+    expect(recordActivity(state, same, 'admin', 1)).toBe(same);
+  });
+});
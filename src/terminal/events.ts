@@ -0,0 +1,144 @@
+import type { ActivityEvent, Instance, InstanceStatus, SessionState } from './types';
+
+// The activity log. Rather than have every command report what it did, the
+// interpreter and the simulation compare the state before and after each
+// change and append an event for every difference, so nothing that changes
+// the session can forget to log itself.
+
+export const SYSTEM_ACTOR = 'system';
+
+type Distribute<T> = T extends unknown ? Omit<T, 'id' | 'time' | 'actor' | 'command'> : never;
+
+export type EventData = Distribute<ActivityEvent>;
+
+// Keys `items` by `key`, for finding what was added or removed.
+const byKey = <T>(items: T[], key: (item: T) => string) => new Map(items.map(item => [key(item), item]));
+
+const added = <T>(before: T[], after: T[], key: (item: T) => string) => {
+  const previous = byKey(before, key);
+  return after.filter(item => !previous.has(key(item)));
+};
+
+const removed = <T>(before: T[], after: T[], key: (item: T) => string) => added(after, before, key);
+
+// Statuses a command moves an instance into; anything else happens on its own.
+const statusEvent = (instance: Instance, from: InstanceStatus | undefined, to: InstanceStatus): EventData => {
+  const target = { instanceId: instance.id, instance: instance.name };
+  if (to === 'staging' && from !== 'provisioning') {
+    return { type: 'instance.start', ...target };
+  }
+  if (to === 'stopping') {
+    return { type: 'instance.stop', ...target };
+  }
+  if (to === 'terminated') {
+    return { type: 'instance.delete', ...target };
+  }
+  return { type: 'instance.status', ...target, from, to };
+};
+
+const instanceEvents = (before: Instance[], after: Instance[]): EventData[] => {
+  if (before === after) {
+    return [];
+  }
+  const previous = byKey(before, instance => instance.id);
+  const events: EventData[] = [];
+  for (const instance of after) {
+    const old = previous.get(instance.id);
+    if (!old) {
+      events.push({
+        type: 'instance.create',
+        instanceId: instance.id,
+        instance: instance.name,
+        instanceType: instance.type,
+        machineType: instance.machineType ?? '',
+        zone: instance.zone ?? '',
+      });
+    } else if (instance.status && old.status !== instance.status) {
+      events.push(statusEvent(instance, old.status, instance.status));
+    }
+  }
+  for (const instance of removed(before, after, instance => instance.id)) {
+    events.push({ type: 'instance.status', instanceId: instance.id, instance: instance.name, from: instance.status, to: 'deleted' });
+  }
+  return events;
+};
+
+const diff = (before: SessionState, after: SessionState): EventData[] => {
+  const keyId = (item: { id: string }) => item.id;
+  const keyName = (item: { name: string }) => item.name;
+  const sshKey = (key: { name: string; fingerprint: string }) => `${key.name} ${key.fingerprint}`;
+  const repoKey = (repo: { name: string; path?: string }) => repo.path ?? repo.name;
+  const binding = (b: { user: string; role: string; project: string }) => `${b.user} ${b.role} ${b.project}`;
+  return [
+    ...instanceEvents(before.instances, after.instances),
+    ...removed(before.sshKeys, after.sshKeys, sshKey).map((key): EventData => ({ type: 'sshkey.remove', key: key.name })),
+    ...added(before.sshKeys, after.sshKeys, sshKey).map((key): EventData => ({ type: 'sshkey.add', key: key.name, fingerprint: key.fingerprint })),
+    ...added(before.gitRepos, after.gitRepos, repoKey).map((repo): EventData => repo.url && repo.status !== 'initialized'
+      ? { type: 'repo.clone', repo: repo.name, url: repo.url, path: repo.path }
+      : { type: 'repo.init', repo: repo.name, path: repo.path }),
+    // Connections form a stack: sessions close from the innermost outwards.
+    ...before.connections.slice(after.connections.length).reverse()
+      .map(({ host, user }): EventData => ({ type: 'ssh.logout', host, user })),
+    ...after.connections.slice(before.connections.length)
+      .map(({ host, user }): EventData => ({ type: 'ssh.login', host, user })),
+    ...added(before.networks, after.networks, keyId).map(({ name }): EventData => ({ type: 'network.create', name })),
+    ...removed(before.networks, after.networks, keyId).map(({ name }): EventData => ({ type: 'network.delete', name })),
+    ...added(before.subnets, after.subnets, keyId).map(({ name }): EventData => ({ type: 'subnet.create', name })),
+    ...removed(before.subnets, after.subnets, keyId).map(({ name }): EventData => ({ type: 'subnet.delete', name })),
+    ...added(before.firewallRules, after.firewallRules, keyId).map(({ name }): EventData => ({ type: 'firewall.create', name })),
+    ...removed(before.firewallRules, after.firewallRules, keyId).map(({ name }): EventData => ({ type: 'firewall.delete', name })),
+    ...added(before.users, after.users, keyName).map(({ name }): EventData => ({ type: 'user.create', user: name })),
+    ...added(before.bindings, after.bindings, binding).map(({ user, role, project }): EventData => ({ type: 'iam.grant', user, role, project })),
+    ...removed(before.bindings, after.bindings, binding).map(({ user, role, project }): EventData => ({ type: 'iam.revoke', user, role, project })),
+  ];
+};
+
+// Appends an event to `after` for each change from `before`, made by `actor`
+// running `command`. Returns `after` itself when nothing was logged, and
+// leaves updates that already touched the log alone: those are nested script
+// commands that logged their own changes, or a reset that starts it afresh.
+export const recordActivity = (before: SessionState, after: SessionState, actor: string, now: number, command?: string): SessionState => {
+  if (before === after || after.events !== before.events) {
+    return after;
+  }
+  const changes = diff(before, after);
+  if (changes.length === 0) {
+    return after;
+  }
+  const next = (before.events[before.events.length - 1]?.id ?? 0) + 1;
+  const events = changes.map((change, index) => ({ ...change, id: next + index, time: now, actor, command }) as ActivityEvent);
+  return { ...after, events: [...after.events, ...events] };
+};
+
+// The events about one instance, oldest first.
+export const instanceActivity = (state: SessionState, instanceId: string) => {
+  return state.events.filter(event => 'instanceId' in event && event.instanceId === instanceId);
+};
+
+// What an event acted on, for listings.
+export const eventTarget = (event: ActivityEvent) => {
+  switch (event.type) {
+    case 'instance.create':
+    case 'instance.start':
+    case 'instance.stop':
+    case 'instance.delete':
+    case 'instance.status':
+      return event.instance;
+    case 'sshkey.add':
+    case 'sshkey.remove':
+      return event.key;
+    case 'repo.clone':
+    case 'repo.init':
+      return event.path ?? event.repo;
+    case 'ssh.login':
+    case 'ssh.logout':
+      return `${event.user}@${event.host}`;
+    case 'user.create':
+      return event.user;
+    case 'iam.grant':
+    case 'iam.revoke':
+      return `${event.user} ${event.role} on ${event.project}`;
+    default:
+      return event.name;
+  }
+};
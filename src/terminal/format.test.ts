@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { FormatError, formatResources, matchesFilter, parseFilter, parseFormat } from './format';
+
+const web = { name: 'web', status: 'RUNNING', cpus: 2, zone: 'zones/us-central1-a', labels: { env: 'prod' }, tags: ['http', 'ssh'] };
+const db = { name: 'db', status: 'TERMINATED', cpus: 8, zone: 'zones/europe-west1-b', labels: { env: 'dev' }, tags: [] };
+
+const matching = (source: string) => [web, db].filter(resource => matchesFilter(resource, parseFilter(source))).map(r => r.name);
+
+describe('parseFilter', () => {
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    expect(matching('status=RUNNING')).toEqual(['web']);
+    expect(matching('labels.env:prod OR cpus>4')).toEqual(['web', 'db']);
+    expect(matching('NOT status=RUNNING')).toEqual(['db']);
+    expect(matching('-name:web cpus>=8')).toEqual(['db']);
+    expect(matching('(name=web OR name=db) AND cpus<4')).toEqual(['web']);
+  });
+
+  it('matches globs, list elements and basenames', () => {
+    expect(matching('name:w*')).toEqual(['web']);
+    expect(matching('tags:ssh')).toEqual(['web']);
+    expect(matching('zone=us-central1-a')).toEqual(['web']);
+    expect(matching('name~^d')).toEqual(['db']);
+  });
+
+  it('rejects incomplete expressions', () => {
+    expect(() => parseFilter('status=')).toThrow(FormatError);
+    expect(() => parseFilter('(status=RUNNING')).toThrow('Unmatched (');
+    expect(parseFilter('  ')).toBeNull();
+  });
+});
+
+describe('formatResources', () => {
+  const defaults = parseFormat('table(name,status)').projections;
+
+  it('renders value, csv and table output', () => {
+    expect(formatResources([web, db], parseFormat('value(name,zone.basename())'), defaults)).toBe('web\tus-central1-a\ndb\teurope-west1-b');
+    expect(formatResources([web], parseFormat('csv(name,tags)'), defaults)).toBe('name,tags\nweb,http;ssh');
+    expect(formatResources([web, db], parseFormat('table'), defaults).split('\n')).toEqual([
+      'NAME  STATUS',
+      'web   RUNNING',
+      'db    TERMINATED',
+    ]);
+    expect(formatResources([web], parseFormat('table[no-heading](name,status:label=STATE)'), defaults)).toBe('web  RUNNING');
+  });
+
+  it('restricts json to the projected keys', () => {
+    expect(JSON.parse(formatResources([web], parseFormat('json(name,labels.env)'), defaults, true))).toEqual({ name: 'web', labels: { env: 'prod' } });
+  });
+
+  it('rejects unknown formats and transforms', () => {
+    expect(() => parseFormat('bogus')).toThrow('Format must be one of json, yaml, table, value, csv; received [bogus].');
+    expect(() => parseFormat('value(name.shout())')).toThrow('Unknown transform [shout].');
+  });
+});
@@ -0,0 +1,363 @@
+import { visibleLength } from './ansi';
+
+// The `--filter` and `--format` machinery of gcloud, applied to plain
+// resource objects: filter expressions such as `status=RUNNING AND
+// labels.env:prod`, and json, yaml, table(...), value(...) and csv(...) output.
+
+export type Resource = Record<string, unknown>;
+
+export class FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormatError';
+  }
+}
+
+export interface Projection {
+  key: string[];
+  transform?: string;
+  label?: string;
+}
+
+export interface FormatSpec {
+  kind: 'json' | 'yaml' | 'table' | 'value' | 'csv';
+  projections: Projection[];
+  noHeading: boolean;
+}
+
+const FORMAT_KINDS = ['json', 'yaml', 'table', 'value', 'csv'];
+
+const TRANSFORMS: Record<string, (value: unknown) => unknown> = {
+  basename: value => typeof value === 'string' ? value.split('/').pop() : value,
+  upper: value => typeof value === 'string' ? value.toUpperCase() : value,
+  lower: value => typeof value === 'string' ? value.toLowerCase() : value,
+  len: value => Array.isArray(value) || typeof value === 'string' ? value.length : 0,
+};
+
+// Looks up a dotted key; lists are searched element by element.
+export const lookup = (resource: unknown, key: string[]): unknown => {
+  let current = resource;
+  for (const part of key) {
+    if (Array.isArray(current)) {
+      current = current.map(item => lookup(item, [part])).filter(item => item !== undefined);
+    } else if (current && typeof current === 'object') {
+      current = (current as Resource)[part];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+};
+
+const parseProjection = (source: string): Projection => {
+  const match = source.trim().match(/^([\w.]+)(?:\.(\w+)\(\))?(?::label=(.*))?$/);
+  if (!match) {
+    throw new FormatError(`Invalid projection [${source.trim()}].`);
+  }
+  const [, path, transform, label] = match;
+  const key = path.split('.');
+  // `zone.basename()` is read as a transform rather than a nested key.
+  if (transform && !TRANSFORMS[transform]) {
+    throw new FormatError(`Unknown transform [${transform}].`);
+  }
+  return { key, transform, label: label?.trim() };
+};
+
+export const parseFormat = (source: string): FormatSpec => {
+  const match = source.trim().match(/^(\w+)(?:\[([\w-,]*)\])?(?:\((.*)\))?$/);
+  if (!match || !FORMAT_KINDS.includes(match[1])) {
+    throw new FormatError(`Format must be one of ${FORMAT_KINDS.join(', ')}; received [${source}].`);
+  }
+  const [, kind, attributes = '', projections = ''] = match;
+  return {
+    kind: kind as FormatSpec['kind'],
+    projections: projections.trim() ? projections.split(',').map(parseProjection) : [],
+    noHeading: attributes.split(',').includes('no-heading'),
+  };
+};
+
+const project = (resource: Resource, projection: Projection) => {
+  const value = lookup(resource, projection.key);
+  return projection.transform ? TRANSFORMS[projection.transform](value) : value;
+};
+
+// How a value appears in a table cell or value() column.
+const cell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(cell).join(';');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => `${key}=${cell(item)}`).join(';');
+  }
+  return String(value);
+};
+
+const heading = (projection: Projection) => {
+  if (projection.label !== undefined) {
+    return projection.label;
+  }
+  const name = projection.key[projection.key.length - 1];
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+};
+
+// Cells may be coloured; columns are aligned on what is visible.
+export const formatTable = (rows: string[][], headers?: string[]) => {
+  const all = headers ? [headers, ...rows] : rows;
+  const widths = all[0]?.map((_, column) => Math.max(...all.map(row => visibleLength(row[column])))) ?? [];
+  const pad = (value: string, width: number) => value + ' '.repeat(width - visibleLength(value));
+  return all.map(row => row.map((value, column) => column === row.length - 1 ? value : pad(value, widths[column])).join('  ').trimEnd()).join('\n');
+};
+
+// Strings a YAML reader would take as something else, or cannot read plain.
+const needsQuotes = (value: string) => {
+  return value === '' || value !== value.trim() || /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) || /: | #/.test(value)
+    || /^(true|false|null|yes|no|~)$/i.test(value) || !Number.isNaN(Number(value)) || /^\d{4}-\d{2}-\d{2}/.test(value);
+};
+
+const yamlScalar = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  return needsQuotes(value) ? `'${value.replace(/'/g, "''")}'` : value;
+};
+
+const yamlLines = (value: unknown, indent: string): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (item && typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length > 0) {
+        const [first, ...rest] = yamlLines(item, `${indent}  `);
+        return [`${indent}- ${first.trimStart()}`, ...rest];
+      }
+      return [`${indent}- ${yamlScalar(item)}`];
+    });
+  }
+  return Object.entries(value as Resource).filter(([, item]) => item !== undefined).flatMap(([key, item]) => {
+    if (Array.isArray(item)) {
+      return item.length === 0 ? [`${indent}${key}: []`] : [`${indent}${key}:`, ...yamlLines(item, indent)];
+    }
+    if (item && typeof item === 'object') {
+      return Object.keys(item).length === 0 ? [`${indent}${key}: {}`] : [`${indent}${key}:`, ...yamlLines(item, `${indent}  `)];
+    }
+    return [`${indent}${key}: ${yamlScalar(item)}`];
+  });
+};
+
+export const toYaml = (value: Resource) => yamlLines(value, '').join('\n');
+
+// Restricts a resource to the projected keys, keeping their nesting.
+const restrict = (resource: Resource, projections: Projection[]) => {
+  if (projections.length === 0) {
+    return resource;
+  }
+  const result: Resource = {};
+  for (const projection of projections) {
+    let target = result;
+    projection.key.slice(0, -1).forEach(part => {
+      target = (target[part] ??= {}) as Resource;
+    });
+    target[projection.key[projection.key.length - 1]] = project(resource, projection);
+  }
+  return result;
+};
+
+// Renders resources; `single` prints one resource as an object rather than a list.
+export const formatResources = (resources: Resource[], spec: FormatSpec, defaults: Projection[], single = false) => {
+  const projections = spec.projections.length > 0 ? spec.projections : defaults;
+  switch (spec.kind) {
+    case 'json': {
+      const values = resources.map(resource => restrict(resource, spec.projections));
+      return JSON.stringify(single ? values[0] : values, null, 2);
+    }
+    case 'yaml':
+      return resources.map(resource => toYaml(restrict(resource, spec.projections))).join('\n---\n');
+    case 'value':
+      return resources.map(resource => projections.map(projection => cell(project(resource, projection))).join('\t')).join('\n');
+    case 'csv': {
+      const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+      const rows = resources.map(resource => projections.map(projection => quote(cell(project(resource, projection)))).join(','));
+      return (spec.noHeading ? rows : [projections.map(heading).map(label => label.toLowerCase()).join(','), ...rows]).join('\n');
+    }
+    case 'table': {
+      const rows = resources.map(resource => projections.map(projection => cell(project(resource, projection))));
+      return resources.length === 0 ? '' : formatTable(rows, spec.noHeading ? undefined : projections.map(heading));
+    }
+  }
+};
+
+type Filter =
+  | { op: 'and' | 'or'; left: Filter; right: Filter }
+  | { op: 'not'; operand: Filter }
+  | { op: 'term'; key: string[]; operator: string; value: string };
+
+const OPERATORS = ['!=', '!~', '<=', '>=', '=', ':', '~', '<', '>'];
+
+const tokenizeFilter = (source: string) => {
+  const tokens: string[] = [];
+  let i = 0;
+  // The operand after an operator runs to the next space, so values such
+  // as URLs may contain operator characters.
+  let operand = false;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push(char);
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new FormatError(`Unterminated quoted string in [${source}].`);
+      }
+      tokens.push(`\0${source.slice(i + 1, end)}`);
+      i = end + 1;
+      operand = false;
+    } else if (operand) {
+      const word = source.slice(i).match(/^[^\s()]+/)![0];
+      tokens.push(word);
+      i += word.length;
+      operand = false;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (operator) {
+        tokens.push(operator);
+        i += operator.length;
+        operand = true;
+        continue;
+      }
+      let word = '';
+      while (i < source.length && !/[\s()]/.test(source[i]) && !OPERATORS.some(op => source.startsWith(op, i))) {
+        word += source[i++];
+      }
+      tokens.push(word);
+    }
+  }
+  return tokens;
+};
+
+// Parses a gcloud filter: terms joined by AND/OR (AND binds tighter, and is
+// implied between adjacent terms), NOT or `-` negation and parentheses.
+export const parseFilter = (source: string): Filter | null => {
+  const tokens = tokenizeFilter(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const text = (token: string) => token.startsWith('\0') ? token.slice(1) : token;
+
+  const primary = (): Filter => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new FormatError(`Term expected in [${source}].`);
+    }
+    if (token === 'NOT' || (token.startsWith('-') && token.length > 1 && !token.startsWith('\0'))) {
+      if (token !== 'NOT') {
+        tokens[--position] = token.slice(1);
+      }
+      return { op: 'not', operand: primary() };
+    }
+    if (token === '(') {
+      const inner = or();
+      if (tokens[position++] !== ')') {
+        throw new FormatError(`Unmatched ( in [${source}].`);
+      }
+      return inner;
+    }
+    const operator = tokens[position++];
+    if (!OPERATORS.includes(operator ?? '')) {
+      throw new FormatError(`Operator expected after [${text(token)}] in [${source}].`);
+    }
+    const value = tokens[position++];
+    if (value === undefined || value === '(' || value === ')') {
+      throw new FormatError(`Operand expected after [${text(token)}${operator}] in [${source}].`);
+    }
+    return { op: 'term', key: text(token).split('.'), operator, value: text(value) };
+  };
+
+  const and = (): Filter => {
+    let left = primary();
+    while (peek() !== undefined && peek() !== ')' && peek() !== 'OR') {
+      if (peek() === 'AND') {
+        position++;
+      }
+      left = { op: 'and', left, right: primary() };
+    }
+    return left;
+  };
+
+  const or = (): Filter => {
+    let left = and();
+    while (peek() === 'OR') {
+      position++;
+      left = { op: 'or', left, right: and() };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) {
+    return null;
+  }
+  const filter = or();
+  if (position < tokens.length) {
+    throw new FormatError(`Unexpected [${text(tokens[position])}] in [${source}].`);
+  }
+  return filter;
+};
+
+const glob = (pattern: string) => new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const compareScalar = (actual: unknown, operator: string, expected: string): boolean => {
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  if (typeof actual === 'object') {
+    return operator === ':' && expected === '*';
+  }
+  const value = String(actual);
+  switch (operator) {
+    case ':':
+      return expected === '*' || glob(expected).test(value) || value.split(/[\s/,;]+/).some(word => glob(expected).test(word));
+    case '=':
+      return glob(expected).test(value) || glob(expected).test(value.split('/').pop()!);
+    case '~':
+      return new RegExp(expected).test(value);
+    default: {
+      const numeric = value !== '' && !Number.isNaN(Number(value)) && !Number.isNaN(Number(expected));
+      const order = numeric ? Number(value) - Number(expected) : value.localeCompare(expected);
+      return operator === '<' ? order < 0 : operator === '<=' ? order <= 0 : operator === '>' ? order > 0 : order >= 0;
+    }
+  }
+};
+
+export const matchesFilter = (resource: Resource, filter: Filter | null): boolean => {
+  if (!filter) {
+    return true;
+  }
+  switch (filter.op) {
+    case 'and':
+      return matchesFilter(resource, filter.left) && matchesFilter(resource, filter.right);
+    case 'or':
+      return matchesFilter(resource, filter.left) || matchesFilter(resource, filter.right);
+    case 'not':
+      return !matchesFilter(resource, filter.operand);
+    case 'term': {
+      const value = lookup(resource, filter.key);
+      const negated = filter.operator === '!=' || filter.operator === '!~';
+      const operator = negated ? filter.operator.slice(1) : filter.operator;
+      if (operator === '~') {
+        try {
+          new RegExp(filter.value);
+        } catch {
+          throw new FormatError(`Invalid regular expression [${filter.value}].`);
+        }
+      }
+      const values = Array.isArray(value) ? value : [value];
+      const matched = values.some(item => compareScalar(item, operator, filter.value));
+      return negated ? !matched : matched;
+    }
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createFileSystem, FsError, getNode, makeDirectoryAt, normalizePath, readFileAt, removeAt, writeFileAt } from './fs';
+
+describe('normalizePath', () => {
+  it('resolves relative, home and parent segments', () => {
+    expect(normalizePath('/home/admin', 'a/../b/./c')).toBe('/home/admin/b/c');
+    expect(normalizePath('/tmp', '~/notes')).toBe('/home/admin/notes');
+    expect(normalizePath('/tmp', '../../..')).toBe('/');
+  });
+});
+
+describe('file system', () => {
+  it('writes and appends without touching the original tree', () => {
+    const root = createFileSystem();
+    const written = writeFileAt(writeFileAt(root, '/tmp/a.txt', 'one\n'), '/tmp/a.txt', 'two\n', true);
+    expect(readFileAt(written, '/tmp/a.txt')).toBe('one\ntwo\n');
+    expect(getNode(root, '/tmp/a.txt')).toBeUndefined();
+  });
+
+  it('makes parent directories only when asked', () => {
+    const root = createFileSystem();
+    expect(() => makeDirectoryAt(root, '/tmp/x/y')).toThrow(FsError);
+    expect(getNode(makeDirectoryAt(root, '/tmp/x/y', true), '/tmp/x/y')?.type).toBe('dir');
+  });
+
+  it('removes directories only recursively', () => {
+    const root = makeDirectoryAt(createFileSystem(), '/tmp/x');
+    expect(() => removeAt(root, '/tmp/x')).toThrow('Is a directory');
+    expect(getNode(removeAt(root, '/tmp/x', true), '/tmp/x')).toBeUndefined();
+  });
+});
@@ -0,0 +1,392 @@
+import type { SessionState } from './types';
+
+export interface FileNode {
+  type: 'file';
+  content: string;
+  mode: number;
+  mtime: number;
+  // Missing for files the system made; see ownerOf.
+  owner?: string;
+}
+
+export interface DirectoryNode {
+  type: 'dir';
+  children: Record<string, FsNode>;
+  mode: number;
+  mtime: number;
+  // Missing for directories the system made; see ownerOf.
+  owner?: string;
+}
+
+export type FsNode = FileNode | DirectoryNode;
+
+export type FsErrorCode = 'ENOENT' | 'EEXIST' | 'ENOTDIR' | 'EISDIR' | 'ENOTEMPTY' | 'EACCES' | 'EINVAL';
+
+const ERROR_MESSAGES: Record<FsErrorCode, string> = {
+  ENOENT: 'No such file or directory',
+  EEXIST: 'File exists',
+  ENOTDIR: 'Not a directory',
+  EISDIR: 'Is a directory',
+  ENOTEMPTY: 'Directory not empty',
+  EACCES: 'Permission denied',
+  EINVAL: 'Invalid argument',
+};
+
+export class FsError extends Error {
+  constructor(public code: FsErrorCode, public path: string) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'FsError';
+  }
+}
+
+export const file = (content = '', mode = 0o644, mtime = Date.now()): FileNode => ({
+  type: 'file',
+  content,
+  mode,
+  mtime,
+});
+
+export const directory = (children: Record<string, FsNode> = {}, mode = 0o755, mtime = Date.now()): DirectoryNode => ({
+  type: 'dir',
+  children,
+  mode,
+  mtime,
+});
+
+export const HOME = '/home/admin';
+
+// Reads as empty; whatever is written to it is discarded.
+export const DEV_NULL = '/dev/null';
+
+export const createFileSystem = (): DirectoryNode => directory({
+  dev: directory({ null: file('', 0o666) }),
+  etc: directory({
+    hostname: file('cloud-terminal'),
+    'os-release': file('NAME="Cloud-Terminal-OS"\nVERSION="1.0.0"\nID=cloudterm'),
+  }),
+  home: directory({
+    admin: directory({
+      Documents: directory(),
+      Downloads: directory(),
+      Pictures: directory(),
+      'config.yaml': file(`project: cloud-terminal
+region: us-central1
+zone: us-central1-a
+defaults:
+  instance_type: compute
+`),
+      'main.tf': file(`provider "cloud" {
+  region = "us-central1"
+}
+
+resource "cloud_instance" "web" {
+  name = "web"
+  type = "compute"
+}
+`),
+      'README.md': file('# Cloud Terminal\n\nWelcome! Type `help` to see available commands.\n'),
+    }),
+  }),
+  tmp: directory({}, 0o777),
+});
+
+// Root filesystem of a freshly booted instance with a single login user.
+export const createHostFileSystem = (hostname: string, user: string): DirectoryNode => directory({
+  dev: directory({ null: file('', 0o666) }),
+  etc: directory({
+    hostname: file(hostname),
+    'os-release': file('NAME="Cloud-Terminal-OS"\nVERSION="1.0.0"\nID=cloudterm'),
+  }),
+  home: directory({
+    [user]: directory({
+      '.bashrc': file('# ~/.bashrc\nexport PS1="\\u@\\h:\\w\\$ "\n'),
+    }),
+  }),
+  tmp: directory({}, 0o777),
+  var: directory({
+    log: directory(),
+  }),
+});
+
+export const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+export const joinPath = (...segments: string[]) => '/' + segments.flatMap(splitPath).join('/');
+
+export const dirname = (path: string) => joinPath(...splitPath(path).slice(0, -1));
+
+export const basename = (path: string) => splitPath(path).pop() ?? '/';
+
+export const normalizePath = (cwd: string, path: string, home = HOME) => {
+  let absolute = path;
+  if (path === '~' || path.startsWith('~/')) {
+    absolute = home + path.slice(1);
+  } else if (!path.startsWith('/')) {
+    absolute = `${cwd}/${path}`;
+  }
+  const segments: string[] = [];
+  for (const segment of splitPath(absolute)) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return '/' + segments.join('/');
+};
+
+export const displayPath = (path: string, home = HOME) => {
+  if (path === home) {
+    return '~';
+  }
+  return path.startsWith(`${home}/`) ? `~${path.slice(home.length)}` : path;
+};
+
+export const getNode = (root: DirectoryNode, path: string): FsNode | undefined => {
+  let node: FsNode = root;
+  for (const segment of splitPath(path)) {
+    if (node.type !== 'dir') {
+      return undefined;
+    }
+    node = node.children[segment];
+    if (!node) {
+      return undefined;
+    }
+  }
+  return node;
+};
+
+// Who may write a node with its owner bits: whoever created it, or for what
+// came with the system, the user whose home it is in and otherwise root.
+export const ownerOf = (node: FsNode, path: string) => {
+  const [top, name] = splitPath(path);
+  return node.owner ?? (top === 'home' && name ? name : 'root');
+};
+
+// Throws unless `user` may write the file at `path`, or create it there when it is missing.
+export const checkWritable = (root: DirectoryNode, path: string, user: string) => {
+  const existing = getNode(root, path);
+  const [node, nodePath] = existing ? [existing, path] : [getNode(root, dirname(path)), dirname(path)];
+  if (user === 'root' || !node) {
+    return;
+  }
+  if (!(node.mode & (ownerOf(node, nodePath) === user ? 0o200 : 0o002))) {
+    throw new FsError('EACCES', path);
+  }
+};
+
+const requireDirectory = (root: DirectoryNode, path: string): DirectoryNode => {
+  const node = getNode(root, path);
+  if (!node) {
+    throw new FsError('ENOENT', path);
+  }
+  if (node.type !== 'dir') {
+    throw new FsError('ENOTDIR', path);
+  }
+  return node;
+};
+
+// Returns a copy of `root` with the directory at `path` replaced by `update(directory)`.
+const updateDirectory = (
+  root: DirectoryNode,
+  path: string,
+  update: (directory: DirectoryNode) => DirectoryNode
+): DirectoryNode => {
+  const walk = (node: DirectoryNode, segments: string[], walked: string): DirectoryNode => {
+    if (segments.length === 0) {
+      return update(node);
+    }
+    const [head, ...rest] = segments;
+    const child = node.children[head];
+    const childPath = `${walked}/${head}`;
+    if (!child) {
+      throw new FsError('ENOENT', childPath);
+    }
+    if (child.type !== 'dir') {
+      throw new FsError('ENOTDIR', childPath);
+    }
+    return { ...node, children: { ...node.children, [head]: walk(child, rest, childPath) } };
+  };
+  return walk(root, splitPath(path), '');
+};
+
+const setChild = (root: DirectoryNode, path: string, node: FsNode | undefined, now = Date.now()) => {
+  const parent = dirname(path);
+  const name = basename(path);
+  return updateDirectory(root, parent, dir => {
+    if (!(dir.mode & 0o200)) {
+      throw new FsError('EACCES', path);
+    }
+    const children = { ...dir.children };
+    if (node) {
+      children[name] = node;
+    } else {
+      delete children[name];
+    }
+    return { ...dir, children, mtime: now };
+  });
+};
+
+export const readFileAt = (root: DirectoryNode, path: string) => {
+  const node = getNode(root, path);
+  if (!node) {
+    throw new FsError('ENOENT', path);
+  }
+  if (node.type === 'dir') {
+    throw new FsError('EISDIR', path);
+  }
+  if (!(node.mode & 0o400)) {
+    throw new FsError('EACCES', path);
+  }
+  return node.content;
+};
+
+export const writeFileAt = (root: DirectoryNode, path: string, content: string, append = false, owner?: string) => {
+  if (path === DEV_NULL) {
+    return root;
+  }
+  const existing = getNode(root, path);
+  if (existing?.type === 'dir') {
+    throw new FsError('EISDIR', path);
+  }
+  if (existing && !(existing.mode & 0o200)) {
+    throw new FsError('EACCES', path);
+  }
+  requireDirectory(root, dirname(path));
+  const next = append && existing ? existing.content + content : content;
+  const owned = existing ? existing.owner : owner;
+  return setChild(root, path, { ...file(next, existing?.mode), ...owned ? { owner: owned } : {} });
+};
+
+export const makeDirectoryAt = (root: DirectoryNode, path: string, parents = false) => {
+  const existing = getNode(root, path);
+  if (existing) {
+    if (parents && existing.type === 'dir') {
+      return root;
+    }
+    throw new FsError('EEXIST', path);
+  }
+  if (parents && path !== '/') {
+    root = makeDirectoryAt(root, dirname(path), true);
+  }
+  requireDirectory(root, dirname(path));
+  return setChild(root, path, directory());
+};
+
+export const touchAt = (root: DirectoryNode, path: string) => {
+  const existing = getNode(root, path);
+  if (!existing) {
+    requireDirectory(root, dirname(path));
+    return setChild(root, path, file());
+  }
+  return setChild(root, path, { ...existing, mtime: Date.now() });
+};
+
+export const removeAt = (root: DirectoryNode, path: string, recursive = false) => {
+  const existing = getNode(root, path);
+  if (!existing) {
+    throw new FsError('ENOENT', path);
+  }
+  if (existing.type === 'dir' && !recursive) {
+    throw new FsError('EISDIR', path);
+  }
+  if (path === '/') {
+    throw new FsError('EACCES', path);
+  }
+  return setChild(root, path, undefined);
+};
+
+export const removeDirectoryAt = (root: DirectoryNode, path: string) => {
+  const existing = requireDirectory(root, path);
+  if (Object.keys(existing.children).length > 0) {
+    throw new FsError('ENOTEMPTY', path);
+  }
+  return removeAt(root, path, true);
+};
+
+// Resolves the final destination for cp/mv: copying into an existing directory
+// keeps the source's basename, like the real tools.
+const resolveDestination = (root: DirectoryNode, source: string, destination: string) => {
+  const target = getNode(root, destination);
+  return target?.type === 'dir' ? joinPath(destination, basename(source)) : destination;
+};
+
+export const copyAt = (root: DirectoryNode, source: string, destination: string, recursive = false) => {
+  const node = getNode(root, source);
+  if (!node) {
+    throw new FsError('ENOENT', source);
+  }
+  if (node.type === 'dir' && !recursive) {
+    throw new FsError('EISDIR', source);
+  }
+  const target = resolveDestination(root, source, destination);
+  if (target === source || target.startsWith(`${source}/`)) {
+    throw new FsError('EINVAL', target);
+  }
+  if (getNode(root, target)?.type === 'dir' && node.type === 'file') {
+    throw new FsError('EISDIR', target);
+  }
+  requireDirectory(root, dirname(target));
+  return setChild(root, target, { ...node, mtime: Date.now() });
+};
+
+export const moveAt = (root: DirectoryNode, source: string, destination: string) => {
+  const node = getNode(root, source);
+  if (!node) {
+    throw new FsError('ENOENT', source);
+  }
+  const target = resolveDestination(root, source, destination);
+  if (target === source) {
+    return root;
+  }
+  if (target.startsWith(`${source}/`)) {
+    throw new FsError('EINVAL', target);
+  }
+  requireDirectory(root, dirname(target));
+  return setChild(removeAt(root, source, true), target, node);
+};
+
+export const chmodAt = (root: DirectoryNode, path: string, mode: number) => {
+  const node = getNode(root, path);
+  if (!node) {
+    throw new FsError('ENOENT', path);
+  }
+  if (path === '/') {
+    return { ...root, mode };
+  }
+  return setChild(root, path, { ...node, mode });
+};
+
+export const formatMode = (node: FsNode) => {
+  const bits = ['r', 'w', 'x'];
+  let mode = node.type === 'dir' ? 'd' : '-';
+  for (let shift = 8; shift >= 0; shift--) {
+    mode += node.mode & (1 << shift) ? bits[(8 - shift) % 3] : '-';
+  }
+  return mode;
+};
+
+export const nodeSize = (node: FsNode) => node.type === 'dir' ? 4096 : new TextEncoder().encode(node.content).length;
+
+export const resolve = (state: SessionState, path: string) => {
+  return normalizePath(state.currentPath, path, state.env.HOME || HOME);
+};
+
+export const readFile = (state: SessionState, path: string) => {
+  return readFileAt(state.fs, resolve(state, path));
+};
+
+// Writing as `user` checks their permissions and makes them the owner of a new file.
+export const writeFile = (state: SessionState, path: string, content: string, append = false, user?: string): SessionState => {
+  const target = resolve(state, path);
+  if (user) {
+    checkWritable(state.fs, target, user);
+  }
+  return { ...state, fs: writeFileAt(state.fs, target, content, append, user) };
+};
+
+export const formatFsError = (command: string, error: unknown, path?: string) => {
+  if (!(error instanceof FsError)) {
+    throw error;
+  }
+  return `${command}: ${path ?? error.path}: ${error.message}`;
+};
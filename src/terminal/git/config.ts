@@ -0,0 +1,87 @@
+// Reads and edits git's ini-style config files. Keys use git's dotted form,
+// e.g. `user.name` or `remote.origin.url`; section and variable names are
+// case-insensitive, subsection names are not.
+
+interface Section {
+  name: string;
+  subsection?: string;
+  entries: [string, string][];
+}
+
+const parseSections = (text: string) => {
+  const sections: Section[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    const header = line.match(/^\[([\w.-]+)(?:\s+"(.*)")?\]$/);
+    if (header) {
+      sections.push({ name: header[1].toLowerCase(), subsection: header[2], entries: [] });
+      continue;
+    }
+    const [name, ...value] = line.split('=');
+    sections[sections.length - 1]?.entries.push([name.trim().toLowerCase(), value.join('=').trim()]);
+  }
+  return sections;
+};
+
+const serialize = (sections: Section[]) => sections
+  .filter(section => section.entries.length > 0)
+  .map(section => [
+    section.subsection === undefined ? `[${section.name}]` : `[${section.name} "${section.subsection}"]`,
+    ...section.entries.map(([name, value]) => `\t${name} = ${value}`),
+  ].join('\n'))
+  .join('\n') + '\n';
+
+const splitKey = (key: string) => {
+  const parts = key.split('.');
+  if (parts.length < 2 || parts.some(part => !part)) {
+    return undefined;
+  }
+  return {
+    name: parts[0].toLowerCase(),
+    subsection: parts.length > 2 ? parts.slice(1, -1).join('.') : undefined,
+    variable: parts[parts.length - 1].toLowerCase(),
+  };
+};
+
+export const isValidKey = (key: string) => splitKey(key) !== undefined;
+
+export const parseConfig = (text: string): [string, string][] => parseSections(text).flatMap(section => {
+  const prefix = section.subsection === undefined ? section.name : `${section.name}.${section.subsection}`;
+  return section.entries.map(([name, value]): [string, string] => [`${prefix}.${name}`, value]);
+});
+
+export const getConfigValue = (text: string, key: string) => {
+  const parts = splitKey(key);
+  if (!parts) {
+    return undefined;
+  }
+  const normalized = [parts.name, parts.subsection, parts.variable].filter(part => part !== undefined).join('.');
+  return parseConfig(text).filter(([name]) => name === normalized).pop()?.[1];
+};
+
+export const setConfigValue = (text: string, key: string, value: string) => {
+  const parts = splitKey(key);
+  if (!parts) {
+    return text;
+  }
+  const sections = parseSections(text);
+  let section = sections.find(candidate => candidate.name === parts.name && candidate.subsection === parts.subsection);
+  if (!section) {
+    section = { name: parts.name, subsection: parts.subsection, entries: [] };
+    sections.push(section);
+  }
+  const existing = section.entries.find(([name]) => name === parts.variable);
+  if (existing) {
+    existing[1] = value;
+  } else {
+    section.entries.push([parts.variable, value]);
+  }
+  return serialize(sections);
+};
+
+export const unsetConfigSection = (text: string, name: string, subsection: string) => {
+  return serialize(parseSections(text).filter(section => section.name !== name || section.subsection !== subsection));
+};
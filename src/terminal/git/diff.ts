@@ -0,0 +1,192 @@
+export interface LineEdit {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+const CONTEXT = 3;
+
+export const splitLines = (content: string) => {
+  if (content === '') {
+    return [];
+  }
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+};
+
+// Line diff from the longest common subsequence, after trimming the shared
+// prefix and suffix so typical edits to large files stay cheap.
+export const diffLines = (a: string[], b: string[]): LineEdit[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const width = middleB.length + 1;
+  const lengths = new Uint32Array((middleA.length + 1) * width);
+  for (let i = middleA.length - 1; i >= 0; i--) {
+    for (let j = middleB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = middleA[i] === middleB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const edits: LineEdit[] = a.slice(0, start).map(line => ({ type: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      edits.push({ type: ' ', line: middleA[i] });
+      i++;
+      j++;
+    } else if (j < middleB.length && (i === middleA.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      edits.push({ type: '+', line: middleB[j++] });
+    } else {
+      edits.push({ type: '-', line: middleA[i++] });
+    }
+  }
+  // Git lists removals before additions within a change.
+  const ordered: LineEdit[] = [];
+  for (let k = 0; k < edits.length;) {
+    if (edits[k].type === ' ') {
+      ordered.push(edits[k++]);
+      continue;
+    }
+    const change: LineEdit[] = [];
+    while (k < edits.length && edits[k].type !== ' ') {
+      change.push(edits[k++]);
+    }
+    ordered.push(...change.filter(edit => edit.type === '-'), ...change.filter(edit => edit.type === '+'));
+  }
+  return [...ordered, ...a.slice(endA).map(line => ({ type: ' ' as const, line }))];
+};
+
+export const countChanges = (before: string, after: string) => {
+  const edits = diffLines(splitLines(before), splitLines(after));
+  return {
+    insertions: edits.filter(edit => edit.type === '+').length,
+    deletions: edits.filter(edit => edit.type === '-').length,
+  };
+};
+
+const range = (start: number, count: number) => {
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+};
+
+// The hunks of a unified diff with three lines of context.
+export const formatHunks = (before: string, after: string) => {
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const changed = edits.flatMap((edit, index) => edit.type === ' ' ? [] : [index]);
+  if (changed.length === 0) {
+    return [];
+  }
+
+  const groups: [number, number][] = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= CONTEXT * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  return groups.map(([first, last]) => {
+    const from = Math.max(0, first - CONTEXT);
+    const to = Math.min(edits.length - 1, last + CONTEXT);
+    const before = edits.slice(0, from);
+    const oldStart = before.filter(edit => edit.type !== '+').length;
+    const newStart = before.filter(edit => edit.type !== '-').length;
+    const hunk = edits.slice(from, to + 1);
+    const oldCount = hunk.filter(edit => edit.type !== '+').length;
+    const newCount = hunk.filter(edit => edit.type !== '-').length;
+    return [
+      `@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`,
+      ...hunk.map(edit => edit.type + edit.line),
+    ].join('\n');
+  });
+};
+
+export interface MergeResult {
+  content: string;
+  conflict: boolean;
+}
+
+// Maps each line of `base` kept by the diff to its index in the other side.
+const matches = (base: string[], other: string[]) => {
+  const map = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  for (const edit of diffLines(base, other)) {
+    if (edit.type === ' ') {
+      map.set(i++, j++);
+    } else if (edit.type === '-') {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return map;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+// Three-way line merge in the style of diff3: changes made on only one side
+// are taken, identical changes are taken once, and anything else becomes a
+// conflict block with the usual markers.
+export const mergeLines = (base: string, ours: string, theirs: string, theirLabel: string): MergeResult => {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatches = matches(baseLines, ourLines);
+  const theirMatches = matches(baseLines, theirLines);
+
+  const result: string[] = [];
+  let conflict = false;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i < baseLines.length || j < ourLines.length || k < theirLines.length) {
+    if (i < baseLines.length && ourMatches.get(i) === j && theirMatches.get(i) === k) {
+      result.push(baseLines[i]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+    let next = i;
+    while (next < baseLines.length && !(ourMatches.has(next) && theirMatches.has(next))) {
+      next++;
+    }
+    const nextOurs = next < baseLines.length ? ourMatches.get(next)! : ourLines.length;
+    const nextTheirs = next < baseLines.length ? theirMatches.get(next)! : theirLines.length;
+    const baseChunk = baseLines.slice(i, next);
+    const ourChunk = ourLines.slice(j, nextOurs);
+    const theirChunk = theirLines.slice(k, nextTheirs);
+
+    if (sameLines(baseChunk, ourChunk)) {
+      result.push(...theirChunk);
+    } else if (sameLines(baseChunk, theirChunk) || sameLines(ourChunk, theirChunk)) {
+      result.push(...ourChunk);
+    } else {
+      conflict = true;
+      result.push('<<<<<<< HEAD', ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${theirLabel}`);
+    }
+    i = next;
+    j = nextOurs;
+    k = nextTheirs;
+  }
+  return { content: result.length > 0 ? `${result.join('\n')}\n` : '', conflict };
+};
@@ -0,0 +1,114 @@
+import { directory, getNode, type DirectoryNode } from '../fs';
+import { Repository, type FileMap, type Signature } from './repository';
+
+// A small repository bundled with the app so `git clone` works offline. It
+// is rebuilt deterministically, so its commit ids never change.
+
+export const SAMPLE_REPOSITORY = 'sample-repo';
+
+const AUTHOR = { name: 'Cloud Sim', email: 'dev@cloudsim.example' };
+
+const README = `# sample-repo
+
+A tiny web service used to try out git in the Cloud Terminal Simulator.
+`;
+
+const README_CONFIG = `${README}
+## Configuration
+
+Set \`PORT\` to change the port the server listens on (default 8080).
+`;
+
+const SERVER = `const http = require('http');
+
+const port = process.env.PORT || 8080;
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('Hello from sample-repo\\n');
+});
+
+server.listen(port, () => {
+  console.log(\`Listening on port \${port}\`);
+});
+`;
+
+const SERVER_HEALTH = `const http = require('http');
+
+const port = process.env.PORT || 8080;
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/healthz') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok' }));
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('Hello from sample-repo\\n');
+});
+
+server.listen(port, () => {
+  console.log(\`Listening on port \${port}\`);
+});
+`;
+
+const packageJson = (version: string) => `{
+  "name": "sample-repo",
+  "version": "${version}",
+  "main": "src/server.js",
+  "scripts": {
+    "start": "node src/server.js"
+  }
+}
+`;
+
+let cached: DirectoryNode | undefined;
+
+export const sampleRepository = () => {
+  if (cached) {
+    return cached;
+  }
+  const repository = Repository.init(directory(), '/sample-repo');
+  const files: Record<string, FileMap> = {};
+
+  const commit = (branch: string, message: string, date: string, changes: Record<string, string>, merge?: string) => {
+    const parent = repository.readRef(`refs/heads/${branch}`);
+    const tree: FileMap = { ...(parent ? files[parent] : {}) };
+    for (const [path, content] of Object.entries(changes)) {
+      tree[path] = { id: repository.writeObject({ type: 'blob', content }), mode: '100644' };
+    }
+    const signature: Signature = { ...AUTHOR, time: Date.parse(date) / 1000 };
+    const id = repository.writeObject({
+      type: 'commit',
+      tree: repository.writeTree(tree),
+      parents: [parent, merge].filter((id): id is string => id !== undefined),
+      author: signature,
+      committer: signature,
+      message: `${message}\n`,
+    });
+    files[id] = tree;
+    repository.writeRef(`refs/heads/${branch}`, id);
+    return id;
+  };
+
+  commit('main', 'Initial commit', '2026-09-01T09:12:00Z', {
+    'README.md': README,
+    '.gitignore': 'node_modules/\n.env\n',
+  });
+  const base = commit('main', 'Add HTTP server', '2026-09-02T14:03:00Z', {
+    'src/server.js': SERVER,
+    'package.json': packageJson('1.0.0'),
+  });
+  repository.writeRef('refs/heads/feature/health-check', base);
+  const feature = commit('feature/health-check', 'Add /healthz endpoint', '2026-09-04T10:41:00Z', {
+    'src/server.js': SERVER_HEALTH,
+  });
+  commit('main', 'Document configuration', '2026-09-05T16:20:00Z', { 'README.md': README_CONFIG });
+  commit('main', "Merge branch 'feature/health-check'", '2026-09-07T11:05:00Z', {
+    'src/server.js': SERVER_HEALTH,
+  }, feature);
+  commit('main', 'Release 1.1.0', '2026-09-08T08:30:00Z', { 'package.json': packageJson('1.1.0') });
+
+  cached = getNode(repository.fs, repository.gitDir) as DirectoryNode;
+  return cached;
+};
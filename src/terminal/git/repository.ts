@@ -0,0 +1,599 @@
+import {
+  chmodAt,
+  getNode,
+  joinPath,
+  makeDirectoryAt,
+  removeAt,
+  removeDirectoryAt,
+  splitPath,
+  writeFileAt,
+  type DirectoryNode,
+  type FsNode,
+} from '../fs';
+import { sha1 } from './sha1';
+
+export class GitError extends Error {
+  constructor(message: string, public exitCode = 128) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+export type ObjectId = string;
+
+export interface TreeEntry {
+  mode: string;
+  name: string;
+  id: ObjectId;
+}
+
+export interface Signature {
+  name: string;
+  email: string;
+  // Seconds since the epoch, always in UTC.
+  time: number;
+}
+
+export interface Commit {
+  type: 'commit';
+  tree: ObjectId;
+  parents: ObjectId[];
+  author: Signature;
+  committer: Signature;
+  message: string;
+}
+
+export type GitObject =
+  | { type: 'blob'; content: string }
+  | { type: 'tree'; entries: TreeEntry[] }
+  | Commit;
+
+export interface IndexEntry {
+  id: ObjectId;
+  mode: string;
+}
+
+// Path (relative to the work tree root) to blob, for the index and for trees.
+export type FileMap = Record<string, IndexEntry>;
+
+export interface GitIndex {
+  entries: FileMap;
+  // Paths with an unresolved merge conflict.
+  conflicts: string[];
+}
+
+export interface FileChange {
+  path: string;
+  kind: 'new file' | 'modified' | 'deleted';
+}
+
+export interface RepositoryStatus {
+  // HEAD against the index.
+  staged: FileChange[];
+  // The index against the work tree.
+  unstaged: FileChange[];
+  untracked: string[];
+  conflicts: string[];
+}
+
+export interface Head {
+  branch?: string;
+  id?: ObjectId;
+}
+
+const encoder = new TextEncoder();
+
+const hexToBytes = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+
+const concat = (...arrays: Uint8Array[]) => {
+  const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+};
+
+const formatSignature = ({ name, email, time }: Signature) => `${name} <${email}> ${time} +0000`;
+
+// Git sorts tree entries by name, comparing directories as if they ended in '/'.
+const treeOrder = (a: TreeEntry, b: TreeEntry) => {
+  const key = (entry: TreeEntry) => entry.mode === '40000' ? `${entry.name}/` : entry.name;
+  return key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0;
+};
+
+// Object ids are the same SHA-1s real git computes for the same content.
+export const hashObject = (object: GitObject): ObjectId => {
+  let body: Uint8Array;
+  switch (object.type) {
+    case 'blob':
+      body = encoder.encode(object.content);
+      break;
+    case 'tree':
+      body = concat(...[...object.entries].sort(treeOrder).flatMap(entry => [
+        encoder.encode(`${entry.mode} ${entry.name}\0`),
+        hexToBytes(entry.id),
+      ]));
+      break;
+    case 'commit':
+      body = encoder.encode([
+        `tree ${object.tree}`,
+        ...object.parents.map(parent => `parent ${parent}`),
+        `author ${formatSignature(object.author)}`,
+        `committer ${formatSignature(object.committer)}`,
+        '',
+        object.message,
+      ].join('\n'));
+      break;
+  }
+  return sha1(concat(encoder.encode(`${object.type} ${body.length}\0`), body));
+};
+
+export const shortId = (id: ObjectId) => id.slice(0, 7);
+
+export const fileMode = (node: FsNode) => node.mode & 0o111 ? '100755' : '100644';
+
+// Matches paths against the patterns of the work tree's top-level .gitignore.
+const ignoreMatcher = (content: string) => {
+  const patterns = content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const directoryOnly = line.endsWith('/');
+      const pattern = line.replace(/^\//, '').replace(/\/$/, '');
+      const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+      return { anchored: pattern.includes('/') || line.startsWith('/'), directoryOnly, regexp: new RegExp(`^${source}$`) };
+    });
+
+  return (path: string) => {
+    const segments = splitPath(path);
+    return patterns.some(({ anchored, directoryOnly, regexp }) => {
+      if (anchored) {
+        return segments.some((_, index) => {
+          const prefix = segments.slice(0, index + 1).join('/');
+          return regexp.test(prefix) && (!directoryOnly || index < segments.length - 1);
+        });
+      }
+      return segments.some((segment, index) => regexp.test(segment) && (!directoryOnly || index < segments.length - 1));
+    });
+  };
+};
+
+// A repository inside the virtual filesystem. Objects, refs, the index and
+// config all live as files under `.git`, so they move, copy and disappear
+// with the directory. Operations update `fs`, which callers commit to state.
+export class Repository {
+  constructor(public fs: DirectoryNode, public readonly root: string) {}
+
+  get gitDir() {
+    return joinPath(this.root, '.git');
+  }
+
+  static find(fs: DirectoryNode, cwd: string) {
+    const segments = splitPath(cwd);
+    for (let length = segments.length; length >= 0; length--) {
+      const root = joinPath(...segments.slice(0, length));
+      if (getNode(fs, joinPath(root, '.git', 'HEAD'))?.type === 'file') {
+        return new Repository(fs, root);
+      }
+    }
+    return null;
+  }
+
+  static open(fs: DirectoryNode, cwd: string) {
+    const repository = Repository.find(fs, cwd);
+    if (!repository) {
+      throw new GitError('fatal: not a git repository (or any of the parent directories): .git');
+    }
+    return repository;
+  }
+
+  static init(fs: DirectoryNode, root: string, branch = 'main') {
+    let next = makeDirectoryAt(fs, root, true);
+    const gitDir = joinPath(root, '.git');
+    next = makeDirectoryAt(next, gitDir);
+    next = makeDirectoryAt(next, `${gitDir}/objects`);
+    next = makeDirectoryAt(next, `${gitDir}/refs`);
+    next = makeDirectoryAt(next, `${gitDir}/refs/heads`);
+    next = makeDirectoryAt(next, `${gitDir}/refs/tags`);
+    next = writeFileAt(next, `${gitDir}/HEAD`, `ref: refs/heads/${branch}\n`);
+    next = writeFileAt(next, `${gitDir}/config`, '[core]\n\trepositoryformatversion = 0\n\tfilemode = true\n\tbare = false\n');
+    next = writeFileAt(next, `${gitDir}/description`, "Unnamed repository; edit this file 'description' to name the repository.\n");
+    return new Repository(next, root);
+  }
+
+  readGitFile(path: string) {
+    const node = getNode(this.fs, joinPath(this.gitDir, path));
+    return node?.type === 'file' ? node.content : undefined;
+  }
+
+  writeGitFile(path: string, content: string) {
+    const target = joinPath(this.gitDir, path);
+    this.fs = writeFileAt(makeDirectoryAt(this.fs, joinPath(...splitPath(target).slice(0, -1)), true), target, content);
+  }
+
+  removeGitFile(path: string) {
+    const target = joinPath(this.gitDir, path);
+    if (getNode(this.fs, target)) {
+      this.fs = removeAt(this.fs, target);
+    }
+  }
+
+  // Objects
+
+  private objectPath(id: ObjectId) {
+    return `objects/${id.slice(0, 2)}/${id.slice(2)}`;
+  }
+
+  hasObject(id: ObjectId) {
+    return this.readGitFile(this.objectPath(id)) !== undefined;
+  }
+
+  readObject(id: ObjectId): GitObject {
+    const content = this.readGitFile(this.objectPath(id));
+    if (content === undefined) {
+      throw new GitError(`fatal: bad object ${id}`);
+    }
+    return JSON.parse(content) as GitObject;
+  }
+
+  writeObject(object: GitObject) {
+    const id = hashObject(object);
+    if (!this.hasObject(id)) {
+      this.writeGitFile(this.objectPath(id), JSON.stringify(object));
+    }
+    return id;
+  }
+
+  listObjects() {
+    const objects = getNode(this.fs, joinPath(this.gitDir, 'objects'));
+    if (objects?.type !== 'dir') {
+      return [];
+    }
+    return Object.entries(objects.children).flatMap(([prefix, node]) => {
+      return node.type === 'dir' ? Object.keys(node.children).map(rest => prefix + rest) : [];
+    });
+  }
+
+  readCommit(id: ObjectId): Commit {
+    const object = this.readObject(id);
+    if (object.type !== 'commit') {
+      throw new GitError(`fatal: ${shortId(id)} is not a commit`);
+    }
+    return object;
+  }
+
+  readBlob(id: ObjectId) {
+    const object = this.readObject(id);
+    return object.type === 'blob' ? object.content : '';
+  }
+
+  // Trees
+
+  flattenTree(id: ObjectId, prefix = ''): FileMap {
+    const object = this.readObject(id);
+    if (object.type !== 'tree') {
+      return {};
+    }
+    const files: FileMap = {};
+    for (const entry of object.entries) {
+      const path = prefix + entry.name;
+      if (entry.mode === '40000') {
+        Object.assign(files, this.flattenTree(entry.id, `${path}/`));
+      } else {
+        files[path] = { id: entry.id, mode: entry.mode };
+      }
+    }
+    return files;
+  }
+
+  writeTree(files: FileMap): ObjectId {
+    const children = new Map<string, FileMap>();
+    const entries: TreeEntry[] = [];
+    for (const [path, entry] of Object.entries(files)) {
+      const [name, ...rest] = path.split('/');
+      if (rest.length === 0) {
+        entries.push({ mode: entry.mode, name, id: entry.id });
+      } else {
+        children.set(name, { ...children.get(name), [rest.join('/')]: entry });
+      }
+    }
+    for (const [name, subtree] of children) {
+      entries.push({ mode: '40000', name, id: this.writeTree(subtree) });
+    }
+    return this.writeObject({ type: 'tree', entries: entries.sort(treeOrder) });
+  }
+
+  commitFiles(id: ObjectId | undefined): FileMap {
+    return id ? this.flattenTree(this.readCommit(id).tree) : {};
+  }
+
+  // Refs
+
+  readRef(name: string): ObjectId | undefined {
+    return this.readGitFile(name)?.trim() || undefined;
+  }
+
+  writeRef(name: string, id: ObjectId) {
+    this.writeGitFile(name, `${id}\n`);
+  }
+
+  deleteRef(name: string) {
+    this.removeGitFile(name);
+  }
+
+  listRefs(prefix: string): string[] {
+    const node = getNode(this.fs, joinPath(this.gitDir, prefix));
+    if (node?.type !== 'dir') {
+      return [];
+    }
+    return Object.entries(node.children).flatMap(([name, child]) => {
+      return child.type === 'dir' ? this.listRefs(`${prefix}/${name}`).map(ref => `${name}/${ref}`) : [name];
+    }).sort();
+  }
+
+  branches() {
+    return this.listRefs('refs/heads');
+  }
+
+  head(): Head {
+    const content = this.readGitFile('HEAD')?.trim() ?? '';
+    if (content.startsWith('ref: refs/heads/')) {
+      const branch = content.slice('ref: refs/heads/'.length);
+      return { branch, id: this.readRef(`refs/heads/${branch}`) };
+    }
+    return { id: content || undefined };
+  }
+
+  setHead(target: { branch: string } | { id: ObjectId }) {
+    this.writeGitFile('HEAD', 'branch' in target ? `ref: refs/heads/${target.branch}\n` : `${target.id}\n`);
+  }
+
+  // Moves whatever HEAD points at (the current branch, or HEAD itself when detached).
+  advanceHead(id: ObjectId) {
+    const { branch } = this.head();
+    if (branch) {
+      this.writeRef(`refs/heads/${branch}`, id);
+    } else {
+      this.setHead({ id });
+    }
+  }
+
+  // Resolves branch names, `origin/<branch>`, `HEAD`, `~n`/`^` suffixes and
+  // abbreviated object ids to a commit id.
+  resolve(revision: string): ObjectId | undefined {
+    const suffix = revision.match(/^(.*?)((?:[~^]\d*)+)$/);
+    if (suffix && suffix[1]) {
+      let id = this.resolve(suffix[1]);
+      for (const [, op, count] of suffix[2].matchAll(/([~^])(\d*)/g)) {
+        const steps = count === '' ? 1 : Number(count);
+        for (let i = 0; i < (op === '~' ? steps : 1) && id; i++) {
+          id = this.readCommit(id).parents[op === '^' && count ? steps - 1 : 0];
+        }
+      }
+      return id;
+    }
+    if (revision === 'HEAD' || revision === '@') {
+      return this.head().id;
+    }
+    for (const ref of [`refs/heads/${revision}`, `refs/remotes/${revision}`, `refs/tags/${revision}`, revision]) {
+      const id = this.readRef(ref);
+      if (id && /^[0-9a-f]{40}$/.test(id)) {
+        return id;
+      }
+    }
+    if (/^[0-9a-f]{4,40}$/.test(revision)) {
+      const matches = this.listObjects().filter(id => id.startsWith(revision));
+      if (matches.length > 1) {
+        throw new GitError(`error: short object ID ${revision} is ambiguous`);
+      }
+      return matches[0];
+    }
+    return undefined;
+  }
+
+  // Walks history from `starts`, newest first, visiting every commit once.
+  log(starts: ObjectId[]) {
+    const seen = new Set<ObjectId>();
+    const queue = starts.map(id => ({ id, commit: this.readCommit(id) }));
+    const result: { id: ObjectId; commit: Commit }[] = [];
+    while (queue.length > 0) {
+      queue.sort((a, b) => b.commit.committer.time - a.commit.committer.time);
+      const next = queue.shift()!;
+      if (seen.has(next.id)) {
+        continue;
+      }
+      seen.add(next.id);
+      result.push(next);
+      for (const parent of next.commit.parents) {
+        if (!seen.has(parent)) {
+          queue.push({ id: parent, commit: this.readCommit(parent) });
+        }
+      }
+    }
+    return result;
+  }
+
+  isAncestor(ancestor: ObjectId, descendant: ObjectId) {
+    return this.log([descendant]).some(entry => entry.id === ancestor);
+  }
+
+  mergeBase(a: ObjectId, b: ObjectId) {
+    const ancestors = new Set(this.log([a]).map(entry => entry.id));
+    return this.log([b]).find(entry => ancestors.has(entry.id))?.id;
+  }
+
+  // Index
+
+  readIndex(): GitIndex {
+    const content = this.readGitFile('index');
+    if (!content) {
+      return { entries: {}, conflicts: [] };
+    }
+    const index = JSON.parse(content) as Partial<GitIndex>;
+    return { entries: index.entries ?? {}, conflicts: index.conflicts ?? [] };
+  }
+
+  writeIndex(index: GitIndex) {
+    this.writeGitFile('index', JSON.stringify(index));
+  }
+
+  // Work tree
+
+  private absolute(path: string) {
+    return joinPath(this.root, path);
+  }
+
+  // Every file under the work tree (outside .git), keyed by relative path.
+  workTree(): Record<string, { content: string; mode: string }> {
+    const files: Record<string, { content: string; mode: string }> = {};
+    const walk = (node: DirectoryNode, prefix: string) => {
+      for (const [name, child] of Object.entries(node.children)) {
+        if (!prefix && name === '.git') {
+          continue;
+        }
+        if (child.type === 'dir') {
+          walk(child, `${prefix}${name}/`);
+        } else {
+          files[prefix + name] = { content: child.content, mode: fileMode(child) };
+        }
+      }
+    };
+    const root = getNode(this.fs, this.root);
+    if (root?.type === 'dir') {
+      walk(root, '');
+    }
+    return files;
+  }
+
+  isIgnored(path: string) {
+    const gitignore = getNode(this.fs, this.absolute('.gitignore'));
+    return gitignore?.type === 'file' && ignoreMatcher(gitignore.content)(path);
+  }
+
+  writeWorkTreeFile(path: string, content: string, mode = '100644') {
+    const target = this.absolute(path);
+    const parent = joinPath(...splitPath(target).slice(0, -1));
+    this.fs = writeFileAt(makeDirectoryAt(this.fs, parent, true), target, content);
+    this.fs = chmodAt(this.fs, target, mode === '100755' ? 0o755 : 0o644);
+  }
+
+  // Removes a file and any directories the removal leaves empty.
+  removeWorkTreeFile(path: string) {
+    const target = this.absolute(path);
+    if (!getNode(this.fs, target)) {
+      return;
+    }
+    this.fs = removeAt(this.fs, target);
+    let parent = splitPath(target).slice(0, -1);
+    while (parent.length > splitPath(this.root).length) {
+      const node = getNode(this.fs, joinPath(...parent));
+      if (node?.type !== 'dir' || Object.keys(node.children).length > 0) {
+        break;
+      }
+      this.fs = removeDirectoryAt(this.fs, joinPath(...parent));
+      parent = parent.slice(0, -1);
+    }
+  }
+
+  status(): RepositoryStatus {
+    const head = this.commitFiles(this.head().id);
+    const index = this.readIndex();
+    const work = this.workTree();
+    const conflicts = new Set(index.conflicts);
+
+    const compare = (from: FileMap, to: Record<string, { id: ObjectId; mode: string }>) => {
+      const changes: FileChange[] = [];
+      for (const path of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (conflicts.has(path)) {
+          continue;
+        }
+        if (!to[path]) {
+          changes.push({ path, kind: 'deleted' });
+        } else if (!from[path]) {
+          changes.push({ path, kind: 'new file' });
+        } else if (from[path].id !== to[path].id || from[path].mode !== to[path].mode) {
+          changes.push({ path, kind: 'modified' });
+        }
+      }
+      return changes.sort((a, b) => a.path < b.path ? -1 : 1);
+    };
+
+    const tracked = Object.fromEntries(Object.entries(work)
+      .filter(([path]) => index.entries[path])
+      .map(([path, { content, mode }]) => [path, { id: hashObject({ type: 'blob', content }), mode }]));
+    const untracked = Object.keys(work)
+      .filter(path => !index.entries[path] && !conflicts.has(path) && !this.isIgnored(path));
+
+    // Like git, an untracked directory is listed once rather than file by file.
+    const trackedPaths = Object.keys(index.entries);
+    const collapsed = new Set(untracked.map(path => {
+      const segments = path.split('/');
+      for (let length = 1; length < segments.length; length++) {
+        const prefix = `${segments.slice(0, length).join('/')}/`;
+        if (!trackedPaths.some(tracked => tracked.startsWith(prefix))) {
+          return prefix;
+        }
+      }
+      return path;
+    }));
+
+    return {
+      staged: compare(head, index.entries),
+      unstaged: compare(index.entries, tracked).filter(change => change.kind !== 'new file'),
+      untracked: [...collapsed].sort(),
+      conflicts: [...conflicts].sort(),
+    };
+  }
+
+  // Moves the work tree and index from the HEAD commit's files to `target`'s.
+  // Local changes to paths that are the same in both are carried over; the
+  // switch is refused if it would overwrite changes or untracked files.
+  checkout(target: FileMap, operation: 'checkout' | 'merge' = 'checkout') {
+    const current = this.commitFiles(this.head().id);
+    const index = this.readIndex();
+    const work = this.workTree();
+    const changed = [...new Set([...Object.keys(current), ...Object.keys(target)])]
+      .filter(path => current[path]?.id !== target[path]?.id || current[path]?.mode !== target[path]?.mode)
+      .sort();
+
+    const dirty = changed.filter(path => {
+      const base = current[path]?.id;
+      const file = work[path];
+      const fileId = file && hashObject({ type: 'blob', content: file.content });
+      return index.entries[path]?.id !== base || (base !== undefined && fileId !== base);
+    });
+    if (dirty.length > 0) {
+      throw new GitError([
+        `error: Your local changes to the following files would be overwritten by ${operation}:`,
+        ...dirty.map(path => `\t${path}`),
+        `Please commit your changes or stash them before you ${operation === 'merge' ? 'merge' : 'switch branches'}.`,
+        'Aborting',
+      ].join('\n'), 1);
+    }
+    const untracked = changed.filter(path => !current[path] && work[path] && !index.entries[path]
+      && hashObject({ type: 'blob', content: work[path].content }) !== target[path]?.id);
+    if (untracked.length > 0) {
+      throw new GitError([
+        `error: The following untracked working tree files would be overwritten by ${operation}:`,
+        ...untracked.map(path => `\t${path}`),
+        `Please move or remove them before you ${operation === 'merge' ? 'merge' : 'switch branches'}.`,
+        'Aborting',
+      ].join('\n'), 1);
+    }
+
+    const entries = { ...index.entries };
+    for (const path of changed) {
+      if (target[path]) {
+        this.writeWorkTreeFile(path, this.readBlob(target[path].id), target[path].mode);
+        entries[path] = target[path];
+      } else {
+        this.removeWorkTreeFile(path);
+        delete entries[path];
+      }
+    }
+    this.writeIndex({ entries, conflicts: [] });
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { sha1 } from './sha1';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('sha1', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha1(encode(''))).toBe('da39a3ee5e6b4b0d3255bfef95601890afd80709');
+    expect(sha1(encode('abc'))).toBe('a9993e364706816aba3e25717850c26c9cd0d89d');
+    expect(sha1(encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))
+      .toBe('84983e441c3bd26ebaae4aa1f95129e5e54670f1');
+  });
+
+  it('hashes git blob headers like git does', () => {
+    expect(sha1(encode('blob 6\x00hello\n'))).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+  });
+});
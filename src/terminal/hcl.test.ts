@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { HclError, parseHcl } from './hcl';
+
+describe('parseHcl', () => {
+  it('reads blocks, labels and attributes', () => {
+    const [block] = parseHcl([
+      'resource "compute_instance" "web" {',
+      '  name  = "web-1"',
+      '  count = 2',
+      '  tags  = ["a", "b"]',
+      '  zone  = var.zone',
+      '  label = "web-${count.index}"',
+      '  boot_disk {',
+      '    size = 20',
+      '  }',
+      '}',
+    ].join('\n'));
+    expect(block.type).toBe('resource');
+    expect(block.labels).toEqual(['compute_instance', 'web']);
+    expect(block.attributes.name).toBe('web-1');
+    expect(block.attributes.count).toBe(2);
+    expect(block.attributes.tags).toEqual(['a', 'b']);
+    expect(block.attributes.zone).toEqual({ kind: 'reference', path: ['var', 'zone'] });
+    expect(block.attributes.label).toEqual({ kind: 'template', parts: ['web-', { kind: 'reference', path: ['count', 'index'] }] });
+    expect(block.blocks[0]).toMatchObject({ type: 'boot_disk', attributes: { size: 20 }, line: 7 });
+  });
+
+  it('reports the line of a syntax error', () => {
+    try {
+      parseHcl('variable "a" {\n  default = \n}');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(HclError);
+      expect((error as HclError).line).toBe(2);
+    }
+  });
+});
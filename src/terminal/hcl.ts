@@ -0,0 +1,324 @@
+// A parser for the subset of HCL used by Terraform configurations: blocks
+// with labels, attributes, strings (with `${...}` templates), numbers,
+// booleans, lists, objects, references like `var.region` and function calls.
+
+export type HclValue =
+  | string
+  | number
+  | boolean
+  | null
+  | HclValue[]
+  | { [key: string]: HclValue }
+  | HclExpression;
+
+export type HclExpression =
+  | { kind: 'reference'; path: string[] }
+  | { kind: 'call'; name: string; args: HclValue[] }
+  | { kind: 'template'; parts: (string | HclExpression)[] };
+
+export interface HclBlock {
+  type: string;
+  labels: string[];
+  attributes: Record<string, HclValue>;
+  blocks: HclBlock[];
+  line: number;
+}
+
+export class HclError extends Error {
+  constructor(message: string, public line: number, public detail = '') {
+    super(message);
+    this.name = 'HclError';
+  }
+}
+
+type TokenType = 'identifier' | 'string' | 'number' | 'symbol' | 'newline' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  // Raw template parts for strings containing `${...}`.
+  parts?: (string | { source: string })[];
+}
+
+const EXPRESSION_KINDS = ['reference', 'call', 'template'];
+
+export const isExpression = (value: HclValue): value is HclExpression => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && EXPRESSION_KINDS.includes(value.kind as string) && ('path' in value || 'args' in value || 'parts' in value);
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+
+const tokenize = (source: string, firstLine = 1): Token[] => {
+  const tokens: Token[] = [];
+  let line = firstLine;
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\n') {
+      tokens.push({ type: 'newline', value: '\n', line });
+      line++;
+      i++;
+    } else if (char === ' ' || char === '\t' || char === '\r') {
+      i++;
+    } else if (char === '#' || (char === '/' && source[i + 1] === '/')) {
+      while (i < source.length && source[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new HclError('Unterminated comment', line, 'A comment was opened with /* but never closed.');
+      }
+      line += source.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+    } else if (char === '"') {
+      const start = line;
+      const parts: (string | { source: string })[] = [];
+      let text = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\n') {
+          throw new HclError('Invalid multi-line string', start, 'Quoted strings may not be split over multiple lines.');
+        }
+        if (source[i] === '\\') {
+          text += ESCAPES[source[i + 1]] ?? source[i + 1];
+          i += 2;
+        } else if (source[i] === '$' && source[i + 1] === '{') {
+          const end = source.indexOf('}', i);
+          if (end === -1) {
+            throw new HclError('Invalid expression', start, 'A template interpolation was opened with ${ but never closed.');
+          }
+          if (text) {
+            parts.push(text);
+          }
+          text = '';
+          parts.push({ source: source.slice(i + 2, end) });
+          i = end + 1;
+        } else {
+          text += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new HclError('Unterminated template string', start, 'No closing marker was found for the string.');
+      }
+      i++;
+      if (parts.length > 0) {
+        if (text) {
+          parts.push(text);
+        }
+        tokens.push({ type: 'string', value: '', line: start, parts });
+      } else {
+        tokens.push({ type: 'string', value: text, line: start });
+      }
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^-?\d+(\.\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], line });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_][\w-]*/)!;
+      tokens.push({ type: 'identifier', value: match[0], line });
+      i += match[0].length;
+    } else if ('{}[]()=,.:'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, line });
+      i++;
+    } else {
+      throw new HclError('Invalid character', line, `This character is not used within the language: ${JSON.stringify(char)}.`);
+    }
+  }
+  tokens.push({ type: 'eof', value: '', line });
+  return tokens;
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek() {
+    return this.tokens[this.position];
+  }
+
+  private next() {
+    return this.tokens[this.position++];
+  }
+
+  private skipNewlines() {
+    while (this.peek().type === 'newline') {
+      this.position++;
+    }
+  }
+
+  private expect(value: string, summary: string, detail: string) {
+    const token = this.next();
+    if (token.value !== value || (token.type !== 'symbol')) {
+      throw new HclError(summary, token.line, detail);
+    }
+    return token;
+  }
+
+  body(closing: boolean) {
+    const attributes: Record<string, HclValue> = {};
+    const blocks: HclBlock[] = [];
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (token.type === 'eof') {
+        if (closing) {
+          throw new HclError('Unclosed configuration block', token.line,
+            'There is no closing brace for this block before the end of the file.');
+        }
+        return { attributes, blocks };
+      }
+      if (token.type === 'symbol' && token.value === '}' && closing) {
+        this.next();
+        return { attributes, blocks };
+      }
+      if (token.type !== 'identifier') {
+        throw new HclError('Argument or block definition required', token.line,
+          'An argument or block definition is required here.');
+      }
+      this.next();
+      if (this.peek().type === 'symbol' && this.peek().value === '=') {
+        this.next();
+        if (token.value in attributes) {
+          throw new HclError('Attribute redefined', token.line,
+            `The argument "${token.value}" was already set. Each argument may be set only once.`);
+        }
+        attributes[token.value] = this.expression();
+        const end = this.peek();
+        if (end.type !== 'newline' && end.type !== 'eof' && !(end.type === 'symbol' && end.value === '}')) {
+          throw new HclError('Missing newline after argument', end.line,
+            'An argument definition must end with a newline.');
+        }
+        continue;
+      }
+      const labels: string[] = [];
+      while (this.peek().type === 'string' || this.peek().type === 'identifier') {
+        const label = this.next();
+        if (label.parts) {
+          throw new HclError('Invalid block label', label.line, 'Block labels cannot contain template sequences.');
+        }
+        labels.push(label.value);
+      }
+      this.expect('{', 'Invalid block definition', 'Either a quoted string block label or an opening brace ("{") is expected here.');
+      const body = this.body(true);
+      blocks.push({ type: token.value, labels, ...body, line: token.line });
+    }
+  }
+
+  private expression(): HclValue {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+        return token.parts ? this.template(token) : token.value;
+      case 'number':
+        return Number(token.value);
+      case 'identifier':
+        return this.identifier(token);
+      case 'symbol':
+        if (token.value === '[') {
+          return this.list();
+        }
+        if (token.value === '{') {
+          return this.object();
+        }
+    }
+    throw new HclError('Invalid expression', token.line, 'Expected the start of an expression, but found an invalid expression token.');
+  }
+
+  private identifier(token: Token): HclValue {
+    if (token.value === 'true' || token.value === 'false') {
+      return token.value === 'true';
+    }
+    if (token.value === 'null') {
+      return null;
+    }
+    if (this.peek().type === 'symbol' && this.peek().value === '(') {
+      this.next();
+      const args: HclValue[] = [];
+      this.skipNewlines();
+      while (!(this.peek().type === 'symbol' && this.peek().value === ')')) {
+        args.push(this.expression());
+        this.skipNewlines();
+        if (this.peek().type === 'symbol' && this.peek().value === ',') {
+          this.next();
+          this.skipNewlines();
+        } else if (!(this.peek().type === 'symbol' && this.peek().value === ')')) {
+          throw new HclError('Missing argument separator', this.peek().line, 'A comma is required to separate each function argument from the next.');
+        }
+      }
+      this.next();
+      return { kind: 'call', name: token.value, args };
+    }
+    const path = [token.value];
+    while (this.peek().type === 'symbol' && this.peek().value === '.') {
+      this.next();
+      const part = this.next();
+      if (part.type !== 'identifier') {
+        throw new HclError('Invalid attribute name', part.line, 'An attribute name is required after a dot.');
+      }
+      path.push(part.value);
+    }
+    return { kind: 'reference', path };
+  }
+
+  private template(token: Token): HclExpression {
+    return {
+      kind: 'template',
+      parts: token.parts!.map(part => {
+        if (typeof part === 'string') {
+          return part;
+        }
+        const parser = new Parser(tokenize(part.source, token.line));
+        const value = parser.expression();
+        if (!isExpression(value)) {
+          return String(value);
+        }
+        return value;
+      }),
+    };
+  }
+
+  private list(): HclValue[] {
+    const items: HclValue[] = [];
+    this.skipNewlines();
+    while (!(this.peek().type === 'symbol' && this.peek().value === ']')) {
+      items.push(this.expression());
+      this.skipNewlines();
+      if (this.peek().type === 'symbol' && this.peek().value === ',') {
+        this.next();
+        this.skipNewlines();
+      } else if (!(this.peek().type === 'symbol' && this.peek().value === ']')) {
+        throw new HclError('Missing item separator', this.peek().line, 'Expected a comma to mark the beginning of the next item.');
+      }
+    }
+    this.next();
+    return items;
+  }
+
+  private object(): Record<string, HclValue> {
+    const entries: Record<string, HclValue> = {};
+    this.skipNewlines();
+    while (!(this.peek().type === 'symbol' && this.peek().value === '}')) {
+      const key = this.next();
+      if (key.type !== 'identifier' && key.type !== 'string') {
+        throw new HclError('Invalid object key', key.line, 'An object key must be a name or a quoted string.');
+      }
+      const separator = this.next();
+      if (separator.type !== 'symbol' || (separator.value !== '=' && separator.value !== ':')) {
+        throw new HclError('Missing key/value separator', separator.line, 'Expected an equals sign ("=") to mark the beginning of the attribute value.');
+      }
+      entries[key.value] = this.expression();
+      if (this.peek().type === 'symbol' && this.peek().value === ',') {
+        this.next();
+      }
+      this.skipNewlines();
+    }
+    this.next();
+    return entries;
+  }
+}
+
+export const parseHcl = (source: string): HclBlock[] => new Parser(tokenize(source)).body(false).blocks;
@@ -0,0 +1,23 @@
+import { categoryLabel, commandSummary, type Locale } from './i18n';
+import type { CommandRegistry } from './registry';
+import type { CommandCategory, CommandDefinition } from './types';
+
+export const formatUsage = (definition: CommandDefinition) => {
+  return definition.usage.map(line => `  - ${line.usage}: ${line.description}`).join('\n');
+};
+
+// Every command's usage in English. Other locales list each command with its
+// translated summary instead, as the usage lines are mostly the syntax to type.
+export const formatHelp = (registry: CommandRegistry, categories?: CommandCategory[], locale: Locale = 'en') => {
+  const sections: string[] = [];
+  registry.byCategory().forEach((definitions, category) => {
+    if (definitions.length === 0 || (categories && !categories.includes(category))) {
+      return;
+    }
+    const lines = locale === 'en'
+      ? definitions.map(formatUsage)
+      : definitions.map(definition => `  - ${definition.name}: ${commandSummary(locale, definition)}`);
+    sections.push(`${categoryLabel(locale, category)}:\n${lines.join('\n')}`);
+  });
+  return sections.join('\n\n');
+};
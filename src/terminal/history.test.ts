@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { addToHistory, expandHistory, searchHistory } from './history';
+
+const history = ['ls -la', 'git status', 'echo done'];
+
+describe('expandHistory', () => {
+  it('expands event designators', () => {
+    expect(expandHistory('sudo !!', history)).toEqual({ ok: true, line: 'sudo echo done', expanded: true });
+    expect(expandHistory('!1', history)).toEqual({ ok: true, line: 'ls -la', expanded: true });
+    expect(expandHistory('!-2', history)).toEqual({ ok: true, line: 'git status', expanded: true });
+    expect(expandHistory('!git', history)).toEqual({ ok: true, line: 'git status', expanded: true });
+    expect(expandHistory('!?sta?', history)).toEqual({ ok: true, line: 'git status', expanded: true });
+  });
+
+  it('leaves single-quoted and escaped text alone', () => {
+    expect(expandHistory("echo '!!'", history)).toEqual({ ok: true, line: "echo '!!'", expanded: false });
+    expect(expandHistory('echo \\!!', history)).toEqual({ ok: true, line: 'echo \\!!', expanded: false });
+  });
+
+  it('treats an apostrophe inside double quotes as text', () => {
+    expect(expandHistory(`echo "it's" !!`, history)).toEqual({ ok: true, line: `echo "it's" echo done`, expanded: true });
+    expect(expandHistory(`echo "it's !!"`, history)).toEqual({ ok: true, line: `echo "it's echo done"`, expanded: true });
+    expect(expandHistory(`echo '"' !!`, history)).toEqual({ ok: true, line: `echo '"' echo done`, expanded: true });
+  });
+
+  it('reports unknown events', () => {
+    expect(expandHistory('!nothing', history)).toEqual({ ok: false, error: 'bash: !nothing: event not found' });
+  });
+});
+
+describe('addToHistory', () => {
+  it('skips blank lines and immediate repeats', () => {
+    expect(addToHistory(history, ' ')).toBe(history);
+    expect(addToHistory(history, 'echo done')).toBe(history);
+    expect(addToHistory(history, 'pwd')).toEqual([...history, 'pwd']);
+  });
+});
+
+describe('searchHistory', () => {
+  it('finds the latest match before the given entry', () => {
+    expect(searchHistory(history, 's')).toBe(1);
+    expect(searchHistory(history, 's', 1)).toBe(0);
+    expect(searchHistory(history, 'nothing')).toBe(-1);
+  });
+});
@@ -0,0 +1,80 @@
+export const HISTORY_SIZE = 1000;
+
+export type HistoryExpansion =
+  | { ok: true; line: string; expanded: boolean }
+  | { ok: false; error: string };
+
+// Appends like bash with HISTCONTROL=ignoredups: blank lines and immediate
+// repeats of the previous entry are not recorded.
+export const addToHistory = (history: string[], line: string) => {
+  if (!line.trim() || history[history.length - 1] === line) {
+    return history;
+  }
+  return [...history, line].slice(-HISTORY_SIZE);
+};
+
+const resolveEvent = (history: string[], designator: string): string | undefined => {
+  if (designator === '!') {
+    return history[history.length - 1];
+  }
+  if (/^-\d+$/.test(designator)) {
+    return history[history.length + parseInt(designator, 10)];
+  }
+  if (/^\d+$/.test(designator)) {
+    return history[parseInt(designator, 10) - 1];
+  }
+  if (designator.startsWith('?')) {
+    const needle = designator.slice(1).replace(/\?$/, '');
+    return [...history].reverse().find(entry => entry.includes(needle));
+  }
+  return [...history].reverse().find(entry => entry.startsWith(designator));
+};
+
+const EVENT = /^!(!|-?\d+|\?[^?\s]*\??|[^\s!=()'"|;&<>]+)/;
+
+// Expands `!!`, `!n`, `!-n`, `!prefix` and `!?text?` event designators outside
+// single quotes. An apostrophe inside double quotes, as in `"it's"`, is text.
+export const expandHistory = (line: string, history: string[]): HistoryExpansion => {
+  let result = '';
+  let expanded = false;
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "'" && !inDoubleQuote) {
+      inSingleQuote = !inSingleQuote;
+    } else if (char === '"' && !inSingleQuote) {
+      inDoubleQuote = !inDoubleQuote;
+    } else if (char === '\\' && !inSingleQuote) {
+      result += char + (line[i + 1] ?? '');
+      i++;
+      continue;
+    } else if (char === '!' && !inSingleQuote) {
+      const match = EVENT.exec(line.slice(i));
+      if (match) {
+        const event = resolveEvent(history, match[1]);
+        if (event === undefined) {
+          return { ok: false, error: `bash: ${match[0]}: event not found` };
+        }
+        result += event;
+        expanded = true;
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    result += char;
+  }
+
+  return { ok: true, line: result, expanded };
+};
+
+// Finds the most recent entry before `before` that contains `query`, as Ctrl+R does.
+export const searchHistory = (history: string[], query: string, before = history.length) => {
+  for (let index = Math.min(before, history.length) - 1; index >= 0; index--) {
+    if (history[index].includes(query)) {
+      return index;
+    }
+  }
+  return -1;
+};
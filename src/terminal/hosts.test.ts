@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  broadcastAddress,
+  checkFirewall,
+  cidrContains,
+  cidrsOverlap,
+  gatewayAddress,
+  NetworkError,
+  netmask,
+  parseCidr,
+  parsePermissions,
+} from './hosts';
+import { createInitialState } from './state';
+import type { FirewallRule, Instance, SessionState } from './types';
+
+describe('CIDR ranges', () => {
+  it('accept only aligned ranges', () => {
+    expect(parseCidr('10.0.0.0/16')).toEqual({ base: 10 * 2 ** 24, prefix: 16, size: 65536 });
+    expect(parseCidr('10.0.1.0/16')).toBeNull();
+    expect(parseCidr('10.0.0.0/33')).toBeNull();
+    expect(parseCidr('10.0.0/8')).toBeNull();
+  });
+
+  it('describe their addresses', () => {
+    expect(cidrContains('10.128.0.0/9', '10.200.3.4')).toBe(true);
+    expect(cidrContains('10.128.0.0/9', '10.0.3.4')).toBe(false);
+    expect(cidrsOverlap('10.5.0.0/16', '10.5.1.0/24')).toBe(true);
+    expect(cidrsOverlap('10.5.0.0/16', '10.6.0.0/16')).toBe(false);
+    expect(netmask('10.5.1.0/24')).toBe('255.255.255.0');
+    expect(gatewayAddress('10.5.1.0/24')).toBe('10.5.1.1');
+    expect(broadcastAddress('10.5.1.0/24')).toBe('10.5.1.255');
+  });
+});
+
+describe('parsePermissions', () => {
+  it('groups ports by protocol', () => {
+    expect(parsePermissions('tcp:22,tcp:8000-8080,icmp')).toEqual([
+      { protocol: 'tcp', ports: ['22', '8000-8080'] },
+      { protocol: 'icmp', ports: [] },
+    ]);
+  });
+
+  it('rejects unknown protocols and bad ports', () => {
+    expect(() => parsePermissions('smtp')).toThrow(NetworkError);
+    expect(() => parsePermissions('icmp:8')).toThrow('ports can only be given for tcp and udp');
+    expect(() => parsePermissions('tcp:90-80')).toThrow("invalid port '90-80'");
+  });
+});
+
+describe('checkFirewall', () => {
+  const web: Instance = { id: 'i-1', name: 'web', type: 'compute', status: 'running', createdAt: 0 };
+  const deny: FirewallRule = {
+    id: 'fw-1',
+    name: 'block-web',
+    network: 'default',
+    priority: 100,
+    action: 'deny',
+    rules: [{ protocol: 'tcp', ports: ['80'] }],
+    sourceRanges: ['0.0.0.0/0'],
+    targetTags: [],
+    createdAt: 0,
+  };
+  const initial = (): SessionState => ({ ...createInitialState(), instances: [web] });
+
+  it('allows what the default rules allow', () => {
+    expect(checkFirewall(initial(), web, 'tcp', 80).allowed).toBe(true);
+    expect(checkFirewall(initial(), web, 'tcp', 22).allowed).toBe(true);
+    expect(checkFirewall(initial(), web, 'tcp', 5432).allowed).toBe(false);
+  });
+
+  it('lets a higher priority deny rule win', () => {
+    const state = initial();
+    const blocked = { ...state, firewallRules: [...state.firewallRules, deny] };
+    expect(checkFirewall(blocked, web, 'tcp', 80)).toEqual({ allowed: false, rule: deny });
+    expect(checkFirewall(blocked, web, 'tcp', 443).allowed).toBe(true);
+  });
+
+  it('only applies tagged rules to instances with the tag', () => {
+    const state = initial();
+    const tagged = { ...state, firewallRules: [...state.firewallRules, { ...deny, targetTags: ['locked'] }] };
+    expect(checkFirewall(tagged, web, 'tcp', 80).allowed).toBe(true);
+    expect(checkFirewall(tagged, { ...web, tags: ['locked'] }, 'tcp', 80).allowed).toBe(false);
+  });
+});
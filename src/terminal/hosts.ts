@@ -0,0 +1,362 @@
+import { DEFAULT_ZONE, PROJECT, regionOf } from './compute';
+import { isAvailable } from './lifecycle';
+import { hashString } from './metrics';
+import type { FirewallPermission, FirewallRule, Instance, InstanceType, Network, SessionState, Subnet } from './types';
+
+// The simulated network: VPCs split into regional subnets that hand out
+// addresses to instances, firewall rules deciding which packets reach an
+// instance, and the paths packets take to get there.
+
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export const DEFAULT_NETWORK = 'default';
+
+// The workstation sits on a home LAN behind NAT; this is how the cloud sees it.
+export const WORKSTATION_ADDRESS = '203.0.113.10';
+export const WORKSTATION_LAN_ADDRESS = '192.168.1.100';
+export const WORKSTATION_GATEWAY = '192.168.1.1';
+
+// Compute Engine's metadata server, which also answers DNS queries.
+export const METADATA_SERVER = '169.254.169.254';
+
+// Ranges of the default network's subnets, as in an auto mode VPC.
+const DEFAULT_SUBNETS: Record<string, string> = {
+  'us-central1': '10.128.0.0/20',
+  'europe-west1': '10.132.0.0/20',
+  'asia-east1': '10.140.0.0/20',
+  'us-east1': '10.142.0.0/20',
+};
+
+export const PROTOCOLS = ['tcp', 'udp', 'icmp', 'all'] as const;
+
+export const parseAddress = (value: string) => {
+  const parts = value.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((address, part) => address * 256 + Number(part), 0);
+};
+
+export const formatAddress = (address: number) => {
+  return [24, 16, 8, 0].map(shift => Math.floor(address / 2 ** shift) % 256).join('.');
+};
+
+export const parseCidr = (value: string) => {
+  const [address, prefix, ...rest] = value.split('/');
+  const base = parseAddress(address);
+  const bits = Number(prefix);
+  if (base === null || rest.length > 0 || !/^\d{1,2}$/.test(prefix ?? '') || bits > 32) {
+    return null;
+  }
+  const size = 2 ** (32 - bits);
+  if (base % size !== 0) {
+    return null;
+  }
+  return { base, prefix: bits, size };
+};
+
+const cidrOf = (value: string) => {
+  const cidr = parseCidr(value);
+  if (!cidr) {
+    throw new NetworkError(`invalid CIDR range '${value}'`);
+  }
+  return cidr;
+};
+
+export const cidrContains = (range: string, address: string) => {
+  const cidr = parseCidr(range);
+  const value = parseAddress(address);
+  return cidr !== null && value !== null && value >= cidr.base && value < cidr.base + cidr.size;
+};
+
+export const cidrsOverlap = (a: string, b: string) => {
+  const first = cidrOf(a);
+  const second = cidrOf(b);
+  return first.base < second.base + second.size && second.base < first.base + first.size;
+};
+
+export const netmask = (range: string) => formatAddress(2 ** 32 - cidrOf(range).size);
+
+// The first address of a subnet is the network itself and the second its gateway.
+export const gatewayAddress = (range: string) => formatAddress(cidrOf(range).base + 1);
+
+export const broadcastAddress = (range: string) => {
+  const { base, size } = cidrOf(range);
+  return formatAddress(base + size - 1);
+};
+
+// The first 10.N.0.0/16 that no network uses yet.
+export const freeNetworkRange = (state: SessionState) => {
+  for (let octet = 0; octet < 256; octet++) {
+    const range = `10.${octet}.0.0/16`;
+    if (!state.networks.some(network => parseCidr(network.cidr) && cidrsOverlap(network.cidr, range))) {
+      return range;
+    }
+  }
+  throw new NetworkError('no free 10.x.0.0/16 range left');
+};
+
+export const createDefaultNetwork = (now: number): { network: Network; subnets: Subnet[]; firewallRules: FirewallRule[] } => {
+  const rule = (name: string, rules: FirewallPermission[], sourceRanges: string[], priority = 65534): FirewallRule => ({
+    id: `fw-${name}`,
+    name,
+    network: DEFAULT_NETWORK,
+    action: 'allow',
+    rules,
+    sourceRanges,
+    targetTags: [],
+    priority,
+    createdAt: now,
+  });
+  return {
+    network: { id: 'net-default', name: DEFAULT_NETWORK, cidr: '10.128.0.0/9', createdAt: now },
+    subnets: Object.entries(DEFAULT_SUBNETS).map(([region, cidr]) => ({
+      id: `subnet-default-${region}`,
+      name: DEFAULT_NETWORK,
+      network: DEFAULT_NETWORK,
+      region,
+      cidr,
+      createdAt: now,
+    })),
+    firewallRules: [
+      rule('default-allow-internal', [{ protocol: 'tcp', ports: [] }, { protocol: 'udp', ports: [] }, { protocol: 'icmp', ports: [] }], ['10.128.0.0/9']),
+      rule('default-allow-ssh', [{ protocol: 'tcp', ports: ['22'] }], ['0.0.0.0/0']),
+      rule('default-allow-icmp', [{ protocol: 'icmp', ports: [] }], ['0.0.0.0/0']),
+      rule('default-allow-http', [{ protocol: 'tcp', ports: ['80', '443'] }], ['0.0.0.0/0'], 1000),
+    ],
+  };
+};
+
+// Picks the instance's subnet (the network's subnet in its region unless one
+// is named) and gives it the lowest free address there.
+export const attachInstance = <T extends Pick<Instance, 'id' | 'zone'>>(
+  state: SessionState,
+  instance: T,
+  { network = DEFAULT_NETWORK, subnet }: { network?: string; subnet?: string } = {}
+): T => {
+  if (!state.networks.some(n => n.name === network)) {
+    throw new NetworkError(`network '${network}' not found`);
+  }
+  const region = regionOf(instance.zone ?? DEFAULT_ZONE);
+  const candidates = state.subnets.filter(s => s.network === network && s.region === region);
+  const chosen = subnet === undefined ? candidates[0] : candidates.find(s => s.name === subnet);
+  if (!chosen) {
+    throw new NetworkError(subnet === undefined
+      ? `network '${network}' has no subnet in region ${region} (create one with 'network subnets create')`
+      : `subnet '${subnet}' not found in network '${network}' region ${region}`);
+  }
+  const used = new Set(state.instances.filter(i => i.id !== instance.id).map(i => i.ip));
+  const { base, size } = cidrOf(chosen.cidr);
+  // The last two addresses are reserved as well, as in Compute Engine.
+  for (let offset = 2; offset < size - 2; offset++) {
+    const ip = formatAddress(base + offset);
+    if (!used.has(ip)) {
+      return { ...instance, network, subnet: chosen.name, ip };
+    }
+  }
+  throw new NetworkError(`subnet '${chosen.name}' (${chosen.cidr}) has no free addresses`);
+};
+
+// The `--network` and `--subnet` options of the create commands.
+export const networkOptions = (flags: Record<string, string | true>) => ({
+  network: typeof flags.network === 'string' ? flags.network : undefined,
+  subnet: typeof flags.subnet === 'string' ? flags.subnet : undefined,
+});
+
+export const instanceSubnet = (state: SessionState, instance: Instance) => {
+  const region = regionOf(instance.zone ?? DEFAULT_ZONE);
+  return state.subnets.find(s => s.network === (instance.network ?? DEFAULT_NETWORK) && s.name === instance.subnet && s.region === region);
+};
+
+// The address assigned at creation; instances from before subnets existed fall
+// back to one derived from their id.
+export const internalAddress = (instance: Instance) => {
+  if (instance.ip) {
+    return instance.ip;
+  }
+  const hash = hashString(instance.id);
+  return `10.0.${(hash >>> 8) % 256}.${(hash % 253) + 2}`;
+};
+
+// Ephemeral public address, only assigned while the instance is running.
+export const externalAddress = (instance: Instance) => {
+  if (!isAvailable(instance)) {
+    return undefined;
+  }
+  const hash = hashString(`${instance.id}:external`);
+  return `34.${(hash >>> 16) % 256}.${(hash >>> 8) % 256}.${(hash % 253) + 2}`;
+};
+
+// The internal DNS name Compute Engine gives every instance.
+export const internalHostname = (instance: Instance) => `${instance.name}.${instance.zone ?? DEFAULT_ZONE}.c.${PROJECT}.internal`;
+
+// Resolves a hostname or address to the instance that answers on it.
+export const resolveHost = (state: SessionState, host: string) => {
+  const name = host.toLowerCase().replace(/\.$/, '');
+  return state.instances.find(instance => instance.name === name
+    || internalHostname(instance) === name
+    || internalAddress(instance) === name
+    || externalAddress(instance) === name);
+};
+
+export interface TrafficSource {
+  // The instance the current shell runs on; absent for the workstation.
+  instance?: Instance;
+  address: string;
+}
+
+// Where packets sent from the current shell come from.
+export const trafficSource = (state: SessionState): TrafficSource => {
+  const connection = state.connections[state.connections.length - 1];
+  const instance = connection && resolveHost(state, connection.host);
+  return instance ? { instance, address: internalAddress(instance) } : { address: WORKSTATION_ADDRESS };
+};
+
+const sameNetwork = (source: TrafficSource, target: Instance) => {
+  return source.instance !== undefined && (source.instance.network ?? DEFAULT_NETWORK) === (target.network ?? DEFAULT_NETWORK);
+};
+
+// The address `target` is reached on from `source`: internal within a
+// network, the external address from anywhere else.
+export const addressFrom = (source: TrafficSource, target: Instance) => {
+  if (source.instance?.id === target.id || sameNetwork(source, target)) {
+    return internalAddress(target);
+  }
+  return externalAddress(target) ?? internalAddress(target);
+};
+
+// The address a packet from `source` to `target` carries as its origin.
+export const originAddress = (source: TrafficSource, target: Instance) => {
+  if (!source.instance || sameNetwork(source, target)) {
+    return source.address;
+  }
+  return externalAddress(source.instance) ?? source.address;
+};
+
+const portMatches = (ports: string[], port: number | undefined) => {
+  if (ports.length === 0 || port === undefined) {
+    return true;
+  }
+  return ports.some(range => {
+    const [low, high = low] = range.split('-').map(Number);
+    return port >= low && port <= high;
+  });
+};
+
+// What each instance type listens on, by port.
+export const SERVICES: Record<InstanceType, { port: number; program: string }[]> = {
+  compute: [{ port: 22, program: 'sshd' }, { port: 80, program: 'nginx' }, { port: 443, program: 'nginx' }],
+  database: [{ port: 22, program: 'sshd' }, { port: 5432, program: 'postgres' }],
+  storage: [{ port: 22, program: 'sshd' }, { port: 80, program: 'nginx' }, { port: 443, program: 'nginx' }],
+  network: [{ port: 22, program: 'sshd' }, { port: 80, program: 'haproxy' }, { port: 443, program: 'haproxy' }],
+  security: [{ port: 22, program: 'sshd' }],
+};
+
+export const permits = (rule: FirewallRule, protocol: string, port?: number) => {
+  return rule.rules.some(permission => (permission.protocol === 'all' || permission.protocol === protocol) && portMatches(permission.ports, port));
+};
+
+// The rules that apply to traffic arriving at `target`, highest priority
+// first; at equal priority a deny rule wins.
+export const effectiveRules = (state: SessionState, target: Instance) => {
+  const tags = target.tags ?? [];
+  return state.firewallRules
+    .filter(rule => rule.network === (target.network ?? DEFAULT_NETWORK))
+    .filter(rule => rule.targetTags.length === 0 || rule.targetTags.some(tag => tags.includes(tag)))
+    .sort((a, b) => a.priority - b.priority || (a.action === 'deny' ? -1 : 0) - (b.action === 'deny' ? -1 : 0));
+};
+
+// Whether a packet from the current shell reaches `target`. Ingress is denied
+// unless a rule allows it; traffic an instance sends itself always arrives.
+export const checkFirewall = (state: SessionState, target: Instance, protocol: 'tcp' | 'udp' | 'icmp', port?: number) => {
+  const source = trafficSource(state);
+  if (source.instance?.id === target.id) {
+    return { allowed: true };
+  }
+  const origin = originAddress(source, target);
+  const rule = effectiveRules(state, target)
+    .find(candidate => candidate.sourceRanges.some(range => cidrContains(range, origin)) && permits(candidate, protocol, port));
+  return { allowed: rule?.action === 'allow', rule };
+};
+
+export interface Hop {
+  name?: string;
+  address: string;
+  // Round-trip time in milliseconds.
+  latency: number;
+}
+
+// Routers between the current shell and `target`, ending with the target.
+// Traffic from outside a network enters through its gateway: a running
+// `network` instance if the network has one.
+export const routeTo = (state: SessionState, target: Instance): Hop[] => {
+  const source = trafficSource(state);
+  const jitter = (key: string) => (hashString(`${target.id}:${key}`) % 1000) / 1000;
+  const final = (latency: number): Hop => ({ name: target.name, address: addressFrom(source, target), latency });
+  if (source.instance?.id === target.id) {
+    return [final(0.03)];
+  }
+  if (sameNetwork(source, target)) {
+    const sourceRegion = regionOf(source.instance!.zone ?? DEFAULT_ZONE);
+    const targetRegion = regionOf(target.zone ?? DEFAULT_ZONE);
+    if (source.instance!.subnet === target.subnet && sourceRegion === targetRegion) {
+      return [final(0.25 + jitter('lan') * 0.2)];
+    }
+    const subnet = instanceSubnet(state, source.instance!);
+    const gateway: Hop = { address: subnet ? gatewayAddress(subnet.cidr) : WORKSTATION_GATEWAY, latency: 0.4 + jitter('gw') * 0.2 };
+    return [gateway, final((sourceRegion === targetRegion ? 0.8 : 35) + jitter('far') * 4)];
+  }
+  const hops: Hop[] = source.instance
+    ? [{ address: gatewayAddress(instanceSubnet(state, source.instance)?.cidr ?? '10.128.0.0/20'), latency: 0.4 + jitter('src') * 0.2 }]
+    : [
+      { name: '_gateway', address: WORKSTATION_GATEWAY, latency: 1.2 + jitter('home') },
+      { address: '100.64.0.1', latency: 6.5 + jitter('isp') * 2 },
+      { address: '72.14.215.85', latency: 11 + jitter('edge') * 3 },
+    ];
+  const entry = state.instances.find(i => i.type === 'network' && i.status === 'running' && i.id !== target.id
+    && (i.network ?? DEFAULT_NETWORK) === (target.network ?? DEFAULT_NETWORK));
+  if (entry) {
+    hops.push({ name: entry.name, address: externalAddress(entry)!, latency: 13 + jitter('lb') * 2 });
+  }
+  return [...hops, final(14 + jitter('dst') * 3)];
+};
+
+// `tcp:22,tcp:8000-8080,icmp` as firewall permissions.
+export const parsePermissions = (spec: string): FirewallPermission[] => {
+  const permissions: FirewallPermission[] = [];
+  for (const item of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [protocol, ports] = item.toLowerCase().split(':');
+    if (!PROTOCOLS.includes(protocol as typeof PROTOCOLS[number])) {
+      throw new NetworkError(`invalid protocol '${protocol}' in '${item}' (expected ${PROTOCOLS.join(', ')})`);
+    }
+    if (ports !== undefined && (protocol === 'icmp' || protocol === 'all')) {
+      throw new NetworkError(`ports can only be given for tcp and udp: '${item}'`);
+    }
+    const ranges = ports === undefined ? [] : [ports];
+    for (const range of ranges) {
+      const bounds = range.split('-').map(Number);
+      if (bounds.length > 2 || bounds.some(port => !Number.isInteger(port) || port < 1 || port > 65535) || bounds[0] > (bounds[1] ?? bounds[0])) {
+        throw new NetworkError(`invalid port '${range}' in '${item}'`);
+      }
+    }
+    const existing = permissions.find(p => p.protocol === protocol);
+    if (existing) {
+      existing.ports.push(...ranges);
+    } else {
+      permissions.push({ protocol: protocol as FirewallPermission['protocol'], ports: ranges });
+    }
+  }
+  if (permissions.length === 0) {
+    throw new NetworkError('no protocols given');
+  }
+  return permissions;
+};
+
+export const formatPermissions = (permissions: FirewallPermission[]) => {
+  return permissions.flatMap(p => p.ports.length === 0 ? [p.protocol] : p.ports.map(port => `${p.protocol}:${port}`)).join(',');
+};
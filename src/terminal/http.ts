@@ -0,0 +1,305 @@
+import { basename, getNode, joinPath, type DirectoryNode } from './fs';
+import { addressFrom, checkFirewall, DEFAULT_NETWORK, resolveHost, trafficSource } from './hosts';
+import { isAvailable } from './lifecycle';
+import { hashString, sampleMetrics } from './metrics';
+import { hostFileSystem } from './remote';
+import { deleteObject, findObject, liveObjects, objectSize, putObject, updateBucket } from './storage';
+import type { Instance, SessionState, StateUpdate } from './types';
+
+// A local stand-in for HTTP: running instances answer requests according to
+// their type, so curl and wget work without any real network access.
+
+export interface HttpRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export type HttpOutcome =
+  | { type: 'response'; response: HttpResponse; address: string; latency: number; update?: StateUpdate }
+  | { type: 'unresolved' }
+  | { type: 'refused'; address: string }
+  | { type: 'timeout'; address: string };
+
+export const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  301: 'Moved Permanently',
+  400: 'Bad Request',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+// Where a web server instance serves static files from, on its own disk.
+export const WEB_ROOT = '/var/www/html';
+
+const SERVED_PORTS = ['80', '443'];
+
+const SERVER: Record<Instance['type'], string> = {
+  compute: 'nginx/1.24.0',
+  database: 'cloudsql-proxy/2.8',
+  storage: 'CloudStorage',
+  network: 'cloud-lb/1.0',
+  security: 'cloud-waf/1.0',
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  css: 'text/css',
+  js: 'application/javascript',
+  csv: 'text/csv',
+  xml: 'application/xml',
+};
+
+export const contentType = (path: string) => {
+  const extension = basename(path).split('.').slice(1).pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+};
+
+export const formatHttpDate = (time: number) => new Date(time).toUTCString();
+
+const respond = (status: number, body: string, type = 'text/html', extra: Record<string, string> = {}): HttpResponse => ({
+  status,
+  headers: { 'Content-Type': type, ...extra },
+  body,
+});
+
+const json = (status: number, value: unknown) => respond(status, `${JSON.stringify(value, null, 2)}\n`, 'application/json');
+
+const errorPage = (status: number, server: string) => respond(status, [
+  '<html>',
+  `<head><title>${status} ${STATUS_TEXT[status]}</title></head>`,
+  '<body>',
+  `<center><h1>${status} ${STATUS_TEXT[status]}</h1></center>`,
+  `<hr><center>${server}</center>`,
+  '</body>',
+  '</html>',
+  '',
+].join('\n'));
+
+const welcomePage = (instance: Instance) => [
+  '<!DOCTYPE html>',
+  '<html>',
+  '<head>',
+  `<title>Welcome to ${instance.name}!</title>`,
+  '</head>',
+  '<body>',
+  `<h1>Welcome to ${instance.name}!</h1>`,
+  '<p>If you see this page, the web server is successfully installed and working.</p>',
+  `<p>Put your own files in <code>${WEB_ROOT}</code> to replace this page.</p>`,
+  '</body>',
+  '</html>',
+  '',
+].join('\n');
+
+const uptimeSeconds = (instance: Instance, now: number) => {
+  const start = instance.runs?.[instance.runs.length - 1]?.start ?? now;
+  return Math.floor((now - start) / 1000);
+};
+
+const health = (instance: Instance, now: number) => json(200, {
+  status: 'ok',
+  instance: instance.name,
+  type: instance.type,
+  uptime: uptimeSeconds(instance, now),
+});
+
+const metricsPage = (instance: Instance, now: number) => {
+  const sample = sampleMetrics(instance, now);
+  const label = `{instance="${instance.name}"}`;
+  return respond(200, [
+    '# HELP cpu_usage_percent CPU utilisation.',
+    '# TYPE cpu_usage_percent gauge',
+    `cpu_usage_percent${label} ${sample.cpu}`,
+    '# HELP memory_usage_bytes Resident memory.',
+    '# TYPE memory_usage_bytes gauge',
+    `memory_usage_bytes${label} ${Math.round(sample.memoryMb * 1024 * 1024)}`,
+    '# HELP http_response_time_ms Mean response time.',
+    '# TYPE http_response_time_ms gauge',
+    `http_response_time_ms${label} ${sample.responseTime ?? 0}`,
+    '',
+  ].join('\n'), 'text/plain; version=0.0.4');
+};
+
+const readHostFile = (fs: DirectoryNode, path: string) => {
+  const node = getNode(fs, path);
+  return node?.type === 'file' ? node.content : undefined;
+};
+
+const serveCompute = (state: SessionState, instance: Instance, request: HttpRequest, now: number): HttpResponse => {
+  const path = decodeURIComponent(request.url.pathname);
+  if (path === '/health' || path === '/healthz') {
+    return health(instance, now);
+  }
+  if (path === '/metrics') {
+    return metricsPage(instance, now);
+  }
+  if (path === '/api/echo') {
+    return json(200, { method: request.method, path, headers: request.headers, body: request.body });
+  }
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorPage(405, SERVER.compute);
+  }
+  const fs = hostFileSystem(state, instance);
+  const target = joinPath(WEB_ROOT, path);
+  const node = getNode(fs, target);
+  const file = node?.type === 'dir' ? readHostFile(fs, joinPath(target, 'index.html')) : node?.content;
+  if (file !== undefined) {
+    return respond(200, file, contentType(node?.type === 'dir' ? 'index.html' : target));
+  }
+  if (path === '/' || path === '/index.html') {
+    return respond(200, welcomePage(instance));
+  }
+  return errorPage(404, SERVER.compute);
+};
+
+const listObjects = (instance: Instance) => respond(200, [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<ListBucketResult>',
+  `  <Name>${instance.name}</Name>`,
+  ...liveObjects(instance)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(object => ['  <Contents>', `    <Key>${object.name}</Key>`, `    <Size>${objectSize(object)}</Size>`, '  </Contents>']),
+  '</ListBucketResult>',
+  '',
+].join('\n'), 'application/xml');
+
+const serveStorage = (instance: Instance, request: HttpRequest, now: number) => {
+  const key = decodeURIComponent(request.url.pathname).replace(/^\/+/, '');
+  if (key === 'health' || key === 'healthz') {
+    return { response: health(instance, now) };
+  }
+  if (!key) {
+    return { response: request.method === 'GET' || request.method === 'HEAD' ? listObjects(instance) : errorPage(405, SERVER.storage) };
+  }
+
+  const existing = findObject(instance, key);
+  switch (request.method) {
+    case 'GET':
+    case 'HEAD':
+      return {
+        response: existing === undefined
+          ? json(404, { error: 'NoSuchKey', message: 'The specified key does not exist.' })
+          : respond(200, existing.content, existing.contentType, {
+            ETag: `"${(hashString(existing.content) >>> 0).toString(16)}"`,
+            'x-goog-generation': String(existing.generation),
+            ...Object.fromEntries(Object.entries(existing.metadata ?? {}).map(([name, value]) => [`x-goog-meta-${name}`, value])),
+          }),
+      };
+    case 'PUT':
+    case 'POST': {
+      const type = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+      return {
+        response: json(existing === undefined ? 201 : 200, { key, size: objectSize({ content: request.body }) }),
+        update: (s: SessionState) => updateBucket(s, instance.name, bucket => {
+          return putObject(bucket, { name: key, content: request.body, contentType: type ?? contentType(key) }, now);
+        }),
+      };
+    }
+    case 'DELETE':
+      return existing === undefined
+        ? { response: json(404, { error: 'NoSuchKey', message: 'The specified key does not exist.' }) }
+        : { response: respond(204, '', 'text/plain'), update: (s: SessionState) => updateBucket(s, instance.name, bucket => deleteObject(bucket, key, now)) };
+    default:
+      return { response: errorPage(405, SERVER.storage) };
+  }
+};
+
+const serveDatabase = (instance: Instance, request: HttpRequest, now: number) => {
+  const path = request.url.pathname;
+  if (path === '/health' || path === '/healthz') {
+    return health(instance, now);
+  }
+  return json(404, { error: 'not_found', message: 'The database only exposes /health over HTTP.' });
+};
+
+// Load balancers forward each request to one of the running compute instances in their network.
+const serveNetwork = (state: SessionState, instance: Instance, request: HttpRequest, now: number) => {
+  const backends = state.instances.filter(candidate => candidate.type === 'compute' && candidate.status === 'running'
+    && (candidate.network ?? DEFAULT_NETWORK) === (instance.network ?? DEFAULT_NETWORK));
+  if (request.url.pathname === '/health' || request.url.pathname === '/healthz') {
+    return health(instance, now);
+  }
+  if (backends.length === 0) {
+    return errorPage(502, SERVER.network);
+  }
+  const backend = backends[Math.floor(now / 1000) % backends.length];
+  const response = serveCompute(state, backend, request, now);
+  return { ...response, headers: { ...response.headers, 'X-Backend': backend.name } };
+};
+
+const route = (state: SessionState, instance: Instance, request: HttpRequest, now: number): { response: HttpResponse; update?: StateUpdate } => {
+  switch (instance.type) {
+    case 'compute':
+      return { response: serveCompute(state, instance, request, now) };
+    case 'storage':
+      return serveStorage(instance, request, now);
+    case 'database':
+      return { response: serveDatabase(instance, request, now) };
+    case 'network':
+      return { response: serveNetwork(state, instance, request, now) };
+    case 'security':
+      return { response: errorPage(403, SERVER.security) };
+  }
+};
+
+// Accepts `host`, `host/path` and full http(s) URLs.
+export const parseUrl = (value: string) => {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+  } catch {
+    return undefined;
+  }
+};
+
+export const sendRequest = (state: SessionState, request: HttpRequest, now = Date.now()): HttpOutcome => {
+  const instance = resolveHost(state, request.url.hostname);
+  if (!instance || instance.status === 'terminated') {
+    return { type: 'unresolved' };
+  }
+  const address = addressFrom(trafficSource(state), instance);
+  const port = request.url.port || (request.url.protocol === 'https:' ? '443' : '80');
+  // Packets the firewall drops are never answered, just like those sent to a stopped instance.
+  if (!isAvailable(instance) || !checkFirewall(state, instance, 'tcp', Number(port)).allowed) {
+    return { type: 'timeout', address };
+  }
+  if (!SERVED_PORTS.includes(port)) {
+    return { type: 'refused', address };
+  }
+
+  const { response, update } = route(state, instance, request, now);
+  const body = request.method === 'HEAD' ? '' : response.body;
+  const length = new TextEncoder().encode(response.body).length;
+  return {
+    type: 'response',
+    address,
+    latency: Math.round(sampleMetrics(instance, now).responseTime ?? 0),
+    update,
+    response: {
+      status: response.status,
+      headers: {
+        Server: SERVER[instance.type],
+        Date: formatHttpDate(now),
+        ...response.headers,
+        'Content-Length': String(length),
+      },
+      body,
+    },
+  };
+};
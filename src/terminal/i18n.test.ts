@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { localeOf, setLocale, t } from './i18n';
+import { createInitialState } from './state';
+import { runLine } from './test-utils';
+
+describe('localeOf', () => {
+  it('follows LC_ALL over LANG and falls back to English', () => {
+    expect(localeOf({ env: { LANG: 'ar_SA.UTF-8' } })).toBe('ar');
+    expect(localeOf({ env: { LANG: 'ar_SA.UTF-8', LC_ALL: 'C' } })).toBe('en');
+    expect(localeOf({ env: { LANG: 'fr_FR.UTF-8' } })).toBe('en');
+  });
+
+  it('is changed by setLocale, which clears LC_ALL', () => {
+    const state = { ...createInitialState(), env: { ...createInitialState().env, LC_ALL: 'C' } };
+    const arabic = setLocale(state, 'ar');
+    expect(arabic.env.LANG).toBe('ar_SA.UTF-8');
+    expect('LC_ALL' in arabic.env).toBe(false);
+    expect(localeOf(arabic)).toBe('ar');
+  });
+});
+
+describe('t', () => {
+  it('fills in parameters and leaves unknown ones alone', () => {
+    expect(t('en', 'shell.notFound', { name: 'nope' })).toBe("Command 'nope' not found. Type 'help' to see available commands.");
+    expect(t('ar', 'shell.notFound', {})).toContain('{name}');
+  });
+});
+
+describe('locale', () => {
+  it('switches the simulator messages', async () => {
+    const { state } = await runLine('locale set ar');
+    expect(localeOf(state)).toBe('ar');
+    const { output } = await runLine('nope', state);
+    expect(output).toBe("الأمر 'nope' غير موجود. اكتب 'help' لعرض الأوامر المتاحة.");
+  });
+
+  it('rejects locales without a catalog', async () => {
+    const { output, exitCode } = await runLine('locale set fr');
+    expect(exitCode).toBe(1);
+    expect(output).toBe("locale: unknown locale 'fr' (available: en, ar)");
+  });
+
+  it('points a bare locale name at locale set', async () => {
+    const { output, exitCode } = await runLine('locale ar');
+    expect(exitCode).toBe(1);
+    expect(output).toBe("locale: to switch to 'ar', run 'locale set ar'");
+  });
+});
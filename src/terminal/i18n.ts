@@ -0,0 +1,66 @@
+import { ar } from './locales/ar';
+import { en, type MessageKey } from './locales/en';
+import type { CommandCategory, CommandDefinition, SessionState } from './types';
+
+export type { MessageKey };
+
+// Translations of what the simulator itself says: the interface around the
+// terminal, help, and its own commands' messages. Commands that imitate real
+// tools (git, gcloud, terraform...) keep their English output, as the real
+// ones do. The session's locale follows LANG, so `export LANG=ar_SA.UTF-8`
+// works as well as `locale set ar`.
+
+export const LOCALES = ['en', 'ar'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export interface Catalog {
+  messages: Record<MessageKey, string>;
+  // Command summaries by command name; missing ones fall back to the registered summary.
+  commands: Record<string, string>;
+  categories: Record<CommandCategory, string>;
+}
+
+export interface LocaleInfo {
+  name: string;
+  // What LANG is set to.
+  lang: string;
+  // BCP 47 tag for Intl formatting.
+  tag: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', lang: 'en_US.UTF-8', tag: 'en-US', dir: 'ltr' },
+  ar: { name: 'العربية', lang: 'ar_SA.UTF-8', tag: 'ar', dir: 'rtl' },
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, ar };
+
+export const isLocale = (value: string): value is Locale => (LOCALES as readonly string[]).includes(value);
+
+// LC_ALL overrides LANG, as in glibc. `C`, `POSIX` and anything unknown mean English.
+export const localeOf = (state: Pick<SessionState, 'env'>): Locale => {
+  const value = state.env.LC_ALL || state.env.LANG || '';
+  return LOCALES.find(locale => value === locale || value.startsWith(`${locale}_`) || value.startsWith(`${locale}.`)) ?? 'en';
+};
+
+export const setLocale = (state: SessionState, locale: Locale): SessionState => {
+  const env: Record<string, string> = { ...state.env, LANG: LOCALE_INFO[locale].lang };
+  delete env.LC_ALL;
+  return { ...state, env };
+};
+
+export const t = (locale: Locale, key: MessageKey, params: Record<string, string | number> = {}) => {
+  return CATALOGS[locale].messages[key].replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+export const commandSummary = (locale: Locale, definition: CommandDefinition) => {
+  return CATALOGS[locale].commands[definition.name] ?? definition.summary;
+};
+
+export const categoryLabel = (locale: Locale, category: CommandCategory) => CATALOGS[locale].categories[category];
+
+export const formatDateTime = (locale: Locale, time: number, options: Intl.DateTimeFormatOptions) => {
+  return new Intl.DateTimeFormat(LOCALE_INFO[locale].tag, options).format(time);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { checkPermissions, closeLogin, currentUser, hasPermission, openLogin, ROOT } from './iam';
+import { createInitialState } from './state';
+import type { SessionState } from './types';
+
+const withViewer = (): SessionState => {
+  const state = createInitialState();
+  return {
+    ...state,
+    users: [...state.users, { name: 'bob', groups: [], createdAt: 0 }],
+    bindings: [...state.bindings, { user: 'bob', role: 'viewer', project: 'cloud-terminal' }],
+  };
+};
+
+describe('permissions', () => {
+  it('follow the roles bound on the project', () => {
+    const state = withViewer();
+    expect(hasPermission(state, 'bob', 'cloud-terminal', 'compute.instances.list')).toBe(true);
+    expect(hasPermission(state, 'bob', 'cloud-terminal', 'compute.instances.delete')).toBe(false);
+    expect(hasPermission(state, 'bob', 'other-project', 'compute.instances.list')).toBe(false);
+    expect(hasPermission(state, ROOT, 'other-project', 'compute.instances.delete')).toBe(true);
+  });
+
+  it('explain what the current user lacks', () => {
+    const state = openLogin(withViewer(), 'bob');
+    expect(checkPermissions(state, 'delete', ['compute.instances.delete']))
+      .toBe("delete: permission denied: user 'bob' lacks compute.instances.delete on project 'cloud-terminal' (roles: viewer)");
+    expect(checkPermissions(state, 'list', ['compute.instances.list'])).toBeUndefined();
+  });
+});
+
+describe('logins', () => {
+  it('stack and return to the previous user', () => {
+    const state = { ...withViewer(), currentPath: '/tmp' };
+    const root = openLogin(state, ROOT, true);
+    const bob = openLogin(root, 'bob');
+    expect(currentUser(bob)).toBe('bob');
+    expect(bob.env.HOME).toBe('/home/bob');
+    expect(currentUser(closeLogin(bob))).toBe(ROOT);
+    const back = closeLogin(closeLogin(bob));
+    expect(currentUser(back)).toBe('admin');
+    expect(back.currentPath).toBe('/tmp');
+  });
+});
@@ -0,0 +1,118 @@
+import { PROJECT } from './compute';
+import { getNode } from './fs';
+import { localeOf, t } from './i18n';
+import type { Role, SessionState } from './types';
+
+// Who is acting, and what they may do: local accounts switched with su and
+// sudo, and IAM roles bound to them per project. Commands declare the
+// permissions they need; root bypasses the checks.
+
+export const ROOT = 'root';
+export const DEFAULT_USER = 'admin';
+export const SUDO_GROUP = 'sudo';
+
+export const ROLE_TITLES: Record<Role, string> = {
+  viewer: 'Read-only access to instances, buckets, networks, logs, metrics and costs',
+  operator: 'Viewer, plus starting, stopping and logging in to instances',
+  admin: 'Full control, including creating and deleting resources and managing IAM',
+};
+
+// Permissions are `service.resource.verb`; `*` matches one whole segment, or everything on its own.
+export const ROLE_PERMISSIONS: Record<Role, string[]> = {
+  viewer: [
+    'compute.*.list',
+    'compute.*.get',
+    'storage.*.list',
+    'storage.*.get',
+    'logging.logEntries.list',
+    'monitoring.timeSeries.list',
+    'resourcemanager.projects.getIamPolicy',
+    'billing.accounts.getSpendingInformation',
+  ],
+  operator: [
+    'compute.*.list',
+    'compute.*.get',
+    'storage.*.list',
+    'storage.*.get',
+    'logging.logEntries.list',
+    'monitoring.timeSeries.list',
+    'resourcemanager.projects.getIamPolicy',
+    'billing.accounts.getSpendingInformation',
+    'compute.instances.start',
+    'compute.instances.stop',
+    'compute.instances.osLogin',
+    'compute.instances.setMetadata',
+  ],
+  admin: ['*'],
+};
+
+export const currentUser = (state: SessionState) => state.logins[state.logins.length - 1]?.user ?? DEFAULT_USER;
+
+// The project commands act on, which gcloud also reads from this variable.
+export const activeProject = (state: SessionState) => state.env.CLOUDSDK_CORE_PROJECT || PROJECT;
+
+export const userExists = (state: SessionState, name: string) => name === ROOT || state.users.some(user => user.name === name);
+
+export const userGroups = (state: SessionState, name: string) => {
+  return name === ROOT ? [ROOT] : [name, ...state.users.find(user => user.name === name)?.groups ?? []];
+};
+
+export const rolesOf = (state: SessionState, user: string, project: string) => {
+  return state.bindings.filter(binding => binding.user === user && binding.project === project).map(binding => binding.role);
+};
+
+const matches = (pattern: string, permission: string) => {
+  if (pattern === '*') {
+    return true;
+  }
+  const wanted = pattern.split('.');
+  const actual = permission.split('.');
+  return wanted.length === actual.length && wanted.every((segment, index) => segment === '*' || segment === actual[index]);
+};
+
+export const hasPermission = (state: SessionState, user: string, project: string, permission: string) => {
+  return user === ROOT || rolesOf(state, user, project).some(role => ROLE_PERMISSIONS[role].some(pattern => matches(pattern, permission)));
+};
+
+// Why the current user may not run `command`, or undefined when they may.
+export const checkPermissions = (state: SessionState, command: string, permissions: string[], project = activeProject(state)) => {
+  const user = currentUser(state);
+  const missing = permissions.find(permission => !hasPermission(state, user, project, permission));
+  if (!missing) {
+    return undefined;
+  }
+  const locale = localeOf(state);
+  const roles = rolesOf(state, user, project).join(', ') || t(locale, 'iam.noRoles');
+  return t(locale, 'iam.denied', { command, user, permission: missing, project, roles });
+};
+
+// What a resource verb is called in permission names.
+export const permissionVerb = (verb: string) => verb === 'describe' ? 'get' : verb;
+
+export const homeDirectory = (user: string) => user === ROOT ? '/root' : `/home/${user}`;
+
+// Starts a shell as `user`, keeping the current one to return to. A login
+// shell (`su -`) also starts in the user's home with no shell variables.
+export const openLogin = (state: SessionState, user: string, loginShell = false): SessionState => {
+  const home = homeDirectory(user);
+  return {
+    ...state,
+    logins: [...state.logins, { user, parent: { currentPath: state.currentPath, env: state.env, vars: state.vars } }],
+    env: { ...state.env, USER: user, LOGNAME: user, HOME: home },
+    ...loginShell ? { currentPath: getNode(state.fs, home)?.type === 'dir' ? home : state.currentPath, vars: {} } : {},
+  };
+};
+
+// Leaves the login at `index` (the innermost by default). A login opened
+// inside it then returns straight to where it came from.
+export const closeLogin = (state: SessionState, index = state.logins.length - 1): SessionState => {
+  const login = state.logins[index];
+  if (!login) {
+    return state;
+  }
+  if (index === state.logins.length - 1) {
+    return { ...state, ...login.parent, logins: state.logins.slice(0, -1) };
+  }
+  const logins = state.logins.filter((_, i) => i !== index);
+  return { ...state, logins: logins.map((next, i) => i === index ? { ...next, parent: login.parent } : next) };
+};
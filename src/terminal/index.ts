@@ -0,0 +1,116 @@
+export { CommandRegistry, CATEGORY_LABELS } from './registry';
+export { color256, renderScreen, screenText, stripAnsi, style, visibleLength } from './ansi';
+export type { Attribute, Color, Span, TextStyle } from './ansi';
+export {
+  burnRate,
+  chargesBetween,
+  checkBudget,
+  forecastSpend,
+  formatCost,
+  machineRate,
+  MACHINE_PRICES,
+  storageRate,
+  TYPE_PRICING,
+  uptimeBetween,
+} from './billing';
+export type { Charges } from './billing';
+export { builtinCommands, createDefaultRegistry } from './commands';
+export { scenarioCommands } from './commands/scenario';
+export { completeLine, completePaths } from './completion';
+export type { CompletionResult } from './completion';
+export { eventTarget, instanceActivity, recordActivity, SYSTEM_ACTOR } from './events';
+export type { EventData } from './events';
+export { addToHistory, expandHistory, searchHistory } from './history';
+export {
+  activeProject,
+  checkPermissions,
+  currentUser,
+  hasPermission,
+  ROLE_PERMISSIONS,
+  ROLE_TITLES,
+  rolesOf,
+} from './iam';
+export {
+  categoryLabel,
+  commandSummary,
+  formatDateTime,
+  isLocale,
+  LOCALE_INFO,
+  localeOf,
+  LOCALES,
+  setLocale,
+  t,
+} from './i18n';
+export type { Catalog, Locale, LocaleInfo, MessageKey } from './i18n';
+export { executeInteractive, executeLine } from './interpreter';
+export { beginTransition, checkTransition, isPending, PENDING_STATUSES, provisionInstance } from './lifecycle';
+export type { LifecycleAction } from './lifecycle';
+export { findLogSource, formatLogEntry, instanceLogs, SEVERITIES } from './logs';
+export type { LogEntry, LogSource, Severity } from './logs';
+export { hashString, sampleMetrics, sampleSeries, sparkline } from './metrics';
+export type { MetricSample } from './metrics';
+export {
+  attachInstance,
+  checkFirewall,
+  DEFAULT_NETWORK,
+  externalAddress,
+  internalAddress,
+  internalHostname,
+  NetworkError,
+  parseCidr,
+  parsePermissions,
+  resolveHost,
+  routeTo,
+} from './hosts';
+export type { Hop } from './hosts';
+export { activeConnection, closeConnection, openConnection } from './remote';
+export { advanceSimulation } from './simulation';
+export { needsContinuation } from './shell/parser';
+export { displayPath, FsError, normalizePath, readFileAt, writeFileAt } from './fs';
+export type { DirectoryNode, FileNode, FsNode } from './fs';
+export { formatHelp, formatUsage } from './help';
+export {
+  createLocalStorage,
+  createSnapshot,
+  loadSnapshot,
+  parseSnapshot,
+  serializeSnapshot,
+  SnapshotError,
+  SNAPSHOT_VERSION,
+} from './persistence';
+export type { SessionSnapshot, SessionStorage } from './persistence';
+export { describePublicKey, fingerprint, generateKeyPair, KEY_TYPES, KeyFormatError, parsePublicKey } from './sshkeys';
+export type { KeyPair, KeyType, PublicKeyInfo } from './sshkeys';
+export {
+  appendEvent,
+  castDuration,
+  castTranscript,
+  CastError,
+  CLEAR_SCREEN,
+  echoEdit,
+  parseCast,
+  playbackTimes,
+  promptText,
+  renderOutput,
+  serializeCast,
+  terminalText,
+} from './recording';
+export type { Cast, CastHeader, Recording, RecordingEvent } from './recording';
+export { evaluatePredicate, formatProgress, parseScenario, ScenarioError, startScenario, validateScenario } from './scenario';
+export type { InstanceMatch, Objective, Predicate, Scenario, ScenarioProgress, ScenarioSetup } from './scenario';
+export { createInitialState, getTimestamp } from './state';
+export {
+  bucketUsage,
+  deleteObject,
+  findObject,
+  formatObjectUrl,
+  formatSize,
+  liveObjects,
+  parseObjectUrl,
+  putObject,
+  StorageError,
+} from './storage';
+export type { BucketUsage, ObjectUrl } from './storage';
+export { formatDuration, parseDuration } from './time';
+export * from './types';
+export { parseYaml, YamlError } from './yaml';
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { quoteCommand } from './interpreter';
+import { runLine } from './test-utils';
+
+const output = async (input: string) => (await runLine(input)).output;
+
+describe('executeLine', () => {
+  it('expands variables set earlier on the line', async () => {
+    expect(await output('X=hello; echo $X world')).toBe('hello world');
+    expect(await output('X="a  b"; echo "$X"')).toBe('a  b');
+  });
+
+  it('pipes output into the next command', async () => {
+    expect(await output('echo one two three | wc -w')).toBe('      3');
+  });
+
+  it('runs && and || by exit status', async () => {
+    expect(await output('echo a | grep b && echo found || echo missing')).toBe('missing');
+    expect(await output('echo a | grep a; echo $?')).toBe('a\n0');
+  });
+
+  it('redirects output into files and back in', async () => {
+    expect(await output('echo one > f; echo two >> f; sort -r < f')).toBe('two\none');
+  });
+
+  it('redirects errors by descriptor', async () => {
+    expect(await output('echo hi 2>err.txt; wc -c err.txt')).toBe('hi\n      0 err.txt');
+    expect(await output('cat nope 2>&1 | grep -c nope')).toBe('1');
+    expect(await output('cat nope > out.txt 2>&1; cat out.txt')).toBe('cat: nope: No such file or directory');
+    expect(await output('cat nope 2>&1 > out.txt')).toBe('cat: nope: No such file or directory');
+  });
+
+  it('discards what is written to /dev/null', async () => {
+    expect(await output('echo hi >/dev/null; cat nope 2>/dev/null; cat /dev/null; echo $?')).toBe('0');
+  });
+
+  it('rejects command substitution', async () => {
+    const { output: message, exitCode } = await runLine('cmd=$(echo x)');
+    expect(message).toBe('bash: command substitution with $(...) is not supported');
+    expect(exitCode).toBe(2);
+  });
+
+  it('passes empty quoted words as arguments', async () => {
+    expect(await output(`f() { echo $#; }; f a "" b; f '' ''`)).toBe('3\n2');
+  });
+
+  it('compares against empty strings in tests', async () => {
+    expect(await output(`[ "a" = "" ] && echo same || echo differs`)).toBe('differs');
+    expect(await output(`[ -z "" ] && echo empty`)).toBe('empty');
+  });
+
+  it('exits with 127 for unknown commands', async () => {
+    const { exitCode, state } = await runLine('nope');
+    expect(exitCode).toBe(127);
+    expect(state.lastExitCode).toBe(127);
+  });
+});
+
+describe('scripting', () => {
+  it('runs loops and conditionals', async () => {
+    expect(await output('for x in a b c; do echo $x; done')).toBe('a\nb\nc');
+    expect(await output('i=0; while [ $i -lt 3 ]; do echo $i; i=$((i+1)); done')).toBe('0\n1\n2');
+    expect(await output('if [ -d /tmp ]; then echo dir; else echo none; fi')).toBe('dir');
+    expect(await output('! true; echo $?')).toBe('1');
+  });
+
+  it('passes arguments to functions and returns their status', async () => {
+    expect(await output('greet() { echo "hi $1"; return 3; }; greet bob; echo $?')).toBe('hi bob\n3');
+    expect(await output('count() { echo $#; }; count "$@" x "a b"')).toBe('2');
+  });
+
+  it('runs script files with arguments until exit', async () => {
+    const script = "cat > s.sh <<'EOF'\necho \"$#: $@\"\nexit 4\necho never\nEOF\n";
+    expect(await output(`${script}bash s.sh a b; echo $?`)).toBe('2: a b\n4');
+  });
+
+  it('expands globs against the current directory', async () => {
+    expect(await output('echo a > a.txt; echo b > b.txt; echo *.txt *.log')).toBe('a.txt b.txt *.log');
+  });
+});
+
+describe('quoteCommand', () => {
+  it('quotes only the words that need it', () => {
+    expect(quoteCommand(['ls', '-l', '~/a', 'a b', "it's", '', '~'])).toBe(`ls -l '~/a' 'a b' 'it'\\''s' '' '~'`);
+    expect(quoteCommand(['cp', 'a~1', 'user@host:/tmp/'])).toBe('cp a~1 user@host:/tmp/');
+  });
+
+  it('lets sudo run the command with the same arguments', async () => {
+    expect(await output(`sudo echo 'a  b' "it's" '~' "$HOME"`)).toBe("a  b it's ~ /home/admin");
+  });
+});
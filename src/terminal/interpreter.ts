@@ -0,0 +1,808 @@
+import { stripAnsi, style } from './ansi';
+import { recordActivity } from './events';
+import { formatFsError, getNode, readFile, resolve, writeFile } from './fs';
+import { addToHistory, expandHistory } from './history';
+import { localeOf, t } from './i18n';
+import { checkPermissions, currentUser } from './iam';
+import type { CommandRegistry } from './registry';
+import { ArithmeticError } from './shell/arithmetic';
+import { createLookup, expandWord, expandWordToString, type Parameters, type VariableLookup } from './shell/expand';
+import { createGlob } from './shell/glob';
+import { ShellSyntaxError } from './shell/lexer';
+import {
+  parse,
+  type AndOrList,
+  type Command,
+  type CompoundCommand,
+  type Pipeline,
+  type Redirect,
+  type Script,
+  type SimpleCommand,
+} from './shell/parser';
+import { checkObjectives } from './scenario';
+import { advanceSimulation } from './simulation';
+import { setVariable } from './state';
+import type { CommandContext, CommandResult, ExecutionOptions, SessionState, StateUpdate } from './types';
+
+const POLL_INTERVAL = 200;
+
+// Resolves after `ms`, or as soon as `signal` is aborted.
+const pause = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const finish = () => {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', finish);
+    resolve();
+  };
+  const timer = setTimeout(finish, ms);
+  signal.addEventListener('abort', finish);
+});
+
+// Exit status of a line interrupted with Ctrl+C (128 + SIGINT).
+const INTERRUPTED = 130;
+
+// Nested function calls allowed before a call fails, so runaway recursion
+// ends with an error instead of exhausting the stack.
+const MAX_FUNCTION_DEPTH = 100;
+
+// Loops give the event loop a turn this often, so Ctrl+C can stop `while true`.
+const YIELD_EVERY = 100;
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Options toggled with `set -e`, `set -u`, `set -x` and `set -o pipefail`.
+const SHELL_OPTIONS: Record<string, 'errexit' | 'nounset' | 'xtrace' | 'pipefail'> = {
+  e: 'errexit',
+  u: 'nounset',
+  x: 'xtrace',
+  errexit: 'errexit',
+  nounset: 'nounset',
+  xtrace: 'xtrace',
+  pipefail: 'pipefail',
+};
+
+// Thrown by `exit` in a script, and by a failing command under `set -e`.
+class ScriptExit {
+  constructor(public code: number) {}
+}
+
+// Thrown by `return` to leave the innermost function or script.
+class FunctionReturn {
+  constructor(public code: number) {}
+}
+
+// Thrown by `break` and `continue`; `levels` counts the enclosing loops it applies to.
+class LoopControl {
+  constructor(public kind: 'break' | 'continue', public levels: number) {}
+}
+
+class UnboundVariableError extends Error {
+  constructor(public variable: string) {
+    super(`${variable}: unbound variable`);
+    this.name = 'UnboundVariableError';
+  }
+}
+
+// `argv` as a command line that runs it again unchanged, for the activity log
+// and for sudo. A leading `~` is quoted so it is not expanded a second time.
+export const quoteCommand = (argv: string[]) => argv
+  .map(word => /^[\w@%+=:,./-][\w@%+=:,./~-]*$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`)
+  .join(' ');
+
+interface CommandOutcome {
+  stdout: string;
+  blankLine?: boolean;
+  stderr?: string;
+  exitCode: number;
+}
+
+// Where stdout (1) or stderr (2) goes: to the command's own stdout or stderr, or into a file.
+type OutputTarget = 1 | 2 | { path: string; append: boolean };
+
+interface Redirection {
+  stdin: string;
+  blankStdin?: boolean;
+  // Set once stdout or stderr is redirected.
+  output?: Record<1 | 2, OutputTarget>;
+}
+
+const joinLines = (...texts: (string | undefined)[]) => texts.filter(Boolean).join('\n');
+
+type Builtin = (args: string[]) => CommandOutcome;
+
+export const executeLine = async (
+  registry: CommandRegistry,
+  input: string,
+  state: SessionState,
+  options: ExecutionOptions = {}
+): Promise<CommandResult> => {
+  let script: Script;
+  try {
+    script = parse(input);
+  } catch (error) {
+    if (error instanceof ShellSyntaxError) {
+      return {
+        output: `${options.script?.name ?? 'bash'}: ${error.message}`,
+        exitCode: 2,
+        update: s => ({ ...s, lastExitCode: 2 }),
+      };
+    }
+    throw error;
+  }
+
+  let current = state;
+  let clear = false;
+  let editor: CommandResult['editor'];
+  let replay: CommandResult['replay'];
+  let effect: CommandResult['effect'];
+  const updates: StateUpdate[] = [];
+  let output: string[] = [];
+  const signal = options.signal ?? new AbortController().signal;
+
+  let params: Parameters = options.script ?? { name: 'bash', args: [] };
+  const flags = { errexit: false, nounset: false, xtrace: false, pipefail: false };
+  // Values to restore when each active function call returns, for its `local` variables.
+  const locals: Record<string, string | undefined>[] = [];
+  let loops = 0;
+  let conditions = 0;
+  let iterations = 0;
+
+  const apply = (update: StateUpdate) => {
+    current = update(current);
+    if (options.onUpdate) {
+      options.onUpdate(update);
+    } else {
+      updates.push(update);
+    }
+  };
+
+  const waitFor = async (predicate: (state: SessionState) => boolean, timeoutMs = 120000) => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const now = Date.now();
+      apply(s => advanceSimulation(s, now));
+      if (predicate(current)) {
+        return true;
+      }
+      if (now >= deadline || signal.aborted) {
+        return false;
+      }
+      await pause(Math.min(POLL_INTERVAL, deadline - now), signal);
+    }
+  };
+
+  const sleep = async (ms: number) => {
+    const deadline = Date.now() + ms;
+    await waitFor(() => Date.now() >= deadline, ms);
+    return !signal.aborted;
+  };
+
+  const lookupVariable = (): VariableLookup => {
+    const lookup = createLookup(current, params);
+    if (!flags.nounset) {
+      return lookup;
+    }
+    return name => {
+      const unset = /^\d+$/.test(name)
+        ? parseInt(name, 10) > params.args.length
+        : NAME.test(name) && name !== 'PWD' && current.vars[name] === undefined && current.env[name] === undefined;
+      if (unset) {
+        throw new UnboundVariableError(name);
+      }
+      return lookup(name);
+    };
+  };
+
+  // Reports an expansion that cannot be completed; under `set -u` an unbound
+  // variable also ends the script, as it does in bash.
+  const expansionFailed = (error: unknown): CommandOutcome => {
+    if (!(error instanceof ArithmeticError) && !(error instanceof UnboundVariableError)) {
+      throw error;
+    }
+    output.push(`bash: ${error.message}`);
+    if (error instanceof UnboundVariableError && options.script) {
+      throw new ScriptExit(1);
+    }
+    return { stdout: '', exitCode: 1 };
+  };
+
+  // Runs `body` with its output collected apart from the rest, so a compound
+  // command or function can be piped or redirected like a simple command. If
+  // `exit`, `return` or `break` unwinds through it, the output is kept.
+  const capture = async (body: () => Promise<number>): Promise<CommandOutcome> => {
+    const parent = output;
+    const captured: string[] = [];
+    output = captured;
+    try {
+      const exitCode = await body();
+      return { stdout: captured.join('\n'), exitCode };
+    } catch (error) {
+      parent.push(...captured);
+      throw error;
+    } finally {
+      output = parent;
+    }
+  };
+
+  // Command output is kept without a trailing newline; files get one per line like real stdout, and no colours.
+  const writeOutput = (text: string, path: string, append: boolean, blankLine = false) => {
+    const content = text ? `${stripAnsi(text)}\n` : blankLine ? '\n' : '';
+    try {
+      writeFile(current, path, content, append, currentUser(current));
+      apply(s => writeFile(s, path, content, append, currentUser(s)));
+      return true;
+    } catch (error) {
+      output.push(formatFsError('bash', error, path));
+      return false;
+    }
+  };
+
+  // Sends stdout and stderr where the redirections point. When both go to the
+  // same file, as after `> log 2>&1`, stderr is added after stdout.
+  const redirectOutput = (outcome: CommandOutcome, targets: Record<1 | 2, OutputTarget>): CommandOutcome => {
+    const redirected: CommandOutcome = { stdout: '', exitCode: outcome.exitCode };
+    const written = new Set<OutputTarget>();
+    const streams = [[targets[1], outcome.stdout, outcome.blankLine], [targets[2], outcome.stderr ?? '', false]] as const;
+    for (const [target, text, blankLine] of streams) {
+      if (target === 1) {
+        redirected.stdout = joinLines(redirected.stdout, text);
+        redirected.blankLine = !redirected.stdout && blankLine;
+      } else if (target === 2) {
+        redirected.stderr = joinLines(redirected.stderr, text);
+      } else {
+        if (!writeOutput(text, target.path, target.append || written.has(target), blankLine)) {
+          redirected.exitCode = 1;
+        }
+        written.add(target);
+      }
+    }
+    return redirected;
+  };
+
+  const openRedirects = (redirects: Redirect[], lookup: VariableLookup, stdin: string, blankStdin = false): Redirection | null => {
+    const redirection: Redirection = { stdin, blankStdin };
+    for (const redirect of redirects) {
+      const path = expandWordToString(redirect.target, lookup);
+      if ((redirect.op === '<' || redirect.op === '<<') && (redirect.fd ?? 0) !== 0) {
+        output.push(`bash: ${redirect.fd}: Bad file descriptor`);
+        return null;
+      }
+      if (redirect.op === '<<') {
+        redirection.stdin = path.replace(/\n$/, '');
+        redirection.blankStdin = path === '\n';
+      } else if (redirect.op === '<') {
+        try {
+          const content = readFile(current, path);
+          redirection.stdin = content.replace(/\n$/, '');
+          redirection.blankStdin = content === '\n';
+        } catch (error) {
+          output.push(formatFsError('bash', error, path));
+          return null;
+        }
+      } else {
+        const fd = redirect.fd ?? 1;
+        const targets = redirection.output ?? { 1: 1, 2: 2 };
+        if (fd !== 1 && fd !== 2) {
+          output.push(`bash: ${fd}: Bad file descriptor`);
+          return null;
+        }
+        if (redirect.op !== '>&') {
+          targets[fd] = { path, append: redirect.op === '>>' };
+        } else if (path === '1' || path === '2') {
+          targets[fd] = targets[path];
+        } else if (redirect.fd === undefined && !/^\d+$/.test(path)) {
+          // `>&FILE` sends both stdout and stderr to FILE.
+          targets[1] = targets[2] = { path, append: false };
+        } else {
+          output.push(`bash: ${path}: Bad file descriptor`);
+          return null;
+        }
+        redirection.output = targets;
+      }
+    }
+    return redirection;
+  };
+
+  // Runs a command handler with a context bound to this line, and applies what
+  // it returns. Changes it makes are logged as the activity of `command`.
+  const runHandler = async (
+    handler: (ctx: CommandContext) => CommandResult | Promise<CommandResult>,
+    command: string,
+    env: Record<string, string>,
+    stdin: string,
+    blankStdin = false
+  ): Promise<CommandOutcome> => {
+    const update = (change: StateUpdate) => apply(s => recordActivity(s, change(s), currentUser(s), Date.now(), command));
+    const answers = stdin ? stdin.split('\n') : [];
+    const prompt = async (question: string) => {
+      if (answers.length > 0) {
+        return answers.shift()!;
+      }
+      if (!options.onPrompt || signal.aborted) {
+        return null;
+      }
+      return new Promise<string | null>(resolve => {
+        signal.addEventListener('abort', () => resolve(null), { once: true });
+        options.onPrompt!(question).then(resolve);
+      });
+    };
+    const result = await handler({
+      state: current,
+      registry,
+      stdin,
+      blankStdin,
+      env,
+      update,
+      getState: () => current,
+      waitFor,
+      signal,
+      sleep,
+      display: text => options.onDisplay?.(text),
+      prompt,
+    });
+
+    if (result.update) {
+      update(result.update);
+    }
+    if (result.clear) {
+      clear = true;
+      output.length = 0;
+    }
+    editor = result.editor ?? editor;
+    replay = result.replay ?? replay;
+    effect = result.effect ?? effect;
+    return { stdout: result.output, blankLine: result.blankLine, stderr: result.error, exitCode: result.exitCode ?? 0 };
+  };
+
+  // Runs `./script.sh` and other paths to executable files as scripts.
+  const runFile = (path: string, args: string[], env: Record<string, string>, stdin: string): Promise<CommandOutcome> | CommandOutcome => {
+    const node = getNode(current.fs, resolve(current, path));
+    if (!node) {
+      return { stdout: '', stderr: `bash: ${path}: No such file or directory`, exitCode: 127 };
+    }
+    if (node.type === 'dir') {
+      return { stdout: '', stderr: `bash: ${path}: Is a directory`, exitCode: 126 };
+    }
+    if (!(node.mode & 0o100)) {
+      return { stdout: '', stderr: `bash: ${path}: Permission denied`, exitCode: 126 };
+    }
+    return runHandler(ctx => executeScript(node.content, ctx, { name: path, args }), quoteCommand([path, ...args]), env, stdin);
+  };
+
+  const callFunction = async (name: string, body: CompoundCommand, args: string[], stdin: string): Promise<CommandOutcome> => {
+    if (locals.length >= MAX_FUNCTION_DEPTH) {
+      return { stdout: '', stderr: `bash: ${name}: maximum function nesting level exceeded (${MAX_FUNCTION_DEPTH})`, exitCode: 1 };
+    }
+    const caller = params;
+    const saved: Record<string, string | undefined> = {};
+    params = { name: caller.name, args };
+    locals.push(saved);
+    try {
+      return await capture(async () => {
+        try {
+          const outcome = await runCompound(body, stdin);
+          if (outcome.stdout) {
+            output.push(outcome.stdout);
+          }
+          return outcome.exitCode;
+        } catch (error) {
+          if (error instanceof FunctionReturn) {
+            return error.code;
+          }
+          throw error;
+        }
+      });
+    } finally {
+      params = caller;
+      locals.pop();
+      apply(s => {
+        const vars = { ...s.vars };
+        for (const [name, value] of Object.entries(saved)) {
+          if (value === undefined) {
+            delete vars[name];
+          } else {
+            vars[name] = value;
+          }
+        }
+        return { ...s, vars };
+      });
+    }
+  };
+
+  // Parses the status given to `exit` or `return`, defaulting to that of the last command.
+  const exitStatus = (builtin: string, value: string | undefined) => {
+    if (value === undefined) {
+      return current.lastExitCode;
+    }
+    if (!/^-?\d+$/.test(value)) {
+      output.push(`bash: ${builtin}: ${value}: numeric argument required`);
+      return 2;
+    }
+    return ((parseInt(value, 10) % 256) + 256) % 256;
+  };
+
+  const loopControl = (kind: LoopControl['kind']): Builtin => args => {
+    const levels = args[0] === undefined ? 1 : Number(args[0]);
+    if (!Number.isInteger(levels) || levels < 1) {
+      return { stdout: '', stderr: `bash: ${kind}: ${args[0]}: loop count out of range`, exitCode: 1 };
+    }
+    if (loops === 0) {
+      return { stdout: '', stderr: `bash: ${kind}: only meaningful in a 'for', 'while', or 'until' loop`, exitCode: 0 };
+    }
+    throw new LoopControl(kind, Math.min(levels, loops));
+  };
+
+  // Builtins that change how the shell itself runs, so they live here rather than in the registry.
+  const builtins: Record<string, Builtin> = {
+    exit: args => {
+      throw new ScriptExit(exitStatus('exit', args[0]));
+    },
+    return: args => {
+      if (locals.length === 0 && !options.script) {
+        return { stdout: '', stderr: "bash: return: can only 'return' from a function or sourced script", exitCode: 1 };
+      }
+      throw new FunctionReturn(exitStatus('return', args[0]));
+    },
+    break: loopControl('break'),
+    continue: loopControl('continue'),
+    shift: args => {
+      const count = args[0] === undefined ? 1 : Number(args[0]);
+      if (!Number.isInteger(count) || count < 0) {
+        return { stdout: '', stderr: `bash: shift: ${args[0]}: numeric argument required`, exitCode: 1 };
+      }
+      if (count > params.args.length) {
+        return { stdout: '', exitCode: 1 };
+      }
+      params = { ...params, args: params.args.slice(count) };
+      return { stdout: '', exitCode: 0 };
+    },
+    local: args => {
+      const saved = locals[locals.length - 1];
+      if (!saved) {
+        return { stdout: '', stderr: 'bash: local: can only be used in a function', exitCode: 1 };
+      }
+      for (const arg of args) {
+        const [name, ...value] = arg.split('=');
+        if (!NAME.test(name)) {
+          return { stdout: '', stderr: `bash: local: '${arg}': not a valid identifier`, exitCode: 1 };
+        }
+        if (!(name in saved)) {
+          saved[name] = current.vars[name];
+        }
+        apply(s => ({ ...s, vars: { ...s.vars, [name]: value.join('=') } }));
+      }
+      return { stdout: '', exitCode: 0 };
+    },
+    set: args => {
+      if (args.length === 0) {
+        const variables = { ...current.env, ...current.vars };
+        return { stdout: Object.keys(variables).sort().map(name => `${name}=${variables[name]}`).join('\n'), exitCode: 0 };
+      }
+      for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--' || !/^[-+]/.test(arg)) {
+          params = { ...params, args: args.slice(arg === '--' ? i + 1 : i) };
+          break;
+        }
+        for (const letter of arg.slice(1)) {
+          const name = letter === 'o' ? args[++i] ?? '' : letter;
+          const option = SHELL_OPTIONS[name];
+          if (!option) {
+            const error = letter === 'o' ? `${name}: invalid option name` : `${arg[0]}${letter}: invalid option`;
+            return { stdout: '', stderr: `bash: set: ${error}\nset: usage: set [-eux] [-o option] [--] [arg ...]`, exitCode: 2 };
+          }
+          flags[option] = arg[0] === '-';
+        }
+      }
+      return { stdout: '', exitCode: 0 };
+    },
+  };
+
+  const runSimple = async (command: SimpleCommand, stdin: string, blankStdin = false): Promise<CommandOutcome> => {
+    let assignments: string[][];
+    let argv: string[];
+    let redirection: Redirection | null;
+    try {
+      const lookup = lookupVariable();
+      assignments = command.assignments.map(({ name, value }) => [name, expandWordToString(value, lookup)]);
+      const glob = createGlob(current);
+      argv = command.words.flatMap(word => expandWord(word, lookup, glob, params.args));
+      redirection = openRedirects(command.redirects, lookup, stdin, blankStdin);
+    } catch (error) {
+      return expansionFailed(error);
+    }
+    if (!redirection) {
+      return { stdout: '', exitCode: 1 };
+    }
+    if (flags.xtrace) {
+      output.push(`+ ${[...assignments.map(([name, value]) => `${name}=${value}`), ...argv].join(' ')}`);
+    }
+
+    if (argv.length === 0) {
+      assignments.forEach(([name, value]) => apply(s => setVariable(s, name, value)));
+      if (redirection.output) {
+        return redirectOutput({ stdout: '', exitCode: 0 }, redirection.output);
+      }
+      return { stdout: '', exitCode: 0 };
+    }
+
+    const [name, ...args] = argv;
+    const env = { ...current.env, ...Object.fromEntries(assignments) };
+    let outcome: CommandOutcome;
+    const definition = registry.get(name);
+    if (builtins[name] && (name !== 'exit' || options.script)) {
+      outcome = builtins[name](args);
+    } else if (current.functions[name]) {
+      outcome = await callFunction(name, current.functions[name], args, redirection.stdin);
+    } else if (name.includes('/')) {
+      outcome = await runFile(name, args, env, redirection.stdin);
+    } else if (definition) {
+      const denied = definition.permissions && checkPermissions(current, name, definition.permissions(args));
+      outcome = denied
+        ? { stdout: '', stderr: denied, exitCode: 1 }
+        : await runHandler(ctx => definition.run(args, ctx), quoteCommand(argv), env, redirection.stdin, redirection.blankStdin);
+    } else {
+      return { stdout: '', stderr: t(localeOf(current), 'shell.notFound', { name }), exitCode: 127 };
+    }
+
+    if (redirection.output) {
+      return redirectOutput(outcome, redirection.output);
+    }
+    return outcome;
+  };
+
+  // Runs passes of a loop while `next` allows, until `break`; resolves with the status of the last pass.
+  const runLoop = async (next: () => Promise<boolean>, body: Script, stdin: string) => {
+    let exitCode = 0;
+    loops++;
+    try {
+      while (!signal.aborted && await next()) {
+        if (++iterations % YIELD_EVERY === 0) {
+          await pause(0, signal);
+        }
+        try {
+          exitCode = await runScript(body, stdin);
+        } catch (error) {
+          if (!(error instanceof LoopControl)) {
+            throw error;
+          }
+          if (error.levels > 1) {
+            throw new LoopControl(error.kind, error.levels - 1);
+          }
+          if (error.kind === 'break') {
+            break;
+          }
+        }
+      }
+    } finally {
+      loops--;
+    }
+    return exitCode;
+  };
+
+  // Conditions of `if`, `while` and `until` may fail without tripping `set -e`.
+  const runCondition = async (condition: Script, stdin: string) => {
+    conditions++;
+    try {
+      return await runScript(condition, stdin);
+    } finally {
+      conditions--;
+    }
+  };
+
+  const executeCompound = async (command: CompoundCommand, stdin: string): Promise<number> => {
+    switch (command.type) {
+      case 'group':
+        return runScript(command.body, stdin);
+
+      case 'if':
+        for (const { condition, body } of command.clauses) {
+          if (await runCondition(condition, stdin) === 0) {
+            return runScript(body, stdin);
+          }
+        }
+        return command.otherwise ? runScript(command.otherwise, stdin) : 0;
+
+      case 'while':
+        return runLoop(async () => (await runCondition(command.condition, stdin) === 0) !== command.until, command.body, stdin);
+
+      case 'for': {
+        let items: string[];
+        try {
+          const lookup = lookupVariable();
+          const glob = createGlob(current);
+          items = command.items ? command.items.flatMap(word => expandWord(word, lookup, glob, params.args)) : params.args;
+        } catch (error) {
+          return expansionFailed(error).exitCode;
+        }
+        let index = 0;
+        return runLoop(async () => {
+          if (index >= items.length) {
+            return false;
+          }
+          const value = items[index++];
+          apply(s => setVariable(s, command.variable, value));
+          return true;
+        }, command.body, stdin);
+      }
+    }
+  };
+
+  const runCompound = async (command: CompoundCommand, stdin: string): Promise<CommandOutcome> => {
+    let redirection: Redirection | null;
+    try {
+      redirection = openRedirects(command.redirects, lookupVariable(), stdin);
+    } catch (error) {
+      return expansionFailed(error);
+    }
+    if (!redirection) {
+      return { stdout: '', exitCode: 1 };
+    }
+    const { stdout, exitCode } = await capture(() => executeCompound(command, redirection.stdin));
+    if (redirection.output) {
+      return redirectOutput({ stdout, exitCode }, redirection.output);
+    }
+    return { stdout, exitCode };
+  };
+
+  const runCommand = (command: Command, stdin: string, blankStdin = false): Promise<CommandOutcome> | CommandOutcome => {
+    switch (command.type) {
+      case 'simple':
+        return runSimple(command, stdin, blankStdin);
+      case 'function':
+        apply(s => ({ ...s, functions: { ...s.functions, [command.name]: command.body } }));
+        return { stdout: '', exitCode: 0 };
+      default:
+        return runCompound(command, stdin);
+    }
+  };
+
+  const runPipeline = async (pipeline: Pipeline, stdin: string) => {
+    let outcome: CommandOutcome = { stdout: stdin, exitCode: 0 };
+    let failure = 0;
+    for (const [index, command] of pipeline.commands.entries()) {
+      // Colours are for the terminal; the next command in a pipe reads plain text.
+      outcome = await runCommand(command, stripAnsi(outcome.stdout), outcome.blankLine);
+      failure = outcome.exitCode || failure;
+      if (outcome.stderr && index < pipeline.commands.length - 1) {
+        output.push(style(outcome.stderr, 'red'));
+      }
+    }
+    if (outcome.stdout || outcome.blankLine) {
+      output.push(outcome.stdout);
+    }
+    if (outcome.stderr) {
+      output.push(style(outcome.stderr, 'red'));
+    }
+    let exitCode = flags.pipefail ? failure : outcome.exitCode;
+    if (pipeline.negated) {
+      exitCode = exitCode === 0 ? 1 : 0;
+    }
+    if (signal.aborted) {
+      exitCode = INTERRUPTED;
+    }
+    apply(s => ({ ...s, lastExitCode: exitCode }));
+    return exitCode;
+  };
+
+  // Under `set -e` a failure ends the script, unless it was tested by a
+  // condition, `!`, or an `&&`/`||` that was followed by another command.
+  const runAndOr = async (list: AndOrList, stdin: string) => {
+    let last = list.first;
+    let exitCode = await runPipeline(list.first, stdin);
+    for (const { op, pipeline } of list.rest) {
+      if (signal.aborted) {
+        break;
+      }
+      if ((op === '&&') === (exitCode === 0)) {
+        last = pipeline;
+        exitCode = await runPipeline(pipeline, stdin);
+      }
+    }
+    const final = list.rest.length > 0 ? list.rest[list.rest.length - 1].pipeline : list.first;
+    if (flags.errexit && exitCode !== 0 && conditions === 0 && last === final && !final.negated) {
+      throw new ScriptExit(exitCode);
+    }
+    return exitCode;
+  };
+
+  const runScript = async (body: Script, stdin: string) => {
+    let exitCode = 0;
+    for (const item of body.items) {
+      if (signal.aborted) {
+        break;
+      }
+      exitCode = await runAndOr(item, stdin);
+    }
+    return exitCode;
+  };
+
+  let exitCode: number;
+  try {
+    exitCode = await runScript(script, '');
+  } catch (error) {
+    if (!(error instanceof ScriptExit) && !(error instanceof FunctionReturn)) {
+      throw error;
+    }
+    exitCode = error.code;
+    apply(s => ({ ...s, lastExitCode: exitCode }));
+  }
+
+  return {
+    output: output.join('\n'),
+    exitCode,
+    clear,
+    editor,
+    replay,
+    effect,
+    update: options.onUpdate ? undefined : s => updates.reduce((next, update) => update(next), s),
+  };
+};
+
+// Runs a script in a child shell, which sees only the exported environment:
+// its variables, functions and working directory are dropped when it ends.
+// A `sourced` script runs in the calling shell instead.
+export const executeScript = async (
+  source: string,
+  ctx: CommandContext,
+  { name, args, sourced = false }: { name: string; args: string[]; sourced?: boolean }
+): Promise<CommandResult> => {
+  const parent = ctx.getState();
+  const result = await executeLine(ctx.registry, source, sourced ? parent : { ...parent, vars: {}, functions: {} }, {
+    onUpdate: ctx.update,
+    onDisplay: ctx.display,
+    onPrompt: question => ctx.prompt(question).then(answer => answer ?? ''),
+    signal: ctx.signal,
+    script: { name, args },
+  });
+  if (!sourced) {
+    ctx.update(s => ({ ...s, currentPath: parent.currentPath, env: parent.env, vars: parent.vars, functions: parent.functions }));
+  }
+  return { output: result.output, exitCode: result.exitCode, clear: result.clear, editor: result.editor, replay: result.replay, effect: result.effect };
+};
+
+// Runs a line typed at the prompt: applies history expansion, records the
+// expanded line in history (before running it, so `history` lists itself) and
+// echoes the expansion the way bash does.
+export const executeInteractive = async (
+  registry: CommandRegistry,
+  input: string,
+  state: SessionState,
+  options: ExecutionOptions = {}
+): Promise<CommandResult> => {
+  const expansion = expandHistory(input, state.history);
+  if (!expansion.ok) {
+    return { output: expansion.error, exitCode: 1 };
+  }
+
+  const { line, expanded } = expansion;
+  const record = (s: SessionState) => ({ ...s, history: addToHistory(s.history, line) });
+  // Follow the state as it changes so scenario objectives can be checked against the result.
+  let current = record(state);
+  const onUpdate = options.onUpdate && ((update: StateUpdate) => {
+    current = update(current);
+    options.onUpdate!(update);
+  });
+  options.onUpdate?.(record);
+  const result = await executeLine(registry, line, current, { ...options, onUpdate });
+  if (!options.onUpdate && result.update) {
+    current = result.update(current);
+  }
+  const progress = checkObjectives(current, Date.now());
+  if (progress.update) {
+    options.onUpdate?.(progress.update);
+  }
+  const output = [expanded ? line : '', result.output, ...progress.messages].filter(Boolean).join('\n');
+
+  if (options.onUpdate) {
+    return { ...result, output };
+  }
+  return {
+    ...result,
+    output,
+    update: s => {
+      let next = record(s);
+      next = result.update ? result.update(next) : next;
+      return progress.update ? progress.update(next) : next;
+    },
+  };
+};
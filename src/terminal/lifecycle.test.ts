@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { advanceInstances, beginTransition, checkTransition, provisionInstance, upcomingStatuses } from './lifecycle';
+
+const created = (simulateFailure = false) => provisionInstance({ id: 'i-1', name: 'web', type: 'compute' }, 0, simulateFailure);
+const running = () => advanceInstances([created()], 60_000)[0];
+
+describe('lifecycle', () => {
+  it('provisions through staging to running', () => {
+    const [staging] = advanceInstances([created()], 2000);
+    expect(staging.status).toBe('staging');
+    expect(running()).toMatchObject({ status: 'running', transition: undefined, runs: [{ start: 4500 }] });
+  });
+
+  it('ends in error when the failure is simulated', () => {
+    expect(advanceInstances([created(true)], 60_000)[0].status).toBe('error');
+  });
+
+  it('rejects actions the current status does not allow', () => {
+    expect(checkTransition(running(), 'stop')).toBeNull();
+    expect(checkTransition(running(), 'start')).toBe('Instance "web" is already running.');
+    expect(checkTransition(created(), 'delete')).toBe('Cannot delete instance "web" while it is provisioning.');
+  });
+
+  it('removes deleted instances once terminated', () => {
+    expect(advanceInstances([beginTransition(running(), 'delete', 60_000)], 120_000)).toEqual([]);
+  });
+
+  it('makes buckets ready at once and deletes them only when empty', () => {
+    const bucket = provisionInstance({ id: 'b-1', name: 'assets', type: 'storage', objects: [] }, 0);
+    expect(bucket.status).toBeUndefined();
+    expect(upcomingStatuses(bucket)).toEqual([]);
+    expect(bucket.transition).toBeUndefined();
+    expect(checkTransition(bucket, 'stop')).toBe('Instance "assets" is a storage bucket, which is always available: it cannot be started or stopped.');
+    expect(checkTransition({ ...bucket, objects: [{ name: 'a', content: '', contentType: 'text/plain', generation: 1, createdAt: 0 }] }, 'delete'))
+      .toBe("Cannot delete instance \"assets\" while its bucket holds objects. Remove them first with 'gsutil rm -r -a gs://assets'.");
+    expect(advanceInstances([beginTransition(bucket, 'delete', 1000)], 1000)).toEqual([]);
+  });
+});
+
+describe('upcomingStatuses', () => {
+  it('follows pending transitions', () => {
+    expect(upcomingStatuses(created())).toEqual(['provisioning', 'staging', 'running']);
+    expect(upcomingStatuses(created(true))).toEqual(['provisioning', 'staging', 'error']);
+    expect(upcomingStatuses(beginTransition(running(), 'stop', 60_000))).toEqual(['stopping', 'stopped']);
+  });
+
+  it('stays put without one', () => {
+    expect(upcomingStatuses(running())).toEqual(['running']);
+    expect(upcomingStatuses({ ...running(), status: 'stopped' })).toEqual(['stopped']);
+  });
+});
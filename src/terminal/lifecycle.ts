@@ -0,0 +1,173 @@
+import { t, type Locale, type MessageKey } from './i18n';
+import type { Instance, InstanceStatus, InstanceType } from './types';
+
+export type LifecycleAction = 'start' | 'stop' | 'delete';
+
+// Base duration of each transitional status before it advances on its own.
+const PHASE_DURATIONS: Partial<Record<InstanceStatus, number>> = {
+  provisioning: 2000,
+  staging: 2500,
+  stopping: 1500,
+  terminated: 1500,
+};
+
+// Buckets have no run state: they are ready once made and gone once deleted.
+const TYPE_FACTORS: Record<InstanceType, number> = {
+  compute: 1,
+  database: 2,
+  storage: 0,
+  network: 0.5,
+  security: 1,
+};
+
+// Where each transitional status leads once its timer expires; `null` removes the instance.
+const NEXT_STATUS: Partial<Record<InstanceStatus, InstanceStatus | null>> = {
+  provisioning: 'staging',
+  staging: 'running',
+  stopping: 'stopped',
+  terminated: null,
+};
+
+const ALLOWED_FROM: Record<LifecycleAction, InstanceStatus[]> = {
+  start: ['stopped', 'error'],
+  stop: ['running'],
+  delete: ['running', 'stopped', 'error'],
+};
+
+const ACTION_STATUS: Record<LifecycleAction, InstanceStatus> = {
+  start: 'staging',
+  stop: 'stopping',
+  delete: 'terminated',
+};
+
+export const PENDING_STATUSES: InstanceStatus[] = ['provisioning', 'staging', 'stopping', 'terminated'];
+
+export const isPending = (instance: Instance): instance is Instance & { status: InstanceStatus } => {
+  return instance.status !== undefined && PENDING_STATUSES.includes(instance.status);
+};
+
+// Running machines answer on the network; buckets have no status and always do.
+export const isAvailable = (instance: Instance) => (instance.status ?? 'running') === 'running';
+
+export const generateInstanceId = () => {
+  return Math.random().toString(36).substring(2, 15);
+};
+
+const phaseDuration = (type: InstanceType, status: InstanceStatus) => {
+  return (PHASE_DURATIONS[status] ?? 0) * TYPE_FACTORS[type];
+};
+
+const recordRun = (instance: Instance, status: InstanceStatus, since: number) => {
+  const runs = instance.runs ?? [];
+  if (status === 'running' && instance.status !== 'running') {
+    return [...runs, { start: since }];
+  }
+  if (status !== 'running' && instance.status === 'running' && runs.length > 0) {
+    return [...runs.slice(0, -1), { ...runs[runs.length - 1], end: since }];
+  }
+  return instance.runs;
+};
+
+const enterStatus = (instance: Instance, status: InstanceStatus, since: number): Instance => {
+  const duration = PHASE_DURATIONS[status];
+  return {
+    ...instance,
+    runs: recordRun(instance, status, since),
+    status,
+    transition: duration === undefined ? undefined : { at: since + phaseDuration(instance.type, status) },
+  };
+};
+
+export const provisionInstance = (
+  instance: Omit<Instance, 'status' | 'transition' | 'runs' | 'createdAt'>,
+  now: number,
+  simulateFailure = false
+): Instance => {
+  if (instance.type === 'storage') {
+    return { ...instance, createdAt: now };
+  }
+  return { ...enterStatus({ ...instance, status: 'provisioning', createdAt: now }, 'provisioning', now), simulateFailure };
+};
+
+const REJECTIONS: Record<LifecycleAction, MessageKey> = {
+  start: 'instance.cannotStart',
+  stop: 'instance.cannotStop',
+  delete: 'instance.cannotDelete',
+};
+
+// Returns a message explaining why `action` is not allowed right now, or null if it is.
+export const checkTransition = (instance: Instance, action: LifecycleAction, locale: Locale = 'en'): string | null => {
+  if (instance.type === 'storage') {
+    if (action !== 'delete') {
+      return t(locale, 'instance.noRunState', { name: instance.name });
+    }
+    return instance.objects?.length ? t(locale, 'instance.bucketNotEmpty', { name: instance.name }) : null;
+  }
+  const status = instance.status!;
+  if (ALLOWED_FROM[action].includes(status)) {
+    return null;
+  }
+  const params = { name: instance.name, status };
+  if (action === 'start' && instance.status === 'running') {
+    return t(locale, 'instance.alreadyRunning', params);
+  }
+  if (action === 'stop' && instance.status === 'stopped') {
+    return t(locale, 'instance.alreadyStopped', params);
+  }
+  return t(locale, REJECTIONS[action], params);
+};
+
+export const beginTransition = (
+  instance: Instance,
+  action: LifecycleAction,
+  now: number,
+  simulateFailure = false
+): Instance => {
+  return { ...enterStatus(instance, ACTION_STATUS[action], now), simulateFailure };
+};
+
+// The statuses `instance` passes through on its own from now on, starting with the current one.
+export const upcomingStatuses = (instance: Instance): InstanceStatus[] => {
+  if (!instance.status) {
+    return [];
+  }
+  const statuses = [instance.status];
+  let next = instance.transition ? NEXT_STATUS[instance.status] : undefined;
+  while (next) {
+    if (next === 'running' && instance.simulateFailure) {
+      next = 'error';
+    }
+    statuses.push(next);
+    next = NEXT_STATUS[next];
+  }
+  return statuses;
+};
+
+const advanceInstance = (instance: Instance, now: number): Instance | null => {
+  let current = instance;
+  while (current.transition && current.transition.at <= now) {
+    let next = current.status && NEXT_STATUS[current.status];
+    if (next === null) {
+      return null;
+    }
+    if (next === undefined) {
+      return { ...current, transition: undefined };
+    }
+    if (next === 'running' && current.simulateFailure) {
+      next = 'error';
+    }
+    current = enterStatus({ ...current, simulateFailure: next === 'error' ? undefined : current.simulateFailure }, next, current.transition.at);
+  }
+  return current;
+};
+
+// Applies every timed transition that is due at `now`. Returns the same array
+// when nothing changed so callers can skip re-rendering.
+export const advanceInstances = (instances: Instance[], now: number) => {
+  if (!instances.some(instance => instance.transition && instance.transition.at <= now)) {
+    return instances;
+  }
+  return instances
+    .map(instance => advanceInstance(instance, now))
+    .filter((instance): instance is Instance => instance !== null);
+};
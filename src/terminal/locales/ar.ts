@@ -0,0 +1,165 @@
+import type { Catalog } from '../i18n';
+
+// Commands, options, paths and status values stay in English, as they are typed.
+export const ar: Catalog = {
+  messages: {
+    'ui.title': 'محاكي الطرفية السحابية',
+    'ui.welcome': 'مرحبًا بك في محاكي الطرفية السحابية الإصدار 2.0',
+    'ui.welcomeHint': "اكتب 'help' لعرض الأوامر المتاحة",
+    'ui.exportSession': 'تصدير الجلسة',
+    'ui.importSession': 'استيراد جلسة',
+    'ui.recording': 'جارٍ تسجيل {name}',
+    'ui.rec': 'تسجيل',
+    'ui.language': 'اللغة',
+    'ui.quickReference': 'مرجع سريع',
+    'ui.sessionImported': 'تم استيراد الجلسة من {file} (حُفظت في {savedAt}).',
+    'ui.count.compute': 'الحوسبة: {count}',
+    'ui.count.database': 'قواعد البيانات: {count}',
+    'ui.count.storage': 'التخزين: {count}',
+    'ui.count.network': 'الشبكة: {count}',
+    'ui.count.security': 'الأمان: {count}',
+    'ui.count.repos': 'المستودعات: {count}',
+    'ui.count.sshKeys': 'مفاتيح SSH: {count}',
+    'ui.count.running': 'قيد التشغيل: {count}',
+    'ui.count.pending': 'قيد الانتظار: {count}',
+    'ui.count.stopped': 'متوقفة: {count}',
+    'ui.count.error': 'بها أخطاء: {count}',
+    'scenario.objectives': 'الأهداف المنجزة: {completed} من {total}',
+    'scenario.footer': "اكتب 'scenario hint' للحصول على تلميح، أو 'scenario reset' للبدء من جديد",
+    'scenario.complete': 'اكتمل السيناريو!',
+
+    'shell.notFound': "الأمر '{name}' غير موجود. اكتب 'help' لعرض الأوامر المتاحة.",
+    'iam.denied': "{command}: تم رفض الإذن: المستخدم '{user}' لا يملك الصلاحية {permission} في المشروع '{project}' (الأدوار: {roles})",
+    'iam.noRoles': 'لا يوجد',
+
+    'help.title': 'الأوامر المتاحة:',
+    'help.more': "اكتب 'help NAME' لمعرفة طريقة استخدام أمر معيّن.",
+    'help.unknown': "help: لا يوجد موضوع مساعدة يطابق '{name}'.",
+
+    'locale.set': 'تم تغيير اللغة إلى {name}.',
+    'locale.unknown': "locale: لغة غير معروفة '{locale}' (المتاح: {available})",
+    'locale.useSet': "locale: للتبديل إلى '{locale}'، شغّل 'locale set {locale}'",
+
+    'instance.notFound': 'الخادم "{name}" غير موجود.',
+    'instance.exists': 'الخادم "{name}" موجود بالفعل.',
+    'instance.invalidType': 'نوع خادم غير صالح. استخدم: compute أو database أو storage أو network أو security',
+    'instance.cannotCreate': 'تعذّر إنشاء الخادم "{name}": {reason}.',
+    'instance.creating': 'جارٍ إنشاء خادم من نوع {type} باسم "{name}"...',
+    'instance.created': 'تم إنشاء الخادم بنجاح.',
+    'instance.bucketCreated': 'تم إنشاء الحاوية gs://{name}/.',
+    'instance.starting': 'جارٍ تشغيل الخادم "{name}"...',
+    'instance.stopping': 'جارٍ إيقاف الخادم "{name}"...',
+    'instance.deleting': 'جارٍ حذف الخادم "{name}"...',
+    'instance.running': 'الخادم يعمل الآن.',
+    'instance.stopped': 'الخادم متوقف الآن.',
+    'instance.deleted': 'تم حذف الخادم بنجاح.',
+    'instance.background': "العملية مستمرة في الخلفية (الحالة: {status}).\nنفّذ 'wait instance {name} --status {target}' للانتظار حتى تكتمل.",
+    'instance.interrupted': 'تمت المقاطعة؛ تستمر العملية في الخلفية (الحالة: {status}).',
+    'instance.failed': 'خطأ: فشل الخادم "{name}" وأصبح في حالة error. شغّله من جديد أو احذفه.',
+    'instance.alreadyRunning': 'الخادم "{name}" يعمل بالفعل.',
+    'instance.alreadyStopped': 'الخادم "{name}" متوقف بالفعل.',
+    'instance.cannotStart': 'لا يمكن تشغيل الخادم "{name}" وهو في الحالة {status}.',
+    'instance.cannotStop': 'لا يمكن إيقاف الخادم "{name}" وهو في الحالة {status}.',
+    'instance.cannotDelete': 'لا يمكن حذف الخادم "{name}" وهو في الحالة {status}.',
+    'instance.noRunState': 'الخادم "{name}" حاوية تخزين متاحة دائمًا، فلا يمكن تشغيلها أو إيقافها.',
+    'instance.bucketNotEmpty': "لا يمكن حذف الخادم \"{name}\" ما دامت حاويته تحتوي على كائنات. احذفها أولًا باستخدام 'gsutil rm -r -a gs://{name}'.",
+    'instance.noStatus': 'الخادم "{name}" حاوية تخزين ليست لها حالة يمكن انتظارها.',
+    'instance.noMetrics': "الخادم \"{name}\" حاوية تخزين وليست له مقاييس للمعالج أو الذاكرة أو الشبكة. نفّذ 'gsutil du -s gs://{name}' لمعرفة ما تحتويه.",
+    'instance.gone': 'تم حذف الخادم "{name}".',
+    'instance.deletedWhileWaiting': 'حُذف الخادم "{name}" أثناء انتظار الحالة {status}.',
+    'instance.timedOut': 'انتهت المهلة بعد {seconds} ثانية من انتظار وصول الخادم "{name}" إلى الحالة {status} (الحالة الحالية: {current}).',
+    'instance.reached': 'الخادم "{name}" في الحالة {status}.',
+    'instance.unreachable': 'الخادم "{name}" في الحالة {current} ولا توجد عملية جارية ستوصله إلى الحالة {status}.',
+  },
+  commands: {
+    help: 'عرض جميع الأوامر',
+    clear: 'مسح الشاشة',
+    date: 'عرض التاريخ الحالي',
+    time: 'عرض الوقت الحالي',
+    locale: 'عرض لغة الواجهة وتغييرها',
+    echo: 'طباعة نص',
+    export: 'تعيين متغير بيئة',
+    unset: 'حذف متغير',
+    env: 'عرض متغيرات البيئة',
+    whoami: 'عرض المستخدم الحالي',
+    exit: 'إغلاق جلسة ssh أو صدفة su',
+    uname: 'عرض معلومات النظام',
+    history: 'عرض سجل الأوامر',
+    bash: 'تشغيل سكربت صدفة',
+    sh: 'تشغيل سكربت صدفة',
+    source: 'تشغيل سكربت في الصدفة الحالية',
+    '.': 'تشغيل سكربت في الصدفة الحالية',
+    test: 'تقييم شرط',
+    '[': 'تقييم شرط',
+    true: 'النجاح دائمًا',
+    ':': 'النجاح دائمًا',
+    false: 'الفشل دائمًا',
+    pwd: 'عرض المجلد الحالي',
+    cd: 'تغيير المجلد',
+    ls: 'عرض الملفات',
+    tree: 'عرض شجرة المجلدات',
+    mkdir: 'إنشاء مجلد',
+    rmdir: 'حذف مجلد فارغ',
+    touch: 'إنشاء ملف',
+    rm: 'حذف ملفات',
+    cat: 'طباعة محتوى الملفات',
+    cp: 'نسخ ملفات',
+    mv: 'نقل ملفات',
+    chmod: 'تغيير الأذونات',
+    nano: 'تحرير ملف',
+    grep: 'تصفية الأسطر',
+    head: 'الأسطر الأولى',
+    tail: 'الأسطر الأخيرة',
+    wc: 'عدّ الأسطر والكلمات',
+    sort: 'ترتيب الأسطر',
+    session: 'حفظ الجلسة واستعادتها',
+    record: 'تسجيل جلسات الطرفية وإعادة تشغيلها',
+    'ssh-keygen': 'إنشاء مفتاح',
+    'ssh-add': 'إضافة مفتاح',
+    'ssh-list': 'عرض المفاتيح',
+    ssh: 'الاتصال بخادم',
+    'ssh-copy-id': 'نسخ المفتاح إلى خادم',
+    'ssh-remove': 'حذف مفتاح',
+    git: 'إدارة الإصدارات',
+    ping: 'اختبار الاتصال',
+    traceroute: 'تتبّع المسار إلى مضيف',
+    nslookup: 'الاستعلام من DNS',
+    host: 'الاستعلام من DNS',
+    ifconfig: 'واجهات الشبكة',
+    netstat: 'إحصاءات الشبكة',
+    curl: 'نقل البيانات من عنوان URL',
+    wget: 'تنزيل الملفات',
+    network: 'إدارة شبكات VPC والشبكات الفرعية وقواعد جدار الحماية',
+    iam: 'الأدوار وسياسة IAM للمشروع',
+    useradd: 'إنشاء مستخدم',
+    usermod: 'تعديل مستخدم',
+    id: 'عرض المستخدم ومجموعاته',
+    su: 'تبديل المستخدم',
+    sudo: 'تشغيل أمر بصلاحيات root',
+    gcloud: 'إدارة السحابة',
+    instances: 'عرض الخوادم',
+    create: 'إنشاء خادم',
+    start: 'تشغيل خادم',
+    stop: 'إيقاف خادم',
+    delete: 'حذف خادم',
+    wait: 'انتظار حالة معيّنة',
+    describe: 'تفاصيل الخادم',
+    logs: 'سجلات الخادم',
+    metrics: 'مقاييس أداء الخادم',
+    top: 'عرض حيّ للخوادم',
+    billing: 'التكاليف والميزانيات',
+    gsutil: 'إدارة حاويات التخزين وكائناتها',
+    audit: 'سجل تدقيق التغييرات',
+    terraform: 'إنشاء الموارد تصريحيًا من ملفات ‎.tf',
+    scenario: 'تمارين موجّهة ذات أهداف',
+  },
+  categories: {
+    system: 'أوامر النظام',
+    files: 'نظام الملفات',
+    text: 'معالجة النصوص',
+    ssh: 'أوامر SSH',
+    git: 'أوامر Git',
+    network: 'أوامر الشبكة',
+    cloud: 'أوامر السحابة',
+  },
+};
@@ -0,0 +1,83 @@
+import type { Catalog } from '../i18n';
+import { CATEGORY_LABELS } from '../registry';
+
+// The source catalog: every message the simulator translates, and its
+// placeholders in braces. Other locales must define the same keys.
+export const messages = {
+  'ui.title': 'Cloud Terminal Simulator',
+  'ui.welcome': 'Welcome to Cloud Terminal Simulator v2.0',
+  'ui.welcomeHint': "Type 'help' to see available commands",
+  'ui.exportSession': 'Export session',
+  'ui.importSession': 'Import session',
+  'ui.recording': 'Recording {name}',
+  'ui.rec': 'REC',
+  'ui.language': 'Language',
+  'ui.quickReference': 'Quick Reference',
+  'ui.sessionImported': 'Session imported from {file} (saved {savedAt}).',
+  'ui.count.compute': 'Compute: {count}',
+  'ui.count.database': 'Database: {count}',
+  'ui.count.storage': 'Storage: {count}',
+  'ui.count.network': 'Network: {count}',
+  'ui.count.security': 'Security: {count}',
+  'ui.count.repos': 'Repos: {count}',
+  'ui.count.sshKeys': 'SSH Keys: {count}',
+  'ui.count.running': 'Running: {count}',
+  'ui.count.pending': 'Pending: {count}',
+  'ui.count.stopped': 'Stopped: {count}',
+  'ui.count.error': 'Error: {count}',
+  'scenario.objectives': '{completed}/{total} objectives',
+  'scenario.footer': "'scenario hint' for help, 'scenario reset' to start over",
+  'scenario.complete': 'Scenario complete!',
+
+  'shell.notFound': "Command '{name}' not found. Type 'help' to see available commands.",
+  'iam.denied': "{command}: permission denied: user '{user}' lacks {permission} on project '{project}' (roles: {roles})",
+  'iam.noRoles': 'none',
+
+  'help.title': 'Available commands:',
+  'help.more': "Type 'help NAME' to see how to use a command.",
+  'help.unknown': "help: no help topics match '{name}'.",
+
+  'locale.set': 'Language set to {name}.',
+  'locale.unknown': "locale: unknown locale '{locale}' (available: {available})",
+  'locale.useSet': "locale: to switch to '{locale}', run 'locale set {locale}'",
+
+  'instance.notFound': 'Instance "{name}" not found.',
+  'instance.exists': 'Instance "{name}" already exists.',
+  'instance.invalidType': 'Invalid instance type. Use: compute, database, storage, network, or security',
+  'instance.cannotCreate': 'Cannot create instance "{name}": {reason}.',
+  'instance.creating': 'Creating {type} instance "{name}"...',
+  'instance.created': 'Instance created successfully.',
+  'instance.bucketCreated': 'Bucket gs://{name}/ created.',
+  'instance.starting': 'Starting instance "{name}"...',
+  'instance.stopping': 'Stopping instance "{name}"...',
+  'instance.deleting': 'Deleting instance "{name}"...',
+  'instance.running': 'Instance is now running.',
+  'instance.stopped': 'Instance is now stopped.',
+  'instance.deleted': 'Instance deleted successfully.',
+  'instance.background': "Operation running in the background (status: {status}).\nRun 'wait instance {name} --status {target}' to block until it completes.",
+  'instance.interrupted': 'Interrupted; the operation continues in the background (status: {status}).',
+  'instance.failed': 'ERROR: Instance "{name}" failed and is now in error state. Start it again or delete it.',
+  'instance.alreadyRunning': 'Instance "{name}" is already running.',
+  'instance.alreadyStopped': 'Instance "{name}" is already stopped.',
+  'instance.cannotStart': 'Cannot start instance "{name}" while it is {status}.',
+  'instance.cannotStop': 'Cannot stop instance "{name}" while it is {status}.',
+  'instance.cannotDelete': 'Cannot delete instance "{name}" while it is {status}.',
+  'instance.noRunState': 'Instance "{name}" is a storage bucket, which is always available: it cannot be started or stopped.',
+  'instance.bucketNotEmpty': "Cannot delete instance \"{name}\" while its bucket holds objects. Remove them first with 'gsutil rm -r -a gs://{name}'.",
+  'instance.noStatus': 'Instance "{name}" is a storage bucket, which has no status to wait for.',
+  'instance.noMetrics': "Instance \"{name}\" is a storage bucket and has no CPU, memory or network metrics. Run 'gsutil du -s gs://{name}' to see what it holds.",
+  'instance.gone': 'Instance "{name}" has been deleted.',
+  'instance.deletedWhileWaiting': 'Instance "{name}" was deleted while waiting for status {status}.',
+  'instance.timedOut': 'Timed out after {seconds}s waiting for instance "{name}" to reach status {status} (current: {current}).',
+  'instance.reached': 'Instance "{name}" is {status}.',
+  'instance.unreachable': 'Instance "{name}" is {current} and no pending operation will bring it to status {status}.',
+};
+
+export type MessageKey = keyof typeof messages;
+
+export const en: Catalog = {
+  messages,
+  // English summaries are the ones commands register with.
+  commands: {},
+  categories: CATEGORY_LABELS,
+};
@@ -0,0 +1,210 @@
+import { style, type Color } from './ansi';
+import { instanceActivity, SYSTEM_ACTOR } from './events';
+import { hashString, loadAt, random } from './metrics';
+import type { ActivityEvent, Instance, InstanceType, SessionState } from './types';
+
+// Instance logs: the instance's real lifecycle from the activity log, woven
+// together with application lines simulated for the time it was running.
+// The simulated lines are derived from the instance id and the time, so the
+// same window always reads the same and `logs -f` only has to ask for what
+// is new.
+
+export const SEVERITIES = ['DEBUG', 'INFO', 'NOTICE', 'WARNING', 'ERROR'] as const;
+
+export type Severity = typeof SEVERITIES[number];
+
+export interface LogEntry {
+  time: number;
+  severity: Severity;
+  source: string;
+  message: string;
+}
+
+// What logs are generated from: a current instance, or one that was deleted and is still on the bill.
+export type LogSource = Pick<Instance, 'id' | 'name' | 'type' | 'runs'>;
+
+const SEVERITY_COLORS: Partial<Record<Severity, Color>> = {
+  DEBUG: 'gray',
+  NOTICE: 'cyan',
+  WARNING: 'yellow',
+  ERROR: 'red',
+};
+
+// Application lines are considered every SLOT_MS, and written for some of those slots.
+const SLOT_MS = 4000;
+const LINE_CHANCE = 0.45;
+const BOOT_STEP_MS = 350;
+
+type Template = (pick: (max: number) => number) => string;
+
+interface Service {
+  name: string;
+  debug: Template[];
+  info: Template[];
+  warning: Template[];
+  error: Template[];
+}
+
+const hex = (pick: (max: number) => number) => pick(0xffffff).toString(16).padStart(6, '0');
+
+const SERVICES: Record<InstanceType, Service> = {
+  compute: {
+    name: 'nginx',
+    debug: [pick => `worker ${pick(4) + 1}: keepalive connections ${pick(40)}`],
+    info: [
+      pick => `GET /api/health 200 ${pick(8) + 1}ms`,
+      pick => `GET / 200 ${pick(40) + 5}ms`,
+      pick => `POST /api/orders 201 ${pick(120) + 20}ms`,
+      pick => `GET /static/app.${hex(pick)}.js 304 ${pick(4) + 1}ms`,
+    ],
+    warning: [pick => `upstream response time ${pick(900) + 500}ms exceeds 500ms target`],
+    error: [() => 'upstream timed out (110: Connection timed out) while reading response header'],
+  },
+  database: {
+    name: 'postgres',
+    debug: [() => 'connection authorized: user=app database=app'],
+    info: [
+      pick => `checkpoint complete: wrote ${pick(900) + 20} buffers`,
+      () => 'automatic vacuum of table "app.public.orders"',
+      pick => `duration: ${pick(30) + 1}.${pick(10)} ms  statement: SELECT * FROM orders WHERE id = $1`,
+    ],
+    warning: [pick => `slow query (${pick(4000) + 1000} ms): SELECT count(*) FROM events`],
+    error: [() => 'deadlock detected while updating "public.inventory"'],
+  },
+  storage: {
+    name: 'storaged',
+    debug: [pick => `gc: reclaimed ${pick(200)} chunks`],
+    info: [
+      pick => `PUT uploads/${hex(pick)}.bin ${pick(4000) + 10} KB`,
+      pick => `GET assets/${hex(pick)}.png 200 ${pick(900) + 10} KB`,
+    ],
+    warning: [pick => `replication lag ${pick(20) + 5}s on volume vol-${hex(pick)}`],
+    error: [pick => `checksum mismatch on chunk ${hex(pick)}, re-replicating`],
+  },
+  network: {
+    name: 'envoy',
+    debug: [pick => `conntrack: ${pick(5000) + 100} active flows`],
+    info: [
+      pick => `backend pool healthy (${pick(3) + 2}/${pick(3) + 2})`,
+      pick => `routed ${pick(900) + 50} requests in the last 4s`,
+    ],
+    warning: [pick => `backend 10.128.0.${pick(200) + 2} failed health check`],
+    error: [() => 'all backends unhealthy, returning 503'],
+  },
+  security: {
+    name: 'suricata',
+    debug: [() => 'rule set reloaded (0 changes)'],
+    info: [
+      pick => `scanned ${pick(90000) + 1000} packets, 0 alerts`,
+      pick => `allowed ssh from 10.128.0.${pick(200) + 2}`,
+    ],
+    warning: [pick => `blocked ${pick(40) + 5} connection attempts from 203.0.113.${pick(250) + 1}`],
+    error: [pick => `signature match: possible SQL injection from 198.51.100.${pick(250) + 1}`],
+  },
+};
+
+const bootMessages = (service: string) => [
+  'Booting Linux 6.1.0-cloud-amd64',
+  'systemd[1]: Reached target Network is Online',
+  `systemd[1]: Started ${service}.service`,
+  'guest-agent: Instance setup finished',
+];
+
+// Busier moments are more likely to go wrong.
+const severityAt = (load: number, roll: number): Severity => {
+  if (roll < (load > 0.85 ? 0.12 : 0.01)) {
+    return 'ERROR';
+  }
+  if (roll < (load > 0.7 ? 0.35 : 0.06)) {
+    return 'WARNING';
+  }
+  return roll > 0.8 ? 'DEBUG' : 'INFO';
+};
+
+const within = (time: number, from: number, to: number) => time > from && time <= to;
+
+const applicationLines = (instance: LogSource, from: number, to: number): LogEntry[] => {
+  const service = SERVICES[instance.type];
+  const seed = hashString(instance.id);
+  const entries: LogEntry[] = [];
+  for (const run of instance.runs ?? []) {
+    const end = Math.min(run.end ?? to, to);
+    bootMessages(service.name).forEach((message, index) => {
+      const time = run.start + index * BOOT_STEP_MS;
+      if (within(time, from, end)) {
+        entries.push({ time, severity: 'INFO', source: index === 0 ? 'kernel' : 'systemd', message });
+      }
+    });
+    const first = Math.floor(Math.max(from, run.start + SLOT_MS) / SLOT_MS);
+    for (let slot = first; slot * SLOT_MS <= end; slot++) {
+      if (random(seed, slot * 3) >= LINE_CHANCE) {
+        continue;
+      }
+      const time = slot * SLOT_MS + Math.floor(random(seed, slot * 3 + 1) * SLOT_MS);
+      if (!within(time, from, end)) {
+        continue;
+      }
+      const severity = severityAt(loadAt(instance, time), random(seed, slot * 3 + 2));
+      const templates = service[severity.toLowerCase() as 'debug' | 'info' | 'warning' | 'error'];
+      let n = 0;
+      const pick = (max: number) => Math.floor(random(seed ^ slot, n++) * max);
+      entries.push({ time, severity, source: service.name, message: templates[pick(templates.length)](pick) });
+    }
+  }
+  return entries;
+};
+
+const lifecycleLine = (event: ActivityEvent): Omit<LogEntry, 'time'> | null => {
+  const by = event.actor === SYSTEM_ACTOR ? '' : ` by ${event.actor}`;
+  switch (event.type) {
+    case 'instance.create':
+      return { severity: 'NOTICE', source: 'compute', message: `Instance created${by} (${event.machineType} in ${event.zone})` };
+    case 'instance.start':
+      return { severity: 'NOTICE', source: 'compute', message: `Start requested${by}` };
+    case 'instance.stop':
+      return { severity: 'NOTICE', source: 'compute', message: `Stop requested${by}` };
+    case 'instance.delete':
+      return { severity: 'NOTICE', source: 'compute', message: `Delete requested${by}` };
+    case 'instance.status':
+      return {
+        severity: event.to === 'error' ? 'ERROR' : 'INFO',
+        source: 'compute',
+        message: event.to === 'deleted' ? 'Instance deleted' : `Status changed from ${event.from} to ${event.to}`,
+      };
+    default:
+      return null;
+  }
+};
+
+// Log entries with `from < time <= to`, oldest first.
+export const instanceLogs = (state: SessionState, instance: LogSource, from: number, to: number): LogEntry[] => {
+  const lifecycle = instanceActivity(state, instance.id).flatMap(event => {
+    const line = lifecycleLine(event);
+    return line && within(event.time, from, to) ? [{ ...line, time: event.time }] : [];
+  });
+  return [...lifecycle, ...applicationLines(instance, from, to)].sort((a, b) => a.time - b.time);
+};
+
+// The instance called `name`, or the last one of that name that was deleted.
+export const findLogSource = (state: SessionState, name: string): LogSource | undefined => {
+  const current = state.instances.find(instance => instance.name === name);
+  if (current) {
+    return current;
+  }
+  const created = [...state.events].reverse().find(event => event.type === 'instance.create' && event.instance === name);
+  if (created?.type !== 'instance.create') {
+    return undefined;
+  }
+  const usage = state.usage.find(record => record.id === created.instanceId);
+  return { id: created.instanceId, name, type: created.instanceType, runs: usage?.runs ?? [] };
+};
+
+export const isSeverity = (value: string): value is Severity => (SEVERITIES as readonly string[]).includes(value);
+
+export const atLeast = (severity: Severity, minimum: Severity) => SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(minimum);
+
+export const formatLogEntry = ({ time, severity, source, message }: LogEntry) => {
+  const label = severity.padEnd(7);
+  const colour = SEVERITY_COLORS[severity];
+  return `${new Date(time).toISOString()} ${colour ? style(label, colour) : label} ${source}: ${message}`;
+};
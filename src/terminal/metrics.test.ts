@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { sampleMetrics, sampleSeries, sparkline } from './metrics';
+import type { Instance } from './types';
+
+const HOUR = 60 * 60 * 1000;
+const web: Instance = { id: 'i-web', name: 'web', type: 'compute', status: 'running', runs: [{ start: 0 }] };
+
+describe('sampleMetrics', () => {
+  it('gives the same sample for the same instance and time', () => {
+    expect(sampleMetrics(web, HOUR)).toEqual(sampleMetrics({ ...web }, HOUR));
+    expect(sampleMetrics(web, HOUR)).not.toEqual(sampleMetrics({ ...web, id: 'i-other' }, HOUR));
+  });
+
+  it('stays within percentages', () => {
+    sampleSeries(web, 0, 24 * HOUR, 200).forEach(sample => {
+      expect(sample.cpu).toBeGreaterThan(0);
+      expect(sample.cpu).toBeLessThanOrEqual(100);
+      expect(sample.memory).toBeLessThanOrEqual(98);
+    });
+  });
+
+  it('reports no load while the instance is not running', () => {
+    const stopped = { ...web, status: 'stopped' as const, runs: [{ start: 0, end: HOUR }] };
+    expect(sampleMetrics(stopped, 2 * HOUR)).toMatchObject({ cpu: 0, memory: 0, networkIn: 0, responseTime: null });
+    expect(sampleMetrics(stopped, 2 * HOUR).disk).toBeGreaterThan(0);
+  });
+
+  it('sizes memory by the machine type', () => {
+    const small = sampleMetrics({ ...web, machineType: 'e2-micro' }, HOUR);
+    const large = sampleMetrics({ ...web, machineType: 'n2-highmem-4' }, HOUR);
+    expect(small.memory).toBe(large.memory);
+    expect(small.memoryMb / 1024).toBeCloseTo(small.memory / 100, 2);
+    expect(large.memoryMb / (32 * 1024)).toBeCloseTo(large.memory / 100, 2);
+  });
+});
+
+describe('sampleSeries', () => {
+  it('spreads the points evenly over the window', () => {
+    expect(sampleSeries(web, 0, HOUR, 5).map(sample => sample.time)).toEqual([0, HOUR / 4, HOUR / 2, 3 * HOUR / 4, HOUR]);
+  });
+});
+
+describe('sparkline', () => {
+  it('scales values to block heights', () => {
+    expect(sparkline([0, 50, 100], 100)).toBe('▁▅█');
+  });
+});
@@ -0,0 +1,156 @@
+import { DEFAULT_MACHINE_TYPE, MACHINE_TYPES } from './compute';
+import type { Instance, InstanceType } from './types';
+
+export interface MetricSample {
+  time: number;
+  cpu: number;
+  memory: number;
+  memoryMb: number;
+  disk: number;
+  diskGb: number;
+  networkIn: number;
+  networkOut: number;
+  responseTime: number | null;
+}
+
+interface TypeProfile {
+  baseLoad: number;
+  baseMemory: number;
+  diskGb: number;
+  baseDisk: number;
+  network: number;
+  latency: number;
+}
+
+const PROFILES: Record<InstanceType, TypeProfile> = {
+  compute: { baseLoad: 0.35, baseMemory: 25, diskGb: 100, baseDisk: 18, network: 40, latency: 25 },
+  database: { baseLoad: 0.5, baseMemory: 55, diskGb: 500, baseDisk: 35, network: 25, latency: 8 },
+  storage: { baseLoad: 0.15, baseMemory: 15, diskGb: 1000, baseDisk: 40, network: 120, latency: 40 },
+  network: { baseLoad: 0.25, baseMemory: 20, diskGb: 20, baseDisk: 10, network: 300, latency: 2 },
+  security: { baseLoad: 0.3, baseMemory: 30, diskGb: 50, baseDisk: 12, network: 60, latency: 5 },
+};
+
+const WARM_UP_MS = 90 * 1000;
+const BOOT_MS = 20 * 1000;
+const LOAD_PERIOD_MS = 15 * 60 * 1000;
+const NOISE_KNOT_MS = 20 * 1000;
+
+export const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic pseudo-random value in [0, 1) for the pair (seed, n).
+export const random = (seed: number, n: number) => {
+  let x = (seed ^ Math.imul(n, 0x9e3779b1)) >>> 0;
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  x ^= x >>> 16;
+  return (x >>> 0) / 4294967296;
+};
+
+// Smoothly interpolated noise so consecutive samples drift rather than jump.
+const smoothNoise = (seed: number, time: number, knotMs = NOISE_KNOT_MS) => {
+  const position = time / knotMs;
+  const knot = Math.floor(position);
+  const fraction = position - knot;
+  const eased = fraction * fraction * (3 - 2 * fraction);
+  const a = random(seed, knot);
+  const b = random(seed, knot + 1);
+  return a + (b - a) * eased;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const runAt = (instance: Instance, time: number) => {
+  return (instance.runs ?? []).find(run => run.start <= time && (run.end === undefined || time < run.end));
+};
+
+const totalUptime = (instance: Instance, time: number) => {
+  return (instance.runs ?? []).reduce((total, run) => {
+    if (run.start > time) {
+      return total;
+    }
+    return total + Math.min(run.end ?? time, time) - run.start;
+  }, 0);
+};
+
+// Workload in [0, 1]: a slow per-instance cycle plus drifting noise.
+export const loadAt = (instance: Pick<Instance, 'id' | 'type'>, time: number) => {
+  const seed = hashString(instance.id);
+  const profile = PROFILES[instance.type];
+  const phase = random(seed, 0) * Math.PI * 2;
+  const cycle = Math.sin((time / LOAD_PERIOD_MS) * Math.PI * 2 + phase) * 0.15;
+  const noise = (smoothNoise(seed, time) - 0.5) * 0.3;
+  const spike = smoothNoise(seed ^ 0x5bd1e995, time, 3 * 60 * 1000) > 0.9 ? 0.3 : 0;
+  return clamp(profile.baseLoad + cycle + noise + spike, 0.02, 1);
+};
+
+const memoryMbOf = (instance: Instance) => (MACHINE_TYPES[instance.machineType ?? DEFAULT_MACHINE_TYPE]?.memoryGb ?? 1) * 1024;
+
+export const sampleMetrics = (instance: Instance, time: number): MetricSample => {
+  const profile = PROFILES[instance.type];
+  const seed = hashString(instance.id);
+  const diskGrowth = totalUptime(instance, time) / (60 * 60 * 1000);
+  const disk = clamp(profile.baseDisk + random(seed, 1) * 10 + diskGrowth * 0.5, 0, 99);
+  const run = runAt(instance, time);
+
+  if (!run) {
+    return {
+      time,
+      cpu: 0,
+      memory: 0,
+      memoryMb: 0,
+     
+      disk: round(disk),
+      diskGb: round((disk / 100) * profile.diskGb),
+      networkIn: 0,
+      networkOut: 0,
+      responseTime: null,
+    };
+  }
+
+  const elapsed = time - run.start;
+  const warm = 1 - Math.exp(-elapsed / (WARM_UP_MS / 3));
+  const boot = Math.exp(-elapsed / BOOT_MS) * 45;
+  const load = loadAt(instance, time);
+  const cpu = clamp(load * 100 * warm + boot, 0.5, 100);
+  const memory = clamp(profile.baseMemory * (0.5 + warm / 2) + load * 30 * warm + random(seed, 2) * 5, 1, 98);
+  const networkIn = load * profile.network * warm;
+  const networkOut = networkIn * (0.4 + random(seed, 3) * 0.8);
+  const responseTime = profile.latency * (1 + load * load * 6) * (1 + (1 - warm));
+
+  return {
+    time,
+    cpu: round(cpu),
+    memory: round(memory),
+    memoryMb: Math.round((memory / 100) * memoryMbOf(instance)),
+    disk: round(disk),
+    diskGb: round((disk / 100) * profile.diskGb),
+    networkIn: round(networkIn),
+    networkOut: round(networkOut),
+    responseTime: round(responseTime),
+  };
+};
+
+export const sampleSeries = (instance: Instance, from: number, to: number, points: number) => {
+  const step = points > 1 ? (to - from) / (points - 1) : 0;
+  return Array.from({ length: points }, (_, index) => sampleMetrics(instance, from + step * index));
+};
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+export const sparkline = (values: number[], max = Math.max(...values, 1)) => {
+  return values
+    .map(value => SPARK_CHARS[Math.min(SPARK_CHARS.length - 1, Math.floor((value / max) * SPARK_CHARS.length))])
+    .join('');
+};
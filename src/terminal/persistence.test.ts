@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createSnapshot, loadSnapshot, parseSnapshot, serializeSnapshot, SNAPSHOT_VERSION, SnapshotError } from './persistence';
+import { createInitialState } from './state';
+
+const stored = (data: string | null) => ({ load: () => data, save: () => {}, clear: () => {} });
+
+describe('session snapshots', () => {
+  it('round-trip the state and transcript', () => {
+    const state = { ...createInitialState(), currentPath: '/tmp' };
+    const transcript = [{ input: 'pwd', output: '/tmp', timestamp: '10:00:00', path: '/tmp' }];
+    const snapshot = parseSnapshot(serializeSnapshot(createSnapshot(state, transcript)));
+    expect(snapshot.state).toEqual(state);
+    expect(snapshot.transcript).toEqual(transcript);
+  });
+
+  it('fill fields that older snapshots lack', () => {
+    const snapshot = parseSnapshot(JSON.stringify({ version: SNAPSHOT_VERSION, state: { currentPath: '/tmp' } }));
+    expect(snapshot.state.currentPath).toBe('/tmp');
+    expect(Object.keys(snapshot.state).sort()).toEqual(Object.keys(createInitialState()).sort());
+    expect(snapshot.transcript).toEqual([]);
+  });
+
+  it('reject data that is not a snapshot', () => {
+    expect(() => parseSnapshot('{')).toThrow(SnapshotError);
+    expect(() => parseSnapshot('{"state":{}}')).toThrow('not a session snapshot (missing version)');
+    expect(() => parseSnapshot(JSON.stringify({ version: SNAPSHOT_VERSION + 1, state: {} }))).toThrow(SnapshotError);
+  });
+
+  it('reject fields of the wrong shape', () => {
+    const parse = (snapshot: object) => () => parseSnapshot(JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot }));
+    expect(parse({ state: [] })).toThrow('snapshot has no session state');
+    expect(parse({ state: { instances: {} } })).toThrow('snapshot field state.instances is object, expected array');
+    expect(parse({ state: { env: ['PATH'] } })).toThrow('snapshot field state.env is array, expected object');
+    expect(parse({ state: { budget: 5 } })).toThrow('snapshot field state.budget is number, expected object');
+    expect(parse({ state: {}, transcript: 'pwd' })).toThrow('snapshot field transcript is string, expected array');
+    expect(() => parseSnapshot(JSON.stringify({ version: 1, state: { networks: null } }))).toThrow(SnapshotError);
+  });
+
+  it('start afresh when the stored session is unreadable', () => {
+    expect(loadSnapshot(stored(null))).toBeNull();
+    expect(loadSnapshot(stored('not json'))).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { attachInstance, DEFAULT_NETWORK, NetworkError } from './hosts';
+import { createInitialState } from './state';
+import type { Command, SessionState } from './types';
+
+export const SNAPSHOT_VERSION = 2;
+
+export interface SessionSnapshot {
+  version: number;
+  savedAt: string;
+  state: SessionState;
+  transcript: Command[];
+}
+
+export interface SessionStorage {
+  load(): string | null;
+  save(data: string): void;
+  clear(): void;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+type RawSnapshot = { version: number } & Record<string, unknown>;
+
+// Each entry upgrades a snapshot from version `n` to `n + 1`. Fields that are
+// simply missing are filled from createInitialState(), so migrations are only
+// needed when existing data changes shape.
+const MIGRATIONS: Record<number, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // Version 2 added the default network; existing instances join it and get an address.
+  1: snapshot => {
+    const initial = createInitialState();
+    const state = { ...initial, ...(snapshot.state as Partial<SessionState>) };
+    const networks = state.networks.some(n => n.name === DEFAULT_NETWORK)
+      ? state.networks
+      : [...initial.networks, ...state.networks];
+    const migrated = state.instances.reduce<SessionState>((next, instance) => {
+      try {
+        return { ...next, instances: [...next.instances, attachInstance(next, instance)] };
+      } catch (error) {
+        if (!(error instanceof NetworkError)) {
+          throw error;
+        }
+        return { ...next, instances: [...next.instances, instance] };
+      }
+    }, { ...state, networks, instances: [] });
+    return { ...snapshot, state: migrated };
+  },
+};
+
+// State fields that createInitialState() leaves out, so have nothing to compare against.
+const OPTIONAL_FIELDS = ['budget', 'scenario', 'recording'];
+
+const kindOf = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+// Snapshots come from files the user picks, so every field has to be the
+// kind the rest of the simulator expects before it is trusted.
+const checkState = (state: unknown) => {
+  if (kindOf(state) !== 'object') {
+    throw new SnapshotError('snapshot has no session state');
+  }
+  const initial: Record<string, unknown> = { ...createInitialState() };
+  Object.entries(state as Record<string, unknown>).forEach(([key, value]) => {
+    const expected = key in initial ? kindOf(initial[key]) : OPTIONAL_FIELDS.includes(key) ? 'object' : null;
+    if (expected && kindOf(value) !== expected) {
+      throw new SnapshotError(`snapshot field state.${key} is ${kindOf(value)}, expected ${expected}`);
+    }
+  });
+};
+
+export const createSnapshot = (state: SessionState, transcript: Command[]): SessionSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  savedAt: new Date().toISOString(),
+  state,
+  transcript,
+});
+
+export const migrateSnapshot = (raw: unknown): SessionSnapshot => {
+  if (!raw || typeof raw !== 'object' || typeof (raw as RawSnapshot).version !== 'number') {
+    throw new SnapshotError('not a session snapshot (missing version)');
+  }
+  let snapshot = raw as RawSnapshot;
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    throw new SnapshotError(`snapshot version ${snapshot.version} is newer than supported version ${SNAPSHOT_VERSION}`);
+  }
+  checkState(snapshot.state);
+  if (snapshot.transcript !== undefined && !Array.isArray(snapshot.transcript)) {
+    throw new SnapshotError(`snapshot field transcript is ${kindOf(snapshot.transcript)}, expected array`);
+  }
+  while (snapshot.version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      throw new SnapshotError(`no migration from snapshot version ${snapshot.version}`);
+    }
+    snapshot = { ...migrate(snapshot), version: snapshot.version + 1 };
+  }
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: typeof snapshot.savedAt === 'string' ? snapshot.savedAt : new Date().toISOString(),
+    state: { ...createInitialState(), ...(snapshot.state as Partial<SessionState>) },
+    transcript: (snapshot.transcript ?? []) as Command[],
+  };
+};
+
+export const serializeSnapshot = (snapshot: SessionSnapshot) => JSON.stringify(snapshot);
+
+export const parseSnapshot = (data: string) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    throw new SnapshotError('snapshot is not valid JSON');
+  }
+  return migrateSnapshot(raw);
+};
+
+export const createLocalStorage = (key = 'cloud-terminal:session'): SessionStorage => ({
+  load: () => {
+    try {
+      return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  save: data => {
+    try {
+      localStorage?.setItem(key, data);
+    } catch {
+      // Quota exceeded or storage disabled: the session still works, it just won't survive a reload.
+    }
+  },
+  clear: () => {
+    try {
+      localStorage?.removeItem(key);
+    } catch {
+      // See save().
+    }
+  },
+});
+
+export const loadSnapshot = (storage: SessionStorage): SessionSnapshot | null => {
+  const data = storage.load();
+  if (!data) {
+    return null;
+  }
+  try {
+    return parseSnapshot(data);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendEvent,
+  castTranscript,
+  CastError,
+  echoEdit,
+  parseCast,
+  playbackTimes,
+  renderOutput,
+  serializeCast,
+  startRecording,
+} from './recording';
+
+describe('asciicast', () => {
+  it('round-trips a recording through the v2 format', () => {
+    let recording = startRecording('demo', 10_000);
+    recording = appendEvent(recording, 10_500, 'ls\r\n', 'i');
+    recording = appendEvent(recording, 11_250, 'a.txt\r\n');
+    recording = appendEvent(recording, 12_000, '');
+    const source = serializeCast(recording, { SHELL: '/bin/bash' });
+    const [header, ...events] = source.trimEnd().split('\n').map(line => JSON.parse(line));
+    expect(header).toMatchObject({ version: 2, timestamp: 10, title: 'demo', env: { SHELL: '/bin/bash' } });
+    expect(events).toEqual([[0.5, 'i', 'ls\r\n'], [1.25, 'o', 'a.txt\r\n']]);
+    expect(parseCast(source).events).toEqual(events);
+  });
+
+  it('skips event types it does not play and rejects malformed lines', () => {
+    const header = '{"version": 2, "width": 80, "height": 24}';
+    expect(parseCast(`${header}\n[1, "m", "marker"]\n[2, "o", "x"]\n`).events).toEqual([[2, 'o', 'x']]);
+    expect(() => parseCast('{"version": 1}')).toThrow('line 1: only asciicast version 2 is supported');
+    expect(() => parseCast(`${header}\n[1, "o"]`)).toThrow(CastError);
+  });
+
+  it('shortens pauses longer than the idle limit', () => {
+    const cast = parseCast('{"version": 2, "width": 80, "height": 24, "idle_time_limit": 2}\n[1, "o", "a"]\n[10, "o", "b"]\n[10.5, "o", "c"]');
+    expect(playbackTimes(cast)).toEqual([1, 3, 3.5]);
+  });
+});
+
+describe('renderOutput', () => {
+  it('applies carriage returns, backspaces and line erases', () => {
+    expect(renderOutput('hello\rj')).toBe('jello');
+    expect(renderOutput('ls -la\b\b\b\b\x1b[K\r\nfile')).toBe('ls\nfile');
+    expect(renderOutput('old\x1b[2J\x1b[Hnew')).toBe('new');
+  });
+
+  it('replays line edits', () => {
+    expect(renderOutput(`git stat${echoEdit('git stat', 'git status')}`)).toBe('git status');
+    expect(renderOutput(`cat file.txt${echoEdit('cat file.txt', 'cat f')}`)).toBe('cat f');
+  });
+
+  it('gives transcripts without trailing spaces', () => {
+    const cast = parseCast('{"version": 2, "width": 80, "height": 24}\n[0, "o", "$ pwd  \\r\\n"]\n[0, "i", "ignored"]\n[1, "o", "/home\\r\\n"]');
+    expect(castTranscript(cast)).toBe('$ pwd\n/home\n');
+  });
+});
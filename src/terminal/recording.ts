@@ -0,0 +1,140 @@
+import { renderScreen, screenText } from './ansi';
+
+// Terminal recordings in the asciinema v2 format: a JSON header line followed
+// by one `[seconds, "o", data]` line per chunk of output.
+
+export type RecordingEvent = [time: number, type: 'o' | 'i', data: string];
+
+export interface Recording {
+  name: string;
+  startedAt: number;
+  events: RecordingEvent[];
+}
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number;
+  title?: string;
+  // Pauses longer than this many seconds are shortened on replay.
+  idle_time_limit?: number;
+  env?: Record<string, string>;
+}
+
+export interface Cast {
+  header: CastHeader;
+  events: RecordingEvent[];
+}
+
+export class CastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CastError';
+  }
+}
+
+export const RECORDING_DIR = '~/recordings';
+export const CAST_WIDTH = 100;
+export const CAST_HEIGHT = 30;
+export const IDLE_TIME_LIMIT = 2;
+
+export const CLEAR_SCREEN = '\x1b[2J\x1b[H';
+
+export const startRecording = (name: string, now: number): Recording => ({ name, startedAt: now, events: [] });
+
+export const appendEvent = (recording: Recording, now: number, data: string, type: 'o' | 'i' = 'o'): Recording => {
+  if (!data) {
+    return recording;
+  }
+  const time = Math.max(0, now - recording.startedAt) / 1000;
+  return { ...recording, events: [...recording.events, [Number(time.toFixed(6)), type, data]] };
+};
+
+// Output as a terminal expects it, with every line ending in CR LF.
+export const terminalText = (text: string) => text.replace(/\r?\n/g, '\r\n');
+
+export const promptText = (path: string, host?: string) => host ? `${host}:${path}$ ` : `${path} $ `;
+
+// The bytes that turn the input line `previous`, echoed with the cursor at its
+// end, into `next`: back up to where they differ, rewrite, clear the rest.
+export const echoEdit = (previous: string, next: string) => {
+  let common = 0;
+  while (common < previous.length && common < next.length && previous[common] === next[common]) {
+    common++;
+  }
+  const back = previous.length - common;
+  return '\b'.repeat(back) + next.slice(common) + (back > 0 ? '\x1b[K' : '');
+};
+
+export const serializeCast = (recording: Recording, env: Record<string, string> = {}) => {
+  const header: CastHeader = {
+    version: 2,
+    width: CAST_WIDTH,
+    height: CAST_HEIGHT,
+    timestamp: Math.floor(recording.startedAt / 1000),
+    title: recording.name,
+    idle_time_limit: IDLE_TIME_LIMIT,
+    env,
+  };
+  return [header, ...recording.events].map(line => JSON.stringify(line)).join('\n') + '\n';
+};
+
+export const parseCast = (source: string): Cast => {
+  const lines = source.split('\n');
+  let header: CastHeader;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw new CastError('line 1: invalid header (not an asciicast file?)');
+  }
+  if (typeof header !== 'object' || header === null || header.version !== 2) {
+    throw new CastError('line 1: only asciicast version 2 is supported');
+  }
+  if (typeof header.width !== 'number' || typeof header.height !== 'number') {
+    throw new CastError('line 1: header needs numeric width and height');
+  }
+  const events: RecordingEvent[] = [];
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new CastError(`line ${index + 2}: invalid JSON`);
+    }
+    if (!Array.isArray(event) || typeof event[0] !== 'number' || typeof event[1] !== 'string' || typeof event[2] !== 'string') {
+      throw new CastError(`line ${index + 2}: expected [time, type, data]`);
+    }
+    // Other event types (markers, resizes) carry nothing to show.
+    if (event[1] === 'o' || event[1] === 'i') {
+      events.push(event as RecordingEvent);
+    }
+  });
+  return { header, events };
+};
+
+export const castDuration = (cast: Cast) => cast.events.length > 0 ? cast.events[cast.events.length - 1][0] : 0;
+
+// Event times with pauses longer than the header's idle_time_limit cut short.
+export const playbackTimes = (cast: Cast) => {
+  const limit = cast.header.idle_time_limit ?? Infinity;
+  let previous = 0;
+  let elapsed = 0;
+  return cast.events.map(([time]) => {
+    elapsed += Math.min(time - previous, limit);
+    previous = time;
+    return elapsed;
+  });
+};
+
+// What a terminal shows after receiving `data`, as plain text.
+export const renderOutput = (data: string) => screenText(renderScreen(data));
+
+// The session as plain text, without timing.
+export const castTranscript = (cast: Cast) => {
+  const output = cast.events.filter(([, type]) => type === 'o').map(([, , data]) => data).join('');
+  return renderOutput(output).split('\n').map(line => line.trimEnd()).join('\n').trimEnd() + '\n';
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { executeLine } from './interpreter';
+import { CommandRegistry } from './registry';
+import { createInitialState } from './state';
+import { runLine } from './test-utils';
+import type { CommandDefinition } from './types';
+
+const greet: CommandDefinition = {
+  name: 'greet',
+  category: 'system',
+  summary: 'Say hello',
+  usage: [{ usage: 'greet [name]', description: 'Say hello' }],
+  run: args => ({ output: `hello ${args[0] ?? 'world'}` }),
+};
+
+describe('CommandRegistry', () => {
+  it('runs commands from plugins', async () => {
+    const registry = new CommandRegistry().use(r => r.register(greet));
+    expect(registry.has('greet')).toBe(true);
+    expect((await executeLine(registry, 'greet ada', createInitialState())).output).toBe('hello ada');
+  });
+
+  it('rejects a second command with the same name', () => {
+    const registry = new CommandRegistry().register(greet);
+    expect(() => registry.register(greet)).toThrow('Command "greet" is already registered');
+  });
+
+  it('groups commands by category', () => {
+    const registry = new CommandRegistry().register(greet);
+    expect(registry.byCategory().get('system')).toEqual([greet]);
+    expect(registry.byCategory().get('git')).toEqual([]);
+  });
+
+  it('narrows to a subset of its commands', async () => {
+    const registry = new CommandRegistry().register(greet).register({ ...greet, name: 'wave' }).only(['greet', 'missing', 'greet']);
+    expect(registry.list().map(command => command.name)).toEqual(['greet']);
+    expect((await executeLine(registry, 'wave', createInitialState())).exitCode).toBe(127);
+  });
+});
+
+describe('built-in commands', () => {
+  it('apply their state changes', async () => {
+    const { state } = await runLine('cd /tmp');
+    expect(state.currentPath).toBe('/tmp');
+  });
+});
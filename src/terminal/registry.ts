@@ -0,0 +1,63 @@
+import type { CommandCategory, CommandDefinition, CommandPlugin } from './types';
+
+export const CATEGORY_LABELS: Record<CommandCategory, string> = {
+  system: 'System Commands',
+  files: 'File System',
+  text: 'Text Processing',
+  ssh: 'SSH Commands',
+  git: 'Git Commands',
+  network: 'Network Commands',
+  cloud: 'Cloud Commands',
+};
+
+export class CommandRegistry {
+  private commands = new Map<string, CommandDefinition>();
+
+  register(definition: CommandDefinition) {
+    if (this.commands.has(definition.name)) {
+      throw new Error(`Command "${definition.name}" is already registered`);
+    }
+    this.commands.set(definition.name, definition);
+    return this;
+  }
+
+  use(plugin: CommandPlugin) {
+    plugin(this);
+    return this;
+  }
+
+  get(name: string) {
+    return this.commands.get(name);
+  }
+
+  has(name: string) {
+    return this.commands.has(name);
+  }
+
+  // A registry offering just the commands in `names`, for sandboxes that should stick to a topic.
+  only(names: string[]) {
+    const registry = new CommandRegistry();
+    for (const name of names) {
+      const definition = this.commands.get(name);
+      if (definition && !registry.has(name)) {
+        registry.register(definition);
+      }
+    }
+    return registry;
+  }
+
+  list() {
+    return Array.from(this.commands.values());
+  }
+
+  byCategory() {
+    const groups = new Map<CommandCategory, CommandDefinition[]>();
+    for (const category of Object.keys(CATEGORY_LABELS) as CommandCategory[]) {
+      groups.set(category, []);
+    }
+    for (const definition of this.commands.values()) {
+      groups.get(definition.category)?.push(definition);
+    }
+    return groups;
+  }
+}
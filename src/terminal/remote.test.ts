@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { closeBrokenConnections, closeConnection, openConnection } from './remote';
+import { createInitialState } from './state';
+import { runLine } from './test-utils';
+import type { Instance, SessionState } from './types';
+
+const web: Instance = { id: 'i-1', name: 'web', type: 'compute', status: 'running', createdAt: 0 };
+
+const withInstance = (): SessionState => ({ ...createInitialState(), instances: [web] });
+
+describe('connections', () => {
+  it('switch to the remote home and restore the local shell on close', () => {
+    const local = { ...withInstance(), currentPath: '/tmp' };
+    const remote = openConnection(local, web, 'admin');
+    expect(remote.currentPath).toBe('/home/admin');
+    expect(remote.env.HOSTNAME).toBe('web');
+    expect(remote.env.OLDPWD).toBeUndefined();
+    const back = closeConnection(remote);
+    expect(back.currentPath).toBe('/tmp');
+    expect(back.connections).toHaveLength(0);
+    expect(back.instances[0].fs).toBe(remote.fs);
+  });
+
+  it('close when their host stops', () => {
+    const remote = openConnection(withInstance(), web, 'admin');
+    const stopped = { ...remote, instances: [{ ...web, status: 'stopped' as const }] };
+    expect(closeBrokenConnections(stopped).connections).toHaveLength(0);
+  });
+});
+
+describe('ssh', () => {
+  it('refuses keys that are not authorized', async () => {
+    const { output, exitCode } = await runLine('ssh-keygen -t ed25519 -f ~/.ssh/id_ed25519 && ssh-add && ssh web', withInstance());
+    expect(exitCode).toBe(255);
+    expect(output.split('\n').pop()).toBe('admin@web: Permission denied (publickey).');
+  });
+
+  it('runs commands on the instance once the key is copied', async () => {
+    const { state } = await runLine('ssh-keygen -t ed25519 -f ~/.ssh/id_ed25519 && ssh-add && ssh-copy-id web', withInstance());
+    const { output, exitCode, state: after } = await runLine("ssh web 'echo hi > note.txt; echo $HOSTNAME; pwd'", state);
+    expect(exitCode).toBe(0);
+    expect(output).toBe('web\n/home/admin');
+    expect(after.connections).toHaveLength(0);
+    expect((await runLine('ssh web cat note.txt', after)).output).toBe('hi');
+  });
+});
@@ -0,0 +1,80 @@
+import { createHostFileSystem, type DirectoryNode } from './fs';
+import type { Instance, SessionState } from './types';
+
+// Login account that exists on every new instance.
+export const DEFAULT_LOGIN = 'admin';
+
+export const activeConnection = (state: SessionState) => state.connections[state.connections.length - 1];
+
+// The instance's disk; while logged in to it the live copy is the session's own `fs`.
+export const hostFileSystem = (state: SessionState, instance: Instance) => {
+  if (activeConnection(state)?.host === instance.name) {
+    return state.fs;
+  }
+  return instance.fs ?? createHostFileSystem(instance.name, DEFAULT_LOGIN);
+};
+
+export const updateHostFileSystem = (
+  state: SessionState,
+  name: string,
+  update: (fs: DirectoryNode) => DirectoryNode
+): SessionState => {
+  if (activeConnection(state)?.host === name) {
+    return { ...state, fs: update(state.fs) };
+  }
+  return {
+    ...state,
+    instances: state.instances.map(instance => {
+      return instance.name === name ? { ...instance, fs: update(hostFileSystem(state, instance)) } : instance;
+    }),
+  };
+};
+
+// Switches the shell to `user` on `instance`, keeping the current shell to return to.
+export const openConnection = (state: SessionState, instance: Instance, user: string): SessionState => {
+  const home = `/home/${user}`;
+  const env: Record<string, string> = { ...state.env, USER: user, HOME: home, HOSTNAME: instance.name };
+  delete env.OLDPWD;
+  return {
+    ...state,
+    connections: [
+      ...state.connections,
+      {
+        host: instance.name,
+        user,
+        parent: { currentPath: state.currentPath, env: state.env, vars: state.vars, fs: state.fs },
+      },
+    ],
+    fs: hostFileSystem(state, instance),
+    currentPath: home,
+    env,
+    vars: {},
+  };
+};
+
+// Leaves the innermost session, saving its filesystem back to the instance.
+export const closeConnection = (state: SessionState): SessionState => {
+  const connection = activeConnection(state);
+  if (!connection) {
+    return state;
+  }
+  return {
+    ...state,
+    ...connection.parent,
+    instances: state.instances.map(instance => instance.name === connection.host ? { ...instance, fs: state.fs } : instance),
+    connections: state.connections.slice(0, -1),
+  };
+};
+
+// Closes every session whose host stopped or disappeared, along with the
+// sessions opened from inside it.
+export const closeBrokenConnections = (state: SessionState): SessionState => {
+  const broken = state.connections.findIndex(connection => {
+    return state.instances.find(instance => instance.name === connection.host)?.status !== 'running';
+  });
+  let next = state;
+  while (broken !== -1 && next.connections.length > broken) {
+    next = closeConnection(next);
+  }
+  return next;
+};
@@ -0,0 +1,7 @@
+import type { CommandResult } from './types';
+
+export const fail = (error: string, exitCode = 1): CommandResult => ({
+  output: '',
+  error,
+  exitCode,
+});
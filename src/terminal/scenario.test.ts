@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { checkObjectives, evaluatePredicate, parseScenario, ScenarioError, startScenario } from './scenario';
+import { runLine } from './test-utils';
+
+const source = `title: Practice
+setup:
+  instances:
+    - { name: web, type: compute, status: stopped }
+  files:
+    - { path: notes.txt, content: todo }
+objectives:
+  - title: Start web
+    check:
+      instance: { name: web, status: running }
+  - title: Make a projects directory
+    hint: mkdir projects
+    check:
+      directory: { path: projects }
+`;
+
+describe('parseScenario', () => {
+  it('names the scenario after its file and reads single hints', () => {
+    const scenario = parseScenario(source, 'scenarios/practice.yaml');
+    expect(scenario.id).toBe('practice');
+    expect(scenario.objectives.map(objective => objective.hints)).toEqual([[], ['mkdir projects']]);
+  });
+
+  it('reports where a scenario is invalid', () => {
+    expect(() => parseScenario('title: x\nobjectives: []\n', 'bad.yaml')).toThrow(ScenarioError);
+    expect(() => parseScenario('{"title": "x", "objectives": [{"check": {"cwd": "/"}}]}', 'bad.json'))
+      .toThrow('bad.json: objectives[0].title');
+  });
+});
+
+describe('objectives', () => {
+  it('start from the scenario setup', () => {
+    const state = startScenario(parseScenario(source, 'practice.yaml'), 0);
+    expect(state.instances).toMatchObject([{ name: 'web', status: 'stopped' }]);
+    expect(evaluatePredicate({ file: { path: 'notes.txt', contains: 'todo' } }, state)).toBe(true);
+    expect(evaluatePredicate({ not: { instance: { name: 'w*', status: 'running' } } }, state)).toBe(true);
+  });
+
+  it('complete in order and finish the scenario', async () => {
+    const started = startScenario(parseScenario(source, 'practice.yaml'), 0);
+    const { state } = await runLine('mkdir projects', started);
+    expect(checkObjectives(state, 1000).messages).toEqual([]);
+
+    const running = { ...state, instances: state.instances.map(instance => ({ ...instance, status: 'running' as const })) };
+    const { messages, update } = checkObjectives(running, 61_000);
+    expect(messages[0]).toBe('✓ Objective 1/2 complete: Start web');
+    expect(messages[1]).toBe('✓ Objective 2/2 complete: Make a projects directory');
+    expect(update?.(running).scenario).toMatchObject({ completed: 2, finishedAt: 61_000 });
+  });
+});
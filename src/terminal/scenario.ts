@@ -0,0 +1,447 @@
+import { resolvePlacement } from './compute';
+import { chmodAt, dirname, getNode, makeDirectoryAt, normalizePath, writeFileAt, HOME, type DirectoryNode } from './fs';
+import { attachInstance } from './hosts';
+import { generateInstanceId } from './lifecycle';
+import { hostFileSystem } from './remote';
+import { createInitialState } from './state';
+import { formatDuration } from './time';
+import { INSTANCE_STATUSES, INSTANCE_TYPES, type Instance, type InstanceStatus, type InstanceType, type SessionState } from './types';
+import { parseYaml, YamlError } from './yaml';
+
+// Guided scenarios: a starting state, a narrative and ordered objectives
+// whose predicates are checked against the session after every command.
+
+export interface InstanceMatch {
+  // May contain `*` wildcards.
+  name?: string;
+  type?: InstanceType;
+  status?: InstanceStatus;
+  zone?: string;
+  machineType?: string;
+  labels?: Record<string, string>;
+  // How many matching instances are needed (default 1).
+  count?: number;
+}
+
+export type Predicate =
+  | { all: Predicate[] }
+  | { any: Predicate[] }
+  | { not: Predicate }
+  | { instance: InstanceMatch }
+  | { sshKey: { name?: string } }
+  // One of the session's SSH keys is in `user`'s authorized_keys on the instance.
+  | { authorizedKey: { instance: string; user?: string } }
+  | { connected: { host?: string; user?: string } }
+  | { repo: { name?: string } }
+  | { network: { name?: string; cidr?: string } }
+  | { file: { path: string; contains?: string; mode?: string } }
+  | { directory: { path: string } }
+  | { variable: { name: string; value?: string } }
+  // A regular expression matched against the command history.
+  | { command: string }
+  | { cwd: string };
+
+export interface Objective {
+  title: string;
+  description?: string;
+  hints: string[];
+  check: Predicate;
+}
+
+export interface ScenarioSetup {
+  instances: (Pick<Instance, 'name' | 'type' | 'status'> & Partial<Pick<Instance, 'zone' | 'machineType' | 'image' | 'labels' | 'tags'>>)[];
+  files: { path: string; content: string; mode?: number }[];
+  // Shell commands run after the instances and files exist, e.g. `ssh-keygen` or `git clone`.
+  script?: string;
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  description?: string;
+  setup: ScenarioSetup;
+  objectives: Objective[];
+  // Shown once every objective is complete.
+  completion?: string;
+}
+
+export interface ScenarioProgress {
+  scenario: Scenario;
+  startedAt: number;
+  // Objectives are done in order, so this is also the index of the current one.
+  completed: number;
+  // Hints revealed for the current objective.
+  hints: number;
+  finishedAt?: number;
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+const PREDICATES = [
+  'all', 'any', 'not', 'instance', 'sshKey', 'authorizedKey', 'connected', 'repo', 'network',
+  'file', 'directory', 'variable', 'command', 'cwd',
+];
+
+const SCENARIO_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const optionalString = (value: unknown, where: string) => {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new ScenarioError(`${where}: expected a string`);
+  }
+  return value;
+};
+
+const requiredString = (value: unknown, where: string) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ScenarioError(`${where}: required`);
+  }
+  return value;
+};
+
+const validatePredicate = (value: unknown, where: string): Predicate => {
+  if (!isRecord(value) || Object.keys(value).length !== 1) {
+    throw new ScenarioError(`${where}: expected exactly one of ${PREDICATES.join(', ')}`);
+  }
+  const [kind] = Object.keys(value);
+  const body = value[kind];
+  const at = `${where}.${kind}`;
+  switch (kind) {
+    case 'all':
+    case 'any':
+      if (!Array.isArray(body) || body.length === 0) {
+        throw new ScenarioError(`${at}: expected a list of conditions`);
+      }
+      body.forEach((item, index) => validatePredicate(item, `${at}[${index}]`));
+      break;
+    case 'not':
+      validatePredicate(body, at);
+      break;
+    case 'command':
+    case 'cwd':
+      requiredString(body, at);
+      if (kind === 'command') {
+        try {
+          new RegExp(body as string);
+        } catch {
+          throw new ScenarioError(`${at}: invalid regular expression`);
+        }
+      }
+      break;
+    default:
+      if (!PREDICATES.includes(kind)) {
+        throw new ScenarioError(`${where}: unknown condition '${kind}' (expected one of ${PREDICATES.join(', ')})`);
+      }
+      if (!isRecord(body)) {
+        throw new ScenarioError(`${at}: expected a mapping`);
+      }
+      if (['file', 'directory'].includes(kind)) {
+        requiredString(body.path, `${at}.path`);
+      }
+      if (kind === 'variable') {
+        requiredString(body.name, `${at}.name`);
+      }
+      if (kind === 'authorizedKey') {
+        requiredString(body.instance, `${at}.instance`);
+      }
+      if (kind === 'instance') {
+        if (body.type !== undefined && !INSTANCE_TYPES.includes(body.type as InstanceType)) {
+          throw new ScenarioError(`${at}.type: expected one of ${INSTANCE_TYPES.join(', ')}`);
+        }
+        if (body.status !== undefined && !INSTANCE_STATUSES.includes(body.status as InstanceStatus)) {
+          throw new ScenarioError(`${at}.status: expected one of ${INSTANCE_STATUSES.join(', ')}`);
+        }
+      }
+  }
+  return value as Predicate;
+};
+
+const validateSetup = (value: unknown): ScenarioSetup => {
+  if (value === undefined || value === null) {
+    return { instances: [], files: [] };
+  }
+  if (!isRecord(value)) {
+    throw new ScenarioError('setup: expected a mapping');
+  }
+  const instances = (value.instances ?? []) as unknown[];
+  if (!Array.isArray(instances)) {
+    throw new ScenarioError('setup.instances: expected a list');
+  }
+  const files = value.files ?? [];
+  const fileList = isRecord(files)
+    ? Object.entries(files).map(([path, content]) => ({ path, content }))
+    : files;
+  if (!Array.isArray(fileList)) {
+    throw new ScenarioError('setup.files: expected a list or a mapping of path to content');
+  }
+
+  return {
+    instances: instances.map((instance, index) => {
+      const where = `setup.instances[${index}]`;
+      if (!isRecord(instance)) {
+        throw new ScenarioError(`${where}: expected a mapping`);
+      }
+      const type = (instance.type ?? 'compute') as InstanceType;
+      const status = (instance.status ?? 'running') as InstanceStatus;
+      if (!INSTANCE_TYPES.includes(type)) {
+        throw new ScenarioError(`${where}.type: expected one of ${INSTANCE_TYPES.join(', ')}`);
+      }
+      if (status !== 'running' && status !== 'stopped') {
+        throw new ScenarioError(`${where}.status: expected running or stopped`);
+      }
+      let placement;
+      try {
+        placement = resolvePlacement({
+          ...instance.zone ? { zone: String(instance.zone) } : {},
+          ...instance.machineType ? { 'machine-type': String(instance.machineType) } : {},
+          ...instance.image ? { image: String(instance.image) } : {},
+          ...instance.tags ? { tags: Array.isArray(instance.tags) ? instance.tags.join(',') : String(instance.tags) } : {},
+        });
+      } catch (error) {
+        throw new ScenarioError(`${where}: ${(error as Error).message}`);
+      }
+      const labels = isRecord(instance.labels) ? instance.labels as Record<string, string> : undefined;
+      return { name: requiredString(instance.name, `${where}.name`), type, status, ...placement, labels };
+    }),
+    files: fileList.map((entry: unknown, index) => {
+      const where = `setup.files[${index}]`;
+      if (!isRecord(entry)) {
+        throw new ScenarioError(`${where}: expected a mapping with path and content`);
+      }
+      const mode = entry.mode === undefined ? undefined : parseInt(String(entry.mode), 8);
+      if (mode !== undefined && Number.isNaN(mode)) {
+        throw new ScenarioError(`${where}.mode: expected an octal mode such as 644`);
+      }
+      return { path: requiredString(entry.path, `${where}.path`), content: String(entry.content ?? ''), mode };
+    }),
+    script: optionalString(value.script, 'setup.script'),
+  };
+};
+
+export const validateScenario = (value: unknown, fallbackId: string): Scenario => {
+  if (!isRecord(value)) {
+    throw new ScenarioError('expected a mapping at the top level');
+  }
+  const id = optionalString(value.id, 'id') ?? fallbackId;
+  if (!SCENARIO_ID.test(id)) {
+    throw new ScenarioError(`id: '${id}' may only contain lowercase letters, digits and dashes`);
+  }
+  if (!Array.isArray(value.objectives) || value.objectives.length === 0) {
+    throw new ScenarioError('objectives: expected a non-empty list');
+  }
+  return {
+    id,
+    title: requiredString(value.title, 'title'),
+    description: optionalString(value.description, 'description')?.trim(),
+    setup: validateSetup(value.setup),
+    objectives: value.objectives.map((objective: unknown, index) => {
+      const where = `objectives[${index}]`;
+      if (!isRecord(objective)) {
+        throw new ScenarioError(`${where}: expected a mapping`);
+      }
+      const hints = objective.hints ?? (objective.hint === undefined ? [] : [objective.hint]);
+      if (!Array.isArray(hints) || hints.some(hint => typeof hint !== 'string')) {
+        throw new ScenarioError(`${where}.hints: expected a list of strings`);
+      }
+      return {
+        title: requiredString(objective.title, `${where}.title`),
+        description: optionalString(objective.description, `${where}.description`)?.trim(),
+        hints: hints as string[],
+        check: validatePredicate(objective.check, `${where}.check`),
+      };
+    }),
+    completion: optionalString(value.completion, 'completion')?.trim(),
+  };
+};
+
+// Reads a scenario file; `.json` files and sources starting with `{` are JSON, anything else YAML.
+export const parseScenario = (source: string, filename: string): Scenario => {
+  const name = filename.split('/').pop() ?? filename;
+  let raw: unknown;
+  try {
+    raw = name.endsWith('.json') || source.trimStart().startsWith('{') ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    if (error instanceof YamlError || error instanceof SyntaxError) {
+      throw new ScenarioError(`${filename}: ${error.message}`);
+    }
+    throw error;
+  }
+  try {
+    return validateScenario(raw, name.replace(/\.(json|ya?ml)$/, ''));
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      throw new ScenarioError(`${filename}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+const wildcard = (pattern: string) => {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+};
+
+const matchesInstance = (instance: Instance, match: InstanceMatch) => {
+  return (match.name === undefined || wildcard(match.name).test(instance.name))
+    && (match.type === undefined || instance.type === match.type)
+    && (match.status === undefined || instance.status === match.status)
+    && (match.zone === undefined || instance.zone === match.zone)
+    && (match.machineType === undefined || instance.machineType === match.machineType)
+    && Object.entries(match.labels ?? {}).every(([key, value]) => instance.labels?.[key] === value);
+};
+
+// The workstation's own disk, even while an ssh session has replaced `state.fs`.
+const localFileSystem = (state: SessionState): DirectoryNode => state.connections[0]?.parent.fs ?? state.fs;
+
+const keyBlob = (line: string) => line.trim().split(/\s+/)[1];
+
+export const evaluatePredicate = (predicate: Predicate, state: SessionState): boolean => {
+  if ('all' in predicate) {
+    return predicate.all.every(item => evaluatePredicate(item, state));
+  }
+  if ('any' in predicate) {
+    return predicate.any.some(item => evaluatePredicate(item, state));
+  }
+  if ('not' in predicate) {
+    return !evaluatePredicate(predicate.not, state);
+  }
+  if ('instance' in predicate) {
+    const { count = 1 } = predicate.instance;
+    return state.instances.filter(instance => matchesInstance(instance, predicate.instance)).length >= count;
+  }
+  if ('sshKey' in predicate) {
+    return state.sshKeys.some(key => predicate.sshKey.name === undefined || key.name === predicate.sshKey.name);
+  }
+  if ('authorizedKey' in predicate) {
+    const instance = state.instances.find(i => i.name === predicate.authorizedKey.instance);
+    if (!instance) {
+      return false;
+    }
+    const node = getNode(hostFileSystem(state, instance), `/home/${predicate.authorizedKey.user ?? 'admin'}/.ssh/authorized_keys`);
+    const installed = node?.type === 'file' ? node.content.split('\n').filter(Boolean).map(keyBlob) : [];
+    return state.sshKeys.some(key => installed.includes(keyBlob(key.publicKey)));
+  }
+  if ('connected' in predicate) {
+    const { host, user } = predicate.connected;
+    return state.connections.some(connection => (!host || connection.host === host) && (!user || connection.user === user));
+  }
+  if ('repo' in predicate) {
+    return state.gitRepos.some(repo => predicate.repo.name === undefined || repo.name === predicate.repo.name);
+  }
+  if ('network' in predicate) {
+    const { name, cidr } = predicate.network;
+    return state.networks.some(network => (!name || network.name === name) && (!cidr || network.cidr === cidr));
+  }
+  if ('file' in predicate) {
+    const { path, contains, mode } = predicate.file;
+    const node = getNode(localFileSystem(state), normalizePath(HOME, path));
+    return node?.type === 'file'
+      && (contains === undefined || node.content.includes(contains))
+      && (mode === undefined || (node.mode & 0o777) === parseInt(mode, 8));
+  }
+  if ('directory' in predicate) {
+    return getNode(localFileSystem(state), normalizePath(HOME, predicate.directory.path))?.type === 'dir';
+  }
+  if ('variable' in predicate) {
+    const { name, value } = predicate.variable;
+    const current = state.vars[name] ?? state.env[name];
+    return current !== undefined && (value === undefined || current === value);
+  }
+  if ('command' in predicate) {
+    const pattern = new RegExp(predicate.command);
+    return state.history.some(entry => pattern.test(entry));
+  }
+  return state.currentPath === normalizePath(HOME, predicate.cwd);
+};
+
+// A fresh session holding the scenario's instances and files. History starts
+// empty too, so `command` checks only see what was typed during the scenario.
+export const startScenario = (scenario: Scenario, now: number): SessionState => {
+  const initial = createInitialState();
+  let fs = initial.fs;
+  for (const { path, content, mode } of scenario.setup.files) {
+    const absolute = normalizePath(HOME, path);
+    fs = writeFileAt(makeDirectoryAt(fs, dirname(absolute), true), absolute, content);
+    if (mode !== undefined) {
+      fs = chmodAt(fs, absolute, mode);
+    }
+  }
+  let instances: Instance[] = [];
+  for (const instance of scenario.setup.instances) {
+    instances = [...instances, attachInstance({ ...initial, instances }, {
+      ...instance,
+      id: generateInstanceId(),
+      createdAt: now,
+      // Buckets have no run state to set up.
+      ...instance.type === 'storage' ? { status: undefined } : { runs: instance.status === 'running' ? [{ start: now }] : [] },
+    })];
+  }
+  return {
+    ...initial,
+    instances,
+    fs,
+    scenario: { scenario, startedAt: now, completed: 0, hints: 0 },
+  };
+};
+
+// Marks off every objective that now holds, in order, and reports what changed.
+export const checkObjectives = (state: SessionState, now: number) => {
+  const progress = state.scenario;
+  if (!progress || progress.finishedAt !== undefined) {
+    return { messages: [] };
+  }
+  const { objectives } = progress.scenario;
+  let completed = progress.completed;
+  const messages: string[] = [];
+  while (completed < objectives.length && evaluatePredicate(objectives[completed].check, state)) {
+    messages.push(`✓ Objective ${completed + 1}/${objectives.length} complete: ${objectives[completed].title}`);
+    completed++;
+  }
+  if (completed === progress.completed) {
+    return { messages: [] };
+  }
+  const finished = completed === objectives.length;
+  if (finished) {
+    messages.push(`\nScenario complete: ${progress.scenario.title} (${formatDuration(now - progress.startedAt)})`);
+    if (progress.scenario.completion) {
+      messages.push(progress.scenario.completion);
+    }
+  } else {
+    messages.push(`→ Next: ${objectives[completed].title}`);
+  }
+  const next: ScenarioProgress = { ...progress, completed, hints: 0, finishedAt: finished ? now : undefined };
+  return { messages, update: (s: SessionState): SessionState => ({ ...s, scenario: next }) };
+};
+
+export const formatProgress = (progress: ScenarioProgress) => {
+  const { scenario, completed, hints } = progress;
+  const lines = [`${scenario.title} (${scenario.id})`];
+  if (scenario.description) {
+    lines.push('', scenario.description);
+  }
+  lines.push('', `Progress: ${completed}/${scenario.objectives.length} objectives`);
+  scenario.objectives.forEach((objective, index) => {
+    const marker = index < completed ? '[x]' : index === completed ? '[>]' : '[ ]';
+    lines.push(`  ${marker} ${index + 1}. ${objective.title}`);
+    if (index === completed && objective.description) {
+      lines.push(...objective.description.split('\n').map(line => `        ${line}`));
+    }
+  });
+  const current = scenario.objectives[completed];
+  if (current) {
+    current.hints.slice(0, hints).forEach((hint, index) => lines.push(`Hint ${index + 1}: ${hint}`));
+    if (hints < current.hints.length) {
+      lines.push(`Type 'scenario hint' for a hint.`);
+    }
+  } else if (progress.finishedAt !== undefined) {
+    lines.push('', `Completed in ${formatDuration(progress.finishedAt - progress.startedAt)}.`);
+  }
+  return lines.join('\n');
+};
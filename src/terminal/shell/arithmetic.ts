@@ -0,0 +1,132 @@
+import type { VariableLookup } from './expand';
+
+export class ArithmeticError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArithmeticError';
+  }
+}
+
+type Token = { type: 'number'; value: number } | { type: 'operator'; value: string };
+
+const OPERATORS = ['**', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')'];
+
+// Binary operators from loosest to tightest binding.
+const LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+const toInteger = (value: string) => /^\s*-?\d+\s*$/.test(value) ? parseInt(value, 10) : 0;
+
+const tokenize = (expression: string, lookup: VariableLookup): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const rest = expression.slice(i);
+    const space = /^\s+/.exec(rest);
+    const number = /^\d+/.exec(rest);
+    const variable = /^\$?(?:\{([A-Za-z_][A-Za-z0-9_]*|[#?0-9])\}|([A-Za-z_][A-Za-z0-9_]*)|([#?0-9]))/.exec(rest);
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (space) {
+      i += space[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: parseInt(number[0], 10) });
+      i += number[0].length;
+    } else if (variable && (variable[2] || rest.startsWith('$'))) {
+      tokens.push({ type: 'number', value: toInteger(lookup(variable[1] ?? variable[2] ?? variable[3])) });
+      i += variable[0].length;
+    } else if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+    } else {
+      throw new ArithmeticError(`${expression}: syntax error: invalid arithmetic operator (error token is "${rest}")`);
+    }
+  }
+  return tokens;
+};
+
+const apply = (operator: string, left: number, right: number, expression: string) => {
+  switch (operator) {
+    case '||': return left || right ? 1 : 0;
+    case '&&': return left && right ? 1 : 0;
+    case '==': return left === right ? 1 : 0;
+    case '!=': return left !== right ? 1 : 0;
+    case '<': return left < right ? 1 : 0;
+    case '<=': return left <= right ? 1 : 0;
+    case '>': return left > right ? 1 : 0;
+    case '>=': return left >= right ? 1 : 0;
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '**': return right < 0 ? 0 : left ** right;
+  }
+  if (right === 0) {
+    throw new ArithmeticError(`${expression}: division by 0`);
+  }
+  return operator === '/' ? Math.trunc(left / right) : left % right;
+};
+
+// Evaluates the integer expression of `$(( ))`: the usual arithmetic,
+// comparison and logical operators, with `$name` or bare names for variables.
+export const evaluateArithmetic = (expression: string, lookup: VariableLookup) => {
+  const tokens = tokenize(expression, lookup);
+  let position = 0;
+
+  const isOperator = (...values: string[]) => {
+    const token = tokens[position];
+    return token?.type === 'operator' && values.includes(token.value);
+  };
+
+  const parseOperand = (): number => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new ArithmeticError(`${expression}: syntax error: operand expected`);
+    }
+    if (token.type === 'number') {
+      return token.value;
+    }
+    switch (token.value) {
+      case '-': return -parseOperand();
+      case '+': return parseOperand();
+      case '!': return parseOperand() ? 0 : 1;
+      case '(': {
+        const value = parseLevel(0);
+        if (!isOperator(')')) {
+          throw new ArithmeticError(`${expression}: syntax error: missing ')'`);
+        }
+        position++;
+        return value;
+      }
+    }
+    throw new ArithmeticError(`${expression}: syntax error: operand expected (error token is "${token.value}")`);
+  };
+
+  const parsePower = (): number => {
+    const base = parseOperand();
+    if (isOperator('**')) {
+      position++;
+      return apply('**', base, parsePower(), expression);
+    }
+    return base;
+  };
+
+  const parseLevel = (level: number): number => {
+    if (level === LEVELS.length) {
+      return parsePower();
+    }
+    let value = parseLevel(level + 1);
+    while (isOperator(...LEVELS[level])) {
+      const operator = (tokens[position++] as { value: string }).value;
+      value = apply(operator, value, parseLevel(level + 1), expression);
+    }
+    return value;
+  };
+
+  if (tokens.length === 0) {
+    return 0;
+  }
+  const value = parseLevel(0);
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new ArithmeticError(`${expression}: syntax error in expression (error token is "${token.value}")`);
+  }
+  return value;
+};
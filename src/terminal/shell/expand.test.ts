@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { expandWord, expandWordToString } from './expand';
+import { tokenize } from './lexer';
+import type { Word } from './parser';
+
+const word = (source: string): Word => {
+  const [token] = tokenize(source);
+  return token.type === 'word' ? token.parts : [];
+};
+
+const vars: Record<string, string> = { X: 'a b', EMPTY: '' };
+const lookup = (name: string) => vars[name] ?? '';
+
+describe('expandWord', () => {
+  it('splits unquoted variables into fields', () => {
+    expect(expandWord(word('$X'), lookup)).toEqual(['a', 'b']);
+    expect(expandWord(word('"$X"'), lookup)).toEqual(['a b']);
+  });
+
+  it('keeps empty quoted words as empty fields', () => {
+    expect(expandWord(word('""'), lookup)).toEqual(['']);
+    expect(expandWord(word("''"), lookup)).toEqual(['']);
+    expect(expandWord(word('"$EMPTY"'), lookup)).toEqual(['']);
+  });
+
+  it('drops unquoted empty expansions', () => {
+    expect(expandWord(word('$EMPTY'), lookup)).toEqual([]);
+  });
+
+  it('expands "$@" to one field per argument', () => {
+    expect(expandWord(word('"$@"'), lookup, undefined, ['one', 'two words'])).toEqual(['one', 'two words']);
+    expect(expandWord(word('"$@"'), lookup, undefined, [])).toEqual([]);
+  });
+
+  it('globs unquoted patterns only', () => {
+    const glob = (pattern: string) => pattern === '*.txt' ? ['a.txt', 'b.txt'] : [];
+    expect(expandWord(word('*.txt'), lookup, glob)).toEqual(['a.txt', 'b.txt']);
+    expect(expandWord(word('"*.txt"'), lookup, glob)).toEqual(['*.txt']);
+    expect(expandWord(word('*.md'), lookup, glob)).toEqual(['*.md']);
+  });
+});
+
+describe('expandWordToString', () => {
+  it('joins without splitting', () => {
+    expect(expandWordToString(word('pre$X'), lookup)).toBe('prea b');
+  });
+});
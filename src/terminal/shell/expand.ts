@@ -0,0 +1,138 @@
+import type { SessionState } from '../types';
+import { evaluateArithmetic } from './arithmetic';
+import { isGlobChar, type Glob } from './glob';
+import type { WordPart } from './lexer';
+import type { Word } from './parser';
+
+export type VariableLookup = (name: string) => string;
+
+// `$0` and the positional parameters `$1`, `$2`... of a script or function.
+export interface Parameters {
+  name: string;
+  args: string[];
+}
+
+// `${name:-default}`, `${name:+alternative}` and `${#name}`; the colon-less
+// forms behave the same, as unset and empty variables are not told apart.
+const PARAMETER_OPERATOR = /^([A-Za-z_][A-Za-z0-9_]*|\d+|[?#@*$])(:?[-+=])([\s\S]*)$/;
+const NESTED_VARIABLE = /\$(?:\{([A-Za-z_][A-Za-z0-9_]*|\d+|[?#@*$])\}|([A-Za-z_][A-Za-z0-9_]*|[?#@*$0-9]))/g;
+
+export const createLookup = (state: SessionState, params: Parameters = { name: 'bash', args: [] }): VariableLookup => {
+  const lookup = (name: string): string => {
+    if (name === '?') {
+      return String(state.lastExitCode);
+    }
+    if (name === '$') {
+      return '4242';
+    }
+    if (/^\d+$/.test(name)) {
+      return name === '0' ? params.name : params.args[parseInt(name, 10) - 1] ?? '';
+    }
+    if (name === '#') {
+      return String(params.args.length);
+    }
+    if (name === '@' || name === '*') {
+      return params.args.join(' ');
+    }
+    if (name.length > 1 && name.startsWith('#')) {
+      return String(lookup(name.slice(1)).length);
+    }
+    const operator = PARAMETER_OPERATOR.exec(name);
+    if (operator) {
+      const [, parameter, op, word] = operator;
+      const value = lookup(parameter);
+      const fallback = () => word.replace(NESTED_VARIABLE, (_match, braced, bare) => lookup(braced ?? bare));
+      if (op.endsWith('+')) {
+        return value ? fallback() : '';
+      }
+      return value || fallback();
+    }
+    const value = state.vars[name] ?? state.env[name];
+    if (value !== undefined) {
+      return value;
+    }
+    return name === 'PWD' ? state.currentPath : '';
+  };
+  return lookup;
+};
+
+const expandPart = (part: Exclude<WordPart, { type: 'literal' }>, lookup: VariableLookup) => {
+  return part.type === 'variable' ? lookup(part.name) : String(evaluateArithmetic(part.expression, lookup));
+};
+
+export const expandWordToString = (word: Word, lookup: VariableLookup) => {
+  return word.map(part => part.type === 'literal' ? part.value : expandPart(part, lookup)).join('');
+};
+
+// Quoted glob characters are escaped so pathname expansion treats them literally.
+const escapeGlob = (value: string) => value.replace(/[\\*?[]/g, '\\$&');
+
+// Unquoted variable expansions are split into separate fields on whitespace,
+// so `X="a b"; echo $X` passes two arguments while `echo "$X"` passes one.
+// With `glob`, fields containing unquoted `*`, `?` or `[` are replaced by the
+// matching paths, or kept as written when nothing matches. A quoted `"$@"`
+// expands to one field per entry of `args`.
+export const expandWord = (word: Word, lookup: VariableLookup, glob?: Glob, args?: string[]): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let pattern = '';
+  let globbed = false;
+  let hasContent = false;
+
+  const append = (value: string, quoted: boolean) => {
+    current += value;
+    pattern += quoted ? escapeGlob(value) : value.replace(/\\/g, '\\\\');
+    globbed ||= !quoted && [...value].some(isGlobChar);
+    hasContent = true;
+  };
+
+  const pushField = () => {
+    const matches = glob && globbed ? glob(pattern) : [];
+    fields.push(...(matches.length > 0 ? matches : [current]));
+    current = '';
+    pattern = '';
+    globbed = false;
+    hasContent = false;
+  };
+
+  for (const part of word) {
+    if (part.type === 'literal') {
+      append(part.value, part.quoted);
+      continue;
+    }
+    if (part.type === 'variable' && part.name === '@' && part.quoted && args) {
+      args.forEach((arg, index) => {
+        if (index > 0) {
+          pushField();
+        }
+        append(arg, true);
+      });
+      continue;
+    }
+    const value = expandPart(part, lookup);
+    if (part.quoted) {
+      append(value, true);
+      continue;
+    }
+    const pieces = value.split(/[ \t\n]+/);
+    pieces.forEach((piece, index) => {
+      if (index > 0) {
+        if (hasContent) {
+          pushField();
+        }
+        current = '';
+        pattern = '';
+        globbed = false;
+        hasContent = false;
+      }
+      if (piece) {
+        append(piece, false);
+      }
+    });
+  }
+
+  if (hasContent) {
+    pushField();
+  }
+  return fields;
+};
@@ -0,0 +1,84 @@
+import { getNode, normalizePath, splitPath } from '../fs';
+import type { SessionState } from '../types';
+
+export type Glob = (pattern: string) => string[];
+
+const GLOB_CHARS = '*?[';
+
+export const isGlobChar = (char: string) => GLOB_CHARS.includes(char);
+
+const hasGlob = (segment: string) => {
+  for (let i = 0; i < segment.length; i++) {
+    if (segment[i] === '\\') {
+      i++;
+    } else if (isGlobChar(segment[i])) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const unescape = (segment: string) => segment.replace(/\\(.)/g, '$1');
+
+// Translates one path segment into an anchored regular expression. A
+// backslash marks the next character as literal (it was quoted on the line).
+const segmentRegExp = (segment: string) => {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '\\' && i + 1 < segment.length) {
+      source += segment[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[' && segment.indexOf(']', i + 2) !== -1) {
+      const close = segment.indexOf(']', i + 2);
+      let body = segment.slice(i + 1, close);
+      const negate = body[0] === '!' || body[0] === '^';
+      body = (negate ? body.slice(1) : body).replace(/[\\\]^]/g, '\\$&');
+      source += `[${negate ? '^' : ''}${body}]`;
+      i = close;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Pathname expansion against the virtual filesystem. Matches are returned in
+// the form they were written (relative patterns stay relative) and sorted;
+// hidden entries only match when the segment itself starts with a dot.
+export const createGlob = (state: SessionState): Glob => pattern => {
+  const absolute = pattern.startsWith('/');
+  let matches: { path: string; shown: string }[] = [{ path: absolute ? '/' : state.currentPath, shown: absolute ? '/' : '' }];
+
+  for (const segment of splitPath(pattern)) {
+    const next: typeof matches = [];
+    for (const { path, shown } of matches) {
+      const join = (name: string) => ({
+        path: normalizePath(path, name),
+        shown: shown === '' || shown.endsWith('/') ? `${shown}${name}` : `${shown}/${name}`,
+      });
+      if (!hasGlob(segment)) {
+        const name = unescape(segment);
+        if (name === '.' || name === '..' || getNode(state.fs, join(name).path)) {
+          next.push(join(name));
+        }
+        continue;
+      }
+      const node = getNode(state.fs, path);
+      if (node?.type !== 'dir') {
+        continue;
+      }
+      const regexp = segmentRegExp(segment);
+      Object.keys(node.children)
+        .filter(name => (!name.startsWith('.') || segment.startsWith('.')) && regexp.test(name))
+        .sort()
+        .forEach(name => next.push(join(name)));
+    }
+    matches = next;
+  }
+
+  return pattern.endsWith('/') ? matches.map(match => `${match.shown}/`) : matches.map(match => match.shown);
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { IncompleteInputError, ShellSyntaxError, tokenize } from './lexer';
+
+const words = (input: string) => tokenize(input).filter(token => token.type === 'word').map(token => token.type === 'word' ? token.parts : []);
+
+describe('tokenize', () => {
+  it('splits words and operators', () => {
+    expect(tokenize('echo hi | wc -l && ls')).toEqual([
+      { type: 'word', parts: [{ type: 'literal', value: 'echo', quoted: false }] },
+      { type: 'word', parts: [{ type: 'literal', value: 'hi', quoted: false }] },
+      { type: 'operator', value: '|' },
+      { type: 'word', parts: [{ type: 'literal', value: 'wc', quoted: false }] },
+      { type: 'word', parts: [{ type: 'literal', value: '-l', quoted: false }] },
+      { type: 'operator', value: '&&' },
+      { type: 'word', parts: [{ type: 'literal', value: 'ls', quoted: false }] },
+    ]);
+  });
+
+  it('marks quoted text and variables', () => {
+    expect(words(`'$A' "x $B" $C`)).toEqual([
+      [{ type: 'literal', value: '$A', quoted: true }],
+      [{ type: 'literal', value: 'x ', quoted: true }, { type: 'variable', name: 'B', quoted: true }],
+      [{ type: 'variable', name: 'C', quoted: false }],
+    ]);
+  });
+
+  it('joins adjacent quoted and unquoted text into one word', () => {
+    expect(words(`a"b c"'d'`)).toEqual([[
+      { type: 'literal', value: 'a', quoted: false },
+      { type: 'literal', value: 'b cd', quoted: true },
+    ]]);
+  });
+
+  it('reports unterminated quotes', () => {
+    expect(() => tokenize('echo "open')).toThrow(ShellSyntaxError);
+    expect(() => tokenize("echo 'open")).toThrow(ShellSyntaxError);
+  });
+
+  it('keeps empty quoted words', () => {
+    expect(words(`f a "" ''`)).toEqual([
+      [{ type: 'literal', value: 'f', quoted: false }],
+      [{ type: 'literal', value: 'a', quoted: false }],
+      [{ type: 'literal', value: '', quoted: true }],
+      [{ type: 'literal', value: '', quoted: true }],
+    ]);
+  });
+
+  it('adds nothing for "$@"', () => {
+    expect(words('"$@"')).toEqual([[{ type: 'variable', name: '@', quoted: true }]]);
+  });
+
+  it('reads here-documents', () => {
+    const tokens = tokenize('cat <<EOF\nhello $USER\nEOF\n');
+    expect(tokens[2]).toEqual({
+      type: 'word',
+      parts: [
+        { type: 'literal', value: 'hello ', quoted: true },
+        { type: 'variable', name: 'USER', quoted: true },
+        { type: 'literal', value: '\n', quoted: true },
+      ],
+    });
+  });
+
+  it('reads the descriptor written before a redirection', () => {
+    expect(tokenize('ls x 2>&1 >>log').filter(token => token.type === 'operator')).toEqual([
+      { type: 'operator', value: '>&', fd: 2 },
+      { type: 'operator', value: '>>' },
+    ]);
+    expect(words('echo hi2>f')[1]).toEqual([{ type: 'literal', value: 'hi2', quoted: false }]);
+  });
+
+  it('rejects command substitution', () => {
+    expect(() => tokenize('cmd=$(echo x)')).toThrow('command substitution with $(...) is not supported');
+    expect(() => tokenize('echo `date`')).toThrow(ShellSyntaxError);
+    expect(() => tokenize('echo "`date`"')).toThrow(ShellSyntaxError);
+    expect(words(`echo '$(x)' \\\``)).toHaveLength(3);
+  });
+
+  it('reports unfinished input', () => {
+    expect(() => tokenize('echo "open')).toThrow(IncompleteInputError);
+    expect(() => tokenize('echo \\')).toThrow(IncompleteInputError);
+    expect(() => tokenize('cat <<EOF\nbody')).toThrow(IncompleteInputError);
+  });
+});
@@ -0,0 +1,286 @@
+export type WordPart =
+  | { type: 'literal'; value: string; quoted: boolean }
+  | { type: 'variable'; name: string; quoted: boolean }
+  | { type: 'arithmetic'; expression: string; quoted: boolean };
+
+export type Operator = '|' | '>' | '>>' | '>&' | '<' | '<<' | ';' | '&&' | '||' | '\n';
+
+// Redirections carry the file descriptor written before them, as in `2>err.txt`.
+export type Token =
+  | { type: 'word'; parts: WordPart[] }
+  | { type: 'operator'; value: Operator; fd?: number };
+
+export class ShellSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellSyntaxError';
+  }
+}
+
+// Raised when the input is valid so far but unfinished (open quote, trailing
+// pipe, unterminated here-document), so the caller can prompt for more lines.
+export class IncompleteInputError extends ShellSyntaxError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncompleteInputError';
+  }
+}
+
+const OPERATORS: Operator[] = ['&&', '||', '>>', '>&', '<<', '|', '>', '<', ';', '\n'];
+const FD_REDIRECT = /^(\d+)(?=[<>])/;
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[A-Za-z0-9_]/;
+const SPECIAL_VARIABLES = ['?', '$', '#', '@', '*', '0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+const WORD_BREAKS = [undefined, '/', ' ', '\t', '\n', ';', '|', '&', '>', '<'];
+const BODY_VARIABLE = /\$(?:\{([^}]+)\}|([A-Za-z_][A-Za-z0-9_]*|[?$#@*0-9]))/g;
+
+const heredocParts = (body: string, expand: boolean): WordPart[] => {
+  if (!expand) {
+    return [{ type: 'literal', value: body, quoted: true }];
+  }
+  const parts: WordPart[] = [];
+  let last = 0;
+  for (const match of body.matchAll(BODY_VARIABLE)) {
+    if (match.index > last) {
+      parts.push({ type: 'literal', value: body.slice(last, match.index), quoted: true });
+    }
+    parts.push({ type: 'variable', name: match[1] ?? match[2], quoted: true });
+    last = match.index + match[0].length;
+  }
+  if (last < body.length || parts.length === 0) {
+    parts.push({ type: 'literal', value: body.slice(last), quoted: true });
+  }
+  return parts;
+};
+
+export const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const heredocs: number[] = [];
+  let parts: WordPart[] = [];
+  let inWord = false;
+  let i = 0;
+
+  const pushLiteral = (value: string, quoted: boolean) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === 'literal' && last.quoted === quoted) {
+      last.value += value;
+    } else {
+      parts.push({ type: 'literal', value, quoted });
+    }
+    inWord = true;
+  };
+
+  const endWord = () => {
+    if (inWord) {
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type === 'operator' && previous.value === '<<') {
+        heredocs.push(tokens.length);
+      }
+      tokens.push({ type: 'word', parts });
+    }
+    parts = [];
+    inWord = false;
+  };
+
+  // Replaces each pending delimiter word with the here-document body that
+  // follows the current line, leaving `i` at the start of the next command.
+  const readHeredocs = () => {
+    for (const index of heredocs.splice(0)) {
+      const delimiter = tokens[index] as { type: 'word'; parts: WordPart[] };
+      const name = delimiter.parts.map(part => {
+        if (part.type === 'literal') {
+          return part.value;
+        }
+        return part.type === 'variable' ? `$${part.name}` : `$((${part.expression}))`;
+      }).join('');
+      const expand = delimiter.parts.every(part => !part.quoted);
+      const lines: string[] = [];
+      for (;;) {
+        if (i >= input.length) {
+          throw new IncompleteInputError(`here-document delimited by end-of-file (wanted '${name}')`);
+        }
+        const end = input.indexOf('\n', i);
+        const line = input.slice(i, end === -1 ? input.length : end);
+        i = end === -1 ? input.length : end + 1;
+        if (line === name) {
+          break;
+        }
+        lines.push(`${line}\n`);
+      }
+      tokens[index] = { type: 'word', parts: heredocParts(lines.join(''), expand) };
+    }
+  };
+
+  // Reads `$(( expression ))` up to the parenthesis that closes it.
+  const readArithmetic = (quoted: boolean) => {
+    let depth = 0;
+    for (let end = i + 3; end < input.length; end++) {
+      if (input[end] === '(') {
+        depth++;
+      } else if (input[end] === ')' && depth > 0) {
+        depth--;
+      } else if (input[end] === ')') {
+        if (input[end + 1] !== ')') {
+          throw new ShellSyntaxError('syntax error: arithmetic expansion must end with "))"');
+        }
+        parts.push({ type: 'arithmetic', expression: input.slice(i + 3, end), quoted });
+        inWord = true;
+        i = end + 2;
+        return;
+      }
+    }
+    throw new IncompleteInputError('unexpected EOF while looking for matching "))"');
+  };
+
+  const readVariable = (quoted: boolean) => {
+    const next = input[i + 1];
+    if (next === '(' && input[i + 2] === '(') {
+      readArithmetic(quoted);
+      return;
+    }
+    if (next === '(') {
+      throw new ShellSyntaxError('command substitution with $(...) is not supported');
+    }
+    if (next === '{') {
+      const close = input.indexOf('}', i + 2);
+      if (close === -1) {
+        throw new ShellSyntaxError('bad substitution: missing closing "}"');
+      }
+      parts.push({ type: 'variable', name: input.slice(i + 2, close), quoted });
+      inWord = true;
+      i = close + 1;
+      return;
+    }
+    if (next !== undefined && SPECIAL_VARIABLES.includes(next)) {
+      parts.push({ type: 'variable', name: next, quoted });
+      inWord = true;
+      i += 2;
+      return;
+    }
+    if (next === undefined || !NAME_START.test(next)) {
+      pushLiteral('$', quoted);
+      i++;
+      return;
+    }
+    let end = i + 1;
+    while (end < input.length && NAME_CHAR.test(input[end])) {
+      end++;
+    }
+    parts.push({ type: 'variable', name: input.slice(i + 1, end), quoted });
+    inWord = true;
+    i = end;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === ' ' || char === '\t') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (char === '#' && !inWord) {
+      while (i < input.length && input[i] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+
+    // Digits right before `>` or `<` name the descriptor to redirect, unless they end a longer word.
+    const fd = inWord ? null : FD_REDIRECT.exec(input.slice(i, i + 12));
+    if (fd) {
+      const operator = OPERATORS.find(op => input.startsWith(op, i + fd[0].length))!;
+      tokens.push({ type: 'operator', value: operator, fd: parseInt(fd[1], 10) });
+      i += fd[0].length + operator.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, i));
+    if (operator) {
+      endWord();
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+      if (operator === '\n' && heredocs.length > 0) {
+        readHeredocs();
+      }
+      continue;
+    }
+
+    if (char === '~' && !inWord && WORD_BREAKS.includes(input[i + 1])) {
+      parts.push({ type: 'variable', name: 'HOME', quoted: true });
+      inWord = true;
+      i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (i + 1 >= input.length) {
+        throw new IncompleteInputError('unexpected end of input after "\\"');
+      }
+      if (input[i + 1] !== '\n') {
+        pushLiteral(input[i + 1], true);
+      }
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const close = input.indexOf("'", i + 1);
+      if (close === -1) {
+        throw new IncompleteInputError('unexpected EOF while looking for matching "\'"');
+      }
+      pushLiteral(input.slice(i + 1, close), true);
+      i = close + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inWord = true;
+      const before = parts.length;
+      i++;
+      while (input[i] !== '"') {
+        if (i >= input.length) {
+          throw new IncompleteInputError('unexpected EOF while looking for matching \'"\'');
+        }
+        if (input[i] === '\\' && ['"', '\\', '$', '`', '\n'].includes(input[i + 1])) {
+          if (input[i + 1] !== '\n') {
+            pushLiteral(input[i + 1], true);
+          }
+          i += 2;
+        } else if (input[i] === '`') {
+          throw new ShellSyntaxError('command substitution with `...` is not supported');
+        } else if (input[i] === '$') {
+          readVariable(true);
+        } else {
+          pushLiteral(input[i], true);
+          i++;
+        }
+      }
+      // `""` is still an argument, just an empty one.
+      if (parts.length === before) {
+        pushLiteral('', true);
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '$') {
+      readVariable(false);
+      continue;
+    }
+
+    if (char === '`') {
+      throw new ShellSyntaxError('command substitution with `...` is not supported');
+    }
+
+    pushLiteral(char, false);
+    i++;
+  }
+
+  endWord();
+  if (heredocs.length > 0) {
+    throw new IncompleteInputError('here-document delimited by end-of-file');
+  }
+  return tokens;
+};
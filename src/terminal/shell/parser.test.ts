@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ShellSyntaxError } from './lexer';
+import { needsContinuation, parse } from './parser';
+
+describe('parse', () => {
+  it('reads assignments before the command words', () => {
+    const command = parse('A=1 B="" env').items[0].first.commands[0];
+    expect(command.type).toBe('simple');
+    if (command.type === 'simple') {
+      expect(command.assignments.map(assignment => assignment.name)).toEqual(['A', 'B']);
+      expect(command.words).toHaveLength(1);
+    }
+  });
+
+  it('reads redirections', () => {
+    const command = parse('sort < in > out').items[0].first.commands[0];
+    expect(command.type === 'simple' && command.redirects.map(redirect => redirect.op)).toEqual(['<', '>']);
+    const logged = parse('make > log 2>&1').items[0].first.commands[0];
+    expect(logged.type === 'simple' && logged.redirects.map(({ op, fd }) => [op, fd])).toEqual([['>', undefined], ['>&', 2]]);
+  });
+
+  it('reads compound commands', () => {
+    expect(parse('for x in a b; do echo $x; done').items[0].first.commands[0].type).toBe('for');
+    expect(parse('if true; then echo y; else echo n; fi').items[0].first.commands[0].type).toBe('if');
+  });
+
+  it('chains pipelines with && and ||', () => {
+    const [item] = parse('! a | b && c || d').items;
+    expect(item.first.negated).toBe(true);
+    expect(item.first.commands).toHaveLength(2);
+    expect(item.rest.map(entry => entry.op)).toEqual(['&&', '||']);
+  });
+
+  it('reports syntax errors', () => {
+    expect(() => parse('| ls')).toThrow(ShellSyntaxError);
+    expect(() => parse('echo >')).toThrow(ShellSyntaxError);
+    expect(() => parse('fi')).toThrow(ShellSyntaxError);
+  });
+});
+
+describe('needsContinuation', () => {
+  it('asks for more input while a construct is open', () => {
+    expect(needsContinuation('echo "a')).toBe(true);
+    expect(needsContinuation('ls |')).toBe(true);
+    expect(needsContinuation('if true; then')).toBe(true);
+    expect(needsContinuation('echo done')).toBe(false);
+  });
+});
@@ -0,0 +1,391 @@
+import { IncompleteInputError, ShellSyntaxError, tokenize, type Operator, type Token, type WordPart } from './lexer';
+
+export type Word = WordPart[];
+
+export interface Assignment {
+  name: string;
+  value: Word;
+}
+
+export interface Redirect {
+  op: '>' | '>>' | '>&' | '<' | '<<';
+  // The descriptor written before the operator, as in `2>`; stdin or stdout when omitted.
+  fd?: number;
+  target: Word;
+}
+
+export interface SimpleCommand {
+  type: 'simple';
+  assignments: Assignment[];
+  words: Word[];
+  redirects: Redirect[];
+}
+
+export interface IfCommand {
+  type: 'if';
+  // `if` and each `elif` in order; the first condition that succeeds picks the body.
+  clauses: { condition: Script; body: Script }[];
+  otherwise?: Script;
+  redirects: Redirect[];
+}
+
+export interface ForCommand {
+  type: 'for';
+  variable: string;
+  // Omitted for `for NAME; do`, which loops over the positional parameters.
+  items?: Word[];
+  body: Script;
+  redirects: Redirect[];
+}
+
+export interface WhileCommand {
+  type: 'while';
+  until: boolean;
+  condition: Script;
+  body: Script;
+  redirects: Redirect[];
+}
+
+export interface GroupCommand {
+  type: 'group';
+  body: Script;
+  redirects: Redirect[];
+}
+
+export interface FunctionDefinition {
+  type: 'function';
+  name: string;
+  body: CompoundCommand;
+}
+
+export type CompoundCommand = IfCommand | ForCommand | WhileCommand | GroupCommand;
+
+export type Command = SimpleCommand | CompoundCommand | FunctionDefinition;
+
+export interface Pipeline {
+  commands: Command[];
+  // Set by a leading `!`, which inverts the exit status.
+  negated: boolean;
+}
+
+export interface AndOrList {
+  first: Pipeline;
+  rest: { op: '&&' | '||'; pipeline: Pipeline }[];
+}
+
+export interface Script {
+  items: AndOrList[];
+}
+
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FUNCTION_NAME = /^([A-Za-z_][A-Za-z0-9_.-]*)(\(\))?$/;
+
+// Words that are only keywords at the start of a command, so `echo done` still prints "done".
+const RESERVED_WORDS = ['if', 'then', 'elif', 'else', 'fi', 'for', 'in', 'while', 'until', 'do', 'done', 'function', '{', '}', '!'];
+
+const isOperator = (token: Token | undefined, ...values: Operator[]): boolean => {
+  return token?.type === 'operator' && values.includes(token.value);
+};
+
+// The text of a word with no quoting or expansions, or null for anything else.
+const literalWord = (token: Token | undefined) => {
+  if (token?.type !== 'word' || token.parts.length !== 1) {
+    return null;
+  }
+  const [part] = token.parts;
+  return part.type === 'literal' && !part.quoted ? part.value : null;
+};
+
+const reservedWord = (token: Token | undefined) => {
+  const word = literalWord(token);
+  return word !== null && RESERVED_WORDS.includes(word) ? word : null;
+};
+
+const describe = (token: Token | undefined) => {
+  if (!token) {
+    return 'newline';
+  }
+  if (token.type === 'word') {
+    return reservedWord(token) ?? 'word';
+  }
+  return token.value === '\n' ? 'newline' : `${token.fd ?? ''}${token.value}`;
+};
+
+const toAssignment = (word: Word): Assignment | null => {
+  const [head, ...tail] = word;
+  if (!head || head.type !== 'literal' || head.quoted) {
+    return null;
+  }
+  const match = ASSIGNMENT.exec(head.value);
+  if (!match) {
+    return null;
+  }
+  const rest = head.value.slice(match[0].length);
+  return {
+    name: match[1],
+    value: rest ? [{ ...head, value: rest }, ...tail] : tail,
+  };
+};
+
+export const parse = (input: string): Script => {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const unexpected = (token: Token | undefined) => {
+    if (!token) {
+      return new IncompleteInputError('syntax error: unexpected end of input');
+    }
+    return new ShellSyntaxError(`syntax error near unexpected token '${describe(token)}'`);
+  };
+
+  const skipNewlines = () => {
+    while (isOperator(peek(), '\n')) {
+      position++;
+    }
+  };
+
+  const skipSeparators = () => {
+    while (isOperator(peek(), ';', '\n')) {
+      position++;
+    }
+  };
+
+  const expect = (word: string) => {
+    if (reservedWord(peek()) !== word) {
+      throw unexpected(peek());
+    }
+    position++;
+  };
+
+  const parseRedirect = (): Redirect | null => {
+    const token = peek();
+    if (token?.type !== 'operator' || !isOperator(token, '>', '>>', '>&', '<', '<<')) {
+      return null;
+    }
+    position++;
+    const target = peek();
+    if (target?.type !== 'word') {
+      throw unexpected(target);
+    }
+    position++;
+    const op = token.value as Redirect['op'];
+    return token.fd === undefined ? { op, target: target.parts } : { op, fd: token.fd, target: target.parts };
+  };
+
+  const parseSimpleCommand = (): SimpleCommand => {
+    const command: SimpleCommand = { type: 'simple', assignments: [], words: [], redirects: [] };
+
+    for (let token = peek(); token; token = peek()) {
+      if (token.type === 'word') {
+        position++;
+        const assignment = command.words.length === 0 ? toAssignment(token.parts) : null;
+        if (assignment) {
+          command.assignments.push(assignment);
+        } else {
+          command.words.push(token.parts);
+        }
+        continue;
+      }
+      const redirect = parseRedirect();
+      if (!redirect) {
+        break;
+      }
+      command.redirects.push(redirect);
+    }
+
+    if (command.assignments.length === 0 && command.words.length === 0 && command.redirects.length === 0) {
+      throw unexpected(peek());
+    }
+    return command;
+  };
+
+  // Parses commands up to one of the reserved words in `terminators`, which
+  // is left for the caller to consume, or to the end of input at the top level.
+  const parseList = (terminators: string[]): Script => {
+    const script: Script = { items: [] };
+    for (;;) {
+      skipSeparators();
+      const token = peek();
+      if (!token && terminators.length === 0) {
+        return script;
+      }
+      if (terminators.includes(reservedWord(token) ?? '')) {
+        if (script.items.length === 0) {
+          throw unexpected(token);
+        }
+        return script;
+      }
+      script.items.push(parseAndOr());
+      const next = peek();
+      if (next && !isOperator(next, ';', '\n') && !terminators.includes(reservedWord(next) ?? '')) {
+        throw unexpected(next);
+      }
+    }
+  };
+
+  const parseIf = (): IfCommand => {
+    const command: IfCommand = { type: 'if', clauses: [], redirects: [] };
+    let keyword = reservedWord(peek());
+    while (keyword === 'if' || keyword === 'elif') {
+      position++;
+      const condition = parseList(['then']);
+      expect('then');
+      command.clauses.push({ condition, body: parseList(['elif', 'else', 'fi']) });
+      keyword = reservedWord(peek());
+    }
+    if (keyword === 'else') {
+      position++;
+      command.otherwise = parseList(['fi']);
+    }
+    expect('fi');
+    return command;
+  };
+
+  const parseFor = (): ForCommand => {
+    position++;
+    const variable = literalWord(peek());
+    if (variable === null) {
+      throw unexpected(peek());
+    }
+    if (!NAME.test(variable)) {
+      throw new ShellSyntaxError(`'${variable}': not a valid identifier`);
+    }
+    position++;
+    skipNewlines();
+    let items: Word[] | undefined;
+    if (reservedWord(peek()) === 'in') {
+      position++;
+      items = [];
+      for (let token = peek(); token?.type === 'word'; token = peek()) {
+        items.push(token.parts);
+        position++;
+      }
+    }
+    skipSeparators();
+    expect('do');
+    const body = parseList(['done']);
+    expect('done');
+    return { type: 'for', variable, items, body, redirects: [] };
+  };
+
+  const parseWhile = (): WhileCommand => {
+    const until = reservedWord(peek()) === 'until';
+    position++;
+    const condition = parseList(['do']);
+    expect('do');
+    const body = parseList(['done']);
+    expect('done');
+    return { type: 'while', until, condition, body, redirects: [] };
+  };
+
+  const parseGroup = (): GroupCommand => {
+    position++;
+    const body = parseList(['}']);
+    expect('}');
+    return { type: 'group', body, redirects: [] };
+  };
+
+  const parseCompound = (): CompoundCommand | null => {
+    let command: CompoundCommand;
+    switch (reservedWord(peek())) {
+      case 'if':
+        command = parseIf();
+        break;
+      case 'for':
+        command = parseFor();
+        break;
+      case 'while':
+      case 'until':
+        command = parseWhile();
+        break;
+      case '{':
+        command = parseGroup();
+        break;
+      default:
+        return null;
+    }
+    for (let redirect = parseRedirect(); redirect; redirect = parseRedirect()) {
+      command.redirects.push(redirect);
+    }
+    return command;
+  };
+
+  const parseFunction = (name: string): FunctionDefinition => {
+    skipNewlines();
+    const body = parseCompound();
+    if (!body) {
+      throw unexpected(peek());
+    }
+    return { type: 'function', name, body };
+  };
+
+  const parseCommand = (): Command => {
+    const compound = parseCompound();
+    if (compound) {
+      return compound;
+    }
+
+    const keyword = reservedWord(peek());
+    if (keyword === 'function') {
+      position++;
+      const match = FUNCTION_NAME.exec(literalWord(peek()) ?? '');
+      if (!match) {
+        throw unexpected(peek());
+      }
+      position++;
+      if (!match[2] && literalWord(peek()) === '()') {
+        position++;
+      }
+      return parseFunction(match[1]);
+    }
+    if (keyword) {
+      throw unexpected(peek());
+    }
+
+    // `name() body`, written with or without a space before the parentheses.
+    const match = FUNCTION_NAME.exec(literalWord(peek()) ?? '');
+    if (match && (match[2] || literalWord(tokens[position + 1]) === '()')) {
+      position += match[2] ? 1 : 2;
+      return parseFunction(match[1]);
+    }
+    return parseSimpleCommand();
+  };
+
+  const parsePipeline = (): Pipeline => {
+    const negated = reservedWord(peek()) === '!';
+    if (negated) {
+      position++;
+    }
+    const commands = [parseCommand()];
+    while (isOperator(peek(), '|')) {
+      position++;
+      skipNewlines();
+      commands.push(parseCommand());
+    }
+    return { commands, negated };
+  };
+
+  const parseAndOr = (): AndOrList => {
+    const list: AndOrList = { first: parsePipeline(), rest: [] };
+    for (let token = peek(); isOperator(token, '&&', '||'); token = peek()) {
+      position++;
+      skipNewlines();
+      list.rest.push({ op: (token as { value: '&&' | '||' }).value, pipeline: parsePipeline() });
+    }
+    return list;
+  };
+
+  return parseList([]);
+};
+
+export const needsContinuation = (input: string) => {
+  try {
+    parse(input);
+    return false;
+  } catch (error) {
+    return error instanceof IncompleteInputError;
+  }
+};
@@ -0,0 +1,15 @@
+import { checkBudget, recordUsage } from './billing';
+import { recordActivity, SYSTEM_ACTOR } from './events';
+import { advanceInstances } from './lifecycle';
+import { closeBrokenConnections } from './remote';
+import type { SessionState } from './types';
+
+// Moves every time-driven part of the simulation forward to `now`. Returns the
+// same state object when nothing changed.
+export const advanceSimulation = (state: SessionState, now = Date.now()): SessionState => {
+  const instances = advanceInstances(state.instances, now);
+  const advanced = instances === state.instances
+    ? state
+    : closeBrokenConnections({ ...state, instances, usage: recordUsage(state, instances, now) });
+  return checkBudget(recordActivity(state, advanced, SYSTEM_ACTOR, now), now);
+};
@@ -0,0 +1,323 @@
+import { bcryptPbkdf } from './bcrypt';
+
+// SSH key pairs generated with WebCrypto and serialised the way OpenSSH does:
+// `ssh-*` public key lines, `openssh-key-v1` private keys, SHA256
+// fingerprints and randomart.
+
+export const KEY_TYPES = ['rsa', 'ecdsa', 'ed25519'] as const;
+
+export type KeyType = typeof KEY_TYPES[number];
+
+export const KEY_SIZES: Record<KeyType, number[]> = {
+  rsa: [2048, 3072, 4096],
+  ecdsa: [256, 384, 521],
+  ed25519: [256],
+};
+
+export const DEFAULT_KEY_SIZES: Record<KeyType, number> = {
+  rsa: 3072,
+  ecdsa: 256,
+  ed25519: 256,
+};
+
+const TYPE_LABELS: Record<KeyType, string> = {
+  rsa: 'RSA',
+  ecdsa: 'ECDSA',
+  ed25519: 'ED25519',
+};
+
+export class KeyFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyFormatError';
+  }
+}
+
+export interface KeyPair {
+  type: KeyType;
+  bits: number;
+  comment: string;
+  publicKey: string;
+  privateKey: string;
+  fingerprint: string;
+  randomart: string;
+}
+
+export interface PublicKeyInfo {
+  type: KeyType;
+  bits: number;
+  comment: string;
+  blob: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+const concat = (...arrays: Uint8Array[]) => {
+  const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const sshString = (data: Uint8Array | string) => {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return concat(uint32(bytes.length), bytes);
+};
+
+// Unsigned big-endian integer as an SSH mpint: minimal, with a zero byte when
+// the high bit would otherwise make it negative.
+const mpint = (bytes: Uint8Array) => {
+  let start = 0;
+  while (start < bytes.length && bytes[start] === 0) {
+    start++;
+  }
+  const trimmed = bytes.slice(start);
+  return sshString(trimmed.length > 0 && trimmed[0] & 0x80 ? concat(new Uint8Array([0]), trimmed) : trimmed);
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const fromBase64Url = (value: string) => fromBase64(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
+
+const wrap = (text: string, width: number) => text.replace(new RegExp(`(.{${width}})`, 'g'), '$1\n').replace(/\n$/, '');
+
+const pem = (label: string, bytes: Uint8Array, width: number) => {
+  return `-----BEGIN ${label}-----\n${wrap(toBase64(bytes), width)}\n-----END ${label}-----\n`;
+};
+
+const sshKeyName = (type: KeyType, bits: number) => {
+  switch (type) {
+    case 'rsa':
+      return 'ssh-rsa';
+    case 'ecdsa':
+      return `ecdsa-sha2-nistp${bits}`;
+    case 'ed25519':
+      return 'ssh-ed25519';
+  }
+};
+
+// Key-specific parts of the public blob and of the private section of an
+// `openssh-key-v1` file, both built from the exported JWK.
+const encodeKey = (type: KeyType, bits: number, jwk: JsonWebKey) => {
+  const field = (name: keyof JsonWebKey) => fromBase64Url(jwk[name] as string);
+  const name = sshKeyName(type, bits);
+  switch (type) {
+    case 'rsa':
+      return {
+        publicBlob: concat(sshString(name), mpint(field('e')), mpint(field('n'))),
+        privateBlob: concat(
+          sshString(name),
+          mpint(field('n')),
+          mpint(field('e')),
+          mpint(field('d')),
+          mpint(field('qi')),
+          mpint(field('p')),
+          mpint(field('q'))
+        ),
+      };
+    case 'ecdsa': {
+      const point = concat(new Uint8Array([4]), field('x'), field('y'));
+      const curve = sshString(`nistp${bits}`);
+      return {
+        publicBlob: concat(sshString(name), curve, sshString(point)),
+        privateBlob: concat(sshString(name), curve, sshString(point), mpint(field('d'))),
+      };
+    }
+    case 'ed25519': {
+      const publicKey = field('x');
+      return {
+        publicBlob: concat(sshString(name), sshString(publicKey)),
+        privateBlob: concat(sshString(name), sshString(publicKey), sshString(concat(field('d'), publicKey))),
+      };
+    }
+  }
+};
+
+const algorithmFor = (type: KeyType, bits: number): RsaHashedKeyGenParams | EcKeyGenParams | Algorithm => {
+  switch (type) {
+    case 'rsa':
+      return { name: 'RSASSA-PKCS1-v1_5', modulusLength: bits, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' };
+    case 'ecdsa':
+      return { name: 'ECDSA', namedCurve: `P-${bits}` };
+    case 'ed25519':
+      return { name: 'Ed25519' };
+  }
+};
+
+const KDF_ROUNDS = 16;
+const CIPHER_BLOCK_SIZE = 16;
+
+// `openssh-key-v1` container; with a passphrase the private section is
+// encrypted with aes256-ctr under a bcrypt_pbkdf-derived key, as ssh-keygen does.
+const opensshPrivateKey = async (publicBlob: Uint8Array, privateBlob: Uint8Array, comment: string, passphrase: string) => {
+  const check = crypto.getRandomValues(new Uint8Array(4));
+  const body = concat(check, check, privateBlob, sshString(comment));
+  const blockSize = passphrase ? CIPHER_BLOCK_SIZE : 8;
+  const padding = Array.from({ length: (blockSize - (body.length % blockSize)) % blockSize }, (_, index) => index + 1);
+  let section = concat(body, new Uint8Array(padding));
+  let cipher = 'none';
+  let kdf = 'none';
+  let kdfOptions = new Uint8Array();
+
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const material = await bcryptPbkdf(encoder.encode(passphrase), salt, 48, KDF_ROUNDS);
+    const key = await crypto.subtle.importKey('raw', material.slice(0, 32), 'AES-CTR', false, ['encrypt']);
+    section = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CTR', counter: material.slice(32), length: 128 }, key, section));
+    cipher = 'aes256-ctr';
+    kdf = 'bcrypt';
+    kdfOptions = concat(sshString(salt), uint32(KDF_ROUNDS));
+  }
+
+  const data = concat(
+    encoder.encode('openssh-key-v1\0'),
+    sshString(cipher),
+    sshString(kdf),
+    sshString(kdfOptions),
+    uint32(1),
+    sshString(publicBlob),
+    sshString(section)
+  );
+  return pem('OPENSSH PRIVATE KEY', data, 70);
+};
+
+const FIELD_WIDTH = 17;
+const FIELD_HEIGHT = 9;
+const AUGMENTATION = ' .o+=*BOX@%&#/^SE';
+
+// The "drunken bishop" walk OpenSSH draws from the fingerprint digest.
+export const randomArt = (digest: Uint8Array, type: KeyType, bits: number) => {
+  const field = Array.from({ length: FIELD_WIDTH }, () => new Array<number>(FIELD_HEIGHT).fill(0));
+  const last = AUGMENTATION.length - 1;
+  let x = Math.floor(FIELD_WIDTH / 2);
+  let y = Math.floor(FIELD_HEIGHT / 2);
+
+  for (let byte of digest) {
+    for (let step = 0; step < 4; step++) {
+      x = Math.min(FIELD_WIDTH - 1, Math.max(0, x + (byte & 1 ? 1 : -1)));
+      y = Math.min(FIELD_HEIGHT - 1, Math.max(0, y + (byte & 2 ? 1 : -1)));
+      if (field[x][y] < last - 2) {
+        field[x][y]++;
+      }
+      byte >>= 2;
+    }
+  }
+  field[Math.floor(FIELD_WIDTH / 2)][Math.floor(FIELD_HEIGHT / 2)] = last - 1;
+  field[x][y] = last;
+
+  const border = (label: string) => {
+    const left = Math.floor((FIELD_WIDTH - label.length) / 2);
+    return `+${'-'.repeat(left)}${label}${'-'.repeat(FIELD_WIDTH - left - label.length)}+`;
+  };
+  const rows = Array.from({ length: FIELD_HEIGHT }, (_, row) => {
+    return `|${field.map(column => AUGMENTATION[Math.min(column[row], last)]).join('')}|`;
+  });
+  return [border(`[${TYPE_LABELS[type]} ${bits}]`), ...rows, border('[SHA256]')].join('\n');
+};
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+export const fingerprint = async (blob: Uint8Array) => {
+  return `SHA256:${toBase64(await sha256(blob)).replace(/=+$/, '')}`;
+};
+
+export const generateKeyPair = async (type: KeyType, bits: number, comment: string, passphrase = ''): Promise<KeyPair> => {
+  let keys: CryptoKeyPair;
+  try {
+    keys = await crypto.subtle.generateKey(algorithmFor(type, bits), true, ['sign', 'verify']) as CryptoKeyPair;
+  } catch {
+    throw new KeyFormatError(`${type} keys are not supported by this browser`);
+  }
+  const jwk = await crypto.subtle.exportKey('jwk', keys.privateKey);
+  const { publicBlob, privateBlob } = encodeKey(type, bits, jwk);
+  const digest = await sha256(publicBlob);
+
+  return {
+    type,
+    bits,
+    comment,
+    publicKey: [sshKeyName(type, bits), toBase64(publicBlob), comment].filter(Boolean).join(' '),
+    privateKey: await opensshPrivateKey(publicBlob, privateBlob, comment, passphrase),
+    fingerprint: `SHA256:${toBase64(digest).replace(/=+$/, '')}`,
+    randomart: randomArt(digest, type, bits),
+  };
+};
+
+// Reads `uint32 length || bytes` fields from an SSH wire-format blob.
+const readFields = (blob: Uint8Array, count: number) => {
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+  const fields: Uint8Array[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 4 > blob.length) {
+      throw new KeyFormatError('truncated key');
+    }
+    const length = view.getUint32(offset);
+    if (offset + 4 + length > blob.length) {
+      throw new KeyFormatError('truncated key');
+    }
+    fields.push(blob.slice(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return fields;
+};
+
+const bitLength = (bytes: Uint8Array) => {
+  let start = 0;
+  while (start < bytes.length && bytes[start] === 0) {
+    start++;
+  }
+  if (start === bytes.length) {
+    return 0;
+  }
+  return (bytes.length - start - 1) * 8 + bytes[start].toString(2).length;
+};
+
+// Parses an OpenSSH public key line (`type base64 [comment]`).
+export const parsePublicKey = (line: string): PublicKeyInfo => {
+  const [name, data, ...comment] = line.trim().split(/\s+/);
+  let blob: Uint8Array;
+  try {
+    blob = fromBase64(data ?? '');
+  } catch {
+    throw new KeyFormatError('invalid format');
+  }
+  const [blobName] = readFields(blob, 1);
+  const decodedName = new TextDecoder().decode(blobName);
+  if (decodedName !== name) {
+    throw new KeyFormatError('invalid format');
+  }
+
+  let type: KeyType;
+  let bits: number;
+  if (name === 'ssh-rsa') {
+    type = 'rsa';
+    bits = bitLength(readFields(blob, 3)[2]);
+  } else if (name === 'ssh-ed25519') {
+    type = 'ed25519';
+    bits = 256;
+  } else if (/^ecdsa-sha2-nistp(256|384|521)$/.test(name)) {
+    type = 'ecdsa';
+    bits = Number(name.slice('ecdsa-sha2-nistp'.length));
+  } else {
+    throw new KeyFormatError('invalid format');
+  }
+  return { type, bits, comment: comment.join(' '), blob };
+};
+
+// One line of `ssh-keygen -l` output for a public key.
+export const describePublicKey = async (line: string) => {
+  const key = parsePublicKey(line);
+  return `${key.bits} ${await fingerprint(key.blob)} ${key.comment || 'no comment'} (${TYPE_LABELS[key.type]})`;
+};
@@ -0,0 +1,52 @@
+import { PROJECT } from './compute';
+import { createFileSystem, HOME } from './fs';
+import { createDefaultNetwork } from './hosts';
+import { LOCALE_INFO } from './i18n';
+import { DEFAULT_USER, SUDO_GROUP } from './iam';
+import type { SessionState } from './types';
+
+export const createInitialState = (): SessionState => {
+  const now = Date.now();
+  const { network, subnets, firewallRules } = createDefaultNetwork(now);
+  return {
+    currentPath: HOME,
+    instances: [],
+    networks: [network],
+    subnets,
+    firewallRules,
+    gitRepos: [],
+    sshKeys: [],
+    agent: [],
+    connections: [],
+    users: [{ name: DEFAULT_USER, groups: [SUDO_GROUP], createdAt: now }],
+    bindings: [{ user: DEFAULT_USER, role: 'admin', project: PROJECT }],
+    logins: [],
+    events: [],
+    usage: [],
+    notices: [],
+    history: [],
+    env: {
+      USER: DEFAULT_USER,
+      HOME,
+      SHELL: '/bin/bash',
+      PATH: '/usr/local/bin:/usr/bin:/bin',
+      TERM: 'xterm-256color',
+      LANG: LOCALE_INFO.en.lang,
+    },
+    vars: {},
+    functions: {},
+    fs: createFileSystem(),
+    lastExitCode: 0,
+  };
+};
+
+export const setVariable = (state: SessionState, name: string, value: string): SessionState => {
+  if (name in state.env) {
+    return { ...state, env: { ...state.env, [name]: value } };
+  }
+  return { ...state, vars: { ...state.vars, [name]: value } };
+};
+
+export const getTimestamp = () => {
+  return new Date().toLocaleTimeString();
+};
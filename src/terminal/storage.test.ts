@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { bucketUsage, formatSize, parseObjectUrl, StorageError } from './storage';
+import type { Instance } from './types';
+
+describe('parseObjectUrl', () => {
+  it('splits bucket, name and generation', () => {
+    expect(parseObjectUrl('gs://assets')).toEqual({ bucket: 'assets', name: '', generation: undefined });
+    expect(parseObjectUrl('gs://assets/logs/')).toEqual({ bucket: 'assets', name: 'logs/', generation: undefined });
+    expect(parseObjectUrl('gs://assets/a.txt#12')).toEqual({ bucket: 'assets', name: 'a.txt', generation: 12 });
+    expect(() => parseObjectUrl('gs://')).toThrow(StorageError);
+  });
+});
+
+describe('bucketUsage', () => {
+  it('counts live and noncurrent versions apart', () => {
+    const bucket: Instance = {
+      id: 'b-1',
+      name: 'assets',
+      type: 'storage',
+      status: 'running',
+      objects: [
+        { name: 'a', content: 'héllo', contentType: 'text/plain', generation: 2, createdAt: 1 },
+        { name: 'a', content: 'old', contentType: 'text/plain', generation: 1, createdAt: 0, archivedAt: 1 },
+      ],
+    };
+    expect(bucketUsage(bucket)).toEqual({ objects: 1, bytes: 6, noncurrentObjects: 1, noncurrentBytes: 3 });
+  });
+});
+
+describe('formatSize', () => {
+  it('uses binary units', () => {
+    expect(formatSize(512)).toBe('512 B');
+    expect(formatSize(1536)).toBe('1.5 KiB');
+    expect(formatSize(5 * 1024 ** 3)).toBe('5 GiB');
+  });
+});
@@ -0,0 +1,155 @@
+import type { Instance, SessionState, StorageObject } from './types';
+
+// Storage instances as Cloud Storage buckets: objects addressed as
+// gs://BUCKET/NAME, each with its content type and custom metadata, and every
+// earlier generation while the bucket has versioning on. gsutil and the
+// instance's HTTP endpoint both work on this store.
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export const URL_SCHEME = 'gs://';
+
+export interface ObjectUrl {
+  bucket: string;
+  // Empty for the bucket itself; a trailing `/` names a prefix, like a directory.
+  name: string;
+  generation?: number;
+}
+
+// Cloud Storage's naming rules, without the dotted form that would not work as a hostname.
+const BUCKET_NAME = /^[a-z0-9][a-z0-9_-]{1,61}[a-z0-9]$/;
+
+export const isObjectUrl = (value: string) => value.startsWith(URL_SCHEME);
+
+// Parses `gs://bucket`, `gs://bucket/path/name` and `gs://bucket/name#generation`.
+export const parseObjectUrl = (value: string): ObjectUrl => {
+  const match = /^gs:\/\/([^/#]+)\/?([^#]*?)(?:#(\d+))?$/.exec(value);
+  if (!match) {
+    throw new StorageError(`CommandException: "${value}" is not a valid Cloud Storage URL.`);
+  }
+  return { bucket: match[1], name: match[2], generation: match[3] === undefined ? undefined : Number(match[3]) };
+};
+
+export const formatObjectUrl = (bucket: string, name = '', generation?: number) => {
+  return `${URL_SCHEME}${bucket}/${name}${generation === undefined ? '' : `#${generation}`}`;
+};
+
+export const checkBucketName = (name: string) => {
+  if (!BUCKET_NAME.test(name)) {
+    throw new StorageError(`BadRequestException: 400 Invalid bucket name: '${name}'. Use 3 to 63 lowercase letters, digits, dashes and underscores, starting and ending with a letter or digit.`);
+  }
+  return name;
+};
+
+export const objectSize = (object: Pick<StorageObject, 'content'>) => new TextEncoder().encode(object.content).length;
+
+export const liveObjects = (bucket: Instance) => (bucket.objects ?? []).filter(object => object.archivedAt === undefined);
+
+// The live generation of `name`, or the given generation whether it is live or not.
+export const findObject = (bucket: Instance, name: string, generation?: number) => {
+  return (bucket.objects ?? []).find(object => object.name === name
+    && (generation === undefined ? object.archivedAt === undefined : object.generation === generation));
+};
+
+// `prefix` as a directory, the way recursive commands read it: `logs` and `logs/` both mean `logs/`.
+export const directoryPrefix = (prefix: string) => prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+
+// Objects named `prefix` or inside it; only live ones unless `noncurrent` is set.
+export const objectsUnder = (bucket: Instance, prefix: string, noncurrent = false) => {
+  const directory = directoryPrefix(prefix);
+  return (noncurrent ? bucket.objects ?? [] : liveObjects(bucket))
+    .filter(object => object.name === prefix || object.name.startsWith(directory));
+};
+
+// URL names with wildcards, as gsutil reads them: `*` and `?` stay within one
+// level of the name, `**` matches across levels, so `gs://b/**` is every object.
+export const hasWildcard = (name: string) => /[*?]/.test(name);
+
+const WILDCARDS: Record<string, string> = { '**': '.*', '*': '[^/]*', '?': '[^/]' };
+
+export const matchesWildcard = (pattern: string, name: string) => {
+  const source = pattern.split(/(\*\*|\*|\?)/)
+    .map(part => WILDCARDS[part] ?? part.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`).test(name);
+};
+
+// Generations are microsecond timestamps, as in Cloud Storage, and only ever grow within a bucket.
+const nextGeneration = (bucket: Instance, now: number) => {
+  return Math.max(now * 1000, ...(bucket.objects ?? []).map(object => object.generation + 1));
+};
+
+// Takes the live generation of `name` out of service, keeping it as noncurrent when versioning is on.
+const retire = (bucket: Instance, name: string, now: number) => (bucket.objects ?? []).flatMap(object => {
+  if (object.name !== name || object.archivedAt !== undefined) {
+    return [object];
+  }
+  return bucket.versioning ? [{ ...object, archivedAt: now }] : [];
+});
+
+export const putObject = (
+  bucket: Instance,
+  object: Pick<StorageObject, 'name' | 'content' | 'contentType' | 'metadata'>,
+  now: number
+): Instance => ({
+  ...bucket,
+  objects: [...retire(bucket, object.name, now), { ...object, generation: nextGeneration(bucket, now), createdAt: now }],
+});
+
+// Deleting the live object keeps it as noncurrent in a versioned bucket;
+// deleting a particular generation removes it for good.
+export const deleteObject = (bucket: Instance, name: string, now: number, generation?: number): Instance => ({
+  ...bucket,
+  objects: generation === undefined
+    ? retire(bucket, name, now)
+    : (bucket.objects ?? []).filter(object => object.name !== name || object.generation !== generation),
+});
+
+export const updateObject = (bucket: Instance, name: string, update: (object: StorageObject) => StorageObject): Instance => ({
+  ...bucket,
+  objects: (bucket.objects ?? []).map(object => object.name === name && object.archivedAt === undefined ? update(object) : object),
+});
+
+export const updateBucket = (state: SessionState, name: string, update: (bucket: Instance) => Instance): SessionState => ({
+  ...state,
+  instances: state.instances.map(instance => instance.name === name && instance.type === 'storage' ? update(instance) : instance),
+});
+
+export interface BucketUsage {
+  objects: number;
+  bytes: number;
+  noncurrentObjects: number;
+  noncurrentBytes: number;
+}
+
+export const bucketUsage = (bucket: Instance): BucketUsage => {
+  const usage = { objects: 0, bytes: 0, noncurrentObjects: 0, noncurrentBytes: 0 };
+  for (const object of bucket.objects ?? []) {
+    if (object.archivedAt === undefined) {
+      usage.objects++;
+      usage.bytes += objectSize(object);
+    } else {
+      usage.noncurrentObjects++;
+      usage.noncurrentBytes += objectSize(object);
+    }
+  }
+  return usage;
+};
+
+const SIZE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+
+// Sizes the way gsutil prints them with -h: `512 B`, `1.5 KiB`.
+export const formatSize = (bytes: number) => {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : Number(size.toFixed(2))} ${SIZE_UNITS[unit]}`;
+};
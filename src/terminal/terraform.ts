@@ -0,0 +1,665 @@
+import { getNode, joinPath, normalizePath, type DirectoryNode } from './fs';
+import { HclError, isExpression, parseHcl, type HclBlock, type HclValue } from './hcl';
+import { KeyFormatError, parsePublicKey } from './sshkeys';
+import { INSTANCE_TYPES, type Instance, type SessionState } from './types';
+
+// The declarative side of the simulator: `.tf` files are parsed into desired
+// resources, compared against `terraform.tfstate` and the live session, and
+// turned into a plan that the terraform command applies.
+
+export const TERRAFORM_VERSION = '1.9.8';
+export const PROVIDER = 'registry.terraform.io/cloudterm/cloud';
+export const PROVIDER_VERSION = '1.0.0';
+export const STATE_FILE = 'terraform.tfstate';
+export const DATA_DIR = '.terraform';
+export const LOCK_FILE = '.terraform.lock.hcl';
+
+export class TerraformError extends Error {
+  constructor(message: string, public detail = '', public location?: { file: string; line: number }) {
+    super(message);
+    this.name = 'TerraformError';
+  }
+}
+
+export type ResourceType = 'cloud_instance' | 'cloud_ssh_key' | 'cloud_network';
+
+// Every attribute of the supported resources is a string; a missing entry in
+// a planned resource means its value is only known after apply.
+export type Attributes = Record<string, string>;
+
+export type Value = string | number | boolean | null | Value[] | { [key: string]: Value };
+
+export interface ResourceConfig {
+  type: ResourceType;
+  name: string;
+  address: string;
+  attributes: Attributes;
+  location: { file: string; line: number };
+}
+
+export interface OutputConfig {
+  name: string;
+  value: HclValue;
+  location: { file: string; line: number };
+}
+
+export interface Configuration {
+  files: string[];
+  resources: ResourceConfig[];
+  outputs: OutputConfig[];
+  variables: Record<string, Value>;
+  locals: Record<string, Value>;
+  // Where the files were read from, for functions such as file().
+  scope: { fs: DirectoryNode; dir: string; home: string };
+}
+
+export interface StateResource {
+  mode: 'managed';
+  type: ResourceType;
+  name: string;
+  provider: string;
+  instances: { schema_version: number; attributes: Attributes }[];
+}
+
+export interface TerraformState {
+  version: number;
+  terraform_version: string;
+  serial: number;
+  lineage: string;
+  outputs: Record<string, { value: Value; type: string }>;
+  resources: StateResource[];
+}
+
+export type ChangeAction = 'create' | 'update' | 'replace' | 'delete' | 'no-op';
+
+export interface PlannedChange {
+  address: string;
+  type: ResourceType;
+  name: string;
+  action: ChangeAction;
+  before?: Attributes;
+  after?: Attributes;
+  // Attributes whose change forces the resource to be replaced.
+  forces: string[];
+  // Set when an existing object with the same name is taken over.
+  imported?: boolean;
+  orphaned?: boolean;
+}
+
+interface ResourceSchema {
+  required: string[];
+  optional: Attributes;
+  computed: string[];
+  // Attributes that cannot change without replacing the object.
+  forceNew: string[];
+  validate: (attributes: Attributes) => { summary: string; detail: string } | null;
+  // Reads the live object tracked by `id`, or owning `name` when adopting.
+  read: (state: SessionState, match: { id?: string; name?: string }) => Attributes | undefined;
+}
+
+// Statuses that are still on their way somewhere count as their destination.
+const settledStatus = (instance: Instance) => {
+  switch (instance.status) {
+    case 'provisioning':
+    case 'staging':
+      return 'running';
+    case 'stopping':
+      return 'stopped';
+    default:
+      // Buckets have no status, and are always available.
+      return instance.status ?? 'running';
+  }
+};
+
+const CIDR = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/;
+
+export const isValidCidr = (value: string) => {
+  const match = value.match(CIDR);
+  return Boolean(match) && match!.slice(1, 5).every(octet => Number(octet) <= 255) && Number(match![5]) <= 32;
+};
+
+export const SCHEMAS: Record<ResourceType, ResourceSchema> = {
+  cloud_instance: {
+    required: ['name', 'type'],
+    optional: { status: 'running' },
+    computed: ['id'],
+    forceNew: ['name', 'type'],
+    validate: attributes => {
+      if (!INSTANCE_TYPES.includes(attributes.type as Instance['type'])) {
+        return { summary: 'Invalid instance type', detail: `The instance type must be one of: ${INSTANCE_TYPES.join(', ')}.` };
+      }
+      if (attributes.status !== 'running' && attributes.status !== 'stopped') {
+        return { summary: 'Invalid instance status', detail: 'The status must be "running" or "stopped".' };
+      }
+      return null;
+    },
+    read: (state, { id, name }) => {
+      const instance = state.instances.find(i => i.status !== 'terminated' && (id ? i.id === id : i.name === name));
+      return instance && { id: instance.id, name: instance.name, type: instance.type, status: settledStatus(instance) };
+    },
+  },
+  cloud_ssh_key: {
+    required: ['name', 'public_key'],
+    optional: {},
+    computed: ['id', 'fingerprint'],
+    forceNew: ['name', 'public_key'],
+    validate: attributes => {
+      try {
+        parsePublicKey(attributes.public_key);
+        return null;
+      } catch (error) {
+        if (!(error instanceof KeyFormatError)) {
+          throw error;
+        }
+        return { summary: 'Invalid public key', detail: 'The value must be an OpenSSH public key, such as the contents of ~/.ssh/id_rsa.pub.' };
+      }
+    },
+    read: (state, { id, name }) => {
+      const key = state.sshKeys.find(k => k.name === (id ?? name));
+      return key && { id: key.name, name: key.name, public_key: key.publicKey.trim(), fingerprint: key.fingerprint };
+    },
+  },
+  cloud_network: {
+    required: ['name'],
+    optional: { cidr: '10.0.0.0/16' },
+    computed: ['id'],
+    forceNew: ['name', 'cidr'],
+    validate: attributes => isValidCidr(attributes.cidr) ? null : {
+      summary: 'Invalid CIDR block',
+      detail: `"${attributes.cidr}" is not a valid IPv4 CIDR block such as 10.0.0.0/16.`,
+    },
+    read: (state, { id, name }) => {
+      const network = state.networks.find(n => id ? n.id === id : n.name === name);
+      return network && { id: network.id, name: network.name, cidr: network.cidr };
+    },
+  },
+};
+
+const RESOURCE_TYPES = Object.keys(SCHEMAS) as ResourceType[];
+
+export const configFiles = (fs: DirectoryNode, dir: string) => {
+  const node = getNode(fs, dir);
+  if (node?.type !== 'dir') {
+    return [];
+  }
+  return Object.keys(node.children)
+    .filter(name => name.endsWith('.tf') && node.children[name].type === 'file')
+    .sort();
+};
+
+export const isInitialized = (fs: DirectoryNode, dir: string) => getNode(fs, joinPath(dir, DATA_DIR))?.type === 'dir';
+
+const typeName = (value: Value): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  return typeof value === 'object' ? 'object' : typeof value;
+};
+
+interface Scope {
+  fs: DirectoryNode;
+  dir: string;
+  home: string;
+  variables: Record<string, Value>;
+  locals: Record<string, Value>;
+  resources?: Record<string, Attributes>;
+}
+
+const FUNCTIONS: Record<string, (args: Value[], scope: Scope) => Value> = {
+  file: ([path], { fs, dir, home }) => {
+    const target = normalizePath(dir, String(path), home);
+    const node = getNode(fs, target);
+    if (node?.type !== 'file') {
+      throw new Error(`Invalid value for "path" parameter: no file exists at "${path}".`);
+    }
+    return node.content;
+  },
+  lower: ([value]) => String(value).toLowerCase(),
+  upper: ([value]) => String(value).toUpperCase(),
+  trimspace: ([value]) => String(value).trim(),
+  join: ([separator, list]) => (Array.isArray(list) ? list : []).map(String).join(String(separator)),
+  length: ([value]) => Array.isArray(value) ? value.length : typeof value === 'object' && value ? Object.keys(value).length : String(value).length,
+};
+
+const evaluate = (value: HclValue, scope: Scope, location: { file: string; line: number }): Value => {
+  if (Array.isArray(value)) {
+    return value.map(item => evaluate(item, scope, location));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (!isExpression(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, evaluate(item, scope, location)]));
+  }
+  switch (value.kind) {
+    case 'template':
+      return value.parts.map(part => {
+        const result = typeof part === 'string' ? part : evaluate(part, scope, location);
+        if (result !== null && typeof result === 'object') {
+          throw new TerraformError('Invalid template interpolation value', `Cannot include a ${typeName(result)} value in a string template.`, location);
+        }
+        return String(result ?? '');
+      }).join('');
+    case 'call': {
+      const fn = FUNCTIONS[value.name];
+      if (!fn) {
+        throw new TerraformError('Call to unknown function', `There is no function named "${value.name}".`, location);
+      }
+      try {
+        return fn(value.args.map(arg => evaluate(arg, scope, location)), scope);
+      } catch (error) {
+        if (error instanceof TerraformError) {
+          throw error;
+        }
+        throw new TerraformError('Error in function call', `Call to function "${value.name}" failed: ${(error as Error).message}`, location);
+      }
+    }
+    case 'reference': {
+      const [root, name, attribute] = value.path;
+      if (root === 'var' || root === 'local') {
+        const values = root === 'var' ? scope.variables : scope.locals;
+        if (!name || !(name in values)) {
+          const label = root === 'var' ? 'input variable' : 'local value';
+          throw new TerraformError(`Reference to undeclared ${label}`, `An ${label} with the name "${name ?? ''}" has not been declared.`, location);
+        }
+        return values[name];
+      }
+      if (RESOURCE_TYPES.includes(root as ResourceType) && scope.resources) {
+        const resource = scope.resources[`${root}.${name}`];
+        if (!resource) {
+          throw new TerraformError('Reference to undeclared resource', `A managed resource "${root}" "${name}" has not been declared in the root module.`, location);
+        }
+        if (!attribute) {
+          return resource;
+        }
+        if (!(attribute in resource)) {
+          throw new TerraformError('Unsupported attribute', `This object has no argument, nested block, or exported attribute named "${attribute}".`, location);
+        }
+        return resource[attribute];
+      }
+      throw new TerraformError('Invalid reference', `A reference to "${value.path.join('.')}" cannot be used here. Only input variables (var.*) and local values (local.*) are available.`, location);
+    }
+  }
+};
+
+// Resolves an expression in an `output` block against the applied resources.
+export const evaluateOutput = (output: OutputConfig, config: Configuration, resources: Record<string, Attributes>) => {
+  return evaluate(output.value, { ...config.scope, variables: config.variables, locals: config.locals, resources }, output.location);
+};
+
+// Parses every `.tf` file in `dir`, reporting syntax errors as diagnostics.
+export const readBlocks = (fs: DirectoryNode, dir: string) => {
+  const blocks: (HclBlock & { file: string })[] = [];
+  for (const file of configFiles(fs, dir)) {
+    const node = getNode(fs, joinPath(dir, file));
+    try {
+      blocks.push(...parseHcl(node?.type === 'file' ? node.content : '').map(block => ({ ...block, file })));
+    } catch (error) {
+      if (error instanceof HclError) {
+        throw new TerraformError(error.message, error.detail, { file, line: error.line });
+      }
+      throw error;
+    }
+  }
+  return blocks;
+};
+
+const parseVariableValue = (raw: string): Value => {
+  if (/^-?\d+(\.\d+)?$/.test(raw)) {
+    return Number(raw);
+  }
+  return raw === 'true' || raw === 'false' ? raw === 'true' : raw;
+};
+
+// Loads every `.tf` file in `dir`. Variables are set from `-var` options
+// (`assignments`) first and TF_VAR_* environment variables second.
+export const loadConfiguration = (
+  fs: DirectoryNode,
+  dir: string,
+  home: string,
+  assignments: Record<string, string>,
+  env: Record<string, string> = {}
+): Configuration => {
+  const files = configFiles(fs, dir);
+  const blocks = readBlocks(fs, dir);
+
+  const scope: Scope = { fs, dir, home, variables: {}, locals: {} };
+  for (const block of blocks.filter(b => b.type === 'variable')) {
+    const location = { file: block.file, line: block.line };
+    const [name] = block.labels;
+    if (block.labels.length !== 1) {
+      throw new TerraformError('Missing name for variable', 'All variable blocks must have 1 label: name.', location);
+    }
+    const assigned = assignments[name] ?? env[`TF_VAR_${name}`];
+    if (assigned !== undefined) {
+      scope.variables[name] = parseVariableValue(assigned);
+    } else if ('default' in block.attributes) {
+      scope.variables[name] = evaluate(block.attributes.default, scope, location);
+    } else {
+      throw new TerraformError('No value for required variable',
+        `The root module input variable "${name}" is not set, and has no default value. Use a -var or -var-file command line argument to provide a value for this variable.`, location);
+    }
+  }
+  for (const name of Object.keys(assignments)) {
+    if (!(name in scope.variables)) {
+      throw new TerraformError('Value for undeclared variable', `A variable named "${name}" was assigned on the command line, but the root module does not declare a variable of that name.`);
+    }
+  }
+  for (const block of blocks.filter(b => b.type === 'locals')) {
+    for (const [name, value] of Object.entries(block.attributes)) {
+      scope.locals[name] = evaluate(value, scope, { file: block.file, line: block.line });
+    }
+  }
+
+  const resources: ResourceConfig[] = [];
+  const outputs: OutputConfig[] = [];
+  for (const block of blocks) {
+    const location = { file: block.file, line: block.line };
+    switch (block.type) {
+      case 'terraform':
+      case 'provider':
+      case 'variable':
+      case 'locals':
+        break;
+      case 'output':
+        if (!('value' in block.attributes)) {
+          throw new TerraformError('Missing required argument', 'The argument "value" is required, but no definition was found.', location);
+        }
+        outputs.push({ name: block.labels[0], value: block.attributes.value, location });
+        break;
+      case 'resource': {
+        const [type, name] = block.labels;
+        if (block.labels.length !== 2) {
+          throw new TerraformError('Missing name for resource', 'All resource blocks must have 2 labels (type, name).', location);
+        }
+        const schema = SCHEMAS[type as ResourceType];
+        if (!schema) {
+          throw new TerraformError('Invalid resource type', `The provider cloudterm/cloud does not support resource type "${type}".`, location);
+        }
+        const address = `${type}.${name}`;
+        const previous = resources.find(r => r.address === address);
+        if (previous) {
+          throw new TerraformError(`Duplicate resource "${type}" configuration`,
+            `A ${type} resource named "${name}" was already declared at ${previous.location.file}:${previous.location.line}. Resource names must be unique per type in each module.`, location);
+        }
+        const attributes: Attributes = { ...schema.optional };
+        for (const [key, value] of Object.entries(block.attributes)) {
+          if (!schema.required.includes(key) && !(key in schema.optional)) {
+            throw new TerraformError('Unsupported argument', `An argument named "${key}" is not expected here.`, location);
+          }
+          const result = evaluate(value, scope, location);
+          if (result !== null && typeof result === 'object') {
+            throw new TerraformError('Incorrect attribute value type', `Inappropriate value for attribute "${key}": string required, but have ${typeName(result)}.`, location);
+          }
+          if (result !== null) {
+            attributes[key] = key === 'public_key' ? String(result).trim() : String(result);
+          }
+        }
+        const missing = schema.required.find(key => !(key in attributes));
+        if (missing) {
+          throw new TerraformError('Missing required argument', `The argument "${missing}" is required, but no definition was found.`, location);
+        }
+        const invalid = schema.validate(attributes);
+        if (invalid) {
+          throw new TerraformError(invalid.summary, invalid.detail, location);
+        }
+        const clash = resources.find(r => r.type === type && r.attributes.name === attributes.name);
+        if (clash) {
+          throw new TerraformError('Duplicate object name',
+            `${clash.address} already manages an object named "${attributes.name}"; each ${type} needs a unique name.`, location);
+        }
+        resources.push({ type: type as ResourceType, name, address, attributes, location });
+        break;
+      }
+      default:
+        throw new TerraformError('Unsupported block type', `Blocks of type "${block.type}" are not expected here.`, location);
+    }
+  }
+  return { files, resources, outputs, variables: scope.variables, locals: scope.locals, scope: { fs, dir, home } };
+};
+
+export const emptyState = (): TerraformState => ({
+  version: 4,
+  terraform_version: TERRAFORM_VERSION,
+  serial: 0,
+  lineage: crypto.randomUUID(),
+  outputs: {},
+  resources: [],
+});
+
+export const readState = (fs: DirectoryNode, dir: string): TerraformState => {
+  const node = getNode(fs, joinPath(dir, STATE_FILE));
+  if (node?.type !== 'file' || !node.content.trim()) {
+    return emptyState();
+  }
+  try {
+    const parsed = JSON.parse(node.content) as TerraformState;
+    if (!Array.isArray(parsed.resources)) {
+      throw new Error('missing resources');
+    }
+    return parsed;
+  } catch {
+    throw new TerraformError('Failed to load state', `The state file ${STATE_FILE} could not be decoded. It may have been edited by hand.`);
+  }
+};
+
+export const serializeState = (state: TerraformState) => `${JSON.stringify(state, null, 2)}\n`;
+
+export const stateAttributes = (state: TerraformState) => Object.fromEntries(state.resources.map(resource => {
+  return [`${resource.type}.${resource.name}`, resource.instances[0]?.attributes ?? {}];
+}));
+
+export const withResources = (state: TerraformState, resources: Record<string, Attributes>): TerraformState => ({
+  ...state,
+  serial: state.serial + 1,
+  resources: Object.entries(resources).map(([address, attributes]) => {
+    const [type, name] = address.split('.');
+    return {
+      mode: 'managed',
+      type: type as ResourceType,
+      name,
+      provider: `provider["${PROVIDER}"]`,
+      instances: [{ schema_version: 0, attributes }],
+    };
+  }),
+});
+
+// Reads every tracked object back from the session. Objects that no longer
+// exist map to undefined so the plan recreates them.
+export const refresh = (session: SessionState, state: TerraformState) => {
+  const current: Record<string, Attributes | undefined> = {};
+  for (const [address, attributes] of Object.entries(stateAttributes(state))) {
+    const type = address.split('.')[0] as ResourceType;
+    current[address] = SCHEMAS[type]?.read(session, { id: attributes.id });
+  }
+  return current;
+};
+
+export const planChanges = (
+  session: SessionState,
+  config: Configuration,
+  current: Record<string, Attributes | undefined>,
+  destroy = false
+): PlannedChange[] => {
+  const changes: PlannedChange[] = [];
+  const claimed = new Set(Object.values(current).filter(Boolean).map(attributes => attributes!.id));
+
+  if (!destroy) {
+    for (const resource of config.resources) {
+      const schema = SCHEMAS[resource.type];
+      let before = current[resource.address];
+      let imported = false;
+      if (!before && !(resource.address in current)) {
+        const existing = schema.read(session, { name: resource.attributes.name });
+        if (existing && !claimed.has(existing.id)) {
+          before = existing;
+          imported = true;
+          claimed.add(existing.id);
+        }
+      }
+      const base = { address: resource.address, type: resource.type, name: resource.name, imported };
+      if (!before) {
+        changes.push({ ...base, action: 'create', after: resource.attributes, forces: [] });
+        continue;
+      }
+      const changed = Object.keys(resource.attributes).filter(key => resource.attributes[key] !== before![key]);
+      const forces = changed.filter(key => schema.forceNew.includes(key));
+      if (forces.length > 0) {
+        changes.push({ ...base, action: 'replace', before, after: resource.attributes, forces });
+      } else if (changed.length > 0) {
+        changes.push({ ...base, action: 'update', before, after: { ...before, ...resource.attributes }, forces: [] });
+      } else {
+        changes.push({ ...base, action: 'no-op', before, after: before, forces: [] });
+      }
+    }
+  }
+
+  for (const [address, before] of Object.entries(current)) {
+    if (!before || (!destroy && config.resources.some(r => r.address === address))) {
+      continue;
+    }
+    const [type, name] = address.split('.') as [ResourceType, string];
+    changes.push({ address, type, name, action: 'delete', before, forces: [], orphaned: !destroy });
+  }
+  return changes;
+};
+
+export const formatValue = (value: Value | undefined): string => {
+  if (value === undefined) {
+    return '(known after apply)';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([key, item]) => `${key} = ${formatValue(item)}`).join(', ')} }`;
+  }
+  return String(value);
+};
+
+const SYMBOLS: Record<Exclude<ChangeAction, 'no-op'>, string> = {
+  create: '  +',
+  update: '  ~',
+  replace: '-/+',
+  delete: '  -',
+};
+
+const LEGEND: Record<Exclude<ChangeAction, 'no-op'>, string> = {
+  create: '  + create',
+  update: '  ~ update in-place',
+  replace: '-/+ destroy and then create replacement',
+  delete: '  - destroy',
+};
+
+const HEADINGS: Record<Exclude<ChangeAction, 'no-op'>, string> = {
+  create: 'will be created',
+  update: 'will be updated in-place',
+  replace: 'must be replaced',
+  delete: 'will be destroyed',
+};
+
+const formatChange = (change: PlannedChange) => {
+  const action = change.action as Exclude<ChangeAction, 'no-op'>;
+  const schema = SCHEMAS[change.type];
+  const keys = [...new Set([...schema.computed, ...schema.required, ...Object.keys(schema.optional)])].sort();
+  const width = Math.max(...keys.map(key => key.length));
+  const lines = [`  # ${change.address} ${HEADINGS[action]}`];
+  if (change.orphaned) {
+    lines.push(`  # (because ${change.address} is not in configuration)`);
+  }
+  if (change.imported) {
+    lines.push(`  # (imported from "${change.before?.id}")`);
+  }
+  lines.push(`${SYMBOLS[action]} resource "${change.type}" "${change.name}" {`);
+  let hidden = 0;
+  for (const key of keys) {
+    const label = key.padEnd(width);
+    const before = change.before?.[key];
+    const after = action === 'replace' && schema.computed.includes(key) ? undefined : change.after?.[key];
+    if (action === 'create') {
+      lines.push(`      + ${label} = ${formatValue(after)}`);
+    } else if (action === 'delete') {
+      lines.push(`      - ${label} = ${formatValue(before)} -> null`);
+    } else if (before !== after) {
+      const forces = change.forces.includes(key) ? ' # forces replacement' : '';
+      lines.push(`      ~ ${label} = ${formatValue(before)} -> ${formatValue(after)}${forces}`);
+    } else if (key === 'id' || key === 'name') {
+      lines.push(`        ${label} = ${formatValue(before)}`);
+    } else {
+      hidden++;
+    }
+  }
+  if (hidden > 0) {
+    lines.push(`        # (${hidden} unchanged attribute${hidden === 1 ? '' : 's'} hidden)`);
+  }
+  lines.push('    }');
+  return lines.join('\n');
+};
+
+export const countChanges = (changes: PlannedChange[]) => ({
+  import: changes.filter(c => c.imported).length,
+  add: changes.filter(c => c.action === 'create' || c.action === 'replace').length,
+  change: changes.filter(c => c.action === 'update').length,
+  destroy: changes.filter(c => c.action === 'delete' || c.action === 'replace').length,
+});
+
+export const hasChanges = (changes: PlannedChange[]) => changes.some(change => change.action !== 'no-op' || change.imported);
+
+export const formatPlan = (changes: PlannedChange[], destroy = false) => {
+  const pending = changes.filter(change => change.action !== 'no-op' || change.imported);
+  if (pending.length === 0) {
+    return destroy
+      ? 'No changes. No objects need to be destroyed.\n\nEither you have not created any objects yet or the existing objects were\nalready deleted outside of Terraform.'
+      : 'No changes. Your infrastructure matches the configuration.\n\nTerraform has compared your real infrastructure against your configuration\nand found no differences, so no changes are needed.';
+  }
+  const actions = (Object.keys(LEGEND) as (keyof typeof LEGEND)[]).filter(action => pending.some(c => c.action === action));
+  const counts = countChanges(pending);
+  const imports = counts.import > 0 ? `${counts.import} to import, ` : '';
+  return [
+    'Terraform used the selected providers to generate the following execution',
+    'plan. Resource actions are indicated with the following symbols:',
+    ...actions.map(action => LEGEND[action]),
+    '',
+    'Terraform will perform the following actions:',
+    '',
+    ...pending.map(change => {
+      if (change.action === 'no-op') {
+        return `  # ${change.address} will be imported\n    resource "${change.type}" "${change.name}" {\n        id = ${formatValue(change.before?.id)}\n    }`;
+      }
+      return formatChange(change);
+    }).join('\n\n').split('\n'),
+    '',
+    `Plan: ${imports}${counts.add} to add, ${counts.change} to change, ${counts.destroy} to destroy.`,
+  ].join('\n');
+};
+
+// Renders an error the way terraform frames its diagnostics.
+export const formatDiagnostic = (error: TerraformError, severity = 'Error') => {
+  const lines = ['╷', `│ ${severity}: ${error.message}`];
+  if (error.location) {
+    lines.push('│ ', `│   on ${error.location.file} line ${error.location.line}:`);
+  }
+  if (error.detail) {
+    lines.push('│ ', ...error.detail.split('\n').map(line => `│ ${line}`));
+  }
+  lines.push('╵');
+  return lines.join('\n');
+};
+
+export const lockFile = () => `# This file is maintained automatically by "terraform init".
+# Manual edits may be lost in future updates.
+
+provider "${PROVIDER}" {
+  version     = "${PROVIDER_VERSION}"
+  constraints = ">= 1.0.0"
+  hashes = [
+    "h1:Qm9yYWQ3cmFmb3JtLWNsb3VkLXByb3ZpZGVyLXYxLjAuMA=",
+  ]
+}
+`;
@@ -0,0 +1,12 @@
+import { stripAnsi } from './ansi';
+import { createDefaultRegistry } from './commands';
+import { executeLine } from './interpreter';
+import { createInitialState } from './state';
+import type { SessionState } from './types';
+
+// Runs a line with the built-in commands and returns its output without colours,
+// along with the state it leaves behind.
+export const runLine = async (input: string, state: SessionState = createInitialState()) => {
+  const result = await executeLine(createDefaultRegistry(), input, state);
+  return { ...result, output: stripAnsi(result.output), state: result.update ? result.update(state) : state };
+};
@@ -0,0 +1,41 @@
+const UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Parses durations such as `90s`, `10m`, `1h30m` or a bare number of seconds.
+export const parseDuration = (value: string): number | null => {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return parseFloat(value) * 1000;
+  }
+  const parts = value.match(/\d+(?:\.\d+)?[smhd]/g);
+  if (!parts || parts.join('') !== value) {
+    return null;
+  }
+  return parts.reduce((total, part) => total + parseFloat(part) * UNITS[part[part.length - 1]], 0);
+};
+
+// Parses `--since` values: a duration back from `now` (`2h`, `1d`) or a date.
+export const parseSince = (value: string, now: number) => {
+  const duration = parseDuration(value);
+  if (duration !== null) {
+    return now - duration;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.min(date, now);
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return seconds % 60 ? `${minutes}m${seconds % 60}s` : `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h${minutes % 60}m` : `${hours}h`;
+};
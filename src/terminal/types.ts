@@ -0,0 +1,316 @@
+import type { DirectoryNode } from './fs';
+import type { CommandRegistry } from './registry';
+import type { Recording } from './recording';
+import type { ScenarioProgress } from './scenario';
+import type { CompoundCommand } from './shell/parser';
+
+export interface Command {
+  input: string;
+  output: string;
+  timestamp: string;
+  path: string;
+  // `user@host` when the command ran in an ssh session.
+  host?: string;
+}
+
+export const INSTANCE_TYPES = ['compute', 'database', 'storage', 'network', 'security'] as const;
+
+export type InstanceType = typeof INSTANCE_TYPES[number];
+
+export const INSTANCE_STATUSES = ['provisioning', 'staging', 'running', 'stopping', 'stopped', 'terminated', 'error'] as const;
+
+export type InstanceStatus = typeof INSTANCE_STATUSES[number];
+
+// One generation of an object in a bucket. Overwriting or deleting an object
+// retires its live generation, which a bucket with versioning on keeps.
+export interface StorageObject {
+  name: string;
+  generation: number;
+  content: string;
+  contentType: string;
+  // Custom metadata, set with `-h x-goog-meta-KEY:VALUE`.
+  metadata?: Record<string, string>;
+  createdAt: number;
+  // When it stopped being the live generation.
+  archivedAt?: number;
+}
+
+export interface Instance {
+  id: string;
+  name: string;
+  // Missing for buckets, which have no run state.
+  status?: InstanceStatus;
+  type: InstanceType;
+  transition?: { at: number };
+  simulateFailure?: boolean;
+  createdAt?: number;
+  zone?: string;
+  machineType?: string;
+  image?: string;
+  labels?: Record<string, string>;
+  // Network tags, which firewall rules can target.
+  tags?: string[];
+  network?: string;
+  subnet?: string;
+  // Internal address, assigned from the subnet at creation.
+  ip?: string;
+  // Periods spent running; the last one is open while the instance is up.
+  runs?: { start: number; end?: number }[];
+  // The instance's own disk, created on first login.
+  fs?: DirectoryNode;
+  // Storage instances are buckets: every generation of their objects, oldest first.
+  objects?: StorageObject[];
+  versioning?: boolean;
+}
+
+export interface GitRepo {
+  name: string;
+  url: string;
+  status: 'cloned' | 'initialized' | 'cloning' | 'error';
+  // Work tree the repository was created in.
+  path?: string;
+}
+
+export interface SSHKey {
+  name: string;
+  publicKey: string;
+  fingerprint: string;
+  created: string;
+  // Private key file the pair was written to; the public half is `${path}.pub`.
+  path?: string;
+}
+
+// An open ssh session. `parent` is the shell it was opened from, restored on exit.
+export interface Connection {
+  host: string;
+  user: string;
+  parent: Pick<SessionState, 'currentPath' | 'env' | 'vars' | 'fs'>;
+}
+
+export interface Network {
+  id: string;
+  name: string;
+  cidr: string;
+  createdAt: number;
+}
+
+// A regional range of a network that instances take their addresses from.
+export interface Subnet {
+  id: string;
+  name: string;
+  network: string;
+  region: string;
+  cidr: string;
+  createdAt: number;
+}
+
+export interface FirewallPermission {
+  protocol: 'tcp' | 'udp' | 'icmp' | 'all';
+  // Single ports or ranges such as `8000-8080`; empty means every port.
+  ports: string[];
+}
+
+// An ingress rule. Rules without target tags apply to every instance in the network.
+export interface FirewallRule {
+  id: string;
+  name: string;
+  network: string;
+  action: 'allow' | 'deny';
+  rules: FirewallPermission[];
+  sourceRanges: string[];
+  targetTags: string[];
+  // Lower numbers are evaluated first.
+  priority: number;
+  createdAt: number;
+}
+
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+// A local account. `root` is implicit and never listed.
+export interface User {
+  name: string;
+  groups: string[];
+  createdAt: number;
+}
+
+// Grants a user a role on one project.
+export interface RoleBinding {
+  user: string;
+  role: Role;
+  project: string;
+}
+
+// A shell opened with `su` (or for the length of a `sudo` command), and what
+// to restore when it exits.
+export interface Login {
+  user: string;
+  parent: Pick<SessionState, 'currentPath' | 'env' | 'vars'>;
+}
+
+// Something that changed in the session, as the activity log records it.
+// `actor` is the user whose command made the change, or `system` for the
+// simulation moving instances through their lifecycle.
+export type ActivityEvent = {
+  id: number;
+  time: number;
+  actor: string;
+  // The command line that made the change.
+  command?: string;
+} & (
+  | { type: 'instance.create'; instanceId: string; instance: string; instanceType: InstanceType; machineType: string; zone: string }
+  | { type: 'instance.start' | 'instance.stop' | 'instance.delete'; instanceId: string; instance: string }
+  // Transitions that follow on their own, such as staging to running, and removal once deleted.
+  | { type: 'instance.status'; instanceId: string; instance: string; from?: InstanceStatus; to: InstanceStatus | 'deleted' }
+  | { type: 'sshkey.add'; key: string; fingerprint: string }
+  | { type: 'sshkey.remove'; key: string }
+  | { type: 'repo.clone'; repo: string; url: string; path?: string }
+  | { type: 'repo.init'; repo: string; path?: string }
+  | { type: 'ssh.login' | 'ssh.logout'; host: string; user: string }
+  | { type: 'network.create' | 'network.delete' | 'subnet.create' | 'subnet.delete' | 'firewall.create' | 'firewall.delete'; name: string }
+  | { type: 'user.create'; user: string }
+  | { type: 'iam.grant' | 'iam.revoke'; user: string; role: Role; project: string }
+);
+
+export type ActivityType = ActivityEvent['type'];
+
+// A deleted instance, kept so the time it ran stays on the bill.
+export type UsageRecord = Pick<Instance, 'id' | 'name' | 'type' | 'machineType' | 'createdAt' | 'runs'> & { deletedAt: number };
+
+export interface Budget {
+  // Monthly amount in USD.
+  amount: number;
+  // Percentages of the amount that raise an alert when forecast spend reaches them.
+  thresholds: number[];
+  // Thresholds already alerted on in `month` (YYYY-MM).
+  alerted: number[];
+  month: string;
+}
+
+export interface SessionState {
+  currentPath: string;
+  instances: Instance[];
+  networks: Network[];
+  subnets: Subnet[];
+  firewallRules: FirewallRule[];
+  gitRepos: GitRepo[];
+  sshKeys: SSHKey[];
+  // Public keys of the identities loaded with ssh-add.
+  agent: string[];
+  connections: Connection[];
+  users: User[];
+  bindings: RoleBinding[];
+  // Innermost last; empty when acting as the default user.
+  logins: Login[];
+  // Append-only; see events.ts.
+  events: ActivityEvent[];
+  usage: UsageRecord[];
+  budget?: Budget;
+  // Messages raised by the simulation rather than a command, printed by the terminal as they arrive.
+  notices: string[];
+  history: string[];
+  env: Record<string, string>;
+  vars: Record<string, string>;
+  // Shell functions by name, kept parsed so they can be called from later lines.
+  functions: Record<string, CompoundCommand>;
+  fs: DirectoryNode;
+  lastExitCode: number;
+  // The guided scenario being played, if any.
+  scenario?: ScenarioProgress;
+  // Terminal output captured since `record start`.
+  recording?: Recording;
+}
+
+export type CommandCategory = 'system' | 'files' | 'text' | 'ssh' | 'git' | 'network' | 'cloud';
+
+export type StateUpdate = (state: SessionState) => SessionState;
+
+export interface CommandContext {
+  state: SessionState;
+  registry: CommandRegistry;
+  stdin: string;
+  // Set when stdin is one empty line, which `stdin: ''` can't tell apart from no input.
+  blankStdin?: boolean;
+  env: Record<string, string>;
+  // Applies a state change immediately, before the command finishes.
+  update: (update: StateUpdate) => void;
+  getState: () => SessionState;
+  // Lets simulated time pass until `predicate` holds; resolves false on timeout.
+  waitFor: (predicate: (state: SessionState) => boolean, timeoutMs?: number) => Promise<boolean>;
+  // Aborted when the user interrupts the running line (Ctrl+C).
+  signal: AbortSignal;
+  // Lets simulated time pass for `ms`; resolves false if interrupted.
+  sleep: (ms: number) => Promise<boolean>;
+  // Replaces the live output shown while the command is still running.
+  display: (output: string) => void;
+  // Asks the user a question and resolves with the answer, taken from stdin
+  // when input is piped in. Resolves null when nobody can answer.
+  prompt: (question: string) => Promise<string | null>;
+}
+
+export interface ExecutionOptions {
+  // When given, state changes are streamed here as they happen instead of
+  // being returned as a single `update` on the result.
+  onUpdate?: (update: StateUpdate) => void;
+  // Receives in-place output refreshes from long-running commands.
+  onDisplay?: (output: string) => void;
+  // Lets the user type an answer to a command's question.
+  onPrompt?: (question: string) => Promise<string>;
+  signal?: AbortSignal;
+  // Runs the input as a script: `$0` and `$1`... come from here, and `exit`
+  // ends the script rather than the ssh session.
+  script?: { name: string; args: string[] };
+}
+
+export type SessionEffect =
+  | { type: 'export-session'; filename: string }
+  | { type: 'import-session' }
+  | { type: 'reset-session' }
+  | { type: 'download-file'; filename: string; content: string; mimeType: string };
+
+export interface CommandResult {
+  output: string;
+  // Marks an empty `output` as one empty line rather than no output.
+  blankLine?: boolean;
+  error?: string;
+  exitCode?: number;
+  update?: StateUpdate;
+  clear?: boolean;
+  editor?: { path: string; content: string };
+  // Opens the replay player on an asciicast recording.
+  replay?: { path: string; content: string; speed: number };
+  effect?: SessionEffect;
+}
+
+export type CommandHandler = (
+  args: string[],
+  ctx: CommandContext
+) => CommandResult | Promise<CommandResult>;
+
+export interface CompletionContext {
+  state: SessionState;
+  registry: CommandRegistry;
+}
+
+// Receives the arguments typed so far (the last one is the word being
+// completed) and returns candidate words for that position.
+export type CommandCompleter = (args: string[], ctx: CompletionContext) => string[];
+
+export interface UsageLine {
+  usage: string;
+  description: string;
+}
+
+export interface CommandDefinition {
+  name: string;
+  category: CommandCategory;
+  summary: string;
+  usage: UsageLine[];
+  run: CommandHandler;
+  complete?: CommandCompleter;
+  // IAM permissions the given invocation needs; checked before `run`.
+  permissions?: (args: string[]) => string[];
+}
+
+export type CommandPlugin = (registry: CommandRegistry) => void;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml, YamlError } from './yaml';
+
+describe('parseYaml', () => {
+  it('reads mappings, sequences and scalars', () => {
+    expect(parseYaml([
+      'name: web',
+      'replicas: 3',
+      'enabled: true',
+      'ports:',
+      '  - 80',
+      '  - 443',
+      'labels: {app: web, tier: "front"}',
+      '# comment',
+      'empty: ""',
+    ].join('\n'))).toEqual({
+      name: 'web',
+      replicas: 3,
+      enabled: true,
+      ports: [80, 443],
+      labels: { app: 'web', tier: 'front' },
+      empty: '',
+    });
+  });
+
+  it('reads block scalars', () => {
+    expect(parseYaml('script: |\n  echo one\n  echo two\nfolded: >\n  a\n  b\n')).toEqual({
+      script: 'echo one\necho two\n',
+      folded: 'a b\n',
+    });
+  });
+
+  it('reports the failing line', () => {
+    expect(() => parseYaml('a: 1\nb: [1, 2')).toThrow(YamlError);
+    expect(() => parseYaml('a:\n\t- 1')).toThrow('line 2: tabs are not allowed for indentation');
+  });
+});
@@ -0,0 +1,289 @@
+// A YAML reader for the subset hand-written files use: block mappings and
+// sequences, flow `[...]` and `{...}` collections, quoted and plain scalars,
+// `|` and `>` block scalars, and comments. Anchors, tags and multi-document
+// streams are not supported.
+
+export class YamlError extends Error {
+  constructor(message: string, public line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+const KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{[\]}>|,-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)([\s\S]*)$/;
+const BLOCK_SCALAR = /^([|>])([-+]?)\s*(?:#.*)?$/;
+
+// Drops a trailing ` # comment` that is outside quotes.
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+};
+
+const plainScalar = (text: string): unknown => {
+  if (text === '' || text === '~' || text === 'null') {
+    return null;
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+};
+
+const unquote = (text: string, line: number) => {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new YamlError(`invalid double-quoted string ${text}`, line);
+    }
+  }
+  return text.slice(1, -1).replace(/''/g, "'");
+};
+
+// Parses a flow collection or scalar written on a single line.
+const parseFlow = (text: string, line: number): unknown => {
+  let position = 0;
+
+  const skipSpace = () => {
+    while (/\s/.test(text[position] ?? '')) {
+      position++;
+    }
+  };
+
+  const parseValue = (terminators: string): unknown => {
+    skipSpace();
+    const char = text[position];
+    if (char === '[') {
+      position++;
+      const items: unknown[] = [];
+      skipSpace();
+      while (text[position] !== ']') {
+        items.push(parseValue(',]'));
+        skipSpace();
+        if (text[position] === ',') {
+          position++;
+          skipSpace();
+        } else if (text[position] !== ']') {
+          throw new YamlError(`expected ',' or ']' in ${text}`, line);
+        }
+      }
+      position++;
+      return items;
+    }
+    if (char === '{') {
+      position++;
+      const entries: Record<string, unknown> = {};
+      skipSpace();
+      while (text[position] !== '}') {
+        const key = parseValue(':,}');
+        skipSpace();
+        if (text[position] !== ':') {
+          throw new YamlError(`expected ':' in ${text}`, line);
+        }
+        position++;
+        entries[String(key)] = parseValue(',}');
+        skipSpace();
+        if (text[position] === ',') {
+          position++;
+          skipSpace();
+        } else if (text[position] !== '}') {
+          throw new YamlError(`expected ',' or '}' in ${text}`, line);
+        }
+      }
+      position++;
+      return entries;
+    }
+    if (char === '"' || char === "'") {
+      const pattern = char === '"' ? /^"(?:[^"\\]|\\.)*"/ : /^'(?:[^']|'')*'/;
+      const match = pattern.exec(text.slice(position));
+      if (!match) {
+        throw new YamlError(`unterminated string in ${text}`, line);
+      }
+      position += match[0].length;
+      return unquote(match[0], line);
+    }
+    if (char === undefined) {
+      throw new YamlError(`unexpected end of ${text}`, line);
+    }
+    const start = position;
+    while (position < text.length && !terminators.includes(text[position])) {
+      position++;
+    }
+    return plainScalar(text.slice(start, position).trim());
+  };
+
+  const value = parseValue('');
+  skipSpace();
+  if (position < text.length) {
+    throw new YamlError(`unexpected '${text.slice(position)}'`, line);
+  }
+  return value;
+};
+
+const parseScalar = (text: string, line: number): unknown => {
+  if (/^["'[{]/.test(text)) {
+    return parseFlow(text, line);
+  }
+  return plainScalar(text);
+};
+
+export const parseYaml = (source: string): unknown => {
+  const raw = source.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+
+  // The next line with content, skipping blanks, comments and the `---` marker.
+  const peek = (): Line | undefined => {
+    while (index < raw.length) {
+      const text = raw[index];
+      const trimmed = text.trim();
+      if (trimmed === '' || trimmed.startsWith('#') || (trimmed === '---' && !text.startsWith(' '))) {
+        index++;
+        continue;
+      }
+      if (/^\s*\t/.test(text)) {
+        throw new YamlError('tabs are not allowed for indentation', index + 1);
+      }
+      const indent = text.length - text.trimStart().length;
+      return { number: index + 1, indent, text: stripComment(trimmed) };
+    }
+    return undefined;
+  };
+
+  const readBlockScalar = (style: string, chomping: string, parentIndent: number) => {
+    const lines: string[] = [];
+    let indent: number | null = null;
+    while (index < raw.length) {
+      const text = raw[index];
+      if (text.trim() === '') {
+        lines.push('');
+        index++;
+        continue;
+      }
+      const current = text.length - text.trimStart().length;
+      indent ??= current;
+      if (current < indent || current <= parentIndent) {
+        break;
+      }
+      lines.push(text.slice(indent));
+      index++;
+    }
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+    // Folding joins lines with spaces; each blank line becomes a line break.
+    let body = style === '|'
+      ? lines.join('\n')
+      : lines.reduce((folded, line, i) => {
+        if (i === 0) {
+          return line;
+        }
+        if (line === '') {
+          return `${folded}\n`;
+        }
+        return lines[i - 1] === '' ? `${folded}${line}` : `${folded} ${line}`;
+      }, '');
+    if (chomping === '+') {
+      body += '\n'.repeat(trailing + 1);
+    } else if (chomping !== '-' && body) {
+      body += '\n';
+    }
+    return body;
+  };
+
+  // The value after `key:` or `- `: inline, a block scalar, or a nested block on the following lines.
+  const parseValue = (rest: string, line: Line, parentIndent: number): unknown => {
+    const block = BLOCK_SCALAR.exec(rest);
+    if (block) {
+      return readBlockScalar(block[1], block[2], parentIndent);
+    }
+    if (rest !== '') {
+      return parseScalar(rest, line.number);
+    }
+    const next = peek();
+    if (next && (next.indent > parentIndent || (next.indent === parentIndent && /^-(\s|$)/.test(next.text)))) {
+      return parseNode(next.indent);
+    }
+    return null;
+  };
+
+  const parseMapping = (indent: number, first?: Line): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+    for (let line = first ?? peek(); line && line.indent === indent; line = peek()) {
+      const match = KEY.exec(line.text);
+      if (!match) {
+        throw new YamlError(`expected 'key: value', found '${line.text}'`, line.number);
+      }
+      const key = /^["']/.test(match[1]) ? unquote(match[1], line.number) : match[1];
+      if (key in mapping) {
+        throw new YamlError(`duplicate key '${key}'`, line.number);
+      }
+      index = line.number;
+      mapping[key] = parseValue(match[2], line, indent);
+    }
+    return mapping;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    for (let line = peek(); line && line.indent === indent && /^-(\s|$)/.test(line.text); line = peek()) {
+      const item = line.text.slice(1).trimStart();
+      const offset = line.text.length - item.length;
+      index = line.number;
+      if (KEY.test(item) && !/^["'[{]/.test(item)) {
+        // `- key: value` starts a mapping indented to where `key` begins.
+        items.push(parseMapping(indent + offset, { number: line.number, indent: indent + offset, text: item }));
+      } else {
+        items.push(parseValue(item, line, indent));
+      }
+    }
+    return items;
+  };
+
+  const parseNode = (indent: number): unknown => {
+    const line = peek()!;
+    if (/^-(\s|$)/.test(line.text)) {
+      return parseSequence(indent);
+    }
+    if (KEY.test(line.text) && !/^["'[{]/.test(line.text)) {
+      return parseMapping(indent);
+    }
+    index = line.number;
+    return parseScalar(line.text, line.number);
+  };
+
+  const first = peek();
+  if (!first) {
+    return null;
+  }
+  const value = parseNode(first.indent);
+  const rest = peek();
+  if (rest) {
+    throw new YamlError(`unexpected '${rest.text}' (check the indentation)`, rest.number);
+  }
+  return value;
+};